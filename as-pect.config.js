@@ -18,6 +18,57 @@ function log(text, memory) {
     console.log(`CONTRACT LOG: ${text}`);
 }
 
+function readBytes(memory, ptr, len) {
+    return new Uint8Array(memory.buffer, ptr, len).slice();
+}
+
+function toHex(bytes) {
+    return Buffer.from(bytes).toString('hex');
+}
+
+/**
+ * Host state shared by contract tests: account types, mocked call responses and the
+ * transaction inputs and outputs. Tests drive it through the `testing` imports declared
+ * in tests/utils/TestHost.ts.
+ */
+function createHost() {
+    return {
+        accountTypes: new Map(),
+        callMocks: new Map(),
+        calls: new Map(),
+        lastResult: new Uint8Array(0),
+        inputs: new Uint8Array(2),
+        outputs: new Uint8Array(2),
+        signaturesValid: false,
+
+        callKey(address, selector) {
+            return `${toHex(address)}:${selector >>> 0}`;
+        },
+
+        call(address, calldata) {
+            const selector = calldata.length >= 4 ? new DataView(calldata.buffer).getUint32(0) : 0;
+            const key = this.callKey(address, selector);
+
+            const calls = this.calls.get(key) ?? [];
+            calls.push(calldata);
+            this.calls.set(key, calls);
+
+            const mock = this.callMocks.get(key) ??
+                this.callMocks.get(this.callKey(address, 0)) ?? {
+                    status: 0,
+                    data: new Uint8Array(0),
+                };
+            this.lastResult = mock.data;
+            return mock.status;
+        },
+
+        lastCall(address, selector) {
+            const calls = this.calls.get(this.callKey(address, selector)) ?? [];
+            return calls.length > 0 ? calls[calls.length - 1] : new Uint8Array(0);
+        },
+    };
+}
+
 export default {
     /**
      * A set of globs passed to the glob package that qualify typescript files for testing.
@@ -39,6 +90,7 @@ export default {
      */
     async instantiate(memory, createImports, instantiate, binary) {
         let memory2;
+        const host = createHost();
         const resp = instantiate(
             binary,
             createImports({
@@ -55,14 +107,107 @@ export default {
                         resultView.set(hashBuffer);
                     },
 
+                    ripemd160: (data_ptr, data_length, result_ptr) => {
+                        const data = new Uint8Array(memory2.buffer, data_ptr, data_length);
+                        const hashBuffer = crypto.createHash('ripemd160').update(data).digest();
+                        const resultView = new Uint8Array(memory2.buffer, result_ptr, 20);
+                        resultView.set(hashBuffer);
+                    },
+
                     load(ptr, len) {},
                     store(ptr, len) {},
                     pStore(ptr, len) {},
                     pLoad(ptr, len) {},
                     deployContractByAddress(ptr, len) {},
-                    accountType(ptr, len) {},
+                    accountType: (address_ptr) => {
+                        return (
+                            host.accountTypes.get(toHex(readBytes(memory2, address_ptr, 32))) ?? 0
+                        );
+                    },
                     emit(ptr, len) {},
                     updateFromAddress(ptr, len) {},
+                    loadMLDSA(ptr, result_ptr) {},
+
+                    call: (address_ptr, calldata_ptr, calldata_length, result_length_ptr) => {
+                        const status = host.call(
+                            readBytes(memory2, address_ptr, 32),
+                            readBytes(memory2, calldata_ptr, calldata_length),
+                        );
+                        new DataView(memory2.buffer).setUint32(
+                            result_length_ptr,
+                            host.lastResult.length,
+                        );
+                        return status;
+                    },
+
+                    callResult: (offset, length, result_ptr) => {
+                        const resultView = new Uint8Array(memory2.buffer, result_ptr, length);
+                        resultView.set(host.lastResult.subarray(offset, offset + length));
+                    },
+
+                    exit: (status, data_ptr, data_length) => {
+                        throw new Error(`Execution reverted with status ${status}`);
+                    },
+
+                    inputsSize: () => host.inputs.length,
+                    inputs: (result_ptr) => {
+                        new Uint8Array(memory2.buffer, result_ptr, host.inputs.length).set(
+                            host.inputs,
+                        );
+                    },
+                    outputsSize: () => host.outputs.length,
+                    outputs: (result_ptr) => {
+                        new Uint8Array(memory2.buffer, result_ptr, host.outputs.length).set(
+                            host.outputs,
+                        );
+                    },
+
+                    verifySignature: (public_key_ptr, signature_ptr, message_ptr) => {
+                        return host.signaturesValid ? 1 : 0;
+                    },
+                },
+
+                testing: {
+                    setAccountType: (address_ptr, type) => {
+                        host.accountTypes.set(toHex(readBytes(memory2, address_ptr, 32)), type);
+                    },
+                    mockCall: (address_ptr, selector, status, data_ptr, data_length) => {
+                        host.callMocks.set(
+                            host.callKey(readBytes(memory2, address_ptr, 32), selector),
+                            { status, data: readBytes(memory2, data_ptr, data_length) },
+                        );
+                    },
+                    clearMocks: () => {
+                        host.accountTypes.clear();
+                        host.callMocks.clear();
+                        host.calls.clear();
+                        host.inputs = new Uint8Array(2);
+                        host.outputs = new Uint8Array(2);
+                        host.signaturesValid = false;
+                    },
+                    callCount: (address_ptr, selector) => {
+                        const key = host.callKey(readBytes(memory2, address_ptr, 32), selector);
+                        return (host.calls.get(key) ?? []).length;
+                    },
+                    lastCallLength: (address_ptr, selector) => {
+                        return host.lastCall(readBytes(memory2, address_ptr, 32), selector).length;
+                    },
+                    lastCall: (address_ptr, selector, result_ptr) => {
+                        const calldata = host.lastCall(
+                            readBytes(memory2, address_ptr, 32),
+                            selector,
+                        );
+                        new Uint8Array(memory2.buffer, result_ptr, calldata.length).set(calldata);
+                    },
+                    setInputs: (data_ptr, data_length) => {
+                        host.inputs = readBytes(memory2, data_ptr, data_length);
+                    },
+                    setOutputs: (data_ptr, data_length) => {
+                        host.outputs = readBytes(memory2, data_ptr, data_length);
+                    },
+                    setSignaturesValid: (valid) => {
+                        host.signaturesValid = valid !== 0;
+                    },
                 },
             }),
         );
@@ -13,6 +13,18 @@ export const ALLOWANCE_DECREASE_TYPE_HASH: u8[] = [
     0x2a, 0x59, 0xda, 0x1d, 0x28, 0x22, 0x41, 0xc9, 0x3f, 0xf1, 0xba, 0x6a, 0xf0, 0x98, 0xfc, 0xd0,
 ];
 
+// sha256("OP20Transfer(address owner,address to,uint256 amount,uint256 nonce,uint64 deadline)")
+export const OP20_TRANSFER_TYPE_HASH: u8[] = [
+    0xbe, 0x0b, 0x3b, 0xca, 0x3f, 0x39, 0x9f, 0xd8, 0x9c, 0xf9, 0x13, 0x57, 0x6a, 0x82, 0xd1, 0x57,
+    0x3f, 0xd8, 0xd8, 0xd9, 0xb2, 0x57, 0x44, 0x39, 0x95, 0xbd, 0xe9, 0xb4, 0x2b, 0x6c, 0x95, 0x5a,
+];
+
+// sha256("OP20TransferFrom(address spender,address from,address to,uint256 amount,uint256 nonce,uint64 deadline)")
+export const OP20_TRANSFER_FROM_TYPE_HASH: u8[] = [
+    0x68, 0xa4, 0x72, 0x88, 0x08, 0xb0, 0x6f, 0x42, 0xc5, 0x6d, 0x19, 0x95, 0xbe, 0x7a, 0x00, 0x02,
+    0xd1, 0xd2, 0x76, 0x72, 0xba, 0xf7, 0x68, 0x97, 0xc8, 0x64, 0xc9, 0xf6, 0xca, 0x96, 0x95, 0x1d,
+];
+
 // onOP721Received(address,address,uint256,bytes)
 export const ON_OP721_RECEIVED_SELECTOR: u32 = 0x5349f6de;
 
@@ -49,6 +61,27 @@ export const OP721_TRANSFER_TYPE_HASH: u8[] = [
     0x64, 0xab, 0xa6, 0xaf, 0x68, 0x51, 0x03, 0xfe, 0xc4, 0xae, 0x12, 0xd7, 0xa6, 0xa9, 0xb2, 0x0f,
 ];
 
+// onOP1155Received(address,address,uint256,uint256,bytes)
+export const ON_OP1155_RECEIVED_SELECTOR: u32 = 0xcedc9fdf;
+
+// onOP1155BatchReceived(address,address,uint256[],uint256[],bytes)
+export const ON_OP1155_BATCH_RECEIVED_SELECTOR: u32 = 0x5d95545f;
+
+// onFlashLoan(address,uint256,uint256,bytes)
+export const ON_FLASH_LOAN_SELECTOR: u32 = 0x1aa4d47d;
+
+// sha256("OP1155ApprovalForAll(address owner,address spender,bool approved,uint256 nonce,uint64 deadline)")
+export const OP1155_APPROVAL_FOR_ALL_TYPE_HASH: u8[] = [
+    0x15, 0xcc, 0x4b, 0x7d, 0x03, 0x19, 0x00, 0x0e, 0xd8, 0xa4, 0x77, 0x6c, 0x54, 0xb4, 0x35, 0x6f,
+    0xfb, 0xfc, 0x82, 0xf8, 0x2f, 0x88, 0xd6, 0x3f, 0x27, 0x33, 0x2b, 0xeb, 0x93, 0xf0, 0xe0, 0x79,
+];
+
+// sha256("OP20Delegation(address delegator,address delegatee,uint256 nonce,uint64 deadline)")
+export const OP20_DELEGATION_TYPE_HASH: u8[] = [
+    0x1b, 0x19, 0x6e, 0xd9, 0x1c, 0xdf, 0x26, 0xe9, 0x6b, 0x5b, 0x7f, 0x2d, 0xaa, 0xb3, 0x2e, 0xd1,
+    0x0a, 0xe8, 0x65, 0xa3, 0x38, 0x46, 0xd8, 0xbd, 0x43, 0xc2, 0x93, 0xe6, 0x47, 0x8a, 0x2f, 0x07,
+];
+
 export const BALANCE_OF_SELECTOR: u32 = 0x5b46f8f6; // "balanceOf(address)"
 export const ALLOWANCE_SELECTOR: u32 = 0xd864b7ca; // "allowance(address,address)"
 export const TOTAL_SUPPLY_SELECTOR: u32 = 0xa368022e; // "totalSupply()"
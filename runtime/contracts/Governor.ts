@@ -0,0 +1,762 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { sha256, sha256String } from '../env/global';
+import {
+    ProposalCanceledEvent,
+    ProposalCreatedEvent,
+    ProposalExecutedEvent,
+    ProposalQueuedEvent,
+    VoteCastEvent,
+} from '../events/governance/GovernorEvents';
+import { EMPTY_POINTER } from '../math/bytes';
+import { StoredAddress } from '../storage/StoredAddress';
+import { StoredU256 } from '../storage/StoredU256';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    SELECTOR_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+    U8_BYTE_LENGTH,
+} from '../utils';
+import { GovernorInitParameters } from './interfaces/GovernorInitParameters';
+import { IGovernor } from './interfaces/IGovernor';
+import { GET_PAST_TOTAL_SUPPLY_SELECTOR, GET_PAST_VOTES_SELECTOR } from './OP20Votes';
+import { OP_NET } from './OP_NET';
+
+/**
+ * Lifecycle of a proposal, as returned by state().
+ */
+export enum ProposalState {
+    Pending = 0,
+    Active = 1,
+    Canceled = 2,
+    Defeated = 3,
+    Succeeded = 4,
+    Queued = 5,
+    Executed = 6,
+}
+
+/**
+ * Vote options accepted by castVote().
+ */
+export enum VoteType {
+    Against = 0,
+    For = 1,
+    Abstain = 2,
+}
+
+const PROPOSAL_CANCELED: u256 = u256.One;
+const PROPOSAL_EXECUTED: u256 = u256.fromU32(2);
+
+const tokenPointer: u16 = Blockchain.nextPointer;
+const votingDelayPointer: u16 = Blockchain.nextPointer;
+const votingPeriodPointer: u16 = Blockchain.nextPointer;
+const proposalThresholdPointer: u16 = Blockchain.nextPointer;
+const quorumNumeratorPointer: u16 = Blockchain.nextPointer;
+const timelockDelayPointer: u16 = Blockchain.nextPointer;
+const proposalProposerPointer: u16 = Blockchain.nextPointer;
+const proposalVoteStartPointer: u16 = Blockchain.nextPointer;
+const proposalVoteEndPointer: u16 = Blockchain.nextPointer;
+const proposalEtaPointer: u16 = Blockchain.nextPointer;
+const proposalStatusPointer: u16 = Blockchain.nextPointer;
+const againstVotesPointer: u16 = Blockchain.nextPointer;
+const forVotesPointer: u16 = Blockchain.nextPointer;
+const abstainVotesPointer: u16 = Blockchain.nextPointer;
+const hasVotedPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * Governor - Base contract for on-chain governance.
+ *
+ * Holders of an OP20Votes token propose a list of (target, calldata) actions, vote on it,
+ * and execute it once it passed:
+ * 1. propose() - Opens a proposal; voting starts `votingDelay` blocks later
+ * 2. castVote() - Votes with the weight the voter had when voting started
+ * 3. queue() - Queues a succeeded proposal behind the timelock
+ * 4. executeProposal() - Runs every action through Blockchain.call once the timelock passed
+ *
+ * Votes are read from the token with getPastVotes(), so tokens moved after voting started
+ * cannot be used to vote twice. A proposal succeeds when more votes are for it than against
+ * it, and For plus Abstain votes reach `quorumNumerator` percent of the total supply at the
+ * start of the vote.
+ *
+ * Proposals never store their actions. queue() and executeProposal() take the same targets,
+ * calldatas and description hash as propose() and check them against the proposal id.
+ *
+ * @remarks
+ * To let governance upgrade the governor itself, register a GovernedUpdatablePlugin; its update
+ * methods then only accept calls the governor makes while executing a proposal. Other
+ * contracts can be governed by transferring their OwnablePlugin to the governor, which makes
+ * it the update authority of their UpdatablePlugin.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyGovernor extends Governor {
+ *     public constructor() {
+ *         super();
+ *         this.registerPlugin(new GovernedUpdatablePlugin(144));
+ *     }
+ *
+ *     public override onDeployment(calldata: Calldata): void {
+ *         super.onDeployment(calldata);
+ *         this.instantiate(
+ *             new GovernorInitParameters(
+ *                 calldata.readAddress(), // OP20Votes token
+ *                 144, // voting starts ~1 day after proposing
+ *                 1008, // and lasts ~1 week
+ *                 u256.fromU64(1000), // votes needed to propose
+ *                 4, // 4% quorum
+ *                 288, // ~2 day timelock
+ *             ),
+ *         );
+ *     }
+ * }
+ * ```
+ */
+export abstract class Governor extends OP_NET implements IGovernor {
+    /** OP20Votes token whose past votes are counted. */
+    protected readonly _token: StoredAddress;
+
+    /** Blocks between proposing and the start of voting. */
+    protected readonly _votingDelay: StoredU256;
+
+    /** Number of blocks voting stays open. */
+    protected readonly _votingPeriod: StoredU256;
+
+    /** Votes a proposer needs to create a proposal. */
+    protected readonly _proposalThreshold: StoredU256;
+
+    /** Quorum as a percentage of the past total supply. */
+    protected readonly _quorumNumerator: StoredU256;
+
+    /** Blocks a queued proposal waits before it can be executed. */
+    protected readonly _timelockDelay: StoredU256;
+
+    /** Mapping of proposal id -> proposer address. */
+    protected readonly proposalProposerMap: StoredMapU256;
+
+    /** Mapping of proposal id -> block at which voting starts. */
+    protected readonly proposalVoteStartMap: StoredMapU256;
+
+    /** Mapping of proposal id -> last block of the voting period. */
+    protected readonly proposalVoteEndMap: StoredMapU256;
+
+    /** Mapping of proposal id -> block from which a queued proposal can be executed. */
+    protected readonly proposalEtaMap: StoredMapU256;
+
+    /** Mapping of proposal id -> canceled/executed flag. */
+    protected readonly proposalStatusMap: StoredMapU256;
+
+    protected readonly againstVotesMap: StoredMapU256;
+    protected readonly forVotesMap: StoredMapU256;
+    protected readonly abstainVotesMap: StoredMapU256;
+
+    /** Mapping of sha256(proposal id, voter) -> 1 once the voter voted. */
+    protected readonly hasVotedMap: StoredMapU256;
+
+    public constructor() {
+        super();
+
+        this._token = new StoredAddress(tokenPointer);
+        this._votingDelay = new StoredU256(votingDelayPointer, EMPTY_POINTER);
+        this._votingPeriod = new StoredU256(votingPeriodPointer, EMPTY_POINTER);
+        this._proposalThreshold = new StoredU256(proposalThresholdPointer, EMPTY_POINTER);
+        this._quorumNumerator = new StoredU256(quorumNumeratorPointer, EMPTY_POINTER);
+        this._timelockDelay = new StoredU256(timelockDelayPointer, EMPTY_POINTER);
+
+        this.proposalProposerMap = new StoredMapU256(proposalProposerPointer);
+        this.proposalVoteStartMap = new StoredMapU256(proposalVoteStartPointer);
+        this.proposalVoteEndMap = new StoredMapU256(proposalVoteEndPointer);
+        this.proposalEtaMap = new StoredMapU256(proposalEtaPointer);
+        this.proposalStatusMap = new StoredMapU256(proposalStatusPointer);
+        this.againstVotesMap = new StoredMapU256(againstVotesPointer);
+        this.forVotesMap = new StoredMapU256(forVotesPointer);
+        this.abstainVotesMap = new StoredMapU256(abstainVotesPointer);
+        this.hasVotedMap = new StoredMapU256(hasVotedPointer);
+    }
+
+    /**
+     * Initializes governance parameters. Can only be called once.
+     *
+     * @param params - Governance initialization parameters
+     * @param skipDeployerVerification - If true, skips deployer check (use with caution)
+     *
+     * @throws {Revert} If already initialized
+     * @throws {Revert} If the token is the zero address
+     * @throws {Revert} If the voting period is zero
+     * @throws {Revert} If the quorum numerator is above 100
+     * @throws {Revert} If caller is not deployer (unless skipped)
+     */
+    public instantiate(
+        params: GovernorInitParameters,
+        skipDeployerVerification: boolean = false,
+    ): void {
+        if (!this._token.value.isZero()) throw new Revert('Already initialized');
+        if (!skipDeployerVerification) this.onlyDeployer(Blockchain.tx.sender);
+        if (params.token.isZero()) throw new Revert('Invalid token');
+        if (params.votingPeriod == 0) throw new Revert('Invalid voting period');
+        if (params.quorumNumerator > 100) throw new Revert('Quorum numerator > 100');
+
+        this._token.value = params.token;
+        this._votingDelay.value = u256.fromU64(params.votingDelay);
+        this._votingPeriod.value = u256.fromU64(params.votingPeriod);
+        this._proposalThreshold.value = params.proposalThreshold;
+        this._quorumNumerator.value = u256.fromU64(params.quorumNumerator);
+        this._timelockDelay.value = u256.fromU64(params.timelockDelay);
+    }
+
+    /**
+     * Creates a proposal.
+     *
+     * @param calldata - Contains targets, calldatas and the proposal description
+     * @returns Proposal id
+     * @emits ProposalCreated event
+     *
+     * @throws {Revert} If the actions are empty or mismatched
+     * @throws {Revert} If the proposer's votes are below the proposal threshold
+     * @throws {Revert} If the same proposal already exists
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'calldatas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'description', type: ABIDataTypes.STRING },
+    )
+    @returns({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @emit('ProposalCreated')
+    public propose(calldata: Calldata): BytesWriter {
+        const targets = calldata.readAddressArray();
+        const calldatas = calldata.readArrayOfBuffer();
+        const description = calldata.readStringWithLength();
+
+        const proposalId = this._propose(
+            Blockchain.tx.sender,
+            targets,
+            calldatas,
+            sha256String(description),
+        );
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(proposalId);
+        return w;
+    }
+
+    /**
+     * Casts a vote on an active proposal.
+     *
+     * @param calldata - Contains the proposal id and the vote type (0 = Against, 1 = For, 2 = Abstain)
+     * @returns Weight of the vote
+     * @emits VoteCast event
+     *
+     * @throws {Revert} If voting is not open or the caller already voted
+     */
+    @method(
+        { name: 'proposalId', type: ABIDataTypes.UINT256 },
+        { name: 'support', type: ABIDataTypes.UINT8 },
+    )
+    @returns({ name: 'weight', type: ABIDataTypes.UINT256 })
+    @emit('VoteCast')
+    public castVote(calldata: Calldata): BytesWriter {
+        const proposalId = calldata.readU256();
+        const support = calldata.readU8();
+
+        const weight = this._castVote(proposalId, Blockchain.tx.sender, support);
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(weight);
+        return w;
+    }
+
+    /**
+     * Queues a succeeded proposal behind the timelock.
+     *
+     * @param calldata - Contains the proposal targets, calldatas and description hash
+     * @returns Proposal id
+     * @emits ProposalQueued event
+     *
+     * @throws {Revert} If the proposal has not succeeded
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'calldatas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'descriptionHash', type: ABIDataTypes.BYTES32 },
+    )
+    @returns({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @emit('ProposalQueued')
+    public queue(calldata: Calldata): BytesWriter {
+        const proposalId = this._hashProposal(
+            calldata.readAddressArray(),
+            calldata.readArrayOfBuffer(),
+            calldata.readBytes(32),
+        );
+
+        this._queue(proposalId);
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(proposalId);
+        return w;
+    }
+
+    /**
+     * Executes a queued proposal once its timelock has passed.
+     *
+     * @param calldata - Contains the proposal targets, calldatas and description hash
+     * @returns Proposal id
+     * @emits ProposalExecuted event
+     *
+     * @throws {Revert} If the proposal is not queued or the timelock has not passed
+     * @throws {Revert} If any action reverts
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'calldatas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'descriptionHash', type: ABIDataTypes.BYTES32 },
+    )
+    @returns({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @emit('ProposalExecuted')
+    public executeProposal(calldata: Calldata): BytesWriter {
+        const targets = calldata.readAddressArray();
+        const calldatas = calldata.readArrayOfBuffer();
+        const descriptionHash = calldata.readBytes(32);
+
+        const proposalId = this._hashProposal(targets, calldatas, descriptionHash);
+        this._executeProposal(proposalId, targets, calldatas);
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(proposalId);
+        return w;
+    }
+
+    /**
+     * Cancels a proposal before voting starts. Only the proposer can cancel.
+     *
+     * @param calldata - Contains the proposal targets, calldatas and description hash
+     * @returns Proposal id
+     * @emits ProposalCanceled event
+     *
+     * @throws {Revert} If the caller is not the proposer or voting already started
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'calldatas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'descriptionHash', type: ABIDataTypes.BYTES32 },
+    )
+    @returns({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @emit('ProposalCanceled')
+    public cancel(calldata: Calldata): BytesWriter {
+        const proposalId = this._hashProposal(
+            calldata.readAddressArray(),
+            calldata.readArrayOfBuffer(),
+            calldata.readBytes(32),
+        );
+
+        if (!this._proposalProposer(proposalId).equals(Blockchain.tx.sender)) {
+            throw new Revert('Only proposer can cancel');
+        }
+
+        if (this._state(proposalId) !== ProposalState.Pending) {
+            throw new Revert('Proposal is not pending');
+        }
+
+        this._cancel(proposalId);
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(proposalId);
+        return w;
+    }
+
+    /**
+     * Returns the current state of a proposal.
+     *
+     * @param calldata - Contains the proposal id
+     * @returns ProposalState value
+     *
+     * @throws {Revert} If the proposal does not exist
+     */
+    @method({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'state', type: ABIDataTypes.UINT8 })
+    public state(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U8_BYTE_LENGTH);
+        w.writeU8(<u8>this._state(calldata.readU256()));
+        return w;
+    }
+
+    /**
+     * Returns the proposer, voting window and timelock eta of a proposal.
+     *
+     * @param calldata - Contains the proposal id
+     * @returns Proposer, vote start, vote end and eta (zero until queued)
+     */
+    @method({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'proposer', type: ABIDataTypes.ADDRESS },
+        { name: 'voteStart', type: ABIDataTypes.UINT64 },
+        { name: 'voteEnd', type: ABIDataTypes.UINT64 },
+        { name: 'eta', type: ABIDataTypes.UINT64 },
+    )
+    public proposal(calldata: Calldata): BytesWriter {
+        const proposalId = calldata.readU256();
+
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH * 3);
+        w.writeAddress(this._proposalProposer(proposalId));
+        w.writeU64(this.proposalVoteStartMap.get(proposalId).toU64());
+        w.writeU64(this.proposalVoteEndMap.get(proposalId).toU64());
+        w.writeU64(this.proposalEtaMap.get(proposalId).toU64());
+        return w;
+    }
+
+    /**
+     * Returns the vote tally of a proposal.
+     *
+     * @param calldata - Contains the proposal id
+     * @returns Against, For and Abstain votes
+     */
+    @method({ name: 'proposalId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'againstVotes', type: ABIDataTypes.UINT256 },
+        { name: 'forVotes', type: ABIDataTypes.UINT256 },
+        { name: 'abstainVotes', type: ABIDataTypes.UINT256 },
+    )
+    public proposalVotes(calldata: Calldata): BytesWriter {
+        const proposalId = calldata.readU256();
+
+        const w = new BytesWriter(U256_BYTE_LENGTH * 3);
+        w.writeU256(this.againstVotesMap.get(proposalId));
+        w.writeU256(this.forVotesMap.get(proposalId));
+        w.writeU256(this.abstainVotesMap.get(proposalId));
+        return w;
+    }
+
+    /**
+     * Returns whether an account voted on a proposal.
+     *
+     * @param calldata - Contains the proposal id and the account
+     * @returns True if the account voted
+     */
+    @method(
+        { name: 'proposalId', type: ABIDataTypes.UINT256 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'voted', type: ABIDataTypes.BOOL })
+    public hasVoted(calldata: Calldata): BytesWriter {
+        const proposalId = calldata.readU256();
+        const account = calldata.readAddress();
+
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(this._hasVoted(proposalId, account));
+        return w;
+    }
+
+    /**
+     * Returns the votes needed for a proposal whose voting started at `blockNumber`.
+     *
+     * @param calldata - Contains the block number
+     * @returns Quorum at that block
+     */
+    @method({ name: 'blockNumber', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'quorum', type: ABIDataTypes.UINT256 })
+    public quorum(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._quorum(calldata.readU64()));
+        return w;
+    }
+
+    /**
+     * Returns the governance parameters.
+     *
+     * @returns Token, voting delay, voting period, proposal threshold, quorum numerator and timelock delay
+     */
+    @method()
+    @returns(
+        { name: 'token', type: ABIDataTypes.ADDRESS },
+        { name: 'votingDelay', type: ABIDataTypes.UINT64 },
+        { name: 'votingPeriod', type: ABIDataTypes.UINT64 },
+        { name: 'proposalThreshold', type: ABIDataTypes.UINT256 },
+        { name: 'quorumNumerator', type: ABIDataTypes.UINT64 },
+        { name: 'timelockDelay', type: ABIDataTypes.UINT64 },
+    )
+    public governanceSettings(_: Calldata): BytesWriter {
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH * 4 + U256_BYTE_LENGTH);
+        w.writeAddress(this._token.value);
+        w.writeU64(this._votingDelay.value.toU64());
+        w.writeU64(this._votingPeriod.value.toU64());
+        w.writeU256(this._proposalThreshold.value);
+        w.writeU64(this._quorumNumerator.value.toU64());
+        w.writeU64(this._timelockDelay.value.toU64());
+        return w;
+    }
+
+    /**
+     * Reverts unless the call comes from the governor itself, i.e. from an action of a
+     * proposal being executed. Use this to gate methods that only governance may call.
+     */
+    public onlyGovernance(): void {
+        if (!Blockchain.tx.sender.equals(this.address)) {
+            throw new Revert('Only governance can call this method');
+        }
+    }
+
+    /**
+     * Internal: Creates a proposal after checking the proposer's votes.
+     * @protected
+     */
+    protected _propose(
+        proposer: Address,
+        targets: Address[],
+        calldatas: Uint8Array[],
+        descriptionHash: Uint8Array,
+    ): u256 {
+        if (targets.length === 0) {
+            throw new Revert('Empty proposal');
+        }
+        if (targets.length !== calldatas.length) {
+            throw new Revert('Invalid proposal length');
+        }
+
+        const currentBlock = Blockchain.block.number;
+        const proposerVotes = this._getPastVotes(proposer, currentBlock - 1);
+        if (proposerVotes < this._proposalThreshold.value) {
+            throw new Revert('Proposer votes below threshold');
+        }
+
+        const proposalId = this._hashProposal(targets, calldatas, descriptionHash);
+        if (!this.proposalVoteStartMap.get(proposalId).isZero()) {
+            throw new Revert('Proposal already exists');
+        }
+
+        const voteStart = currentBlock + this._votingDelay.value.toU64();
+        const voteEnd = voteStart + this._votingPeriod.value.toU64();
+
+        this.proposalProposerMap.set(proposalId, u256.fromUint8ArrayBE(proposer));
+        this.proposalVoteStartMap.set(proposalId, u256.fromU64(voteStart));
+        this.proposalVoteEndMap.set(proposalId, u256.fromU64(voteEnd));
+
+        this.emitEvent(
+            new ProposalCreatedEvent(proposalId, proposer, voteStart, voteEnd, descriptionHash),
+        );
+
+        return proposalId;
+    }
+
+    /**
+     * Internal: Records a vote with the voter's weight at the start of voting.
+     * @protected
+     */
+    protected _castVote(proposalId: u256, voter: Address, support: u8): u256 {
+        if (this._state(proposalId) !== ProposalState.Active) {
+            throw new Revert('Proposal is not active');
+        }
+
+        const votedKey = this._hasVotedKey(proposalId, voter);
+        if (!this.hasVotedMap.get(votedKey).isZero()) {
+            throw new Revert('Already voted');
+        }
+
+        const weight = this._getPastVotes(voter, this.proposalVoteStartMap.get(proposalId).toU64());
+
+        let tally: StoredMapU256;
+        if (support === <u8>VoteType.Against) {
+            tally = this.againstVotesMap;
+        } else if (support === <u8>VoteType.For) {
+            tally = this.forVotesMap;
+        } else if (support === <u8>VoteType.Abstain) {
+            tally = this.abstainVotesMap;
+        } else {
+            throw new Revert('Invalid vote type');
+        }
+
+        this.hasVotedMap.set(votedKey, u256.One);
+        tally.set(proposalId, SafeMath.add(tally.get(proposalId), weight));
+
+        this.emitEvent(new VoteCastEvent(voter, proposalId, support, weight));
+
+        return weight;
+    }
+
+    /**
+     * Internal: Queues a succeeded proposal.
+     * @protected
+     */
+    protected _queue(proposalId: u256): void {
+        if (this._state(proposalId) !== ProposalState.Succeeded) {
+            throw new Revert('Proposal has not succeeded');
+        }
+
+        const eta = Blockchain.block.number + this._timelockDelay.value.toU64();
+        this.proposalEtaMap.set(proposalId, u256.fromU64(eta));
+
+        this.emitEvent(new ProposalQueuedEvent(proposalId, eta));
+    }
+
+    /**
+     * Internal: Marks a queued proposal executed and runs its actions.
+     * @protected
+     */
+    protected _executeProposal(
+        proposalId: u256,
+        targets: Address[],
+        calldatas: Uint8Array[],
+    ): void {
+        if (this._state(proposalId) !== ProposalState.Queued) {
+            throw new Revert('Proposal is not queued');
+        }
+
+        if (Blockchain.block.number < this.proposalEtaMap.get(proposalId).toU64()) {
+            throw new Revert('Timelock not elapsed');
+        }
+
+        // Mark executed before any external call
+        this.proposalStatusMap.set(proposalId, PROPOSAL_EXECUTED);
+
+        this.emitEvent(new ProposalExecutedEvent(proposalId));
+
+        for (let i: i32 = 0; i < targets.length; i++) {
+            const data = calldatas[i];
+            const writer = new BytesWriter(data.length);
+            writer.writeBytes(data);
+
+            Blockchain.call(targets[i], writer);
+        }
+    }
+
+    /**
+     * Internal: Cancels a proposal.
+     * @protected
+     */
+    protected _cancel(proposalId: u256): void {
+        this.proposalStatusMap.set(proposalId, PROPOSAL_CANCELED);
+        this.emitEvent(new ProposalCanceledEvent(proposalId));
+    }
+
+    /**
+     * Internal: Computes the state of a proposal.
+     * @protected
+     *
+     * @throws {Revert} If the proposal does not exist
+     */
+    protected _state(proposalId: u256): ProposalState {
+        const status = this.proposalStatusMap.get(proposalId);
+        if (status == PROPOSAL_EXECUTED) return ProposalState.Executed;
+        if (status == PROPOSAL_CANCELED) return ProposalState.Canceled;
+
+        const voteStart = this.proposalVoteStartMap.get(proposalId).toU64();
+        if (voteStart == 0) {
+            throw new Revert('Unknown proposal');
+        }
+
+        const currentBlock = Blockchain.block.number;
+        if (currentBlock <= voteStart) return ProposalState.Pending;
+        if (currentBlock <= this.proposalVoteEndMap.get(proposalId).toU64()) {
+            return ProposalState.Active;
+        }
+
+        if (!this._quorumReached(proposalId, voteStart) || !this._voteSucceeded(proposalId)) {
+            return ProposalState.Defeated;
+        }
+
+        if (this.proposalEtaMap.get(proposalId).isZero()) return ProposalState.Succeeded;
+        return ProposalState.Queued;
+    }
+
+    /**
+     * Internal: True if For plus Abstain votes reach the quorum.
+     * @protected
+     */
+    protected _quorumReached(proposalId: u256, voteStart: u64): bool {
+        const votes = SafeMath.add(
+            this.forVotesMap.get(proposalId),
+            this.abstainVotesMap.get(proposalId),
+        );
+        return votes >= this._quorum(voteStart);
+    }
+
+    /**
+     * Internal: True if there are more For votes than Against votes.
+     * @protected
+     */
+    protected _voteSucceeded(proposalId: u256): bool {
+        return this.forVotesMap.get(proposalId) > this.againstVotesMap.get(proposalId);
+    }
+
+    /**
+     * Internal: Quorum for a vote that started at `blockNumber`.
+     * @protected
+     */
+    protected _quorum(blockNumber: u64): u256 {
+        const supply = this._getPastTotalSupply(blockNumber);
+        return SafeMath.div(SafeMath.mul(supply, this._quorumNumerator.value), u256.fromU32(100));
+    }
+
+    /**
+     * Internal: Reads an account's past votes from the token.
+     * @protected
+     */
+    protected _getPastVotes(account: Address, blockNumber: u64): u256 {
+        const calldata = new BytesWriter(
+            SELECTOR_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH,
+        );
+        calldata.writeSelector(GET_PAST_VOTES_SELECTOR);
+        calldata.writeAddress(account);
+        calldata.writeU64(blockNumber);
+
+        const response = Blockchain.call(this._token.value, calldata);
+        return response.data.readU256();
+    }
+
+    /**
+     * Internal: Reads the past total supply from the token.
+     * @protected
+     */
+    protected _getPastTotalSupply(blockNumber: u64): u256 {
+        const calldata = new BytesWriter(SELECTOR_BYTE_LENGTH + U64_BYTE_LENGTH);
+        calldata.writeSelector(GET_PAST_TOTAL_SUPPLY_SELECTOR);
+        calldata.writeU64(blockNumber);
+
+        const response = Blockchain.call(this._token.value, calldata);
+        return response.data.readU256();
+    }
+
+    /**
+     * Internal: Proposal id, the sha256 of the actions and the description hash.
+     * @protected
+     */
+    protected _hashProposal(
+        targets: Address[],
+        calldatas: Uint8Array[],
+        descriptionHash: Uint8Array,
+    ): u256 {
+        const writer = new BytesWriter(
+            BytesWriter.estimateArrayOfBufferLength(calldatas) +
+                2 +
+                targets.length * ADDRESS_BYTE_LENGTH +
+                32,
+        );
+        writer.writeAddressArray(targets);
+        writer.writeArrayOfBuffer(calldatas);
+        writer.writeBytes(descriptionHash);
+
+        return u256.fromUint8ArrayBE(sha256(writer.getBuffer()));
+    }
+
+    protected _proposalProposer(proposalId: u256): Address {
+        return Address.fromUint8Array(this.proposalProposerMap.get(proposalId).toUint8Array(true));
+    }
+
+    protected _hasVoted(proposalId: u256, account: Address): bool {
+        return !this.hasVotedMap.get(this._hasVotedKey(proposalId, account)).isZero();
+    }
+
+    private _hasVotedKey(proposalId: u256, voter: Address): u256 {
+        const writer = new BytesWriter(U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH);
+        writer.writeU256(proposalId);
+        writer.writeAddress(voter);
+
+        return u256.fromUint8ArrayBE(sha256(writer.getBuffer()));
+    }
+}
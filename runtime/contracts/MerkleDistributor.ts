@@ -0,0 +1,206 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { ClaimedEvent } from '../events/merkle/MerkleDistributorEvents';
+import { MerkleHash, MerkleProof } from '../hashing/MerkleProof';
+import { EMPTY_POINTER } from '../math/bytes';
+import { TransferHelper } from '../shared-libraries/TransferHelper';
+import { StoredAddress } from '../storage/StoredAddress';
+import { StoredU256 } from '../storage/StoredU256';
+import { StoredBooleanArray } from '../storage/arrays/StoredBooleanArray';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U32_BYTE_LENGTH,
+} from '../utils';
+import { IMerkleDistributor } from './interfaces/IMerkleDistributor';
+import { OP_NET } from './OP_NET';
+
+const tokenPointer: u16 = Blockchain.nextPointer;
+const merkleRootPointer: u16 = Blockchain.nextPointer;
+const claimedPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * MerkleDistributor - Base contract that pays out OP20 allocations committed to by a merkle root.
+ *
+ * Instead of storing every recipient, the deployer publishes the root of a tree whose leaves
+ * are `hash(index || account || amount)`, with the index as a big-endian u32 and the amount
+ * as a big-endian u256. Anyone can then claim allocation `index` by submitting its proof; the
+ * tokens always go to `account`.
+ *
+ * Each index can be claimed once. Claimed indexes are tracked in a bitmap of `claimCount`
+ * bits, so the whole distribution costs one storage slot per 256 allocations.
+ *
+ * The contract must hold enough tokens to cover every allocation. Trees use sorted-pair
+ * hashing, see MerkleProof; pass MerkleHash.KECCAK256 to the constructor for keccak256 trees.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyAirdrop extends MerkleDistributor {
+ *     public override onDeployment(calldata: Calldata): void {
+ *         super.onDeployment(calldata);
+ *         this.instantiate(
+ *             calldata.readAddress(), // OP20 token
+ *             calldata.readBytes(32), // merkle root
+ *             calldata.readU32(), // number of leaves
+ *         );
+ *     }
+ * }
+ * ```
+ */
+export abstract class MerkleDistributor extends OP_NET implements IMerkleDistributor {
+    /** OP20 token being distributed. */
+    protected readonly _token: StoredAddress;
+
+    /** Root of the allocation tree. */
+    protected readonly _merkleRoot: StoredU256;
+
+    /** Bitmap of claimed indexes; its length is the number of leaves. */
+    protected readonly claimedMap: StoredBooleanArray;
+
+    /**
+     * @param merkleHash - Hash function the allocation tree is built with
+     */
+    public constructor(protected readonly merkleHash: MerkleHash = MerkleHash.SHA256) {
+        super();
+
+        this._token = new StoredAddress(tokenPointer);
+        this._merkleRoot = new StoredU256(merkleRootPointer, EMPTY_POINTER);
+        this.claimedMap = new StoredBooleanArray(claimedPointer, EMPTY_POINTER);
+    }
+
+    /**
+     * Sets the token and allocation tree. Call once from onDeployment.
+     *
+     * @param token - OP20 token to distribute
+     * @param merkleRoot - 32-byte root of the allocation tree
+     * @param claimCount - Number of leaves in the tree; valid indexes are below it
+     * @param skipDeployerVerification - If true, skips deployer check (use with caution)
+     *
+     * @throws {Revert} If already initialized
+     * @throws {Revert} If the token is the zero address or the root is not 32 non-zero bytes
+     * @throws {Revert} If caller is not deployer (unless skipped)
+     */
+    public instantiate(
+        token: Address,
+        merkleRoot: Uint8Array,
+        claimCount: u32,
+        skipDeployerVerification: boolean = false,
+    ): void {
+        if (!this._merkleRoot.value.isZero()) throw new Revert('Already initialized');
+        if (!skipDeployerVerification) this.onlyDeployer(Blockchain.tx.sender);
+        if (token.isZero()) throw new Revert('Invalid token');
+        if (merkleRoot.length != 32) throw new Revert('Invalid merkle root');
+
+        const root = u256.fromUint8ArrayBE(merkleRoot);
+        if (root.isZero()) throw new Revert('Invalid merkle root');
+
+        this._token.value = token;
+        this._merkleRoot.value = root;
+
+        this.claimedMap.extendLength(claimCount);
+        this.claimedMap.save();
+    }
+
+    /**
+     * Claims allocation `index` and transfers its tokens to `account`.
+     *
+     * @param calldata - Contains index, account, amount and the merkle proof
+     * @emits Claimed event
+     *
+     * @throws {Revert} If the index is out of range or already claimed
+     * @throws {Revert} If the proof does not match the merkle root
+     */
+    @method(
+        { name: 'index', type: ABIDataTypes.UINT32 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'proof', type: ABIDataTypes.ARRAY_OF_BYTES },
+    )
+    @emit('Claimed')
+    public claim(calldata: Calldata): BytesWriter {
+        const index = calldata.readU32();
+        const account = calldata.readAddress();
+        const amount = calldata.readU256();
+        const proof = calldata.readArrayOfBuffer();
+
+        if (!this.claimedMap.has(index)) {
+            throw new Revert('Invalid index');
+        }
+
+        if (this.claimedMap.get(index)) {
+            throw new Revert('Already claimed');
+        }
+
+        const leaf = this._leaf(index, account, amount);
+        const root = this._merkleRoot.value.toUint8Array(true);
+        if (!MerkleProof.verify(proof, root, leaf, this.merkleHash)) {
+            throw new Revert('Invalid proof');
+        }
+
+        // Mark before transferring so the claim cannot be re-entered
+        this.claimedMap.set(index, true);
+        this.claimedMap.save();
+
+        TransferHelper.transfer(this._token.value, account, amount);
+
+        this.emitEvent(new ClaimedEvent(index, account, amount));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns whether allocation `index` was claimed.
+     */
+    @method({ name: 'index', type: ABIDataTypes.UINT32 })
+    @returns({ name: 'claimed', type: ABIDataTypes.BOOL })
+    public isClaimed(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(this._isClaimed(calldata.readU32()));
+        return w;
+    }
+
+    /**
+     * Returns the token being distributed.
+     */
+    @method()
+    @returns({ name: 'token', type: ABIDataTypes.ADDRESS })
+    public token(_: Calldata): BytesWriter {
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        w.writeAddress(this._token.value);
+        return w;
+    }
+
+    /**
+     * Returns the root of the allocation tree.
+     */
+    @method()
+    @returns({ name: 'merkleRoot', type: ABIDataTypes.BYTES32 })
+    public merkleRoot(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._merkleRoot.value);
+        return w;
+    }
+
+    /**
+     * Internal: Leaf committing to an allocation.
+     * @protected
+     */
+    protected _leaf(index: u32, account: Address, amount: u256): Uint8Array {
+        const writer = new BytesWriter(U32_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        writer.writeU32(index);
+        writer.writeAddress(account);
+        writer.writeU256(amount);
+
+        return MerkleProof.hash(writer.getBuffer(), this.merkleHash);
+    }
+
+    protected _isClaimed(index: u32): bool {
+        return this.claimedMap.has(index) && this.claimedMap.get(index);
+    }
+}
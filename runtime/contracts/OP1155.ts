@@ -0,0 +1,760 @@
+// THIS STANDARD IS EXPERIMENTAL AND SHOULDN'T BE USED IN REAL PROJECTS
+// CONTRACTS USING THIS COULD BREAK IN THE FUTURE
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { sha256 } from '../env/global';
+import { EMPTY_POINTER } from '../math/bytes';
+import { Selector } from '../math/abi';
+import { AddressMemoryMap } from '../memory/AddressMemoryMap';
+import { MapOfMap } from '../memory/MapOfMap';
+import { StoredString } from '../storage/StoredString';
+import { StoredU256 } from '../storage/StoredU256';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { ExtendedAddress } from '../types/ExtendedAddress';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    SELECTOR_BYTE_LENGTH,
+    U16_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U32_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+} from '../utils';
+import { IOP1155 } from './interfaces/IOP1155';
+import { OP1155InitParameters } from './interfaces/OP1155InitParameters';
+import { ReentrancyGuard, ReentrancyLevel } from './ReentrancyGuard';
+import {
+    MAX_URI_LENGTH,
+    OP721ApprovedForAllEvent,
+    TransferredBatchEvent,
+    TransferredSingleEvent,
+    URIEvent,
+} from '../events/predefined';
+import {
+    DOMAIN_SEPARATOR_SELECTOR,
+    NAME_SELECTOR,
+    NONCE_OF_SELECTOR,
+    ON_OP1155_BATCH_RECEIVED_SELECTOR,
+    ON_OP1155_RECEIVED_SELECTOR,
+    OP1155_APPROVAL_FOR_ALL_TYPE_HASH,
+    OP712_DOMAIN_TYPE_HASH,
+    OP712_VERSION_HASH,
+    SYMBOL_SELECTOR,
+} from '../constants/Exports';
+
+// Selectors: sha256 first 4 bytes
+export const OP1155_BALANCE_OF_SELECTOR: u32 = 0x7ab6c0bc; // "balanceOf(address,uint256)"
+export const OP1155_BALANCE_OF_BATCH_SELECTOR: u32 = 0xed4db4b0; // "balanceOfBatch(address[],uint256[])"
+export const OP1155_IS_APPROVED_FOR_ALL_SELECTOR: u32 = 0x67da1fb2; // "isApprovedForAll(address,address)"
+export const OP1155_URI_SELECTOR: u32 = 0x31473f54; // "uri(uint256)"
+export const OP1155_TOTAL_SUPPLY_SELECTOR: u32 = 0x8ba70f8c; // "totalSupply(uint256)"
+export const OP1155_EXISTS_SELECTOR: u32 = 0xe99473d5; // "exists(uint256)"
+
+// TransferredBatch can only carry 3 id/value pairs, larger batches are split into chunks
+const MAX_BATCH_EVENT_ITEMS: i32 = 3;
+
+const stringPointer: u16 = Blockchain.nextPointer;
+const initializedPointer: u16 = Blockchain.nextPointer;
+const balanceOfMapPointer: u16 = Blockchain.nextPointer;
+const operatorApprovalMapPointer: u16 = Blockchain.nextPointer;
+const totalSupplyMapPointer: u16 = Blockchain.nextPointer;
+const tokenURIIndexPointer: u16 = Blockchain.nextPointer;
+const tokenURIStoragePointer: u16 = Blockchain.nextPointer;
+const tokenURICounterPointer: u16 = Blockchain.nextPointer;
+const approveNonceMapPointer: u16 = Blockchain.nextPointer;
+
+export abstract class OP1155 extends ReentrancyGuard implements IOP1155 {
+    protected override readonly reentrancyLevel: ReentrancyLevel = ReentrancyLevel.CALLBACK;
+
+    protected readonly _name: StoredString;
+    protected readonly _symbol: StoredString;
+    protected readonly _baseURI: StoredString;
+
+    protected readonly _initialized: StoredU256;
+    protected readonly _tokenURICounter: StoredU256;
+
+    // owner -> token id -> balance
+    protected readonly balanceOfMap: MapOfMap<u256>;
+
+    // owner -> operator -> approved (0/1)
+    protected readonly operatorApprovalMap: MapOfMap<u256>;
+
+    // token id -> circulating supply
+    protected readonly totalSupplyMap: StoredMapU256;
+
+    protected readonly _approveNonceMap: AddressMemoryMap;
+
+    // Token URI storage - token id -> index of a StoredString (0 means no custom URI)
+    protected readonly tokenURIIndices: StoredMapU256;
+    protected readonly tokenURIStorage: Map<u32, StoredString> = new Map();
+
+    public constructor() {
+        super();
+
+        this._name = new StoredString(stringPointer, 0);
+        this._symbol = new StoredString(stringPointer, 1);
+        this._baseURI = new StoredString(stringPointer, 2);
+
+        this._initialized = new StoredU256(initializedPointer, EMPTY_POINTER);
+        this._tokenURICounter = new StoredU256(tokenURICounterPointer, EMPTY_POINTER);
+
+        this.balanceOfMap = new MapOfMap<u256>(balanceOfMapPointer);
+        this.operatorApprovalMap = new MapOfMap<u256>(operatorApprovalMapPointer);
+        this.totalSupplyMap = new StoredMapU256(totalSupplyMapPointer);
+
+        this._approveNonceMap = new AddressMemoryMap(approveNonceMapPointer);
+
+        this.tokenURIIndices = new StoredMapU256(tokenURIIndexPointer);
+    }
+
+    public get name(): string {
+        return this._name.value;
+    }
+
+    public get symbol(): string {
+        return this._symbol.value;
+    }
+
+    public get baseURI(): string {
+        return this._baseURI.value;
+    }
+
+    public instantiate(
+        params: OP1155InitParameters,
+        skipDeployerVerification: boolean = false,
+    ): void {
+        if (!this._initialized.value.isZero()) throw new Revert('Already initialized');
+        if (!skipDeployerVerification) this.onlyDeployer(Blockchain.tx.sender);
+
+        if (params.name.length == 0) throw new Revert('Name cannot be empty');
+        if (params.symbol.length == 0) throw new Revert('Symbol cannot be empty');
+        if (<u32>params.baseURI.length > MAX_URI_LENGTH) {
+            throw new Revert('Base URI exceeds maximum length');
+        }
+
+        this._name.value = params.name;
+        this._symbol.value = params.symbol;
+        this._baseURI.value = params.baseURI;
+        this._initialized.value = u256.One;
+    }
+
+    @method('name')
+    @returns({ name: 'name', type: ABIDataTypes.STRING })
+    public fn_name(_: Calldata): BytesWriter {
+        const name = this.name;
+        const w = new BytesWriter(String.UTF8.byteLength(name) + 4);
+        w.writeStringWithLength(name);
+        return w;
+    }
+
+    @method('symbol')
+    @returns({ name: 'symbol', type: ABIDataTypes.STRING })
+    public fn_symbol(_: Calldata): BytesWriter {
+        const symbol = this.symbol;
+        const w = new BytesWriter(String.UTF8.byteLength(symbol) + 4);
+        w.writeStringWithLength(symbol);
+        return w;
+    }
+
+    @method({ name: 'id', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'uri', type: ABIDataTypes.STRING })
+    public uri(calldata: Calldata): BytesWriter {
+        const id = calldata.readU256();
+        const uri = this._uri(id);
+
+        const w = new BytesWriter(String.UTF8.byteLength(uri) + 4);
+        w.writeStringWithLength(uri);
+        return w;
+    }
+
+    @method({ name: 'id', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'totalSupply', type: ABIDataTypes.UINT256 })
+    public totalSupply(calldata: Calldata): BytesWriter {
+        const id = calldata.readU256();
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this.totalSupplyMap.get(id));
+        return w;
+    }
+
+    @method({ name: 'id', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'exists', type: ABIDataTypes.BOOL })
+    public exists(calldata: Calldata): BytesWriter {
+        const id = calldata.readU256();
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(this._exists(id));
+        return w;
+    }
+
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'id', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'balance', type: ABIDataTypes.UINT256 })
+    public balanceOf(calldata: Calldata): BytesWriter {
+        const owner = calldata.readAddress();
+        const id = calldata.readU256();
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._balanceOf(owner, id));
+        return w;
+    }
+
+    @method(
+        { name: 'owners', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'ids', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @returns({ name: 'balances', type: ABIDataTypes.ARRAY_OF_UINT256 })
+    public balanceOfBatch(calldata: Calldata): BytesWriter {
+        const owners = calldata.readAddressArray();
+        const ids = calldata.readU256Array();
+
+        if (owners.length != ids.length) throw new Revert('Owners and ids length mismatch');
+
+        const balances = new Array<u256>(ids.length);
+        for (let i: i32 = 0; i < ids.length; i++) {
+            balances[i] = this._balanceOf(owners[i], ids[i]);
+        }
+
+        const w = new BytesWriter(U16_BYTE_LENGTH + balances.length * U256_BYTE_LENGTH);
+        w.writeU256Array(balances);
+        return w;
+    }
+
+    @method(
+        { name: 'from', type: ABIDataTypes.ADDRESS },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'id', type: ABIDataTypes.UINT256 },
+        { name: 'value', type: ABIDataTypes.UINT256 },
+        { name: 'data', type: ABIDataTypes.BYTES },
+    )
+    @emit('TransferredSingle')
+    public safeTransferFrom(calldata: Calldata): BytesWriter {
+        const from = calldata.readAddress();
+        const to = calldata.readAddress();
+        const id = calldata.readU256();
+        const value = calldata.readU256();
+        const data = calldata.readBytesWithLength();
+
+        this._checkAuthorized(from);
+        this._safeTransferFrom(from, to, id, value, data);
+
+        return new BytesWriter(0);
+    }
+
+    @method(
+        { name: 'from', type: ABIDataTypes.ADDRESS },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'ids', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'values', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'data', type: ABIDataTypes.BYTES },
+    )
+    @emit('TransferredBatch')
+    public safeBatchTransferFrom(calldata: Calldata): BytesWriter {
+        const from = calldata.readAddress();
+        const to = calldata.readAddress();
+        const ids = calldata.readU256Array();
+        const values = calldata.readU256Array();
+        const data = calldata.readBytesWithLength();
+
+        this._checkAuthorized(from);
+        this._safeBatchTransferFrom(from, to, ids, values, data);
+
+        return new BytesWriter(0);
+    }
+
+    @method(
+        { name: 'operator', type: ABIDataTypes.ADDRESS },
+        { name: 'approved', type: ABIDataTypes.BOOL },
+    )
+    @emit('ApprovedForAll')
+    public setApprovalForAll(calldata: Calldata): BytesWriter {
+        const operator = calldata.readAddress();
+        const approved = calldata.readBoolean();
+
+        if (operator === Blockchain.tx.sender) throw new Revert('Cannot approve self');
+
+        this._setApprovalForAll(Blockchain.tx.sender, operator, approved);
+
+        return new BytesWriter(0);
+    }
+
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'operator', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'approved', type: ABIDataTypes.BOOL })
+    public isApprovedForAll(calldata: Calldata): BytesWriter {
+        const owner = calldata.readAddress();
+        const operator = calldata.readAddress();
+
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(this._isApprovedForAll(owner, operator));
+        return w;
+    }
+
+    @method(
+        { name: 'owner', type: ABIDataTypes.BYTES32 },
+        { name: 'ownerTweakedPublicKey', type: ABIDataTypes.BYTES32 },
+        { name: 'operator', type: ABIDataTypes.ADDRESS },
+        { name: 'approved', type: ABIDataTypes.BOOL },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @emit('ApprovedForAll')
+    public setApprovalForAllBySignature(calldata: Calldata): BytesWriter {
+        const ownerAddress = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+        const ownerTweakedPublicKey = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+
+        const owner = new ExtendedAddress(ownerTweakedPublicKey, ownerAddress);
+
+        const operator = calldata.readAddress();
+        const approved = calldata.readBoolean();
+        const deadline = calldata.readU64();
+        const signature = calldata.readBytesWithLength();
+
+        if (owner === operator) throw new Revert('Cannot approve self');
+
+        this._verifySetApprovalForAllSignature(owner, operator, approved, deadline, signature);
+
+        this._setApprovalForAll(owner, operator, approved);
+
+        return new BytesWriter(0);
+    }
+
+    @method(
+        { name: 'from', type: ABIDataTypes.ADDRESS },
+        { name: 'id', type: ABIDataTypes.UINT256 },
+        { name: 'value', type: ABIDataTypes.UINT256 },
+    )
+    @emit('TransferredSingle')
+    public burn(calldata: Calldata): BytesWriter {
+        const from = calldata.readAddress();
+        const id = calldata.readU256();
+        const value = calldata.readU256();
+
+        this._checkAuthorized(from);
+        this._burn(from, id, value);
+
+        return new BytesWriter(0);
+    }
+
+    @method(
+        { name: 'from', type: ABIDataTypes.ADDRESS },
+        { name: 'ids', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'values', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @emit('TransferredBatch')
+    public burnBatch(calldata: Calldata): BytesWriter {
+        const from = calldata.readAddress();
+        const ids = calldata.readU256Array();
+        const values = calldata.readU256Array();
+
+        this._checkAuthorized(from);
+        this._burnBatch(from, ids, values);
+
+        return new BytesWriter(0);
+    }
+
+    @method()
+    @returns({ name: 'domainSeparator', type: ABIDataTypes.BYTES32 })
+    public domainSeparator(_: Calldata): BytesWriter {
+        const w = new BytesWriter(32);
+        w.writeBytes(this._buildDomainSeparator());
+        return w;
+    }
+
+    @method({ name: 'owner', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'nonce', type: ABIDataTypes.UINT256 })
+    public nonceOf(calldata: Calldata): BytesWriter {
+        const owner = calldata.readAddress();
+        const nonce = this._approveNonceMap.get(owner);
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(nonce);
+        return w;
+    }
+
+    @method({ name: 'baseURI', type: ABIDataTypes.STRING })
+    public setBaseURI(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        const baseURI: string = calldata.readStringWithLength();
+
+        if (baseURI.length == 0) throw new Revert('Base URI cannot be empty');
+        if (<u32>baseURI.length > MAX_URI_LENGTH) {
+            throw new Revert('Base URI exceeds maximum length');
+        }
+
+        this._baseURI.value = baseURI;
+
+        return new BytesWriter(0);
+    }
+
+    protected _mint(to: Address, id: u256, value: u256, data: Uint8Array): void {
+        if (to === Address.zero()) throw new Revert('Cannot mint to zero address');
+
+        this._update(Address.zero(), to, [id], [value]);
+        this.createTransferredSingleEvent(Address.zero(), to, id, value);
+
+        if (Blockchain.isContract(to)) {
+            this._checkOnOP1155Received(Address.zero(), to, id, value, data);
+        }
+    }
+
+    protected _mintBatch(to: Address, ids: u256[], values: u256[], data: Uint8Array): void {
+        if (to === Address.zero()) throw new Revert('Cannot mint to zero address');
+
+        this._update(Address.zero(), to, ids, values);
+        this.createTransferredBatchEvent(Address.zero(), to, ids, values);
+
+        if (Blockchain.isContract(to)) {
+            this._checkOnOP1155BatchReceived(Address.zero(), to, ids, values, data);
+        }
+    }
+
+    protected _burn(from: Address, id: u256, value: u256): void {
+        if (from === Address.zero()) throw new Revert('Cannot burn from zero address');
+
+        this._update(from, Address.zero(), [id], [value]);
+        this.createTransferredSingleEvent(from, Address.zero(), id, value);
+    }
+
+    protected _burnBatch(from: Address, ids: u256[], values: u256[]): void {
+        if (from === Address.zero()) throw new Revert('Cannot burn from zero address');
+
+        this._update(from, Address.zero(), ids, values);
+        this.createTransferredBatchEvent(from, Address.zero(), ids, values);
+    }
+
+    protected _safeTransferFrom(
+        from: Address,
+        to: Address,
+        id: u256,
+        value: u256,
+        data: Uint8Array,
+    ): void {
+        if (from === Address.zero()) throw new Revert('Invalid sender');
+        if (to === Address.zero()) throw new Revert('Invalid receiver');
+
+        this._update(from, to, [id], [value]);
+        this.createTransferredSingleEvent(from, to, id, value);
+
+        if (Blockchain.isContract(to)) {
+            this._checkOnOP1155Received(from, to, id, value, data);
+        }
+    }
+
+    protected _safeBatchTransferFrom(
+        from: Address,
+        to: Address,
+        ids: u256[],
+        values: u256[],
+        data: Uint8Array,
+    ): void {
+        if (from === Address.zero()) throw new Revert('Invalid sender');
+        if (to === Address.zero()) throw new Revert('Invalid receiver');
+
+        this._update(from, to, ids, values);
+        this.createTransferredBatchEvent(from, to, ids, values);
+
+        if (Blockchain.isContract(to)) {
+            this._checkOnOP1155BatchReceived(from, to, ids, values, data);
+        }
+    }
+
+    /**
+     * Moves `values` of each token `ids` from `from` to `to`.
+     * A zero `from` mints and a zero `to` burns, adjusting the per-id supply accordingly.
+     * Does not emit events or call the receiver hooks.
+     */
+    protected _update(from: Address, to: Address, ids: u256[], values: u256[]): void {
+        if (ids.length != values.length) throw new Revert('Ids and values length mismatch');
+
+        const isMint = from === Address.zero();
+        const isBurn = to === Address.zero();
+
+        for (let i: i32 = 0; i < ids.length; i++) {
+            const id = ids[i];
+            const value = values[i];
+            const key = id.toUint8Array(true);
+
+            if (isMint) {
+                const supply = this.totalSupplyMap.get(id);
+                this.totalSupplyMap.set(id, SafeMath.add(supply, value));
+            } else {
+                const fromBalances = this.balanceOfMap.get(from);
+                const fromBalance = fromBalances.get(key);
+                if (fromBalance < value) throw new Revert('Insufficient balance');
+
+                fromBalances.set(key, SafeMath.sub(fromBalance, value));
+            }
+
+            if (isBurn) {
+                const supply = this.totalSupplyMap.get(id);
+                this.totalSupplyMap.set(id, SafeMath.sub(supply, value));
+            } else {
+                const toBalances = this.balanceOfMap.get(to);
+                toBalances.set(key, SafeMath.add(toBalances.get(key), value));
+            }
+        }
+    }
+
+    protected _checkAuthorized(from: Address): void {
+        const sender = Blockchain.tx.sender;
+        if (from !== sender && !this._isApprovedForAll(from, sender)) {
+            throw new Revert('Not authorized');
+        }
+    }
+
+    protected _setApprovalForAll(owner: Address, operator: Address, approved: boolean): void {
+        if (operator === Address.zero()) throw new Revert('Invalid operator');
+
+        const operatorMap = this.operatorApprovalMap.get(owner);
+        operatorMap.set(operator, approved ? u256.One : u256.Zero);
+
+        this.createApprovedForAllEvent(owner, operator, approved);
+    }
+
+    protected _isApprovedForAll(owner: Address, operator: Address): boolean {
+        const operatorMap = this.operatorApprovalMap.get(owner);
+        return !operatorMap.get(operator).isZero();
+    }
+
+    protected _balanceOf(owner: Address, id: u256): u256 {
+        if (owner === Address.zero()) throw new Revert('Invalid address');
+
+        return this.balanceOfMap.get(owner).get(id.toUint8Array(true));
+    }
+
+    protected _exists(id: u256): boolean {
+        return !this.totalSupplyMap.get(id).isZero();
+    }
+
+    protected _uri(id: u256): string {
+        const uriIndex = this.tokenURIIndices.get(id);
+        if (uriIndex.isZero()) {
+            return this.baseURI + id.toString();
+        }
+
+        const index = uriIndex.toU32();
+        if (!this.tokenURIStorage.has(index)) {
+            this.tokenURIStorage.set(index, new StoredString(tokenURIStoragePointer, index));
+        }
+
+        return this.tokenURIStorage.get(index).value;
+    }
+
+    protected _setURI(id: u256, uri: string): void {
+        if (<u32>uri.length > MAX_URI_LENGTH) {
+            throw new Revert('URI exceeds maximum length');
+        }
+
+        // Indices start at 1 so that 0 keeps meaning "no custom URI"
+        let uriIndex = this.tokenURIIndices.get(id);
+        if (uriIndex.isZero()) {
+            uriIndex = SafeMath.add(this._tokenURICounter.value, u256.One);
+            this._tokenURICounter.value = uriIndex;
+            this.tokenURIIndices.set(id, uriIndex);
+        }
+
+        const index = uriIndex.toU32();
+        const uriStorage = new StoredString(tokenURIStoragePointer, index);
+        uriStorage.value = uri;
+        this.tokenURIStorage.set(index, uriStorage);
+
+        this.emitEvent(new URIEvent(uri, id));
+    }
+
+    protected _checkOnOP1155Received(
+        from: Address,
+        to: Address,
+        id: u256,
+        value: u256,
+        data: Uint8Array,
+    ): void {
+        const calldata = new BytesWriter(
+            SELECTOR_BYTE_LENGTH +
+                ADDRESS_BYTE_LENGTH * 2 +
+                U256_BYTE_LENGTH * 2 +
+                U32_BYTE_LENGTH +
+                data.length,
+        );
+        calldata.writeSelector(ON_OP1155_RECEIVED_SELECTOR);
+        calldata.writeAddress(Blockchain.tx.sender);
+        calldata.writeAddress(from);
+        calldata.writeU256(id);
+        calldata.writeU256(value);
+        calldata.writeBytesWithLength(data);
+
+        this._checkReceiverResponse(to, calldata, ON_OP1155_RECEIVED_SELECTOR);
+    }
+
+    protected _checkOnOP1155BatchReceived(
+        from: Address,
+        to: Address,
+        ids: u256[],
+        values: u256[],
+        data: Uint8Array,
+    ): void {
+        const calldata = new BytesWriter(
+            SELECTOR_BYTE_LENGTH +
+                ADDRESS_BYTE_LENGTH * 2 +
+                (U16_BYTE_LENGTH + ids.length * U256_BYTE_LENGTH) +
+                (U16_BYTE_LENGTH + values.length * U256_BYTE_LENGTH) +
+                U32_BYTE_LENGTH +
+                data.length,
+        );
+        calldata.writeSelector(ON_OP1155_BATCH_RECEIVED_SELECTOR);
+        calldata.writeAddress(Blockchain.tx.sender);
+        calldata.writeAddress(from);
+        calldata.writeU256Array(ids);
+        calldata.writeU256Array(values);
+        calldata.writeBytesWithLength(data);
+
+        this._checkReceiverResponse(to, calldata, ON_OP1155_BATCH_RECEIVED_SELECTOR);
+    }
+
+    protected _verifySetApprovalForAllSignature(
+        owner: ExtendedAddress,
+        operator: Address,
+        approved: boolean,
+        deadline: u64,
+        signature: Uint8Array,
+    ): void {
+        if (signature.length !== 64) {
+            throw new Revert('Invalid signature length');
+        }
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('Signature expired');
+        }
+
+        const nonce = this._approveNonceMap.get(owner);
+
+        const structWriter = new BytesWriter(
+            32 + ADDRESS_BYTE_LENGTH * 2 + BOOLEAN_BYTE_LENGTH + U256_BYTE_LENGTH + U64_BYTE_LENGTH,
+        );
+        structWriter.writeBytesU8Array(OP1155_APPROVAL_FOR_ALL_TYPE_HASH);
+        structWriter.writeAddress(owner);
+        structWriter.writeAddress(operator);
+        structWriter.writeBoolean(approved);
+        structWriter.writeU256(nonce);
+        structWriter.writeU64(deadline);
+
+        const structHash = sha256(structWriter.getBuffer());
+        this._verifySignature(structHash, owner, signature, nonce);
+    }
+
+    protected _verifySignature(
+        structHash: Uint8Array,
+        owner: ExtendedAddress,
+        signature: Uint8Array,
+        nonce: u256,
+    ): void {
+        const messageWriter = new BytesWriter(2 + 32 + 32);
+        messageWriter.writeU16(0x1901);
+        messageWriter.writeBytes(this._buildDomainSeparator());
+        messageWriter.writeBytes(structHash);
+
+        const hash = sha256(messageWriter.getBuffer());
+
+        if (!Blockchain.verifySignature(owner, signature, hash)) {
+            throw new Revert('Invalid signature');
+        }
+
+        this._approveNonceMap.set(owner, SafeMath.add(nonce, u256.One));
+    }
+
+    protected override _buildDomainSeparator(): Uint8Array {
+        const writer = new BytesWriter(32 * 5 + ADDRESS_BYTE_LENGTH);
+        writer.writeBytesU8Array(OP712_DOMAIN_TYPE_HASH);
+
+        // Hash the name string for domain separator
+        const nameBytes = Uint8Array.wrap(String.UTF8.encode(this.name));
+        writer.writeBytes(sha256(nameBytes));
+
+        writer.writeBytesU8Array(OP712_VERSION_HASH);
+        writer.writeBytes(Blockchain.chainId);
+        writer.writeBytes(Blockchain.protocolId);
+        writer.writeAddress(this.address);
+
+        return sha256(writer.getBuffer());
+    }
+
+    /**
+     * Checks if a selector should bypass reentrancy guards.
+     * @protected
+     */
+    protected override isSelectorExcluded(selector: Selector): boolean {
+        if (
+            selector === OP1155_BALANCE_OF_SELECTOR ||
+            selector === OP1155_BALANCE_OF_BATCH_SELECTOR ||
+            selector === OP1155_IS_APPROVED_FOR_ALL_SELECTOR ||
+            selector === OP1155_URI_SELECTOR ||
+            selector === OP1155_TOTAL_SUPPLY_SELECTOR ||
+            selector === OP1155_EXISTS_SELECTOR ||
+            selector === NAME_SELECTOR ||
+            selector === SYMBOL_SELECTOR ||
+            selector === NONCE_OF_SELECTOR ||
+            selector === DOMAIN_SEPARATOR_SELECTOR
+        ) {
+            return true;
+        }
+
+        return super.isSelectorExcluded(selector);
+    }
+
+    // Event creation helpers
+    protected createTransferredSingleEvent(
+        from: Address,
+        to: Address,
+        id: u256,
+        value: u256,
+    ): void {
+        this.emitEvent(new TransferredSingleEvent(Blockchain.tx.sender, from, to, id, value));
+    }
+
+    protected createTransferredBatchEvent(
+        from: Address,
+        to: Address,
+        ids: u256[],
+        values: u256[],
+    ): void {
+        for (let start: i32 = 0; start < ids.length; start += MAX_BATCH_EVENT_ITEMS) {
+            const end = min(start + MAX_BATCH_EVENT_ITEMS, ids.length);
+            this.emitEvent(
+                new TransferredBatchEvent(
+                    Blockchain.tx.sender,
+                    from,
+                    to,
+                    ids.slice(start, end),
+                    values.slice(start, end),
+                ),
+            );
+        }
+    }
+
+    protected createApprovedForAllEvent(
+        owner: Address,
+        operator: Address,
+        approved: boolean,
+    ): void {
+        this.emitEvent(new OP721ApprovedForAllEvent(owner, operator, approved));
+    }
+
+    private _checkReceiverResponse(to: Address, calldata: BytesWriter, expected: Selector): void {
+        const response = Blockchain.call(to, calldata);
+        if (response.data.byteLength < SELECTOR_BYTE_LENGTH) {
+            throw new Revert('Transfer rejected by recipient');
+        }
+
+        const retVal = response.data.readSelector();
+        if (retVal !== expected) {
+            throw new Revert('Transfer rejected by recipient');
+        }
+    }
+}
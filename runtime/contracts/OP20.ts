@@ -14,6 +14,8 @@ import {
     NAME_SELECTOR,
     NONCE_OF_SELECTOR,
     ON_OP20_RECEIVED_SELECTOR,
+    OP20_TRANSFER_FROM_TYPE_HASH,
+    OP20_TRANSFER_TYPE_HASH,
     OP712_DOMAIN_TYPE_HASH,
     OP712_VERSION_HASH,
     SYMBOL_SELECTOR,
@@ -21,7 +23,17 @@ import {
 } from '../constants/Exports';
 import { Blockchain } from '../env';
 import { sha256, sha256String } from '../env/global';
-import { OP20ApprovedEvent, OP20BurnedEvent, OP20MintedEvent, OP20TransferredEvent } from '../events/predefined';
+import {
+    OP20_BATCH_MINTED_MAX_ENTRIES,
+    OP20_BATCH_TRANSFERRED_MAX_ENTRIES,
+    OP20ApprovedEvent,
+    OP20BatchMintedEvent,
+    OP20BatchTransferredEvent,
+    OP20BurnedEvent,
+    OP20MintedEvent,
+    OP20TransferredEvent,
+} from '../events/predefined';
+import { AddressMap } from '../generic/AddressMap';
 import { Selector } from '../math/abi';
 import { EMPTY_POINTER } from '../math/bytes';
 import { AddressMemoryMap } from '../memory/AddressMemoryMap';
@@ -44,6 +56,8 @@ import { IOP20 } from './interfaces/IOP20';
 import { OP20InitParameters } from './interfaces/OP20InitParameters';
 import { ReentrancyGuard, ReentrancyLevel } from './ReentrancyGuard';
 import { ExtendedAddress } from '../types/ExtendedAddress';
+import { SignaturesMethods } from '../env/consensus/Signatures';
+import { MLDSA44_SIGNATURE_LEN } from '../env/consensus/MLDSAMetadata';
 
 const namePointer: u16 = Blockchain.nextPointer;
 const symbolPointer: u16 = Blockchain.nextPointer;
@@ -486,7 +500,7 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
      *
      * @remarks
      * Enables gasless approvals where a third party can submit the transaction.
-     * Uses Schnorr signatures now, will support ML-DSA after quantum transition.
+     * Accepts Schnorr and ML-DSA signatures.
      */
     @method(
         { name: 'owner', type: ABIDataTypes.BYTES32 },
@@ -544,6 +558,83 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
         return new BytesWriter(0);
     }
 
+    /**
+     * Transfers tokens using an EIP-712 typed signature from the owner (gasless transfer).
+     *
+     * @param calldata - Contains owner, recipient, amount, deadline, and signature
+     * @emits Transferred event
+     *
+     * @throws {Revert} If signature is invalid or expired
+     * @throws {Revert} If owner has insufficient balance
+     *
+     * @remarks
+     * Lets a relayer move tokens for an owner that holds no BTC to pay fees.
+     * Accepts Schnorr and ML-DSA signatures.
+     */
+    @method(
+        { name: 'owner', type: ABIDataTypes.BYTES32 },
+        { name: 'ownerTweakedPublicKey', type: ABIDataTypes.BYTES32 },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @emit('Transferred')
+    public transferBySignature(calldata: Calldata): BytesWriter {
+        const ownerAddress = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+        const ownerTweakedPublicKey = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+
+        const owner = new ExtendedAddress(ownerTweakedPublicKey, ownerAddress);
+
+        const to: Address = calldata.readAddress();
+        const amount: u256 = calldata.readU256();
+        const deadline: u64 = calldata.readU64();
+        const signature = calldata.readBytesWithLength();
+
+        this._transferBySignature(owner, to, amount, deadline, signature);
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Transfers tokens on behalf of another address using a typed signature from the spender.
+     *
+     * @param calldata - Contains spender, from address, to address, amount, deadline, and signature
+     * @emits Transferred event
+     *
+     * @throws {Revert} If signature is invalid or expired
+     * @throws {Revert} If the spender's allowance is insufficient
+     * @throws {Revert} If from has insufficient balance
+     *
+     * @remarks
+     * Signed counterpart of transferFrom: the spender's allowance and nonce are used.
+     * Accepts Schnorr and ML-DSA signatures.
+     */
+    @method(
+        { name: 'spender', type: ABIDataTypes.BYTES32 },
+        { name: 'spenderTweakedPublicKey', type: ABIDataTypes.BYTES32 },
+        { name: 'from', type: ABIDataTypes.ADDRESS },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @emit('Transferred')
+    public transferFromBySignature(calldata: Calldata): BytesWriter {
+        const spenderAddress = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+        const spenderTweakedPublicKey = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+
+        const spender = new ExtendedAddress(spenderTweakedPublicKey, spenderAddress);
+
+        const from: Address = calldata.readAddress();
+        const to: Address = calldata.readAddress();
+        const amount: u256 = calldata.readU256();
+        const deadline: u64 = calldata.readU64();
+        const signature = calldata.readBytesWithLength();
+
+        this._transferFromBySignature(spender, from, to, amount, deadline, signature);
+        return new BytesWriter(0);
+    }
+
     /**
      * Burns tokens from the sender's balance.
      *
@@ -562,6 +653,47 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
         return new BytesWriter(0);
     }
 
+    /**
+     * Transfers tokens from the sender to many recipients.
+     *
+     * @param calldata - Contains a map of recipient address to amount
+     * @emits BatchTransferred events, each covering up to 4 recipients
+     *
+     * @throws {Revert} If the map is empty or contains the zero address
+     * @throws {Revert} If sender has insufficient balance for the total
+     *
+     * @remarks
+     * Cheaper than one transfer per recipient: the sender's balance is checked and
+     * written once, and recipients are reported in aggregated events.
+     */
+    @method({ name: 'recipients', type: ABIDataTypes.ADDRESS_UINT256_TUPLE })
+    @emit('BatchTransferred')
+    public batchTransfer(calldata: Calldata): BytesWriter {
+        this._batchTransfer(Blockchain.tx.sender, calldata.readAddressMapU256());
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Mints tokens to many recipients.
+     *
+     * @param calldata - Contains a map of recipient address to amount
+     * @emits BatchMinted events, each covering up to 5 recipients
+     *
+     * @throws {Revert} If caller is not allowed to airdrop
+     * @throws {Revert} If the map is empty or contains the zero address
+     * @throws {Revert} If the total would exceed max supply
+     *
+     * @remarks
+     * Only the deployer can airdrop by default, see onlyAirdropAuthority.
+     */
+    @method({ name: 'recipients', type: ABIDataTypes.ADDRESS_UINT256_TUPLE })
+    @emit('BatchMinted')
+    public airdrop(calldata: Calldata): BytesWriter {
+        this.onlyAirdropAuthority();
+        this._airdrop(calldata.readAddressMapU256());
+        return new BytesWriter(0);
+    }
+
     /**
      * Returns all token metadata in a single call.
      *
@@ -790,6 +922,57 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
         this._decreaseAllowance(owner, spender, amount);
     }
 
+    /**
+     * Internal: Processes signature-based transfer.
+     * @protected
+     */
+    protected _transferBySignature(
+        owner: ExtendedAddress,
+        to: Address,
+        amount: u256,
+        deadline: u64,
+        signature: Uint8Array,
+    ): void {
+        this._verifySignature(OP20_TRANSFER_TYPE_HASH, owner, to, amount, deadline, signature);
+        this._transfer(owner, to, amount);
+    }
+
+    /**
+     * Internal: Processes signature-based transferFrom.
+     * @protected
+     */
+    protected _transferFromBySignature(
+        spender: ExtendedAddress,
+        from: Address,
+        to: Address,
+        amount: u256,
+        deadline: u64,
+        signature: Uint8Array,
+    ): void {
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('Signature expired');
+        }
+
+        const nonce = this._nonceMap.get(spender);
+
+        const structWriter = new BytesWriter(
+            32 + ADDRESS_BYTE_LENGTH * 3 + U256_BYTE_LENGTH * 2 + U64_BYTE_LENGTH,
+        );
+        structWriter.writeBytesU8Array(OP20_TRANSFER_FROM_TYPE_HASH);
+        structWriter.writeAddress(spender);
+        structWriter.writeAddress(from);
+        structWriter.writeAddress(to);
+        structWriter.writeU256(amount);
+        structWriter.writeU256(nonce);
+        structWriter.writeU64(deadline);
+
+        this._verifyTypedSignature(spender, sha256(structWriter.getBuffer()), signature);
+        this._nonceMap.set(spender, SafeMath.add(nonce, u256.One));
+
+        this._spendAllowance(from, spender, amount);
+        this._transfer(from, to, amount);
+    }
+
     /**
      * Internal: Verifies EIP-712 typed signatures.
      * @protected
@@ -802,9 +985,6 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
         deadline: u64,
         signature: Uint8Array,
     ): void {
-        if (signature.length !== 64) {
-            throw new Revert('Invalid signature length');
-        }
         if (Blockchain.block.number > deadline) {
             throw new Revert('Signature expired');
         }
@@ -821,7 +1001,35 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
         structWriter.writeU256(nonce);
         structWriter.writeU64(deadline);
 
-        const structHash = sha256(structWriter.getBuffer());
+        this._verifyTypedSignature(owner, sha256(structWriter.getBuffer()), signature);
+
+        this._nonceMap.set(owner, SafeMath.add(nonce, u256.One));
+    }
+
+    /**
+     * Internal: Verifies a signature over an EIP-712 struct hash under this token's domain.
+     * @protected
+     *
+     * @throws {Revert} If the signature length matches neither Schnorr nor ML-DSA
+     * @throws {Revert} If the signature is invalid
+     *
+     * @remarks
+     * The scheme is picked from the signature length: 64 bytes for Schnorr,
+     * ML-DSA-44 length for ML-DSA. The caller checks the deadline and consumes the nonce.
+     */
+    protected _verifyTypedSignature(
+        signer: ExtendedAddress,
+        structHash: Uint8Array,
+        signature: Uint8Array,
+    ): void {
+        let signatureType: SignaturesMethods;
+        if (signature.length === 64) {
+            signatureType = SignaturesMethods.Schnorr;
+        } else if (<u32>signature.length === MLDSA44_SIGNATURE_LEN) {
+            signatureType = SignaturesMethods.MLDSA;
+        } else {
+            throw new Revert('Invalid signature length');
+        }
 
         const messageWriter = new BytesWriter(2 + 32 + 32);
         messageWriter.writeU16(0x1901);
@@ -830,11 +1038,9 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
 
         const hash = sha256(messageWriter.getBuffer());
 
-        if (!Blockchain.verifySignature(owner, signature, hash)) {
+        if (!Blockchain.verifySignature(signer, signature, hash, signatureType)) {
             throw new Revert('Invalid signature');
         }
-
-        this._nonceMap.set(owner, SafeMath.add(nonce, u256.One));
     }
 
     /**
@@ -947,6 +1153,71 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
         this.createBurnedEvent(from, amount);
     }
 
+    /**
+     * Internal: Reverts unless the caller may airdrop.
+     * Override to change who can airdrop, for example a minter role.
+     * @protected
+     */
+    protected onlyAirdropAuthority(): void {
+        this.onlyDeployer(Blockchain.tx.sender);
+    }
+
+    /**
+     * Internal: Transfers tokens from one address to many recipients.
+     * @protected
+     *
+     * @throws {Revert} If from has insufficient balance for the total
+     */
+    protected _batchTransfer(from: Address, recipients: AddressMap<u256>): void {
+        if (from === Address.zero()) {
+            throw new Revert('Invalid sender');
+        }
+
+        const addresses = recipients.keys();
+        const amounts = recipients.values();
+        const total = this._sumBatch(addresses, amounts);
+
+        const balance: u256 = this.balanceOfMap.get(from);
+        if (balance < total) {
+            throw new Revert('Insufficient balance');
+        }
+
+        this.balanceOfMap.set(from, SafeMath.sub(balance, total));
+
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            const toBal: u256 = this.balanceOfMap.get(addresses[i]);
+            this.balanceOfMap.set(addresses[i], SafeMath.add(toBal, amounts[i]));
+        }
+
+        this.createBatchTransferredEvents(Blockchain.tx.sender, from, addresses, amounts);
+    }
+
+    /**
+     * Internal: Mints tokens to many recipients.
+     * @protected
+     *
+     * @throws {Revert} If exceeds max supply
+     */
+    protected _airdrop(recipients: AddressMap<u256>): void {
+        const addresses = recipients.keys();
+        const amounts = recipients.values();
+        const total = this._sumBatch(addresses, amounts);
+
+        const newSupply = SafeMath.add(this._totalSupply.value, total);
+        if (newSupply > this._maxSupply.value) {
+            throw new Revert('Max supply reached');
+        }
+
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            const toBal: u256 = this.balanceOfMap.get(addresses[i]);
+            this.balanceOfMap.set(addresses[i], SafeMath.add(toBal, amounts[i]));
+        }
+
+        this._totalSupply.value = newSupply;
+
+        this.createBatchMintedEvents(addresses, amounts);
+    }
+
     /** Event creation helpers */
     protected createBurnedEvent(from: Address, amount: u256): void {
         this.emitEvent(new OP20BurnedEvent(from, amount));
@@ -968,4 +1239,51 @@ export abstract class OP20 extends ReentrancyGuard implements IOP20 {
     ): void {
         this.emitEvent(new OP20TransferredEvent(operator, from, to, amount));
     }
+
+    protected createBatchTransferredEvents(
+        operator: Address,
+        from: Address,
+        recipients: Address[],
+        amounts: u256[],
+    ): void {
+        for (let i: i32 = 0; i < recipients.length; i += OP20_BATCH_TRANSFERRED_MAX_ENTRIES) {
+            const end = i + OP20_BATCH_TRANSFERRED_MAX_ENTRIES;
+            this.emitEvent(
+                new OP20BatchTransferredEvent(
+                    operator,
+                    from,
+                    recipients.slice(i, end),
+                    amounts.slice(i, end),
+                ),
+            );
+        }
+    }
+
+    protected createBatchMintedEvents(recipients: Address[], amounts: u256[]): void {
+        for (let i: i32 = 0; i < recipients.length; i += OP20_BATCH_MINTED_MAX_ENTRIES) {
+            const end = i + OP20_BATCH_MINTED_MAX_ENTRIES;
+            this.emitEvent(
+                new OP20BatchMintedEvent(recipients.slice(i, end), amounts.slice(i, end)),
+            );
+        }
+    }
+
+    /**
+     * Sums the amounts of a batch, rejecting empty batches and the zero address.
+     */
+    private _sumBatch(recipients: Address[], amounts: u256[]): u256 {
+        if (recipients.length == 0) {
+            throw new Revert('No recipients');
+        }
+
+        let total: u256 = u256.Zero;
+        for (let i: i32 = 0; i < recipients.length; i++) {
+            if (recipients[i] === Address.zero()) {
+                throw new Revert('Invalid receiver');
+            }
+            total = SafeMath.add(total, amounts[i]);
+        }
+
+        return total;
+    }
 }
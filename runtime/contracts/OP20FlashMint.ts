@@ -0,0 +1,217 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { ON_FLASH_LOAN_SELECTOR } from '../constants/Exports';
+import { Blockchain } from '../env';
+import { Selector } from '../math/abi';
+import { StoredBoolean } from '../storage/StoredBoolean';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    SELECTOR_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U32_BYTE_LENGTH,
+} from '../utils';
+import { IOP20FlashMint } from './interfaces/IOP20FlashMint';
+import { OP20 } from './OP20';
+
+// Selectors: sha256 first 4 bytes
+export const MAX_FLASH_LOAN_SELECTOR: u32 = 0x60a96897; // "maxFlashLoan()"
+export const FLASH_FEE_SELECTOR: u32 = 0x3da62265; // "flashFee(uint256)"
+export const FLASH_LOAN_SELECTOR: u32 = 0xf7dcdac2; // "flashLoan(address,uint256,bytes)"
+
+const flashLoanActivePointer: u16 = Blockchain.nextPointer;
+
+/**
+ * OP20 token that lends newly minted tokens for the length of a single call.
+ *
+ * `flashLoan` mints the amount to the receiver, calls its `onFlashLoan` hook, then burns the
+ * amount plus the fee from the receiver. The whole call reverts if the receiver does not
+ * return the `onFlashLoan` selector or cannot pay back, so supply is unchanged afterwards.
+ *
+ * @remarks
+ * OP20 runs with `ReentrancyLevel.CALLBACK`, which rejects any reentry while a guarded method
+ * is running. A borrower must be able to move the tokens during its callback, so `flashLoan`
+ * is excluded from the generic guard and protected by its own flag instead. Loans cannot be
+ * nested, while transfers and approvals inside the callback keep their usual guard.
+ *
+ * Receivers must check that the initiator is trusted: anyone can start a loan to any receiver.
+ */
+export abstract class OP20FlashMint extends OP20 implements IOP20FlashMint {
+    /** Set while a flash loan is running. */
+    protected readonly _flashLoanActive: StoredBoolean;
+
+    public constructor() {
+        super();
+        this._flashLoanActive = new StoredBoolean(flashLoanActivePointer, false);
+    }
+
+    /**
+     * Returns the largest amount that can be borrowed.
+     *
+     * @returns Maximum supply minus the current total supply
+     */
+    @method()
+    @returns({ name: 'maxLoan', type: ABIDataTypes.UINT256 })
+    public maxFlashLoan(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._maxFlashLoan());
+        return w;
+    }
+
+    /**
+     * Returns the fee charged for borrowing an amount.
+     *
+     * @param calldata - Contains the amount
+     * @returns Fee in tokens
+     */
+    @method({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'fee', type: ABIDataTypes.UINT256 })
+    public flashFee(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._flashFee(calldata.readU256()));
+        return w;
+    }
+
+    /**
+     * Lends freshly minted tokens to a receiver for the duration of its callback.
+     *
+     * @param calldata - Contains the receiver, amount and data forwarded to the receiver
+     * @returns True on success
+     * @emits Minted event for the loan
+     * @emits Burned event for the repayment
+     *
+     * @throws {Revert} If the amount exceeds maxFlashLoan
+     * @throws {Revert} If a flash loan is already running
+     * @throws {Revert} If the receiver rejects the loan or cannot repay it
+     */
+    @method(
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'data', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('Minted', 'Burned')
+    public flashLoan(calldata: Calldata): BytesWriter {
+        const receiver = calldata.readAddress();
+        const amount = calldata.readU256();
+        const data = calldata.readBytesWithLength();
+
+        this._flashLoan(receiver, amount, data);
+
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(true);
+        return w;
+    }
+
+    /**
+     * Internal: Gets the largest amount that can be borrowed.
+     * @protected
+     */
+    protected _maxFlashLoan(): u256 {
+        return SafeMath.sub(this._maxSupply.value, this._totalSupply.value);
+    }
+
+    /**
+     * Internal: Computes the fee for a loan. Free by default.
+     * @protected
+     */
+    protected _flashFee(_amount: u256): u256 {
+        return u256.Zero;
+    }
+
+    /**
+     * Internal: Gets the account that receives flash loan fees.
+     * @protected
+     *
+     * @remarks
+     * Fees are burned when this returns the zero address, which is the default.
+     */
+    protected _flashFeeReceiver(): Address {
+        return Address.zero();
+    }
+
+    /**
+     * Internal: Runs a flash loan.
+     * @protected
+     */
+    protected _flashLoan(receiver: Address, amount: u256, data: Uint8Array): void {
+        if (amount > this._maxFlashLoan()) {
+            throw new Revert('Amount exceeds max flash loan');
+        }
+        if (this._flashLoanActive.value) {
+            throw new Revert('Flash loan already active');
+        }
+        if (!Blockchain.isContract(receiver)) {
+            throw new Revert('Receiver is not a contract');
+        }
+
+        this._flashLoanActive.value = true;
+
+        const fee = this._flashFee(amount);
+        this._mint(receiver, amount);
+        this._callOnFlashLoan(receiver, amount, fee, data);
+
+        // Returning the magic value is the receiver's consent to be charged
+        const feeReceiver = this._flashFeeReceiver();
+        if (fee.isZero() || feeReceiver.isZero()) {
+            this._burn(receiver, SafeMath.add(amount, fee));
+        } else {
+            this._burn(receiver, amount);
+            this._transfer(receiver, feeReceiver, fee);
+        }
+
+        this._flashLoanActive.value = false;
+    }
+
+    /**
+     * Internal: Calls the receiver's onFlashLoan hook and checks its answer.
+     * @protected
+     */
+    protected _callOnFlashLoan(receiver: Address, amount: u256, fee: u256, data: Uint8Array): void {
+        const calldata = new BytesWriter(
+            SELECTOR_BYTE_LENGTH +
+                ADDRESS_BYTE_LENGTH +
+                U256_BYTE_LENGTH * 2 +
+                U32_BYTE_LENGTH +
+                data.length,
+        );
+        calldata.writeSelector(ON_FLASH_LOAN_SELECTOR);
+        calldata.writeAddress(Blockchain.tx.sender);
+        calldata.writeU256(amount);
+        calldata.writeU256(fee);
+        calldata.writeBytesWithLength(data);
+
+        const response = Blockchain.call(receiver, calldata);
+        if (response.data.byteLength < SELECTOR_BYTE_LENGTH) {
+            throw new Revert('Flash loan rejected by receiver');
+        }
+
+        const retVal = response.data.readSelector();
+        if (retVal !== ON_FLASH_LOAN_SELECTOR) {
+            throw new Revert('Flash loan rejected by receiver');
+        }
+    }
+
+    /**
+     * Checks if a selector should bypass reentrancy guards.
+     * @protected
+     *
+     * @remarks
+     * flashLoan is excluded so the receiver can use the borrowed tokens during its callback.
+     * It is guarded by `_flashLoanActive` instead.
+     */
+    protected override isSelectorExcluded(selector: Selector): boolean {
+        if (
+            selector == MAX_FLASH_LOAN_SELECTOR ||
+            selector == FLASH_FEE_SELECTOR ||
+            selector == FLASH_LOAN_SELECTOR
+        ) {
+            return true;
+        }
+        return super.isSelectorExcluded(selector);
+    }
+}
@@ -0,0 +1,314 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { SnapshotEvent } from '../events/snapshot/SnapshotEvents';
+import { AddressMap } from '../generic/AddressMap';
+import { Selector } from '../math/abi';
+import { EMPTY_POINTER } from '../math/bytes';
+import { StoredU256Array } from '../storage/arrays/StoredU256Array';
+import { StoredU64Array } from '../storage/arrays/StoredU64Array';
+import { StoredU256 } from '../storage/StoredU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '../utils';
+import { IOP20Snapshot } from './interfaces/IOP20Snapshot';
+import { OP20 } from './OP20';
+
+// Selectors: sha256 first 4 bytes
+export const CURRENT_SNAPSHOT_ID_SELECTOR: u32 = 0x78830d00; // "currentSnapshotId()"
+export const BALANCE_OF_AT_SELECTOR: u32 = 0x26248353; // "balanceOfAt(address,uint64)"
+export const TOTAL_SUPPLY_AT_SELECTOR: u32 = 0xe61263d4; // "totalSupplyAt(uint64)"
+
+const currentSnapshotIdPointer: u16 = Blockchain.nextPointer;
+const balanceSnapshotIdsPointer: u16 = Blockchain.nextPointer;
+const balanceSnapshotValuesPointer: u16 = Blockchain.nextPointer;
+const totalSupplySnapshotIdsPointer: u16 = Blockchain.nextPointer;
+const totalSupplySnapshotValuesPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * OP20 token that can record balances and total supply at numbered snapshots.
+ *
+ * Calling `_snapshot` starts a new snapshot and returns its id. Ids start at 1 and increase
+ * by one each time. Balances are not copied when a snapshot is taken: the value an account
+ * held is only written the first time its balance changes after the snapshot. Accounts that
+ * never change cost nothing, and their current balance is also their snapshot balance.
+ *
+ * @remarks
+ * This contract exposes no public way to take a snapshot. Derived contracts decide who can
+ * call `_snapshot`, for example an owner-only method or a governance action.
+ */
+export abstract class OP20Snapshot extends OP20 implements IOP20Snapshot {
+    /** Id of the most recent snapshot, zero before the first one. */
+    protected readonly _currentSnapshotId: StoredU256;
+
+    public constructor() {
+        super();
+        this._currentSnapshotId = new StoredU256(currentSnapshotIdPointer, EMPTY_POINTER);
+    }
+
+    /**
+     * Returns the id of the most recent snapshot.
+     *
+     * @returns Current snapshot id, zero if no snapshot was taken yet
+     */
+    @method()
+    @returns({ name: 'snapshotId', type: ABIDataTypes.UINT64 })
+    public currentSnapshotId(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U64_BYTE_LENGTH);
+        w.writeU64(this._getCurrentSnapshotId());
+        return w;
+    }
+
+    /**
+     * Returns the balance of an account at the time a snapshot was taken.
+     *
+     * @param calldata - Contains the account address and snapshot id
+     * @returns Balance of the account at that snapshot
+     *
+     * @throws {Revert} If the snapshot id is zero or does not exist yet
+     */
+    @method(
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'snapshotId', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'balance', type: ABIDataTypes.UINT256 })
+    public balanceOfAt(calldata: Calldata): BytesWriter {
+        const account = calldata.readAddress();
+        const snapshotId = calldata.readU64();
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._balanceOfAt(account, snapshotId));
+        return w;
+    }
+
+    /**
+     * Returns the total supply at the time a snapshot was taken.
+     *
+     * @param calldata - Contains the snapshot id
+     * @returns Total supply at that snapshot
+     *
+     * @throws {Revert} If the snapshot id is zero or does not exist yet
+     */
+    @method({ name: 'snapshotId', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'totalSupply', type: ABIDataTypes.UINT256 })
+    public totalSupplyAt(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._totalSupplyAt(calldata.readU64()));
+        return w;
+    }
+
+    /**
+     * Internal: Takes a new snapshot.
+     * @protected
+     *
+     * @returns Id of the new snapshot
+     * @emits Snapshot event
+     */
+    protected _snapshot(): u64 {
+        const snapshotId = this._getCurrentSnapshotId() + 1;
+        this._currentSnapshotId.value = u256.fromU64(snapshotId);
+
+        this.emitEvent(new SnapshotEvent(snapshotId));
+
+        return snapshotId;
+    }
+
+    /**
+     * Internal: Gets the id of the most recent snapshot.
+     * @protected
+     */
+    protected _getCurrentSnapshotId(): u64 {
+        return this._currentSnapshotId.value.toU64();
+    }
+
+    /**
+     * Internal: Gets the balance of an account at a snapshot.
+     * @protected
+     *
+     * @throws {Revert} If the snapshot id is zero or does not exist yet
+     */
+    protected _balanceOfAt(account: Address, snapshotId: u64): u256 {
+        const account30 = this._truncateAddress(account);
+        return this._valueAt(
+            new StoredU64Array(balanceSnapshotIdsPointer, account30),
+            new StoredU256Array(balanceSnapshotValuesPointer, account30),
+            snapshotId,
+            this._balanceOf(account),
+        );
+    }
+
+    /**
+     * Internal: Gets the total supply at a snapshot.
+     * @protected
+     *
+     * @throws {Revert} If the snapshot id is zero or does not exist yet
+     */
+    protected _totalSupplyAt(snapshotId: u64): u256 {
+        const subPointer = new Uint8Array(30);
+        return this._valueAt(
+            new StoredU64Array(totalSupplySnapshotIdsPointer, subPointer),
+            new StoredU256Array(totalSupplySnapshotValuesPointer, subPointer),
+            snapshotId,
+            this._totalSupply.value,
+        );
+    }
+
+    /**
+     * Internal: Records balances before a transfer.
+     * @protected
+     */
+    protected override _transfer(from: Address, to: Address, amount: u256): void {
+        this._updateAccountSnapshot(from);
+        this._updateAccountSnapshot(to);
+        super._transfer(from, to, amount);
+    }
+
+    /**
+     * Internal: Records the balance and total supply before a mint.
+     * @protected
+     */
+    protected override _mint(to: Address, amount: u256): void {
+        this._updateAccountSnapshot(to);
+        this._updateTotalSupplySnapshot();
+        super._mint(to, amount);
+    }
+
+    /**
+     * Internal: Records the balance and total supply before a burn.
+     * @protected
+     */
+    protected override _burn(from: Address, amount: u256): void {
+        this._updateAccountSnapshot(from);
+        this._updateTotalSupplySnapshot();
+        super._burn(from, amount);
+    }
+
+    /**
+     * Internal: Records balances before a batch transfer.
+     * @protected
+     */
+    protected override _batchTransfer(from: Address, recipients: AddressMap<u256>): void {
+        this._updateAccountSnapshot(from);
+
+        const addresses = recipients.keys();
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            this._updateAccountSnapshot(addresses[i]);
+        }
+
+        super._batchTransfer(from, recipients);
+    }
+
+    /**
+     * Internal: Records balances and total supply before an airdrop.
+     * @protected
+     */
+    protected override _airdrop(recipients: AddressMap<u256>): void {
+        const addresses = recipients.keys();
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            this._updateAccountSnapshot(addresses[i]);
+        }
+        this._updateTotalSupplySnapshot();
+
+        super._airdrop(recipients);
+    }
+
+    /**
+     * Checks if a selector should bypass reentrancy guards.
+     * @protected
+     */
+    protected override isSelectorExcluded(selector: Selector): boolean {
+        if (
+            selector == CURRENT_SNAPSHOT_ID_SELECTOR ||
+            selector == BALANCE_OF_AT_SELECTOR ||
+            selector == TOTAL_SUPPLY_AT_SELECTOR
+        ) {
+            return true;
+        }
+        return super.isSelectorExcluded(selector);
+    }
+
+    private _updateAccountSnapshot(account: Address): void {
+        if (account.isZero()) return;
+
+        const account30 = this._truncateAddress(account);
+        this._updateSnapshot(
+            new StoredU64Array(balanceSnapshotIdsPointer, account30),
+            new StoredU256Array(balanceSnapshotValuesPointer, account30),
+            this._balanceOf(account),
+        );
+    }
+
+    private _updateTotalSupplySnapshot(): void {
+        const subPointer = new Uint8Array(30);
+        this._updateSnapshot(
+            new StoredU64Array(totalSupplySnapshotIdsPointer, subPointer),
+            new StoredU256Array(totalSupplySnapshotValuesPointer, subPointer),
+            this._totalSupply.value,
+        );
+    }
+
+    /**
+     * Stores `currentValue` for the current snapshot, unless a value was already
+     * stored for it. Must run before the value changes.
+     */
+    private _updateSnapshot(
+        ids: StoredU64Array,
+        values: StoredU256Array,
+        currentValue: u256,
+    ): void {
+        const currentId = this._getCurrentSnapshotId();
+        if (currentId == 0) return;
+
+        const length = ids.getLength();
+        if (length > 0 && ids.get(length - 1) >= currentId) return;
+
+        ids.push(currentId);
+        values.push(currentValue);
+
+        ids.save();
+        values.save();
+    }
+
+    /**
+     * Binary search for the first value stored at or after `snapshotId`. When nothing was
+     * stored since, the value has not changed and `currentValue` is returned.
+     */
+    private _valueAt(
+        ids: StoredU64Array,
+        values: StoredU256Array,
+        snapshotId: u64,
+        currentValue: u256,
+    ): u256 {
+        if (snapshotId == 0) {
+            throw new Revert('Invalid snapshot id');
+        }
+        if (snapshotId > this._getCurrentSnapshotId()) {
+            throw new Revert('Nonexistent snapshot id');
+        }
+
+        let low: u32 = 0;
+        let high: u32 = ids.getLength();
+
+        while (low < high) {
+            const mid = low + ((high - low) >> 1);
+            if (ids.get(mid) < snapshotId) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        if (low == ids.getLength()) return currentValue;
+        return values.get(low);
+    }
+
+    private _truncateAddress(account: Address): Uint8Array {
+        // Truncate the 32-byte address to 30 bytes for the storage pointer
+        const truncated = new Uint8Array(30);
+        for (let i: i32 = 0; i < 30; i++) {
+            truncated[i] = account[i];
+        }
+        return truncated;
+    }
+}
@@ -0,0 +1,108 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { AddressMap } from '../generic/AddressMap';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { BOOLEAN_BYTE_LENGTH } from '../utils';
+import { IOP20Soulbound } from './interfaces/IOP20Soulbound';
+import { OP20 } from './OP20';
+
+/**
+ * OP20 token whose balances never move once minted.
+ *
+ * Meant for reputation points and other non-transferable scores. Transfers, batch transfers,
+ * allowances and their signature variants all revert, since they share the internal
+ * `_transfer`, `_batchTransfer`, `_spendAllowance` and allowance paths this class closes.
+ *
+ * Balances only change through issuer-controlled minting, airdrops, `burn` and `revoke`. The
+ * issuer is the deployer; override `onlyIssuer` to hand issuance to a role.
+ */
+export abstract class OP20Soulbound extends OP20 implements IOP20Soulbound {
+    public constructor() {
+        super();
+    }
+
+    /**
+     * Returns whether balances are bound to their holders, which is always the case.
+     */
+    @method()
+    @returns({ name: 'locked', type: ABIDataTypes.BOOL })
+    public locked(_: Calldata): BytesWriter {
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(true);
+        return w;
+    }
+
+    /**
+     * Burns tokens from a holder on behalf of the issuer.
+     *
+     * @param calldata - Contains the holder and amount
+     * @emits Burned event
+     *
+     * @throws {Revert} If the caller is not the issuer
+     * @throws {Revert} If the holder has insufficient balance
+     */
+    @method(
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+    )
+    @emit('Burned')
+    public revoke(calldata: Calldata): BytesWriter {
+        this.onlyIssuer();
+
+        this._burn(calldata.readAddress(), calldata.readU256());
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Burns tokens from the issuer's own balance. Holders cannot burn.
+     *
+     * @throws {Revert} If the caller is not the issuer
+     */
+    @method({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('Burned')
+    public override burn(calldata: Calldata): BytesWriter {
+        this.onlyIssuer();
+
+        return super.burn(calldata);
+    }
+
+    /**
+     * Airdrops are issuer mints.
+     */
+    protected override onlyAirdropAuthority(): void {
+        this.onlyIssuer();
+    }
+
+    protected override _transfer(_from: Address, _to: Address, _amount: u256): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    protected override _batchTransfer(_from: Address, _recipients: AddressMap<u256>): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    protected override _spendAllowance(_owner: Address, _spender: Address, _amount: u256): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    protected override _increaseAllowance(_owner: Address, _spender: Address, _amount: u256): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    protected override _decreaseAllowance(_owner: Address, _spender: Address, _amount: u256): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    /**
+     * Internal: Reverts unless the caller is the issuer.
+     * Override to change who can revoke, burn and airdrop, for example an issuer role.
+     * @protected
+     */
+    protected onlyIssuer(): void {
+        this.onlyDeployer(Blockchain.tx.sender);
+    }
+}
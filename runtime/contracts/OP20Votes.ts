@@ -0,0 +1,455 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { OP20_DELEGATION_TYPE_HASH } from '../constants/Exports';
+import { Blockchain } from '../env';
+import { sha256 } from '../env/global';
+import { DelegateChangedEvent, DelegateVotesChangedEvent } from '../events/votes/VotesEvents';
+import { AddressMap } from '../generic/AddressMap';
+import { Selector } from '../math/abi';
+import { AddressMemoryMap } from '../memory/AddressMemoryMap';
+import { StoredU256Array } from '../storage/arrays/StoredU256Array';
+import { StoredU64Array } from '../storage/arrays/StoredU64Array';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { ExtendedAddress } from '../types/ExtendedAddress';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '../utils';
+import { IOP20Votes } from './interfaces/IOP20Votes';
+import { OP20 } from './OP20';
+
+// Selectors: sha256 first 4 bytes
+export const DELEGATES_SELECTOR: u32 = 0x1e39b27c; // "delegates(address)"
+export const GET_VOTES_SELECTOR: u32 = 0xcf124c68; // "getVotes(address)"
+export const GET_PAST_VOTES_SELECTOR: u32 = 0x4ddc40f1; // "getPastVotes(address,uint64)"
+export const GET_PAST_TOTAL_SUPPLY_SELECTOR: u32 = 0xf9ee992d; // "getPastTotalSupply(uint64)"
+
+const delegatesPointer: u16 = Blockchain.nextPointer;
+const checkpointBlocksPointer: u16 = Blockchain.nextPointer;
+const checkpointVotesPointer: u16 = Blockchain.nextPointer;
+const totalSupplyCheckpointBlocksPointer: u16 = Blockchain.nextPointer;
+const totalSupplyCheckpointVotesPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * OP20 token with delegated voting power and historical checkpoints.
+ *
+ * Every holder picks a delegate (possibly themselves) that receives the voting power of
+ * their balance. Voting power is recorded as checkpoints keyed by block number whenever it
+ * changes, so governance contracts can read the votes an account had at a past block.
+ *
+ * @remarks
+ * Balances do not count as votes until they are delegated. Holders that want to vote with
+ * their own tokens must delegate to themselves first. Checkpoints are only written for
+ * delegates, so tokens that were never delegated cost nothing extra to move.
+ *
+ * Past lookups only accept blocks before the current one, since votes in the current block
+ * can still change.
+ */
+export abstract class OP20Votes extends OP20 implements IOP20Votes {
+    /**
+     * Mapping of account -> delegate.
+     * Stores the raw delegate address bytes, zero when the account never delegated.
+     */
+    protected readonly _delegatesMap: AddressMemoryMap;
+
+    public constructor() {
+        super();
+        this._delegatesMap = new AddressMemoryMap(delegatesPointer);
+    }
+
+    /**
+     * Returns the delegate of an account.
+     *
+     * @param calldata - Contains the account address
+     * @returns Delegate address, zero if the account has not delegated
+     */
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'delegatee', type: ABIDataTypes.ADDRESS })
+    public delegates(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        w.writeAddress(this._delegates(calldata.readAddress()));
+        return w;
+    }
+
+    /**
+     * Returns the current voting power of an account.
+     *
+     * @param calldata - Contains the account address
+     * @returns Current votes delegated to the account
+     */
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'votes', type: ABIDataTypes.UINT256 })
+    public getVotes(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._getVotes(calldata.readAddress()));
+        return w;
+    }
+
+    /**
+     * Returns the voting power of an account at the end of a past block.
+     *
+     * @param calldata - Contains the account address and block number
+     * @returns Votes delegated to the account at that block
+     *
+     * @throws {Revert} If the block is not in the past
+     */
+    @method(
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'votes', type: ABIDataTypes.UINT256 })
+    public getPastVotes(calldata: Calldata): BytesWriter {
+        const account = calldata.readAddress();
+        const blockNumber = calldata.readU64();
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._getPastVotes(account, blockNumber));
+        return w;
+    }
+
+    /**
+     * Returns the total supply at the end of a past block.
+     *
+     * @param calldata - Contains the block number
+     * @returns Total supply at that block
+     *
+     * @throws {Revert} If the block is not in the past
+     */
+    @method({ name: 'blockNumber', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'totalSupply', type: ABIDataTypes.UINT256 })
+    public getPastTotalSupply(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._getPastTotalSupply(calldata.readU64()));
+        return w;
+    }
+
+    /**
+     * Delegates the caller's voting power.
+     *
+     * @param calldata - Contains the delegatee address
+     * @emits DelegateChanged event
+     * @emits DelegateVotesChanged event for each delegate whose votes changed
+     */
+    @method({ name: 'delegatee', type: ABIDataTypes.ADDRESS })
+    @emit('DelegateChanged', 'DelegateVotesChanged')
+    public delegate(calldata: Calldata): BytesWriter {
+        this._delegate(Blockchain.tx.sender, calldata.readAddress());
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Delegates voting power using an EIP-712 typed signature.
+     *
+     * @param calldata - Contains delegator, delegatee, deadline, and signature
+     * @emits DelegateChanged event
+     * @emits DelegateVotesChanged event for each delegate whose votes changed
+     *
+     * @throws {Revert} If signature is invalid or expired
+     *
+     * @remarks
+     * Shares the nonce used by the allowance signatures, see nonceOf.
+     */
+    @method(
+        { name: 'delegator', type: ABIDataTypes.BYTES32 },
+        { name: 'delegatorTweakedPublicKey', type: ABIDataTypes.BYTES32 },
+        { name: 'delegatee', type: ABIDataTypes.ADDRESS },
+        { name: 'deadline', type: ABIDataTypes.UINT64 },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @emit('DelegateChanged', 'DelegateVotesChanged')
+    public delegateBySignature(calldata: Calldata): BytesWriter {
+        const delegatorAddress = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+        const delegatorTweakedPublicKey = calldata.readBytesArray(ADDRESS_BYTE_LENGTH);
+
+        const delegator = new ExtendedAddress(delegatorTweakedPublicKey, delegatorAddress);
+
+        const delegatee: Address = calldata.readAddress();
+        const deadline: u64 = calldata.readU64();
+        const signature = calldata.readBytesWithLength();
+
+        this._verifyDelegationSignature(delegator, delegatee, deadline, signature);
+        this._delegate(delegator, delegatee);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Internal: Gets the delegate of an account.
+     * @protected
+     */
+    protected _delegates(account: Address): Address {
+        if (!this._delegatesMap.has(account)) return Address.zero();
+        return Address.fromUint8Array(this._delegatesMap.getAsUint8Array(account));
+    }
+
+    /**
+     * Internal: Gets the current votes of an account.
+     * @protected
+     */
+    protected _getVotes(account: Address): u256 {
+        return this._latestCheckpoint(
+            new StoredU256Array(checkpointVotesPointer, this._truncateAddress(account)),
+        );
+    }
+
+    /**
+     * Internal: Gets the votes of an account at the end of a past block.
+     * @protected
+     *
+     * @throws {Revert} If the block is not in the past
+     */
+    protected _getPastVotes(account: Address, blockNumber: u64): u256 {
+        this._requirePastBlock(blockNumber);
+
+        const account30 = this._truncateAddress(account);
+        return this._checkpointLookup(
+            new StoredU64Array(checkpointBlocksPointer, account30),
+            new StoredU256Array(checkpointVotesPointer, account30),
+            blockNumber,
+        );
+    }
+
+    /**
+     * Internal: Gets the total supply at the end of a past block.
+     * @protected
+     *
+     * @throws {Revert} If the block is not in the past
+     */
+    protected _getPastTotalSupply(blockNumber: u64): u256 {
+        this._requirePastBlock(blockNumber);
+
+        const subPointer = new Uint8Array(30);
+        return this._checkpointLookup(
+            new StoredU64Array(totalSupplyCheckpointBlocksPointer, subPointer),
+            new StoredU256Array(totalSupplyCheckpointVotesPointer, subPointer),
+            blockNumber,
+        );
+    }
+
+    /**
+     * Internal: Changes the delegate of an account and moves its voting power.
+     * @protected
+     */
+    protected _delegate(account: Address, delegatee: Address): void {
+        const previousDelegate = this._delegates(account);
+        this._delegatesMap.setAsUint8Array(account, delegatee);
+
+        this.emitEvent(new DelegateChangedEvent(account, previousDelegate, delegatee));
+
+        this._moveVotingPower(previousDelegate, delegatee, this._balanceOf(account));
+    }
+
+    /**
+     * Internal: Moves votes between delegates after a balance change.
+     * @protected
+     */
+    protected _moveVotingPower(from: Address, to: Address, amount: u256): void {
+        if (amount.isZero() || from.equals(to)) return;
+
+        if (!from.isZero()) {
+            const blocks = new StoredU64Array(checkpointBlocksPointer, this._truncateAddress(from));
+            const votes = new StoredU256Array(checkpointVotesPointer, this._truncateAddress(from));
+
+            const previousVotes = this._latestCheckpoint(votes);
+            const newVotes = SafeMath.sub(previousVotes, amount);
+            this._pushCheckpoint(blocks, votes, newVotes);
+
+            this.emitEvent(new DelegateVotesChangedEvent(from, previousVotes, newVotes));
+        }
+
+        if (!to.isZero()) {
+            const blocks = new StoredU64Array(checkpointBlocksPointer, this._truncateAddress(to));
+            const votes = new StoredU256Array(checkpointVotesPointer, this._truncateAddress(to));
+
+            const previousVotes = this._latestCheckpoint(votes);
+            const newVotes = SafeMath.add(previousVotes, amount);
+            this._pushCheckpoint(blocks, votes, newVotes);
+
+            this.emitEvent(new DelegateVotesChangedEvent(to, previousVotes, newVotes));
+        }
+    }
+
+    /**
+     * Internal: Transfers tokens and moves the matching voting power.
+     * @protected
+     */
+    protected override _transfer(from: Address, to: Address, amount: u256): void {
+        super._transfer(from, to, amount);
+        this._moveVotingPower(this._delegates(from), this._delegates(to), amount);
+    }
+
+    /**
+     * Internal: Mints tokens and checkpoints the new total supply.
+     * @protected
+     */
+    protected override _mint(to: Address, amount: u256): void {
+        super._mint(to, amount);
+        this._writeTotalSupplyCheckpoint();
+        this._moveVotingPower(Address.zero(), this._delegates(to), amount);
+    }
+
+    /**
+     * Internal: Burns tokens and checkpoints the new total supply.
+     * @protected
+     */
+    protected override _burn(from: Address, amount: u256): void {
+        super._burn(from, amount);
+        this._writeTotalSupplyCheckpoint();
+        this._moveVotingPower(this._delegates(from), Address.zero(), amount);
+    }
+
+    /**
+     * Internal: Batch transfers tokens and moves the matching voting power.
+     * @protected
+     */
+    protected override _batchTransfer(from: Address, recipients: AddressMap<u256>): void {
+        super._batchTransfer(from, recipients);
+
+        const fromDelegate = this._delegates(from);
+        const addresses = recipients.keys();
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            this._moveVotingPower(
+                fromDelegate,
+                this._delegates(addresses[i]),
+                recipients.get(addresses[i]),
+            );
+        }
+    }
+
+    /**
+     * Internal: Airdrops tokens and checkpoints the new total supply.
+     * @protected
+     */
+    protected override _airdrop(recipients: AddressMap<u256>): void {
+        super._airdrop(recipients);
+        this._writeTotalSupplyCheckpoint();
+
+        const addresses = recipients.keys();
+        for (let i: i32 = 0; i < addresses.length; i++) {
+            this._moveVotingPower(
+                Address.zero(),
+                this._delegates(addresses[i]),
+                recipients.get(addresses[i]),
+            );
+        }
+    }
+
+    /**
+     * Internal: Verifies a delegation signature and consumes the delegator's nonce.
+     * @protected
+     */
+    protected _verifyDelegationSignature(
+        delegator: ExtendedAddress,
+        delegatee: Address,
+        deadline: u64,
+        signature: Uint8Array,
+    ): void {
+        if (Blockchain.block.number > deadline) {
+            throw new Revert('Signature expired');
+        }
+
+        const nonce = this._nonceMap.get(delegator);
+
+        const structWriter = new BytesWriter(
+            32 + ADDRESS_BYTE_LENGTH * 2 + U256_BYTE_LENGTH + U64_BYTE_LENGTH,
+        );
+        structWriter.writeBytesU8Array(OP20_DELEGATION_TYPE_HASH);
+        structWriter.writeAddress(delegator);
+        structWriter.writeAddress(delegatee);
+        structWriter.writeU256(nonce);
+        structWriter.writeU64(deadline);
+
+        this._verifyTypedSignature(delegator, sha256(structWriter.getBuffer()), signature);
+
+        this._nonceMap.set(delegator, SafeMath.add(nonce, u256.One));
+    }
+
+    /**
+     * Checks if a selector should bypass reentrancy guards.
+     * @protected
+     */
+    protected override isSelectorExcluded(selector: Selector): boolean {
+        if (
+            selector == DELEGATES_SELECTOR ||
+            selector == GET_VOTES_SELECTOR ||
+            selector == GET_PAST_VOTES_SELECTOR ||
+            selector == GET_PAST_TOTAL_SUPPLY_SELECTOR
+        ) {
+            return true;
+        }
+        return super.isSelectorExcluded(selector);
+    }
+
+    private _writeTotalSupplyCheckpoint(): void {
+        const subPointer = new Uint8Array(30);
+        this._pushCheckpoint(
+            new StoredU64Array(totalSupplyCheckpointBlocksPointer, subPointer),
+            new StoredU256Array(totalSupplyCheckpointVotesPointer, subPointer),
+            this._totalSupply.value,
+        );
+    }
+
+    /**
+     * Records `value` for the current block, overwriting the last checkpoint
+     * if it was already written in this block.
+     */
+    private _pushCheckpoint(blocks: StoredU64Array, votes: StoredU256Array, value: u256): void {
+        const blockNumber = Blockchain.block.number;
+        const length = blocks.getLength();
+
+        if (length > 0 && blocks.get(length - 1) == blockNumber) {
+            votes.set(length - 1, value);
+        } else {
+            blocks.push(blockNumber);
+            votes.push(value);
+        }
+
+        blocks.save();
+        votes.save();
+    }
+
+    private _latestCheckpoint(votes: StoredU256Array): u256 {
+        const length = votes.getLength();
+        if (length == 0) return u256.Zero;
+        return votes.get(length - 1);
+    }
+
+    /**
+     * Binary search for the last checkpoint written at or before `blockNumber`.
+     */
+    private _checkpointLookup(
+        blocks: StoredU64Array,
+        votes: StoredU256Array,
+        blockNumber: u64,
+    ): u256 {
+        let low: u32 = 0;
+        let high: u32 = blocks.getLength();
+
+        while (low < high) {
+            const mid = low + ((high - low) >> 1);
+            if (blocks.get(mid) > blockNumber) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+
+        if (high == 0) return u256.Zero;
+        return votes.get(high - 1);
+    }
+
+    private _requirePastBlock(blockNumber: u64): void {
+        if (blockNumber >= Blockchain.block.number) {
+            throw new Revert('Future lookup');
+        }
+    }
+
+    private _truncateAddress(account: Address): Uint8Array {
+        // Truncate the 32-byte address to 30 bytes for the storage pointer
+        const truncated = new Uint8Array(30);
+        for (let i: i32 = 0; i < 30; i++) {
+            truncated[i] = account[i];
+        }
+        return truncated;
+    }
+}
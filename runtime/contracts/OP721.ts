@@ -29,6 +29,7 @@ import { OP721InitParameters } from './interfaces/OP721InitParameters';
 import { ReentrancyGuard } from './ReentrancyGuard';
 import { StoredMapU256 } from '../storage/maps/StoredMapU256';
 import { MAX_URI_LENGTH, OP721ApprovedForAllEvent, URIEvent } from '../events/predefined';
+import { AddressMap } from '../generic/AddressMap';
 import {
     ON_OP721_RECEIVED_SELECTOR,
     OP712_DOMAIN_TYPE_HASH,
@@ -84,7 +85,7 @@ export abstract class OP721 extends ReentrancyGuard implements IOP721 {
     protected readonly tokenURIStorage: Map<u32, StoredString> = new Map();
 
     // Enumerable extension - owner -> array of token IDs
-    protected readonly ownerTokensMap: Map<Address, StoredU256Array> = new Map();
+    protected readonly ownerTokensMap: AddressMap<StoredU256Array> = new AddressMap();
 
     // Token ID -> index in owner's array
     protected readonly tokenIndexMap: StoredMapU256;
@@ -616,16 +617,7 @@ export abstract class OP721 extends ReentrancyGuard implements IOP721 {
     protected _burn(tokenId: u256): void {
         const owner = this._ownerOf(tokenId);
 
-        // Check authorization
-        if (
-            owner !== Blockchain.tx.sender &&
-            !this._isApprovedForAll(owner, Blockchain.tx.sender)
-        ) {
-            const approved = this._addressFromU256(this.tokenApprovalMap.get(tokenId));
-            if (approved !== Blockchain.tx.sender) {
-                throw new Revert('Not authorized to burn');
-            }
-        }
+        this._checkBurnAuthorization(owner, tokenId);
 
         // Clear approvals
         this.tokenApprovalMap.delete(tokenId);
@@ -652,6 +644,21 @@ export abstract class OP721 extends ReentrancyGuard implements IOP721 {
         this.createBurnedEvent(owner, tokenId);
     }
 
+    /**
+     * Internal: Reverts unless the sender may burn the token.
+     * By default the owner, an operator of the owner or the approved address may burn.
+     * @protected
+     */
+    protected _checkBurnAuthorization(owner: Address, tokenId: u256): void {
+        const sender = Blockchain.tx.sender;
+        if (owner !== sender && !this._isApprovedForAll(owner, sender)) {
+            const approved = this._addressFromU256(this.tokenApprovalMap.get(tokenId));
+            if (approved !== sender) {
+                throw new Revert('Not authorized to burn');
+            }
+        }
+    }
+
     protected _transfer(from: Address, to: Address, tokenId: u256): void {
         if (from === Address.zero()) {
             throw new Revert('Invalid sender');
@@ -0,0 +1,186 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { EMPTY_POINTER } from '../math/bytes';
+import { StoredU256Array } from '../storage/arrays/StoredU256Array';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { U16_BYTE_LENGTH, U256_BYTE_LENGTH } from '../utils';
+import { IOP721Enumerable } from './interfaces/IOP721Enumerable';
+import { OP721 } from './OP721';
+
+// Selectors: sha256 first 4 bytes
+export const TOKEN_BY_INDEX_SELECTOR: u32 = 0x018b273a; // "tokenByIndex(uint256)"
+export const TOKENS_SELECTOR: u32 = 0x10946b8b; // "tokens(uint32,uint32)"
+export const TOKENS_OF_OWNER_SELECTOR: u32 = 0x0f626615; // "tokensOfOwner(address,uint32,uint32)"
+
+/** Most token ids returned by a single page. */
+export const MAX_ENUMERATION_PAGE_SIZE: u32 = 500;
+
+const allTokensPointer: u16 = Blockchain.nextPointer;
+const allTokensIndexMapPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * OP721 collection that can list every token without scanning events.
+ *
+ * Every minted token is kept in a global array, so `tokenByIndex(i)` for `i` below
+ * `totalSupply` visits the whole collection. Burning moves the last token into the burned
+ * token's position, so indexes are not stable across burns.
+ *
+ * `tokens(offset, limit)` and `tokensOfOwner(owner, offset, limit)` return a page of up to
+ * MAX_ENUMERATION_PAGE_SIZE token ids, letting front-ends list a collection or a wallet in a
+ * few calls. Pages past the end are empty.
+ */
+export abstract class OP721Enumerable extends OP721 implements IOP721Enumerable {
+    /** Every existing token id, in no particular order. */
+    protected readonly allTokens: StoredU256Array;
+
+    /** Mapping of tokenId -> position in allTokens. */
+    protected readonly allTokensIndexMap: StoredMapU256;
+
+    public constructor() {
+        super();
+
+        this.allTokens = new StoredU256Array(allTokensPointer, EMPTY_POINTER);
+        this.allTokensIndexMap = new StoredMapU256(allTokensIndexMapPointer);
+    }
+
+    /**
+     * Returns the token at a position of the global token list.
+     *
+     * @param calldata - Contains the index, below totalSupply
+     * @returns Token id
+     *
+     * @throws {Revert} If the index is out of bounds
+     */
+    @method({ name: 'index', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    public tokenByIndex(calldata: Calldata): BytesWriter {
+        const index = calldata.readU256();
+        if (index >= u256.fromU32(this.allTokens.getLength())) {
+            throw new Revert('Index out of bounds');
+        }
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this.allTokens.get(index.toU32()));
+        return w;
+    }
+
+    /**
+     * Returns a page of the global token list.
+     *
+     * @param calldata - Contains the offset and the page size
+     * @returns Up to `limit` token ids starting at `offset`
+     *
+     * @throws {Revert} If the page size exceeds MAX_ENUMERATION_PAGE_SIZE
+     */
+    @method(
+        { name: 'offset', type: ABIDataTypes.UINT32 },
+        { name: 'limit', type: ABIDataTypes.UINT32 },
+    )
+    @returns({ name: 'tokenIds', type: ABIDataTypes.ARRAY_OF_UINT256 })
+    public tokens(calldata: Calldata): BytesWriter {
+        const offset = calldata.readU32();
+        const limit = calldata.readU32();
+
+        return this._writeTokenPage(this._tokenPage(this.allTokens, offset, limit));
+    }
+
+    /**
+     * Returns a page of the tokens held by an address.
+     *
+     * @param calldata - Contains the owner, offset and page size
+     * @returns Up to `limit` token ids starting at `offset`
+     *
+     * @throws {Revert} If the owner is the zero address
+     * @throws {Revert} If the page size exceeds MAX_ENUMERATION_PAGE_SIZE
+     */
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'offset', type: ABIDataTypes.UINT32 },
+        { name: 'limit', type: ABIDataTypes.UINT32 },
+    )
+    @returns({ name: 'tokenIds', type: ABIDataTypes.ARRAY_OF_UINT256 })
+    public tokensOfOwner(calldata: Calldata): BytesWriter {
+        const owner = calldata.readAddress();
+        const offset = calldata.readU32();
+        const limit = calldata.readU32();
+
+        if (owner === Address.zero()) {
+            throw new Revert('Invalid address');
+        }
+
+        const ownerTokens = this._getOwnerTokenArray(owner);
+        return this._writeTokenPage(this._tokenPage(ownerTokens, offset, limit));
+    }
+
+    protected override _mint(to: Address, tokenId: u256): void {
+        super._mint(to, tokenId);
+        this._addTokenToAllTokensEnumeration(tokenId);
+    }
+
+    protected override _burn(tokenId: u256): void {
+        super._burn(tokenId);
+        this._removeTokenFromAllTokensEnumeration(tokenId);
+    }
+
+    /**
+     * Internal: Appends a token to the global token list.
+     * @protected
+     */
+    protected _addTokenToAllTokensEnumeration(tokenId: u256): void {
+        const newIndex = this.allTokens.getLength();
+        this.allTokens.push(tokenId);
+        this.allTokensIndexMap.set(tokenId, u256.fromU32(newIndex));
+        this.allTokens.save();
+    }
+
+    /**
+     * Internal: Removes a token from the global token list, moving the last token into its place.
+     * @protected
+     */
+    protected _removeTokenFromAllTokensEnumeration(tokenId: u256): void {
+        const arrayLength = this.allTokens.getLength();
+        if (arrayLength == 0) {
+            throw new Revert('Token array is empty');
+        }
+
+        const lastIndex = arrayLength - 1;
+        const tokenIndex = this.allTokensIndexMap.get(tokenId).toU32();
+
+        if (tokenIndex != lastIndex) {
+            const lastTokenId = this.allTokens.get(lastIndex);
+            this.allTokens.set(tokenIndex, lastTokenId);
+            this.allTokensIndexMap.set(lastTokenId, u256.fromU32(tokenIndex));
+        }
+
+        this.allTokens.deleteLast();
+        this.allTokensIndexMap.delete(tokenId);
+
+        this.allTokens.save();
+    }
+
+    /**
+     * Internal: Reads up to `limit` ids from `offset`, stopping at the end of the list.
+     * @protected
+     */
+    protected _tokenPage(list: StoredU256Array, offset: u32, limit: u32): u256[] {
+        if (limit > MAX_ENUMERATION_PAGE_SIZE) {
+            throw new Revert('Page size too large');
+        }
+
+        const length = list.getLength();
+        if (offset >= length) return [];
+
+        const remaining = length - offset;
+        return list.getAll(offset, limit < remaining ? limit : remaining);
+    }
+
+    private _writeTokenPage(tokenIds: u256[]): BytesWriter {
+        const w = new BytesWriter(U16_BYTE_LENGTH + tokenIds.length * U256_BYTE_LENGTH);
+        w.writeU256Array(tokenIds);
+        return w;
+    }
+}
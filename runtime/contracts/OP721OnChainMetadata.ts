@@ -0,0 +1,486 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { sha256 } from '../env/global';
+import { MetadataUpdateEvent } from '../events/metadata/MetadataEvents';
+import { AdvancedStoredString } from '../storage/AdvancedStoredString';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Calldata } from '../types';
+import { Revert } from '../types/Revert';
+import { encodeBase64, escapeJsonString, U256_BYTE_LENGTH, U32_BYTE_LENGTH } from '../utils';
+import { IOP721OnChainMetadata } from './interfaces/IOP721OnChainMetadata';
+import { OP721Trait, OP721TraitType } from './interfaces/OP721Trait';
+import { OP721 } from './OP721';
+
+export const MAX_TRAITS_PER_TOKEN: u32 = 32;
+export const MAX_TRAIT_KEY_LENGTH: u32 = 64;
+export const MAX_TRAIT_VALUE_LENGTH: u32 = 256;
+export const MAX_TOKEN_IMAGE_LENGTH: u32 = 8192;
+
+/** Largest metadata document, in UTF-8 bytes, before base64 encoding. */
+export const MAX_METADATA_LENGTH: u32 = 24576;
+
+export const METADATA_DATA_URI_PREFIX: string = 'data:application/json;base64,';
+
+const traitCountMapPointer: u16 = Blockchain.nextPointer;
+const traitKeyPointer: u16 = Blockchain.nextPointer;
+const traitValuePointer: u16 = Blockchain.nextPointer;
+const traitTypeMapPointer: u16 = Blockchain.nextPointer;
+const tokenImagePointer: u16 = Blockchain.nextPointer;
+
+/**
+ * OP721 collection whose token metadata lives entirely on-chain.
+ *
+ * Each token stores up to MAX_TRAITS_PER_TOKEN typed traits and an optional image, usually a
+ * `data:` URI of an SVG. `tokenURI` renders them into a metadata document:
+ *
+ * ```json
+ * {"name":"Collection #1","description":"...","image":"...",
+ *  "attributes":[{"trait_type":"Eyes","value":"Laser"},{"trait_type":"Level","value":5}]}
+ * ```
+ *
+ * returned as a base64 `data:application/json` URI, while `tokenMetadata` returns the raw
+ * JSON. Strings are escaped, and the document is bounded by MAX_METADATA_LENGTH.
+ *
+ * The name defaults to the collection name followed by the token id, and the description to
+ * the collection description; override `_tokenName` and `_tokenDescription` to change them.
+ *
+ * @example
+ * ```typescript
+ * protected override _mint(to: Address, tokenId: u256): void {
+ *     super._mint(to, tokenId);
+ *     this._setTrait(tokenId, 'Background', <u8>OP721TraitType.STRING, 'Orange');
+ *     this._setTrait(tokenId, 'Level', <u8>OP721TraitType.NUMBER, '1');
+ * }
+ * ```
+ */
+export abstract class OP721OnChainMetadata extends OP721 implements IOP721OnChainMetadata {
+    /** Mapping of tokenId -> number of traits. */
+    protected readonly traitCountMap: StoredMapU256;
+
+    /** Mapping of trait slot -> OP721TraitType. */
+    protected readonly traitTypeMap: StoredMapU256;
+
+    public constructor() {
+        super();
+
+        this.traitCountMap = new StoredMapU256(traitCountMapPointer);
+        this.traitTypeMap = new StoredMapU256(traitTypeMapPointer);
+    }
+
+    /**
+     * Renders a metadata document.
+     *
+     * Empty descriptions and images are left out.
+     *
+     * @throws {Revert} If the document exceeds MAX_METADATA_LENGTH bytes
+     */
+    public static renderMetadata(
+        name: string,
+        description: string,
+        image: string,
+        traits: OP721Trait[],
+    ): string {
+        const parts: string[] = ['{"name":"', escapeJsonString(name), '"'];
+
+        if (description.length > 0) {
+            parts.push(',"description":"');
+            parts.push(escapeJsonString(description));
+            parts.push('"');
+        }
+
+        if (image.length > 0) {
+            parts.push(',"image":"');
+            parts.push(escapeJsonString(image));
+            parts.push('"');
+        }
+
+        parts.push(',"attributes":[');
+        for (let i = 0; i < traits.length; i++) {
+            const trait = traits[i];
+            if (i > 0) parts.push(',');
+
+            parts.push(
+                trait.traitType == <u8>OP721TraitType.DATE ? '{"display_type":"date",' : '{',
+            );
+            parts.push('"trait_type":"');
+            parts.push(escapeJsonString(trait.key));
+            parts.push('","value":');
+
+            if (trait.traitType == <u8>OP721TraitType.STRING) {
+                parts.push('"');
+                parts.push(escapeJsonString(trait.value));
+                parts.push('"');
+            } else {
+                parts.push(trait.value);
+            }
+
+            parts.push('}');
+        }
+        parts.push(']}');
+
+        const json = parts.join('');
+        if (<u32>String.UTF8.byteLength(json) > MAX_METADATA_LENGTH) {
+            throw new Revert('Metadata too large');
+        }
+
+        return json;
+    }
+
+    /**
+     * Wraps a metadata document in a base64 `data:application/json` URI.
+     */
+    public static toDataURI(json: string): string {
+        return METADATA_DATA_URI_PREFIX + encodeBase64(Uint8Array.wrap(String.UTF8.encode(json)));
+    }
+
+    /**
+     * Checks that a value is valid for its trait type.
+     */
+    public static isValidTraitValue(traitType: u8, value: string): bool {
+        switch (traitType) {
+            case <u8>OP721TraitType.STRING:
+                return true;
+            case <u8>OP721TraitType.NUMBER:
+                return isJsonNumber(value, true);
+            case <u8>OP721TraitType.BOOLEAN:
+                return value == 'true' || value == 'false';
+            case <u8>OP721TraitType.DATE:
+                return isJsonNumber(value, false);
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Returns the token metadata as a base64 `data:application/json` URI.
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'uri', type: ABIDataTypes.STRING })
+    public override tokenURI(calldata: Calldata): BytesWriter {
+        const uri = OP721OnChainMetadata.toDataURI(this._renderTokenMetadata(calldata.readU256()));
+
+        const w = new BytesWriter(U32_BYTE_LENGTH + String.UTF8.byteLength(uri));
+        w.writeStringWithLength(uri);
+        return w;
+    }
+
+    /**
+     * Returns the token metadata as raw JSON.
+     *
+     * @throws {Revert} If the token does not exist
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'json', type: ABIDataTypes.STRING })
+    public tokenMetadata(calldata: Calldata): BytesWriter {
+        const json = this._renderTokenMetadata(calldata.readU256());
+
+        const w = new BytesWriter(U32_BYTE_LENGTH + String.UTF8.byteLength(json));
+        w.writeStringWithLength(json);
+        return w;
+    }
+
+    /**
+     * Sets or replaces a trait of a token.
+     *
+     * @param calldata - Contains the tokenId, trait key, OP721TraitType and value
+     * @emits MetadataUpdate event
+     *
+     * @throws {Revert} If the caller is not the deployer
+     * @throws {Revert} If the token does not exist, or the trait is invalid or over the limits
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'key', type: ABIDataTypes.STRING },
+        { name: 'traitType', type: ABIDataTypes.UINT8 },
+        { name: 'value', type: ABIDataTypes.STRING },
+    )
+    @emit('MetadataUpdate')
+    public setTrait(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        const tokenId = calldata.readU256();
+        const key = calldata.readStringWithLength();
+        const traitType = calldata.readU8();
+        const value = calldata.readStringWithLength();
+
+        this._setTrait(tokenId, key, traitType, value);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Removes a trait from a token.
+     *
+     * @param calldata - Contains the tokenId and trait key
+     * @emits MetadataUpdate event
+     *
+     * @throws {Revert} If the caller is not the deployer
+     * @throws {Revert} If the token does not have the trait
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'key', type: ABIDataTypes.STRING },
+    )
+    @emit('MetadataUpdate')
+    public removeTrait(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        this._removeTrait(calldata.readU256(), calldata.readStringWithLength());
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Sets the image of a token; an empty image removes it.
+     *
+     * @param calldata - Contains the tokenId and image URI
+     * @emits MetadataUpdate event
+     *
+     * @throws {Revert} If the caller is not the deployer
+     * @throws {Revert} If the token does not exist or the image exceeds MAX_TOKEN_IMAGE_LENGTH
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'image', type: ABIDataTypes.STRING },
+    )
+    @emit('MetadataUpdate')
+    public setTokenImage(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        this._setTokenImage(calldata.readU256(), calldata.readStringWithLength());
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Internal: Sets or replaces a trait of a token.
+     * @protected
+     */
+    protected _setTrait(tokenId: u256, key: string, traitType: u8, value: string): void {
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        const keyLength = <u32>String.UTF8.byteLength(key);
+        if (keyLength == 0 || keyLength > MAX_TRAIT_KEY_LENGTH) {
+            throw new Revert('Invalid trait key');
+        }
+
+        if (<u32>String.UTF8.byteLength(value) > MAX_TRAIT_VALUE_LENGTH) {
+            throw new Revert('Trait value too long');
+        }
+
+        if (!OP721OnChainMetadata.isValidTraitValue(traitType, value)) {
+            throw new Revert('Invalid trait value');
+        }
+
+        const count = this._traitCount(tokenId);
+        let index = this._findTrait(tokenId, key);
+        if (index < 0) {
+            if (count >= MAX_TRAITS_PER_TOKEN) {
+                throw new Revert('Too many traits');
+            }
+
+            index = <i32>count;
+            this._traitKey(tokenId, count).value = key;
+            this.traitCountMap.set(tokenId, u256.fromU32(count + 1));
+        }
+
+        this._traitValue(tokenId, <u32>index).value = value;
+        this.traitTypeMap.set(this._traitTypeKey(tokenId, <u32>index), u256.fromU32(traitType));
+
+        this.emitEvent(new MetadataUpdateEvent(tokenId));
+    }
+
+    /**
+     * Internal: Removes a trait, moving the last trait into its place.
+     * @protected
+     */
+    protected _removeTrait(tokenId: u256, key: string): void {
+        const index = this._findTrait(tokenId, key);
+        if (index < 0) throw new Revert('Trait not found');
+
+        const lastIndex = this._traitCount(tokenId) - 1;
+        if (<u32>index != lastIndex) {
+            const last = this._readTrait(tokenId, lastIndex);
+            this._traitKey(tokenId, <u32>index).value = last.key;
+            this._traitValue(tokenId, <u32>index).value = last.value;
+            this.traitTypeMap.set(
+                this._traitTypeKey(tokenId, <u32>index),
+                u256.fromU32(last.traitType),
+            );
+        }
+
+        this._clearTrait(tokenId, lastIndex);
+        this.traitCountMap.set(tokenId, u256.fromU32(lastIndex));
+
+        this.emitEvent(new MetadataUpdateEvent(tokenId));
+    }
+
+    /**
+     * Internal: Sets the image of a token; an empty image removes it.
+     * @protected
+     */
+    protected _setTokenImage(tokenId: u256, image: string): void {
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        this._tokenImage(tokenId).value = image;
+
+        this.emitEvent(new MetadataUpdateEvent(tokenId));
+    }
+
+    /**
+     * Internal: Reads every trait of a token.
+     * @protected
+     */
+    protected _traitsOf(tokenId: u256): OP721Trait[] {
+        const count = this._traitCount(tokenId);
+        const traits = new Array<OP721Trait>(<i32>count);
+        for (let i: u32 = 0; i < count; i++) {
+            traits[<i32>i] = this._readTrait(tokenId, i);
+        }
+
+        return traits;
+    }
+
+    /**
+     * Internal: Name shown in the metadata document.
+     * @protected
+     */
+    protected _tokenName(tokenId: u256): string {
+        return this.name + ' #' + tokenId.toString();
+    }
+
+    /**
+     * Internal: Description shown in the metadata document.
+     * @protected
+     */
+    protected _tokenDescription(_tokenId: u256): string {
+        return this.description;
+    }
+
+    /**
+     * Internal: Renders the metadata document of a token.
+     * @protected
+     */
+    protected _renderTokenMetadata(tokenId: u256): string {
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        return OP721OnChainMetadata.renderMetadata(
+            this._tokenName(tokenId),
+            this._tokenDescription(tokenId),
+            this._tokenImage(tokenId).value,
+            this._traitsOf(tokenId),
+        );
+    }
+
+    /**
+     * Burning a token also clears its traits and image.
+     */
+    protected override _burn(tokenId: u256): void {
+        super._burn(tokenId);
+
+        const count = this._traitCount(tokenId);
+        for (let i: u32 = 0; i < count; i++) {
+            this._clearTrait(tokenId, i);
+        }
+
+        this.traitCountMap.delete(tokenId);
+        this._tokenImage(tokenId).value = '';
+    }
+
+    protected _traitCount(tokenId: u256): u32 {
+        return this.traitCountMap.get(tokenId).toU32();
+    }
+
+    private _findTrait(tokenId: u256, key: string): i32 {
+        const count = this._traitCount(tokenId);
+        for (let i: u32 = 0; i < count; i++) {
+            if (this._traitKey(tokenId, i).value == key) return <i32>i;
+        }
+
+        return -1;
+    }
+
+    private _readTrait(tokenId: u256, index: u32): OP721Trait {
+        return new OP721Trait(
+            this._traitKey(tokenId, index).value,
+            <u8>this.traitTypeMap.get(this._traitTypeKey(tokenId, index)).toU32(),
+            this._traitValue(tokenId, index).value,
+        );
+    }
+
+    private _clearTrait(tokenId: u256, index: u32): void {
+        this._traitKey(tokenId, index).value = '';
+        this._traitValue(tokenId, index).value = '';
+        this.traitTypeMap.delete(this._traitTypeKey(tokenId, index));
+    }
+
+    private _traitKey(tokenId: u256, index: u32): AdvancedStoredString {
+        return new AdvancedStoredString(
+            traitKeyPointer,
+            this._traitSlot(tokenId, index).slice(0, 30),
+            MAX_TRAIT_KEY_LENGTH,
+        );
+    }
+
+    private _traitValue(tokenId: u256, index: u32): AdvancedStoredString {
+        return new AdvancedStoredString(
+            traitValuePointer,
+            this._traitSlot(tokenId, index).slice(0, 30),
+            MAX_TRAIT_VALUE_LENGTH,
+        );
+    }
+
+    private _traitTypeKey(tokenId: u256, index: u32): u256 {
+        return u256.fromUint8ArrayBE(this._traitSlot(tokenId, index));
+    }
+
+    private _tokenImage(tokenId: u256): AdvancedStoredString {
+        return new AdvancedStoredString(
+            tokenImagePointer,
+            sha256(tokenId.toUint8Array(true)).slice(0, 30),
+            MAX_TOKEN_IMAGE_LENGTH,
+        );
+    }
+
+    /**
+     * Storage slot of trait `index` of a token, hashed so traits of different tokens never overlap.
+     */
+    private _traitSlot(tokenId: u256, index: u32): Uint8Array {
+        const writer = new BytesWriter(U256_BYTE_LENGTH + U32_BYTE_LENGTH);
+        writer.writeU256(tokenId);
+        writer.writeU32(index);
+
+        return sha256(writer.getBuffer());
+    }
+}
+
+/**
+ * Checks for a JSON number without exponent; fractions and a sign only when `signed`.
+ */
+function isJsonNumber(value: string, signed: bool): bool {
+    const length = value.length;
+    let i = 0;
+
+    if (signed && i < length && value.charCodeAt(i) == 0x2d) i++;
+
+    const intStart = i;
+    while (i < length && isDigit(value.charCodeAt(i))) i++;
+
+    const intLength = i - intStart;
+    if (intLength == 0) return false;
+    if (intLength > 1 && value.charCodeAt(intStart) == 0x30) return false;
+
+    if (signed && i < length && value.charCodeAt(i) == 0x2e) {
+        i++;
+        const fracStart = i;
+        while (i < length && isDigit(value.charCodeAt(i))) i++;
+        if (i == fracStart) return false;
+    }
+
+    return i == length;
+}
+
+function isDigit(c: i32): bool {
+    return c >= 0x30 && c <= 0x39;
+}
@@ -0,0 +1,284 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import {
+    DefaultRoyaltyChangedEvent,
+    TokenRoyaltyChangedEvent,
+} from '../events/royalty/RoyaltyEvents';
+import { EMPTY_POINTER } from '../math/bytes';
+import { StoredAddress } from '../storage/StoredAddress';
+import { StoredU256 } from '../storage/StoredU256';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import { ADDRESS_BYTE_LENGTH, U16_BYTE_LENGTH, U256_BYTE_LENGTH } from '../utils';
+import { IOP721Royalty } from './interfaces/IOP721Royalty';
+import { OP721 } from './OP721';
+
+// Selectors: sha256 first 4 bytes
+export const ROYALTY_INFO_SELECTOR: u32 = 0x9fd55580; // "royaltyInfo(uint256,uint256)"
+
+/** Royalty fees are expressed in basis points of the sale price. */
+export const ROYALTY_FEE_DENOMINATOR: u16 = 10000;
+
+const defaultRoyaltyReceiverPointer: u16 = Blockchain.nextPointer;
+const defaultRoyaltyFeePointer: u16 = Blockchain.nextPointer;
+const tokenRoyaltyReceiverPointer: u16 = Blockchain.nextPointer;
+const tokenRoyaltyFeePointer: u16 = Blockchain.nextPointer;
+
+/**
+ * OP721 collection that advertises creator royalties to marketplaces.
+ *
+ * A marketplace calls `royaltyInfo(tokenId, salePrice)` before settling a sale and pays the
+ * returned amount to the returned receiver. Each token uses its own royalty when one is set,
+ * otherwise the collection default. Fees are in basis points, so 500 is a 5% royalty.
+ *
+ * Royalties are informational: the collection cannot enforce them on transfers, it is up to
+ * marketplaces to honour them.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyCollection extends OP721Royalty {
+ *     public override onDeployment(calldata: Calldata): void {
+ *         super.onDeployment(calldata);
+ *         this.instantiate(new OP721InitParameters(name, symbol, baseURI, maxSupply));
+ *         this._setDefaultRoyalty(Blockchain.tx.origin, 500); // 5% to the deployer
+ *     }
+ * }
+ * ```
+ */
+export abstract class OP721Royalty extends OP721 implements IOP721Royalty {
+    /** Receiver of the default royalty; zero when there is none. */
+    protected readonly _defaultRoyaltyReceiver: StoredAddress;
+
+    /** Default royalty fee in basis points. */
+    protected readonly _defaultRoyaltyFee: StoredU256;
+
+    /** Mapping of tokenId -> royalty receiver, overriding the default when non-zero. */
+    protected readonly tokenRoyaltyReceiverMap: StoredMapU256;
+
+    /** Mapping of tokenId -> royalty fee in basis points. */
+    protected readonly tokenRoyaltyFeeMap: StoredMapU256;
+
+    public constructor() {
+        super();
+
+        this._defaultRoyaltyReceiver = new StoredAddress(defaultRoyaltyReceiverPointer);
+        this._defaultRoyaltyFee = new StoredU256(defaultRoyaltyFeePointer, EMPTY_POINTER);
+        this.tokenRoyaltyReceiverMap = new StoredMapU256(tokenRoyaltyReceiverPointer);
+        this.tokenRoyaltyFeeMap = new StoredMapU256(tokenRoyaltyFeePointer);
+    }
+
+    /**
+     * Computes the royalty owed on a sale.
+     *
+     * @param salePrice - Sale price, in any unit
+     * @param feeBasisPoints - Royalty fee in basis points
+     * @returns Royalty in the unit of the sale price, rounded down
+     */
+    public static royaltyAmount(salePrice: u256, feeBasisPoints: u16): u256 {
+        return SafeMath.div(
+            SafeMath.mul(salePrice, u256.fromU32(feeBasisPoints)),
+            u256.fromU32(ROYALTY_FEE_DENOMINATOR),
+        );
+    }
+
+    /**
+     * Returns who receives the royalty of a sale and how much.
+     *
+     * @param calldata - Contains the tokenId and sale price
+     * @returns Receiver and royalty amount; the zero address and zero when there is no royalty
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'salePrice', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+    )
+    public royaltyInfo(calldata: Calldata): BytesWriter {
+        const tokenId = calldata.readU256();
+        const salePrice = calldata.readU256();
+
+        const receiver = this._royaltyReceiver(tokenId);
+        const amount = receiver.isZero()
+            ? u256.Zero
+            : OP721Royalty.royaltyAmount(salePrice, this._royaltyFee(tokenId));
+
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        w.writeAddress(receiver);
+        w.writeU256(amount);
+        return w;
+    }
+
+    /**
+     * Sets the royalty of tokens without their own royalty.
+     *
+     * @param calldata - Contains the receiver and fee in basis points; a zero receiver removes it
+     * @emits DefaultRoyaltyChanged event
+     *
+     * @throws {Revert} If the caller is not the deployer
+     * @throws {Revert} If the fee exceeds 10000 basis points
+     */
+    @method(
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'feeBasisPoints', type: ABIDataTypes.UINT16 },
+    )
+    @emit('DefaultRoyaltyChanged')
+    public setDefaultRoyalty(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        this._setDefaultRoyalty(calldata.readAddress(), calldata.readU16());
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Sets the royalty of a single token, overriding the default.
+     *
+     * @param calldata - Contains the tokenId, receiver and fee in basis points; a zero
+     * receiver makes the token fall back to the default
+     * @emits TokenRoyaltyChanged event
+     *
+     * @throws {Revert} If the caller is not the deployer
+     * @throws {Revert} If the token does not exist or the fee exceeds 10000 basis points
+     */
+    @method(
+        { name: 'tokenId', type: ABIDataTypes.UINT256 },
+        { name: 'receiver', type: ABIDataTypes.ADDRESS },
+        { name: 'feeBasisPoints', type: ABIDataTypes.UINT16 },
+    )
+    @emit('TokenRoyaltyChanged')
+    public setTokenRoyalty(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        this._setTokenRoyalty(calldata.readU256(), calldata.readAddress(), calldata.readU16());
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns the collection metadata followed by the default royalty receiver and fee.
+     */
+    @method()
+    @returns(
+        { name: 'name', type: ABIDataTypes.STRING },
+        { name: 'symbol', type: ABIDataTypes.STRING },
+        { name: 'icon', type: ABIDataTypes.STRING },
+        { name: 'banner', type: ABIDataTypes.STRING },
+        { name: 'description', type: ABIDataTypes.STRING },
+        { name: 'website', type: ABIDataTypes.STRING },
+        { name: 'totalSupply', type: ABIDataTypes.UINT256 },
+        { name: 'maxSupply', type: ABIDataTypes.UINT256 },
+        { name: 'domainSeparator', type: ABIDataTypes.BYTES32 },
+        { name: 'royaltyReceiver', type: ABIDataTypes.ADDRESS },
+        { name: 'royaltyFeeBasisPoints', type: ABIDataTypes.UINT16 },
+    )
+    public override metadata(calldata: Calldata): BytesWriter {
+        const base = super.metadata(calldata).getBuffer();
+
+        const w = new BytesWriter(base.length + ADDRESS_BYTE_LENGTH + U16_BYTE_LENGTH);
+        w.writeBytes(base);
+        w.writeAddress(this._defaultRoyaltyReceiver.value);
+        w.writeU16(this._defaultRoyaltyFeeBasisPoints());
+        return w;
+    }
+
+    /**
+     * Internal: Sets the default royalty. A zero receiver removes it.
+     * @protected
+     */
+    protected _setDefaultRoyalty(receiver: Address, feeBasisPoints: u16): void {
+        if (receiver.isZero()) {
+            feeBasisPoints = 0;
+        } else {
+            this._checkRoyaltyFee(feeBasisPoints);
+        }
+
+        this._defaultRoyaltyReceiver.value = receiver;
+        this._defaultRoyaltyFee.value = u256.fromU32(feeBasisPoints);
+
+        this.emitEvent(new DefaultRoyaltyChangedEvent(receiver, feeBasisPoints));
+    }
+
+    /**
+     * Internal: Sets the royalty of a token. A zero receiver resets it to the default.
+     * @protected
+     */
+    protected _setTokenRoyalty(tokenId: u256, receiver: Address, feeBasisPoints: u16): void {
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        if (receiver.isZero()) {
+            this._resetTokenRoyalty(tokenId);
+            return;
+        }
+
+        this._checkRoyaltyFee(feeBasisPoints);
+
+        this.tokenRoyaltyReceiverMap.set(tokenId, this._u256FromAddress(receiver));
+        this.tokenRoyaltyFeeMap.set(tokenId, u256.fromU32(feeBasisPoints));
+
+        this.emitEvent(new TokenRoyaltyChangedEvent(tokenId, receiver, feeBasisPoints));
+    }
+
+    /**
+     * Internal: Makes a token fall back to the default royalty.
+     * @protected
+     */
+    protected _resetTokenRoyalty(tokenId: u256): void {
+        this.tokenRoyaltyReceiverMap.delete(tokenId);
+        this.tokenRoyaltyFeeMap.delete(tokenId);
+
+        this.emitEvent(new TokenRoyaltyChangedEvent(tokenId, Address.zero(), 0));
+    }
+
+    /**
+     * Internal: Receiver of a token's royalty; zero when it has none.
+     * @protected
+     */
+    protected _royaltyReceiver(tokenId: u256): Address {
+        const tokenReceiver = this.tokenRoyaltyReceiverMap.get(tokenId);
+        if (!tokenReceiver.isZero()) {
+            return this._addressFromU256(tokenReceiver);
+        }
+
+        return this._defaultRoyaltyReceiver.value;
+    }
+
+    /**
+     * Internal: Fee of a token's royalty, in basis points.
+     * @protected
+     */
+    protected _royaltyFee(tokenId: u256): u16 {
+        if (!this.tokenRoyaltyReceiverMap.get(tokenId).isZero()) {
+            return <u16>this.tokenRoyaltyFeeMap.get(tokenId).toU32();
+        }
+
+        return this._defaultRoyaltyFeeBasisPoints();
+    }
+
+    /**
+     * Burning a token also clears its royalty.
+     */
+    protected override _burn(tokenId: u256): void {
+        super._burn(tokenId);
+
+        if (!this.tokenRoyaltyReceiverMap.get(tokenId).isZero()) {
+            this._resetTokenRoyalty(tokenId);
+        }
+    }
+
+    private _defaultRoyaltyFeeBasisPoints(): u16 {
+        return <u16>this._defaultRoyaltyFee.value.toU32();
+    }
+
+    private _checkRoyaltyFee(feeBasisPoints: u16): void {
+        if (feeBasisPoints > ROYALTY_FEE_DENOMINATOR) {
+            throw new Revert('Royalty fee exceeds sale price');
+        }
+    }
+}
@@ -0,0 +1,100 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { LockedEvent } from '../events/soulbound/SoulboundEvents';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { BOOLEAN_BYTE_LENGTH } from '../utils';
+import { IOP721Soulbound } from './interfaces/IOP721Soulbound';
+import { OP721 } from './OP721';
+
+/**
+ * OP721 collection whose tokens never leave the address they were minted to.
+ *
+ * Meant for credentials, memberships and reputation badges. Transfers, safe transfers,
+ * approvals, operator approvals and their signature variants all revert, since they share
+ * the internal `_transfer`, `_approve` and `_setApprovalForAll` paths this class closes.
+ *
+ * Only the issuer can remove a token, through `revoke` or `burn`. The issuer is the deployer;
+ * override `onlyIssuer` to hand issuance to a role. Minting emits `Locked` next to `Minted`,
+ * and `locked(tokenId)` is true for every existing token.
+ */
+export abstract class OP721Soulbound extends OP721 implements IOP721Soulbound {
+    public constructor() {
+        super();
+    }
+
+    /**
+     * Returns whether a token is bound to its holder, which is always the case.
+     *
+     * @throws {Revert} If the token does not exist
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'locked', type: ABIDataTypes.BOOL })
+    public locked(calldata: Calldata): BytesWriter {
+        const tokenId = calldata.readU256();
+        if (!this._exists(tokenId)) throw new Revert('Token does not exist');
+
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        w.writeBoolean(true);
+        return w;
+    }
+
+    /**
+     * Burns a token on behalf of the issuer, for example when a credential is withdrawn.
+     *
+     * @param calldata - Contains the tokenId
+     * @emits Burned event
+     *
+     * @throws {Revert} If the caller is not the issuer
+     * @throws {Revert} If the token does not exist
+     */
+    @method({ name: 'tokenId', type: ABIDataTypes.UINT256 })
+    @emit('Burned')
+    public revoke(calldata: Calldata): BytesWriter {
+        this.onlyIssuer();
+
+        this._burn(calldata.readU256());
+
+        return new BytesWriter(0);
+    }
+
+    protected override _mint(to: Address, tokenId: u256): void {
+        super._mint(to, tokenId);
+
+        this.emitEvent(new LockedEvent(tokenId));
+    }
+
+    /**
+     * Holders cannot burn their own tokens; only the issuer can.
+     */
+    protected override _checkBurnAuthorization(_owner: Address, _tokenId: u256): void {
+        this.onlyIssuer();
+    }
+
+    protected override _transfer(_from: Address, _to: Address, _tokenId: u256): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    protected override _approve(_operator: Address, _tokenId: u256): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    protected override _setApprovalForAll(
+        _owner: Address,
+        _operator: Address,
+        _approved: boolean,
+    ): void {
+        throw new Revert('Token is soulbound');
+    }
+
+    /**
+     * Internal: Reverts unless the caller is the issuer.
+     * Override to change who can revoke and burn, for example an issuer role.
+     * @protected
+     */
+    protected onlyIssuer(): void {
+        this.onlyDeployer(Blockchain.tx.sender);
+    }
+}
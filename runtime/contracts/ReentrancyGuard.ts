@@ -8,6 +8,9 @@ import { Revert } from '../types/Revert';
 import { u256 } from '@btc-vision/as-bignum/assembly';
 import { SafeMath } from '../types/SafeMath';
 import {
+    ON_FLASH_LOAN_SELECTOR,
+    ON_OP1155_BATCH_RECEIVED_SELECTOR,
+    ON_OP1155_RECEIVED_SELECTOR,
     ON_OP20_RECEIVED_SELECTOR,
     ON_OP721_RECEIVED_SELECTOR,
 } from '../constants/Exports';
@@ -126,7 +129,10 @@ export class ReentrancyGuard extends OP_NET {
     protected isSelectorExcluded(selector: Selector): boolean {
         return (
             selector === ON_OP20_RECEIVED_SELECTOR ||
-            selector === ON_OP721_RECEIVED_SELECTOR
+            selector === ON_OP721_RECEIVED_SELECTOR ||
+            selector === ON_OP1155_RECEIVED_SELECTOR ||
+            selector === ON_OP1155_BATCH_RECEIVED_SELECTOR ||
+            selector === ON_FLASH_LOAN_SELECTOR
         );
     }
 }
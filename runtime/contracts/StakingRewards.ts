@@ -0,0 +1,572 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { BALANCE_OF_SELECTOR } from '../constants/Exports';
+import { Blockchain } from '../env';
+import {
+    RewardAddedEvent,
+    RewardPaidEvent,
+    RewardsDurationUpdatedEvent,
+    StakedEvent,
+    WithdrawnEvent,
+} from '../events/staking/StakingEvents';
+import { Selector } from '../math/abi';
+import { EMPTY_POINTER } from '../math/bytes';
+import { AddressMemoryMap } from '../memory/AddressMemoryMap';
+import { OwnablePlugin } from '../plugins/OwnablePlugin';
+import { TransferHelper } from '../shared-libraries/TransferHelper';
+import { StoredAddress } from '../storage/StoredAddress';
+import { StoredU256 } from '../storage/StoredU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '../utils';
+import { IStakingRewards } from './interfaces/IStakingRewards';
+import { ReentrancyGuard, ReentrancyLevel } from './ReentrancyGuard';
+
+// Selectors: sha256 first 4 bytes
+export const TOTAL_STAKED_SELECTOR: u32 = 0xbacead82; // "totalStaked()"
+export const EARNED_SELECTOR: u32 = 0x56d23faa; // "earned(address)"
+export const REWARD_PER_TOKEN_SELECTOR: u32 = 0x47b7da5b; // "rewardPerToken()"
+export const REWARD_PERIOD_SELECTOR: u32 = 0xc8f2e1a6; // "rewardPeriod()"
+export const STAKING_TOKEN_SELECTOR: u32 = 0xf9715d42; // "stakingToken()"
+export const REWARDS_TOKEN_SELECTOR: u32 = 0x9f67d4c2; // "rewardsToken()"
+
+/** Scale of reward-per-token values, 1e18. */
+export const REWARD_PRECISION: u256 = u256.fromU64(1000000000000000000);
+
+const stakingTokenPointer: u16 = Blockchain.nextPointer;
+const rewardsTokenPointer: u16 = Blockchain.nextPointer;
+const rewardsDurationPointer: u16 = Blockchain.nextPointer;
+const periodFinishPointer: u16 = Blockchain.nextPointer;
+const rewardRatePointer: u16 = Blockchain.nextPointer;
+const lastUpdateBlockPointer: u16 = Blockchain.nextPointer;
+const rewardPerTokenStoredPointer: u16 = Blockchain.nextPointer;
+const totalStakedPointer: u16 = Blockchain.nextPointer;
+const balanceOfMapPointer: u16 = Blockchain.nextPointer;
+const userRewardPerTokenPaidMapPointer: u16 = Blockchain.nextPointer;
+const rewardsMapPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * StakingRewards - Base contract that pays an OP20 reward to stakers of another OP20.
+ *
+ * The owner funds a reward period with `notifyRewardAmount`, which pulls the reward tokens
+ * and spreads them evenly over the next `rewardsDuration` blocks. Each block's reward is
+ * shared between stakers in proportion to their stake. Funding again before the period ends
+ * adds what is left of the current period to the new one.
+ *
+ * Rewards are tracked with a global reward-per-token accumulator, scaled by
+ * REWARD_PRECISION, and a per-account snapshot of it, so every operation costs the same
+ * whatever the number of stakers.
+ *
+ * Every method calls token contracts, which may call back, so the contract runs with
+ * `ReentrancyLevel.CALLBACK`. The owner is managed by OwnablePlugin and starts as the deployer.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class LiquidityMining extends StakingRewards {
+ *     public override onDeployment(calldata: Calldata): void {
+ *         super.onDeployment(calldata);
+ *         this.instantiate(
+ *             calldata.readAddress(), // LP token
+ *             calldata.readAddress(), // reward token
+ *             4320, // ~30 days
+ *         );
+ *     }
+ * }
+ * ```
+ */
+export abstract class StakingRewards extends ReentrancyGuard implements IStakingRewards {
+    protected override readonly reentrancyLevel: ReentrancyLevel = ReentrancyLevel.CALLBACK;
+
+    /** Owner who funds reward periods. */
+    protected readonly ownable: OwnablePlugin;
+
+    protected readonly _stakingToken: StoredAddress;
+    protected readonly _rewardsToken: StoredAddress;
+
+    /** Length of a reward period, in blocks. */
+    protected readonly _rewardsDuration: StoredU256;
+
+    /** Block at which the current reward period ends. */
+    protected readonly _periodFinish: StoredU256;
+
+    /** Reward tokens paid out per block. */
+    protected readonly _rewardRate: StoredU256;
+
+    /** Block up to which _rewardPerTokenStored is accumulated. */
+    protected readonly _lastUpdateBlock: StoredU256;
+
+    /** Accumulated reward per staked token, scaled by REWARD_PRECISION. */
+    protected readonly _rewardPerTokenStored: StoredU256;
+
+    protected readonly _totalStaked: StoredU256;
+
+    /** Mapping of account -> staked amount. */
+    protected readonly balanceOfMap: AddressMemoryMap;
+
+    /** Mapping of account -> reward per token at its last update. */
+    protected readonly userRewardPerTokenPaidMap: AddressMemoryMap;
+
+    /** Mapping of account -> rewards earned and not yet paid, as of its last update. */
+    protected readonly rewardsMap: AddressMemoryMap;
+
+    public constructor() {
+        super();
+
+        this._stakingToken = new StoredAddress(stakingTokenPointer);
+        this._rewardsToken = new StoredAddress(rewardsTokenPointer);
+        this._rewardsDuration = new StoredU256(rewardsDurationPointer, EMPTY_POINTER);
+        this._periodFinish = new StoredU256(periodFinishPointer, EMPTY_POINTER);
+        this._rewardRate = new StoredU256(rewardRatePointer, EMPTY_POINTER);
+        this._lastUpdateBlock = new StoredU256(lastUpdateBlockPointer, EMPTY_POINTER);
+        this._rewardPerTokenStored = new StoredU256(rewardPerTokenStoredPointer, EMPTY_POINTER);
+        this._totalStaked = new StoredU256(totalStakedPointer, EMPTY_POINTER);
+        this.balanceOfMap = new AddressMemoryMap(balanceOfMapPointer);
+        this.userRewardPerTokenPaidMap = new AddressMemoryMap(userRewardPerTokenPaidMapPointer);
+        this.rewardsMap = new AddressMemoryMap(rewardsMapPointer);
+
+        this.ownable = new OwnablePlugin();
+        this.registerPlugin(this.ownable);
+    }
+
+    /**
+     * Accumulates reward per token over a range of blocks.
+     *
+     * @param rewardPerTokenStored - Accumulator at `fromBlock`
+     * @param fromBlock - Last block already accumulated
+     * @param toBlock - Block to accumulate up to
+     * @param rewardRate - Reward tokens per block
+     * @param totalStaked - Tokens staked over the range
+     * @returns Accumulator at `toBlock`, unchanged when nothing is staked
+     */
+    public static accumulateRewardPerToken(
+        rewardPerTokenStored: u256,
+        fromBlock: u64,
+        toBlock: u64,
+        rewardRate: u256,
+        totalStaked: u256,
+    ): u256 {
+        if (totalStaked.isZero() || toBlock <= fromBlock) return rewardPerTokenStored;
+
+        const accrued = SafeMath.div(
+            SafeMath.mul(
+                SafeMath.mul(u256.fromU64(toBlock - fromBlock), rewardRate),
+                REWARD_PRECISION,
+            ),
+            totalStaked,
+        );
+
+        return SafeMath.add(rewardPerTokenStored, accrued);
+    }
+
+    /**
+     * Computes the rewards of an account.
+     *
+     * @param balance - Staked amount of the account
+     * @param rewardPerToken - Current accumulator
+     * @param userRewardPerTokenPaid - Accumulator at the account's last update
+     * @param rewards - Rewards owed at the account's last update
+     * @returns Rewards owed now, rounded down
+     */
+    public static earnedAt(
+        balance: u256,
+        rewardPerToken: u256,
+        userRewardPerTokenPaid: u256,
+        rewards: u256,
+    ): u256 {
+        const accrued = SafeMath.div(
+            SafeMath.mul(balance, SafeMath.sub(rewardPerToken, userRewardPerTokenPaid)),
+            REWARD_PRECISION,
+        );
+
+        return SafeMath.add(accrued, rewards);
+    }
+
+    /**
+     * Sets the tokens and the reward period length. Call once from onDeployment.
+     *
+     * @param stakingToken - OP20 token users stake
+     * @param rewardsToken - OP20 token paid as reward; may be the staking token
+     * @param rewardsDuration - Length of a reward period, in blocks
+     * @param skipDeployerVerification - If true, skips deployer check (use with caution)
+     *
+     * @throws {Revert} If already initialized
+     * @throws {Revert} If a token is the zero address or the duration is zero
+     * @throws {Revert} If caller is not deployer (unless skipped)
+     */
+    public instantiate(
+        stakingToken: Address,
+        rewardsToken: Address,
+        rewardsDuration: u64,
+        skipDeployerVerification: boolean = false,
+    ): void {
+        if (!this._stakingToken.value.isZero()) throw new Revert('Already initialized');
+        if (!skipDeployerVerification) this.onlyDeployer(Blockchain.tx.sender);
+        if (stakingToken.isZero() || rewardsToken.isZero()) throw new Revert('Invalid token');
+        if (rewardsDuration == 0) throw new Revert('Invalid duration');
+
+        this._stakingToken.value = stakingToken;
+        this._rewardsToken.value = rewardsToken;
+        this._rewardsDuration.value = u256.fromU64(rewardsDuration);
+    }
+
+    /**
+     * Stakes tokens, pulling them from the caller.
+     *
+     * @param calldata - Contains the amount
+     * @emits Staked event
+     *
+     * @throws {Revert} If the amount is zero
+     * @throws {Revert} If the tokens cannot be pulled from the caller
+     */
+    @method({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('Staked')
+    public stake(calldata: Calldata): BytesWriter {
+        this._stake(Blockchain.tx.sender, calldata.readU256());
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Withdraws staked tokens to the caller.
+     *
+     * @param calldata - Contains the amount
+     * @emits Withdrawn event
+     *
+     * @throws {Revert} If the amount is zero or above the caller's stake
+     */
+    @method({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('Withdrawn')
+    public withdraw(calldata: Calldata): BytesWriter {
+        this._withdraw(Blockchain.tx.sender, calldata.readU256());
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Pays the caller its rewards.
+     *
+     * @returns Reward paid
+     * @emits RewardPaid event when there is something to pay
+     */
+    @method()
+    @returns({ name: 'reward', type: ABIDataTypes.UINT256 })
+    @emit('RewardPaid')
+    public getReward(_: Calldata): BytesWriter {
+        const reward = this._getReward(Blockchain.tx.sender);
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(reward);
+        return w;
+    }
+
+    /**
+     * Withdraws the caller's whole stake and pays its rewards.
+     *
+     * @emits Withdrawn and RewardPaid events
+     *
+     * @throws {Revert} If the caller has nothing staked
+     */
+    @method()
+    @emit('Withdrawn', 'RewardPaid')
+    public exit(_: Calldata): BytesWriter {
+        const account = Blockchain.tx.sender;
+
+        this._withdraw(account, this.balanceOfMap.get(account));
+        this._getReward(account);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Funds a new reward period, pulling the reward from the caller.
+     *
+     * @param calldata - Contains the reward amount
+     * @emits RewardAdded event
+     *
+     * @throws {Revert} If the caller is not the owner
+     * @throws {Revert} If the reward is too small to pay anything per block
+     * @throws {Revert} If the tokens cannot be pulled from the caller
+     */
+    @method({ name: 'reward', type: ABIDataTypes.UINT256 })
+    @emit('RewardAdded')
+    public notifyRewardAmount(calldata: Calldata): BytesWriter {
+        this.ownable.onlyOwner();
+
+        const reward = calldata.readU256();
+        this._notifyRewardAmount(reward);
+
+        TransferHelper.transferFrom(
+            this._rewardsToken.value,
+            Blockchain.tx.sender,
+            this.address,
+            reward,
+        );
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Changes the length of future reward periods.
+     *
+     * @param calldata - Contains the duration in blocks
+     * @emits RewardsDurationUpdated event
+     *
+     * @throws {Revert} If the caller is not the owner
+     * @throws {Revert} If the current period has not finished or the duration is zero
+     */
+    @method({ name: 'duration', type: ABIDataTypes.UINT64 })
+    @emit('RewardsDurationUpdated')
+    public setRewardsDuration(calldata: Calldata): BytesWriter {
+        this.ownable.onlyOwner();
+
+        const duration = calldata.readU64();
+        if (Blockchain.block.number < this._periodFinish.value.toU64()) {
+            throw new Revert('Reward period not finished');
+        }
+        if (duration == 0) throw new Revert('Invalid duration');
+
+        this._rewardsDuration.value = u256.fromU64(duration);
+        this.emitEvent(new RewardsDurationUpdatedEvent(duration));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns the amount staked by an account.
+     */
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'balance', type: ABIDataTypes.UINT256 })
+    public balanceOf(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this.balanceOfMap.get(calldata.readAddress()));
+        return w;
+    }
+
+    /**
+     * Returns the amount staked by every account.
+     */
+    @method()
+    @returns({ name: 'totalStaked', type: ABIDataTypes.UINT256 })
+    public totalStaked(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._totalStaked.value);
+        return w;
+    }
+
+    /**
+     * Returns the rewards an account can claim now.
+     */
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'reward', type: ABIDataTypes.UINT256 })
+    public earned(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._earned(calldata.readAddress()));
+        return w;
+    }
+
+    /**
+     * Returns the reward accumulated per staked token, scaled by 1e18.
+     */
+    @method()
+    @returns({ name: 'rewardPerToken', type: ABIDataTypes.UINT256 })
+    public rewardPerToken(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._rewardPerToken());
+        return w;
+    }
+
+    /**
+     * Returns the current reward rate, the end of the current period and the period length.
+     */
+    @method()
+    @returns(
+        { name: 'rewardRate', type: ABIDataTypes.UINT256 },
+        { name: 'periodFinish', type: ABIDataTypes.UINT64 },
+        { name: 'rewardsDuration', type: ABIDataTypes.UINT64 },
+    )
+    public rewardPeriod(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH + U64_BYTE_LENGTH * 2);
+        w.writeU256(this._rewardRate.value);
+        w.writeU64(this._periodFinish.value.toU64());
+        w.writeU64(this._rewardsDuration.value.toU64());
+        return w;
+    }
+
+    /**
+     * Returns the token users stake.
+     */
+    @method()
+    @returns({ name: 'token', type: ABIDataTypes.ADDRESS })
+    public stakingToken(_: Calldata): BytesWriter {
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        w.writeAddress(this._stakingToken.value);
+        return w;
+    }
+
+    /**
+     * Returns the token paid as reward.
+     */
+    @method()
+    @returns({ name: 'token', type: ABIDataTypes.ADDRESS })
+    public rewardsToken(_: Calldata): BytesWriter {
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        w.writeAddress(this._rewardsToken.value);
+        return w;
+    }
+
+    /**
+     * Checks if a selector should bypass reentrancy guards.
+     * @protected
+     */
+    protected override isSelectorExcluded(selector: Selector): boolean {
+        if (
+            selector === BALANCE_OF_SELECTOR ||
+            selector === TOTAL_STAKED_SELECTOR ||
+            selector === EARNED_SELECTOR ||
+            selector === REWARD_PER_TOKEN_SELECTOR ||
+            selector === REWARD_PERIOD_SELECTOR ||
+            selector === STAKING_TOKEN_SELECTOR ||
+            selector === REWARDS_TOKEN_SELECTOR
+        ) {
+            return true;
+        }
+
+        return super.isSelectorExcluded(selector);
+    }
+
+    /**
+     * Internal: Stakes tokens for an account, pulling them from it.
+     * @protected
+     */
+    protected _stake(account: Address, amount: u256): void {
+        if (amount.isZero()) throw new Revert('Cannot stake zero');
+
+        this._updateReward(account);
+
+        this._totalStaked.value = SafeMath.add(this._totalStaked.value, amount);
+        this.balanceOfMap.set(account, SafeMath.add(this.balanceOfMap.get(account), amount));
+
+        TransferHelper.transferFrom(this._stakingToken.value, account, this.address, amount);
+
+        this.emitEvent(new StakedEvent(account, amount));
+    }
+
+    /**
+     * Internal: Returns staked tokens to an account.
+     * @protected
+     */
+    protected _withdraw(account: Address, amount: u256): void {
+        if (amount.isZero()) throw new Revert('Cannot withdraw zero');
+
+        const balance = this.balanceOfMap.get(account);
+        if (amount > balance) throw new Revert('Insufficient stake');
+
+        this._updateReward(account);
+
+        this._totalStaked.value = SafeMath.sub(this._totalStaked.value, amount);
+        this.balanceOfMap.set(account, SafeMath.sub(balance, amount));
+
+        TransferHelper.transfer(this._stakingToken.value, account, amount);
+
+        this.emitEvent(new WithdrawnEvent(account, amount));
+    }
+
+    /**
+     * Internal: Pays an account its rewards, if any.
+     * @protected
+     */
+    protected _getReward(account: Address): u256 {
+        this._updateReward(account);
+
+        const reward = this.rewardsMap.get(account);
+        if (reward.isZero()) return reward;
+
+        // Clear before transferring so the reward cannot be paid twice
+        this.rewardsMap.set(account, u256.Zero);
+
+        TransferHelper.transfer(this._rewardsToken.value, account, reward);
+
+        this.emitEvent(new RewardPaidEvent(account, reward));
+
+        return reward;
+    }
+
+    /**
+     * Internal: Starts a reward period paying `reward` plus what is left of the current one.
+     * Does not move any tokens.
+     * @protected
+     */
+    protected _notifyRewardAmount(reward: u256): void {
+        this._updateReward(Address.zero());
+
+        const currentBlock = Blockchain.block.number;
+        const duration = this._rewardsDuration.value;
+        const periodFinish = this._periodFinish.value.toU64();
+
+        let total = reward;
+        if (currentBlock < periodFinish) {
+            const leftover = SafeMath.mul(
+                u256.fromU64(periodFinish - currentBlock),
+                this._rewardRate.value,
+            );
+            total = SafeMath.add(total, leftover);
+        }
+
+        const rewardRate = SafeMath.div(total, duration);
+        if (rewardRate.isZero()) throw new Revert('Reward rate is zero');
+
+        const newPeriodFinish = currentBlock + duration.toU64();
+
+        this._rewardRate.value = rewardRate;
+        this._lastUpdateBlock.value = u256.fromU64(currentBlock);
+        this._periodFinish.value = u256.fromU64(newPeriodFinish);
+
+        this.emitEvent(new RewardAddedEvent(reward, newPeriodFinish));
+    }
+
+    /**
+     * Internal: Accumulates rewards up to now and settles an account; pass the zero address
+     * to only accumulate.
+     * @protected
+     */
+    protected _updateReward(account: Address): void {
+        const rewardPerToken = this._rewardPerToken();
+        this._rewardPerTokenStored.value = rewardPerToken;
+        this._lastUpdateBlock.value = u256.fromU64(this._lastBlockRewardApplicable());
+
+        if (!account.isZero()) {
+            this.rewardsMap.set(account, this._earned(account));
+            this.userRewardPerTokenPaidMap.set(account, rewardPerToken);
+        }
+    }
+
+    protected _rewardPerToken(): u256 {
+        return StakingRewards.accumulateRewardPerToken(
+            this._rewardPerTokenStored.value,
+            this._lastUpdateBlock.value.toU64(),
+            this._lastBlockRewardApplicable(),
+            this._rewardRate.value,
+            this._totalStaked.value,
+        );
+    }
+
+    protected _earned(account: Address): u256 {
+        return StakingRewards.earnedAt(
+            this.balanceOfMap.get(account),
+            this._rewardPerToken(),
+            this.userRewardPerTokenPaidMap.get(account),
+            this.rewardsMap.get(account),
+        );
+    }
+
+    /**
+     * Internal: The current block, capped at the end of the reward period.
+     * @protected
+     */
+    protected _lastBlockRewardApplicable(): u64 {
+        const currentBlock = Blockchain.block.number;
+        const periodFinish = this._periodFinish.value.toU64();
+        return currentBlock < periodFinish ? currentBlock : periodFinish;
+    }
+}
@@ -0,0 +1,562 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import { sha256, sha256String } from '../env/global';
+import {
+    CallExecutedEvent,
+    CallScheduledEvent,
+    CancelledEvent,
+    MinDelayChangeEvent,
+} from '../events/timelock/TimelockEvents';
+import { EMPTY_POINTER } from '../math/bytes';
+import { AccessControlPlugin } from '../plugins/AccessControlPlugin';
+import { StoredU256 } from '../storage/StoredU256';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U32_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+} from '../utils';
+import { ITimelockController } from './interfaces/ITimelockController';
+import { OP_NET } from './OP_NET';
+
+/**
+ * Ready block recorded for executed operations.
+ */
+const DONE_BLOCK: u64 = 1;
+
+const minDelayPointer: u16 = Blockchain.nextPointer;
+const readyBlocksPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * TimelockController - Base contract that delays arbitrary cross-contract calls.
+ *
+ * An operation is a list of (target, calldata) calls that run through Blockchain.call once
+ * its delay has passed:
+ * 1. schedule() / scheduleBatch() - A proposer schedules the operation
+ * 2. Wait at least `minDelay` blocks
+ * 3. executeOperation() / executeBatch() - An executor runs every call in order
+ *
+ * Operations are identified by the sha256 of their calls, predecessor and salt. A non-zero
+ * predecessor must be executed before the operation can run, which orders dependent
+ * operations. The salt lets the same calls be scheduled more than once.
+ *
+ * Roles are managed by the registered AccessControlPlugin:
+ * - PROPOSER_ROLE schedules operations
+ * - EXECUTOR_ROLE executes ready operations; granted to the zero address, anyone can execute
+ * - CANCELLER_ROLE cancels pending operations
+ *
+ * The timelock is the only admin of its own roles, so role changes can themselves be timelocked.
+ * `instantiate` takes DEFAULT_ADMIN_ROLE back from the deployer, who received it from the
+ * plugin's onDeployment.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyTimelock extends TimelockController {
+ *     public override onDeployment(calldata: Calldata): void {
+ *         super.onDeployment(calldata);
+ *         this.instantiate(
+ *             144, // ~24 hours
+ *             calldata.readAddressArray(), // proposers (also cancellers)
+ *             calldata.readAddressArray(), // executors
+ *         );
+ *     }
+ * }
+ * ```
+ */
+export abstract class TimelockController extends OP_NET implements ITimelockController {
+    /** Role management for proposers, executors and cancellers. */
+    protected readonly roles: AccessControlPlugin;
+
+    /** Minimum number of blocks between scheduling and execution. */
+    protected readonly _minDelay: StoredU256;
+
+    /**
+     * Mapping of operation id -> block from which it can be executed.
+     * Zero for unknown operations and DONE_BLOCK once executed.
+     */
+    protected readonly readyBlockMap: StoredMapU256;
+
+    public constructor() {
+        super();
+
+        this._minDelay = new StoredU256(minDelayPointer, EMPTY_POINTER);
+        this.readyBlockMap = new StoredMapU256(readyBlocksPointer);
+
+        this.roles = new AccessControlPlugin();
+        this.registerPlugin(this.roles);
+    }
+
+    public static get PROPOSER_ROLE(): u256 {
+        return u256.fromUint8ArrayBE(sha256String('PROPOSER_ROLE'));
+    }
+
+    public static get EXECUTOR_ROLE(): u256 {
+        return u256.fromUint8ArrayBE(sha256String('EXECUTOR_ROLE'));
+    }
+
+    public static get CANCELLER_ROLE(): u256 {
+        return u256.fromUint8ArrayBE(sha256String('CANCELLER_ROLE'));
+    }
+
+    /**
+     * Sets the minimum delay and initial roles. Call once from onDeployment, after
+     * super.onDeployment so the deployer's admin role can be revoked.
+     *
+     * @param minDelay - Minimum delay in blocks
+     * @param proposers - Accounts granted PROPOSER_ROLE and CANCELLER_ROLE
+     * @param executors - Accounts granted EXECUTOR_ROLE; include the zero address to let anyone execute
+     * @param skipDeployerVerification - If true, skips deployer check (use with caution)
+     *
+     * @throws {Revert} If caller is not deployer (unless skipped)
+     */
+    public instantiate(
+        minDelay: u64,
+        proposers: Address[],
+        executors: Address[],
+        skipDeployerVerification: boolean = false,
+    ): void {
+        if (!skipDeployerVerification) this.onlyDeployer(Blockchain.tx.sender);
+
+        this.roles.grant(AccessControlPlugin.DEFAULT_ADMIN_ROLE, this.address);
+        this.roles.revoke(AccessControlPlugin.DEFAULT_ADMIN_ROLE, Blockchain.contractDeployer);
+
+        for (let i: i32 = 0; i < proposers.length; i++) {
+            this.roles.grant(TimelockController.PROPOSER_ROLE, proposers[i]);
+            this.roles.grant(TimelockController.CANCELLER_ROLE, proposers[i]);
+        }
+
+        for (let i: i32 = 0; i < executors.length; i++) {
+            this.roles.grant(TimelockController.EXECUTOR_ROLE, executors[i]);
+        }
+
+        this._minDelay.value = u256.fromU64(minDelay);
+        this.emitEvent(new MinDelayChangeEvent(0, minDelay));
+    }
+
+    /**
+     * Schedules a single call.
+     *
+     * @param calldata - Contains target, data, predecessor, salt and delay
+     * @returns Operation id
+     * @emits CallScheduled event
+     *
+     * @throws {Revert} If the caller is not a proposer
+     * @throws {Revert} If the operation already exists or the delay is below the minimum
+     */
+    @method(
+        { name: 'target', type: ABIDataTypes.ADDRESS },
+        { name: 'data', type: ABIDataTypes.BYTES },
+        { name: 'predecessor', type: ABIDataTypes.BYTES32 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+        { name: 'delay', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'id', type: ABIDataTypes.BYTES32 })
+    @emit('CallScheduled')
+    public schedule(calldata: Calldata): BytesWriter {
+        this.roles.onlyRole(TimelockController.PROPOSER_ROLE);
+
+        const target = calldata.readAddress();
+        const data = calldata.readBytesWithLength();
+        const predecessor = calldata.readU256();
+        const salt = calldata.readU256();
+        const delay = calldata.readU64();
+
+        const id = this._hashOperation(target, data, predecessor, salt);
+        const readyBlock = this._schedule(id, delay);
+
+        this.emitEvent(new CallScheduledEvent(id, 0, target, predecessor, readyBlock));
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(id);
+        return w;
+    }
+
+    /**
+     * Schedules a batch of calls that execute together, in order.
+     *
+     * @param calldata - Contains targets, datas, predecessor, salt and delay
+     * @returns Operation id
+     * @emits CallScheduled event for each call
+     *
+     * @throws {Revert} If the caller is not a proposer
+     * @throws {Revert} If the operation already exists or the delay is below the minimum
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'datas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'predecessor', type: ABIDataTypes.BYTES32 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+        { name: 'delay', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'id', type: ABIDataTypes.BYTES32 })
+    @emit('CallScheduled')
+    public scheduleBatch(calldata: Calldata): BytesWriter {
+        this.roles.onlyRole(TimelockController.PROPOSER_ROLE);
+
+        const targets = calldata.readAddressArray();
+        const datas = calldata.readArrayOfBuffer();
+        const predecessor = calldata.readU256();
+        const salt = calldata.readU256();
+        const delay = calldata.readU64();
+
+        this._checkBatchLength(targets, datas);
+
+        const id = this._hashOperationBatch(targets, datas, predecessor, salt);
+        const readyBlock = this._schedule(id, delay);
+
+        for (let i: i32 = 0; i < targets.length; i++) {
+            this.emitEvent(new CallScheduledEvent(id, <u32>i, targets[i], predecessor, readyBlock));
+        }
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(id);
+        return w;
+    }
+
+    /**
+     * Cancels a pending operation.
+     *
+     * @param calldata - Contains the operation id
+     * @emits Cancelled event
+     *
+     * @throws {Revert} If the caller is not a canceller or the operation is not pending
+     */
+    @method({ name: 'id', type: ABIDataTypes.BYTES32 })
+    @emit('Cancelled')
+    public cancel(calldata: Calldata): BytesWriter {
+        this.roles.onlyRole(TimelockController.CANCELLER_ROLE);
+
+        const id = calldata.readU256();
+        if (!this._isOperationPending(id)) {
+            throw new Revert('Operation is not pending');
+        }
+
+        this.readyBlockMap.delete(id);
+        this.emitEvent(new CancelledEvent(id));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Executes a ready single-call operation.
+     *
+     * @param calldata - Contains target, data, predecessor and salt
+     * @emits CallExecuted event
+     *
+     * @throws {Revert} If the caller is not an executor
+     * @throws {Revert} If the operation is not ready or its predecessor was not executed
+     */
+    @method(
+        { name: 'target', type: ABIDataTypes.ADDRESS },
+        { name: 'data', type: ABIDataTypes.BYTES },
+        { name: 'predecessor', type: ABIDataTypes.BYTES32 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('CallExecuted')
+    public executeOperation(calldata: Calldata): BytesWriter {
+        this._onlyExecutor();
+
+        const target = calldata.readAddress();
+        const data = calldata.readBytesWithLength();
+        const predecessor = calldata.readU256();
+        const salt = calldata.readU256();
+
+        const id = this._hashOperation(target, data, predecessor, salt);
+        this._beforeExecute(id, predecessor);
+
+        this._call(id, 0, target, data);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Executes a ready batch operation, running every call in order.
+     *
+     * @param calldata - Contains targets, datas, predecessor and salt
+     * @emits CallExecuted event for each call
+     *
+     * @throws {Revert} If the caller is not an executor
+     * @throws {Revert} If the operation is not ready or its predecessor was not executed
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'datas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'predecessor', type: ABIDataTypes.BYTES32 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+    )
+    @emit('CallExecuted')
+    public executeBatch(calldata: Calldata): BytesWriter {
+        this._onlyExecutor();
+
+        const targets = calldata.readAddressArray();
+        const datas = calldata.readArrayOfBuffer();
+        const predecessor = calldata.readU256();
+        const salt = calldata.readU256();
+
+        this._checkBatchLength(targets, datas);
+
+        const id = this._hashOperationBatch(targets, datas, predecessor, salt);
+        this._beforeExecute(id, predecessor);
+
+        for (let i: i32 = 0; i < targets.length; i++) {
+            this._call(id, <u32>i, targets[i], datas[i]);
+        }
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Changes the minimum delay. Only the timelock itself can call this, so the change
+     * has to go through a scheduled operation.
+     *
+     * @param calldata - Contains the new minimum delay
+     * @emits MinDelayChange event
+     */
+    @method({ name: 'newDelay', type: ABIDataTypes.UINT64 })
+    @emit('MinDelayChange')
+    public updateDelay(calldata: Calldata): BytesWriter {
+        if (!Blockchain.tx.sender.equals(this.address)) {
+            throw new Revert('Caller must be the timelock');
+        }
+
+        const newDelay = calldata.readU64();
+        const oldDelay = this._minDelay.value.toU64();
+        this._minDelay.value = u256.fromU64(newDelay);
+
+        this.emitEvent(new MinDelayChangeEvent(oldDelay, newDelay));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns the minimum delay in blocks.
+     */
+    @method()
+    @returns({ name: 'minDelay', type: ABIDataTypes.UINT64 })
+    public minDelay(_: Calldata): BytesWriter {
+        const w = new BytesWriter(U64_BYTE_LENGTH);
+        w.writeU64(this._minDelay.value.toU64());
+        return w;
+    }
+
+    /**
+     * Returns the block from which an operation can be executed.
+     *
+     * @param calldata - Contains the operation id
+     * @returns Ready block; 0 if unknown or cancelled, 1 if already executed
+     */
+    @method({ name: 'id', type: ABIDataTypes.BYTES32 })
+    @returns({ name: 'readyBlock', type: ABIDataTypes.UINT64 })
+    public getReadyBlock(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U64_BYTE_LENGTH);
+        w.writeU64(this._getReadyBlock(calldata.readU256()));
+        return w;
+    }
+
+    /**
+     * Returns the status flags of an operation.
+     *
+     * @param calldata - Contains the operation id
+     * @returns Whether the operation exists, is pending, is ready and is done
+     */
+    @method({ name: 'id', type: ABIDataTypes.BYTES32 })
+    @returns(
+        { name: 'isOperation', type: ABIDataTypes.BOOL },
+        { name: 'isPending', type: ABIDataTypes.BOOL },
+        { name: 'isReady', type: ABIDataTypes.BOOL },
+        { name: 'isDone', type: ABIDataTypes.BOOL },
+    )
+    public getOperationState(calldata: Calldata): BytesWriter {
+        const id = calldata.readU256();
+
+        const w = new BytesWriter(BOOLEAN_BYTE_LENGTH * 4);
+        w.writeBoolean(this._getReadyBlock(id) != 0);
+        w.writeBoolean(this._isOperationPending(id));
+        w.writeBoolean(this._isOperationReady(id));
+        w.writeBoolean(this._isOperationDone(id));
+        return w;
+    }
+
+    /**
+     * Returns the id of a single-call operation.
+     */
+    @method(
+        { name: 'target', type: ABIDataTypes.ADDRESS },
+        { name: 'data', type: ABIDataTypes.BYTES },
+        { name: 'predecessor', type: ABIDataTypes.BYTES32 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+    )
+    @returns({ name: 'id', type: ABIDataTypes.BYTES32 })
+    public hashOperation(calldata: Calldata): BytesWriter {
+        const id = this._hashOperation(
+            calldata.readAddress(),
+            calldata.readBytesWithLength(),
+            calldata.readU256(),
+            calldata.readU256(),
+        );
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(id);
+        return w;
+    }
+
+    /**
+     * Returns the id of a batch operation.
+     */
+    @method(
+        { name: 'targets', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'datas', type: ABIDataTypes.ARRAY_OF_BYTES },
+        { name: 'predecessor', type: ABIDataTypes.BYTES32 },
+        { name: 'salt', type: ABIDataTypes.BYTES32 },
+    )
+    @returns({ name: 'id', type: ABIDataTypes.BYTES32 })
+    public hashOperationBatch(calldata: Calldata): BytesWriter {
+        const id = this._hashOperationBatch(
+            calldata.readAddressArray(),
+            calldata.readArrayOfBuffer(),
+            calldata.readU256(),
+            calldata.readU256(),
+        );
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(id);
+        return w;
+    }
+
+    /**
+     * Internal: Records the ready block of a new operation.
+     * @protected
+     *
+     * @returns The block from which the operation can be executed
+     */
+    protected _schedule(id: u256, delay: u64): u64 {
+        if (this._getReadyBlock(id) != 0) {
+            throw new Revert('Operation already scheduled');
+        }
+
+        if (delay < this._minDelay.value.toU64()) {
+            throw new Revert('Insufficient delay');
+        }
+
+        const readyBlock = Blockchain.block.number + delay;
+        this.readyBlockMap.set(id, u256.fromU64(readyBlock));
+
+        return readyBlock;
+    }
+
+    /**
+     * Internal: Checks an operation can run and marks it executed.
+     * Marking happens before any call so an operation cannot be re-entered.
+     * @protected
+     */
+    protected _beforeExecute(id: u256, predecessor: u256): void {
+        if (!this._isOperationReady(id)) {
+            throw new Revert('Operation is not ready');
+        }
+
+        if (!predecessor.isZero() && !this._isOperationDone(predecessor)) {
+            throw new Revert('Missing dependency');
+        }
+
+        this.readyBlockMap.set(id, u256.fromU64(DONE_BLOCK));
+    }
+
+    /**
+     * Internal: Runs one call of an operation. Reverts the whole operation if it fails.
+     * @protected
+     */
+    protected _call(id: u256, index: u32, target: Address, data: Uint8Array): void {
+        const writer = new BytesWriter(data.length);
+        writer.writeBytes(data);
+
+        Blockchain.call(target, writer);
+
+        this.emitEvent(new CallExecutedEvent(id, index, target));
+    }
+
+    /**
+     * Internal: Id of a single-call operation.
+     * @protected
+     */
+    protected _hashOperation(
+        target: Address,
+        data: Uint8Array,
+        predecessor: u256,
+        salt: u256,
+    ): u256 {
+        const writer = new BytesWriter(
+            ADDRESS_BYTE_LENGTH + U32_BYTE_LENGTH + data.length + U256_BYTE_LENGTH * 2,
+        );
+        writer.writeAddress(target);
+        writer.writeBytesWithLength(data);
+        writer.writeU256(predecessor);
+        writer.writeU256(salt);
+
+        return u256.fromUint8ArrayBE(sha256(writer.getBuffer()));
+    }
+
+    /**
+     * Internal: Id of a batch operation.
+     * @protected
+     */
+    protected _hashOperationBatch(
+        targets: Address[],
+        datas: Uint8Array[],
+        predecessor: u256,
+        salt: u256,
+    ): u256 {
+        const writer = new BytesWriter(
+            2 +
+                targets.length * ADDRESS_BYTE_LENGTH +
+                BytesWriter.estimateArrayOfBufferLength(datas) +
+                U256_BYTE_LENGTH * 2,
+        );
+        writer.writeAddressArray(targets);
+        writer.writeArrayOfBuffer(datas);
+        writer.writeU256(predecessor);
+        writer.writeU256(salt);
+
+        return u256.fromUint8ArrayBE(sha256(writer.getBuffer()));
+    }
+
+    protected _getReadyBlock(id: u256): u64 {
+        return this.readyBlockMap.get(id).toU64();
+    }
+
+    protected _isOperationPending(id: u256): bool {
+        return this._getReadyBlock(id) > DONE_BLOCK;
+    }
+
+    protected _isOperationReady(id: u256): bool {
+        const readyBlock = this._getReadyBlock(id);
+        return readyBlock > DONE_BLOCK && readyBlock <= Blockchain.block.number;
+    }
+
+    protected _isOperationDone(id: u256): bool {
+        return this._getReadyBlock(id) == DONE_BLOCK;
+    }
+
+    /**
+     * Reverts unless the caller is an executor, or execution is open to anyone.
+     */
+    private _onlyExecutor(): void {
+        if (this.roles.hasRole(TimelockController.EXECUTOR_ROLE, Address.zero())) return;
+        this.roles.onlyRole(TimelockController.EXECUTOR_ROLE);
+    }
+
+    private _checkBatchLength(targets: Address[], datas: Uint8Array[]): void {
+        if (targets.length === 0) {
+            throw new Revert('Empty batch');
+        }
+        if (targets.length !== datas.length) {
+            throw new Revert('Invalid batch length');
+        }
+    }
+}
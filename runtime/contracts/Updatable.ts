@@ -132,12 +132,12 @@ export class Updatable extends OP_NET {
      *
      * @param sourceAddress - The source contract address containing new bytecode
      * @returns Empty response
-     * @throws If caller is not deployer
+     * @throws If caller is not the update authority
      * @throws If source is not a deployed contract
      * @throws If an update is already pending
      */
     protected submitUpdate(sourceAddress: Address): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        this.onlyUpdateAuthority();
 
         // Check no pending update
         if (this.hasPendingUpdate) {
@@ -172,13 +172,13 @@ export class Updatable extends OP_NET {
      * @param sourceAddress - The source contract address (must match pending)
      * @param calldata - The calldata to pass to onUpdate method of the new contract
      * @returns Empty response
-     * @throws If caller is not deployer
+     * @throws If caller is not the update authority
      * @throws If no update is pending
      * @throws If delay has not passed
      * @throws If provided address does not match pending
      */
     protected applyUpdate(sourceAddress: Address, calldata: BytesWriter): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        this.onlyUpdateAuthority();
 
         // Check pending update exists
         if (!this.hasPendingUpdate) {
@@ -216,11 +216,11 @@ export class Updatable extends OP_NET {
      * Emits UpdateCancelled event.
      *
      * @returns Empty response
-     * @throws If caller is not deployer
+     * @throws If caller is not the update authority
      * @throws If no update is pending
      */
     protected cancelUpdate(): BytesWriter {
-        this.onlyDeployer(Blockchain.tx.sender);
+        this.onlyUpdateAuthority();
 
         // Check pending update exists
         if (!this.hasPendingUpdate) {
@@ -238,4 +238,21 @@ export class Updatable extends OP_NET {
 
         return new BytesWriter(0);
     }
+
+    /**
+     * Reverts unless the caller may submit, apply or cancel updates.
+     *
+     * Defaults to the deployer. Override to hand update rights to a transferable owner:
+     *
+     * ```typescript
+     * protected override onlyUpdateAuthority(): void {
+     *     this.ownable.onlyOwner();
+     * }
+     * ```
+     *
+     * @throws If caller is not the deployer
+     */
+    protected onlyUpdateAuthority(): void {
+        this.onlyDeployer(Blockchain.tx.sender);
+    }
 }
@@ -0,0 +1,418 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { Blockchain } from '../env';
+import {
+    TokensReleasedEvent,
+    VestingScheduleCreatedEvent,
+    VestingScheduleRevokedEvent,
+} from '../events/vesting/VestingEvents';
+import { AddressMemoryMap } from '../memory/AddressMemoryMap';
+import { OwnablePlugin } from '../plugins/OwnablePlugin';
+import { TransferHelper } from '../shared-libraries/TransferHelper';
+import { StoredAddress } from '../storage/StoredAddress';
+import { Calldata } from '../types';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+} from '../utils';
+import { IVestingWallet } from './interfaces/IVestingWallet';
+import { VestingSchedule } from './interfaces/VestingSchedule';
+import { OP_NET } from './OP_NET';
+
+const REVOCABLE_FLAG: u64 = 1;
+const REVOKED_FLAG: u64 = 2;
+
+const tokenPointer: u16 = Blockchain.nextPointer;
+const amountMapPointer: u16 = Blockchain.nextPointer;
+const releasedMapPointer: u16 = Blockchain.nextPointer;
+const startMapPointer: u16 = Blockchain.nextPointer;
+const cliffMapPointer: u16 = Blockchain.nextPointer;
+const durationMapPointer: u16 = Blockchain.nextPointer;
+const stepPeriodMapPointer: u16 = Blockchain.nextPointer;
+const flagsMapPointer: u16 = Blockchain.nextPointer;
+
+/**
+ * VestingWallet - Base contract that releases OP20 allocations to beneficiaries over time.
+ *
+ * The owner funds a schedule per beneficiary with `createSchedule`, which pulls the tokens
+ * from the owner. Nothing vests before `start + cliff`; from then on the vested amount grows
+ * from `start` until everything is vested at `start + duration`. With a zero `stepPeriod` it
+ * grows every block, otherwise once every `stepPeriod` blocks. Anyone can call `release` to
+ * pay a beneficiary what has vested so far.
+ *
+ * Revoking a revocable schedule returns the unvested tokens to the owner. What had vested
+ * stays releasable to the beneficiary.
+ *
+ * The owner is managed by OwnablePlugin and starts as the deployer.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class TeamVesting extends VestingWallet {
+ *     public override onDeployment(calldata: Calldata): void {
+ *         super.onDeployment(calldata);
+ *         this.instantiate(calldata.readAddress());
+ *     }
+ * }
+ * ```
+ */
+export abstract class VestingWallet extends OP_NET implements IVestingWallet {
+    /** Owner who creates and revokes schedules. */
+    protected readonly ownable: OwnablePlugin;
+
+    /** OP20 token being vested. */
+    protected readonly _token: StoredAddress;
+
+    /** Mapping of beneficiary -> tokens covered; the vested amount once revoked. */
+    protected readonly amountMap: AddressMemoryMap;
+
+    /** Mapping of beneficiary -> tokens already released. */
+    protected readonly releasedMap: AddressMemoryMap;
+
+    protected readonly startMap: AddressMemoryMap;
+    protected readonly cliffMap: AddressMemoryMap;
+
+    /** Mapping of beneficiary -> duration; zero when there is no schedule. */
+    protected readonly durationMap: AddressMemoryMap;
+
+    protected readonly stepPeriodMap: AddressMemoryMap;
+
+    /** Mapping of beneficiary -> revocable and revoked bits. */
+    protected readonly flagsMap: AddressMemoryMap;
+
+    public constructor() {
+        super();
+
+        this._token = new StoredAddress(tokenPointer);
+        this.amountMap = new AddressMemoryMap(amountMapPointer);
+        this.releasedMap = new AddressMemoryMap(releasedMapPointer);
+        this.startMap = new AddressMemoryMap(startMapPointer);
+        this.cliffMap = new AddressMemoryMap(cliffMapPointer);
+        this.durationMap = new AddressMemoryMap(durationMapPointer);
+        this.stepPeriodMap = new AddressMemoryMap(stepPeriodMapPointer);
+        this.flagsMap = new AddressMemoryMap(flagsMapPointer);
+
+        this.ownable = new OwnablePlugin();
+        this.registerPlugin(this.ownable);
+    }
+
+    /**
+     * Computes how much of a schedule has vested at a block.
+     *
+     * @param schedule - The schedule
+     * @param blockNumber - Block to evaluate at
+     * @returns Vested tokens, rounded down
+     */
+    public static vestedAt(schedule: VestingSchedule, blockNumber: u64): u256 {
+        if (blockNumber < schedule.start) return u256.Zero;
+
+        const elapsed = blockNumber - schedule.start;
+        if (elapsed < schedule.cliff) return u256.Zero;
+        if (elapsed >= schedule.duration) return schedule.amount;
+
+        const vestedBlocks =
+            schedule.stepPeriod == 0
+                ? elapsed
+                : (elapsed / schedule.stepPeriod) * schedule.stepPeriod;
+
+        return SafeMath.div(
+            SafeMath.mul(schedule.amount, u256.fromU64(vestedBlocks)),
+            u256.fromU64(schedule.duration),
+        );
+    }
+
+    /**
+     * Sets the token to vest. Call once from onDeployment.
+     *
+     * @param token - OP20 token held by the wallet
+     * @param skipDeployerVerification - If true, skips deployer check (use with caution)
+     *
+     * @throws {Revert} If already initialized
+     * @throws {Revert} If the token is the zero address
+     * @throws {Revert} If caller is not deployer (unless skipped)
+     */
+    public instantiate(token: Address, skipDeployerVerification: boolean = false): void {
+        if (!this._token.value.isZero()) throw new Revert('Already initialized');
+        if (!skipDeployerVerification) this.onlyDeployer(Blockchain.tx.sender);
+        if (token.isZero()) throw new Revert('Invalid token');
+
+        this._token.value = token;
+    }
+
+    /**
+     * Gives a beneficiary a schedule, pulling its tokens from the caller.
+     *
+     * @param calldata - Contains the beneficiary, amount, start block, cliff, duration,
+     * step period and whether the schedule is revocable
+     * @emits VestingScheduleCreated event
+     *
+     * @throws {Revert} If the caller is not the owner
+     * @throws {Revert} If the beneficiary already has a schedule
+     * @throws {Revert} If the schedule is invalid
+     * @throws {Revert} If the tokens cannot be pulled from the caller
+     */
+    @method(
+        { name: 'beneficiary', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'start', type: ABIDataTypes.UINT64 },
+        { name: 'cliff', type: ABIDataTypes.UINT64 },
+        { name: 'duration', type: ABIDataTypes.UINT64 },
+        { name: 'stepPeriod', type: ABIDataTypes.UINT64 },
+        { name: 'revocable', type: ABIDataTypes.BOOL },
+    )
+    @emit('VestingScheduleCreated')
+    public createSchedule(calldata: Calldata): BytesWriter {
+        this.ownable.onlyOwner();
+
+        const beneficiary = calldata.readAddress();
+        const schedule = new VestingSchedule(
+            calldata.readU256(),
+            calldata.readU64(),
+            calldata.readU64(),
+            calldata.readU64(),
+            calldata.readU64(),
+            calldata.readBoolean(),
+        );
+
+        this._createSchedule(beneficiary, schedule);
+
+        TransferHelper.transferFrom(
+            this._token.value,
+            Blockchain.tx.sender,
+            this.address,
+            schedule.amount,
+        );
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Pays a beneficiary everything vested and not yet released.
+     *
+     * @param calldata - Contains the beneficiary
+     * @returns Amount released
+     * @emits TokensReleased event
+     *
+     * @throws {Revert} If nothing can be released
+     */
+    @method({ name: 'beneficiary', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('TokensReleased')
+    public release(calldata: Calldata): BytesWriter {
+        const amount = this._release(calldata.readAddress());
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(amount);
+        return w;
+    }
+
+    /**
+     * Revokes a schedule, returning its unvested tokens to the owner.
+     *
+     * @param calldata - Contains the beneficiary
+     * @emits VestingScheduleRevoked event
+     *
+     * @throws {Revert} If the caller is not the owner
+     * @throws {Revert} If there is no schedule, or it is not revocable or already revoked
+     */
+    @method({ name: 'beneficiary', type: ABIDataTypes.ADDRESS })
+    @emit('VestingScheduleRevoked')
+    public revoke(calldata: Calldata): BytesWriter {
+        this.ownable.onlyOwner();
+
+        this._revoke(calldata.readAddress());
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns what a beneficiary can release now.
+     */
+    @method({ name: 'beneficiary', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    public releasable(calldata: Calldata): BytesWriter {
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._releasable(calldata.readAddress()));
+        return w;
+    }
+
+    /**
+     * Returns how much of a beneficiary's schedule has vested at a block, released or not.
+     * Once revoked, this is the amount vested at revocation.
+     */
+    @method(
+        { name: 'beneficiary', type: ABIDataTypes.ADDRESS },
+        { name: 'blockNumber', type: ABIDataTypes.UINT64 },
+    )
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    public vestedAmount(calldata: Calldata): BytesWriter {
+        const beneficiary = calldata.readAddress();
+        const blockNumber = calldata.readU64();
+
+        const w = new BytesWriter(U256_BYTE_LENGTH);
+        w.writeU256(this._vestedAmount(beneficiary, blockNumber));
+        return w;
+    }
+
+    /**
+     * Returns the schedule of a beneficiary; all zero when there is none.
+     */
+    @method({ name: 'beneficiary', type: ABIDataTypes.ADDRESS })
+    @returns(
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+        { name: 'released', type: ABIDataTypes.UINT256 },
+        { name: 'start', type: ABIDataTypes.UINT64 },
+        { name: 'cliff', type: ABIDataTypes.UINT64 },
+        { name: 'duration', type: ABIDataTypes.UINT64 },
+        { name: 'stepPeriod', type: ABIDataTypes.UINT64 },
+        { name: 'revocable', type: ABIDataTypes.BOOL },
+        { name: 'revoked', type: ABIDataTypes.BOOL },
+    )
+    public schedule(calldata: Calldata): BytesWriter {
+        const beneficiary = calldata.readAddress();
+        const schedule = this._schedule(beneficiary);
+
+        const w = new BytesWriter(
+            U256_BYTE_LENGTH * 2 + U64_BYTE_LENGTH * 4 + BOOLEAN_BYTE_LENGTH * 2,
+        );
+        w.writeU256(schedule.amount);
+        w.writeU256(this.releasedMap.get(beneficiary));
+        w.writeU64(schedule.start);
+        w.writeU64(schedule.cliff);
+        w.writeU64(schedule.duration);
+        w.writeU64(schedule.stepPeriod);
+        w.writeBoolean(schedule.revocable);
+        w.writeBoolean(this._isRevoked(beneficiary));
+        return w;
+    }
+
+    /**
+     * Returns the token being vested.
+     */
+    @method()
+    @returns({ name: 'token', type: ABIDataTypes.ADDRESS })
+    public token(_: Calldata): BytesWriter {
+        const w = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        w.writeAddress(this._token.value);
+        return w;
+    }
+
+    /**
+     * Internal: Stores a new schedule. Does not move any tokens.
+     * @protected
+     */
+    protected _createSchedule(beneficiary: Address, schedule: VestingSchedule): void {
+        if (beneficiary.isZero()) throw new Revert('Invalid beneficiary');
+        if (this._hasSchedule(beneficiary)) throw new Revert('Schedule already exists');
+        if (schedule.amount.isZero()) throw new Revert('Amount is zero');
+
+        if (
+            schedule.duration == 0 ||
+            schedule.cliff > schedule.duration ||
+            schedule.stepPeriod > schedule.duration ||
+            schedule.duration > u64.MAX_VALUE - schedule.start
+        ) {
+            throw new Revert('Invalid schedule');
+        }
+
+        this.amountMap.set(beneficiary, schedule.amount);
+        this.startMap.set(beneficiary, u256.fromU64(schedule.start));
+        this.cliffMap.set(beneficiary, u256.fromU64(schedule.cliff));
+        this.durationMap.set(beneficiary, u256.fromU64(schedule.duration));
+        this.stepPeriodMap.set(beneficiary, u256.fromU64(schedule.stepPeriod));
+        this.flagsMap.set(beneficiary, u256.fromU64(schedule.revocable ? REVOCABLE_FLAG : 0));
+
+        this.emitEvent(
+            new VestingScheduleCreatedEvent(
+                beneficiary,
+                schedule.amount,
+                schedule.start,
+                schedule.cliff,
+                schedule.duration,
+                schedule.stepPeriod,
+                schedule.revocable,
+            ),
+        );
+    }
+
+    /**
+     * Internal: Pays a beneficiary what is releasable.
+     * @protected
+     */
+    protected _release(beneficiary: Address): u256 {
+        const amount = this._releasable(beneficiary);
+        if (amount.isZero()) throw new Revert('Nothing to release');
+
+        // Record before transferring so the release cannot be re-entered
+        this.releasedMap.set(beneficiary, SafeMath.add(this.releasedMap.get(beneficiary), amount));
+
+        TransferHelper.transfer(this._token.value, beneficiary, amount);
+
+        this.emitEvent(new TokensReleasedEvent(beneficiary, amount));
+
+        return amount;
+    }
+
+    /**
+     * Internal: Freezes a schedule at what has vested and returns the rest to the owner.
+     * @protected
+     */
+    protected _revoke(beneficiary: Address): void {
+        if (!this._hasSchedule(beneficiary)) throw new Revert('No schedule');
+
+        const flags = this.flagsMap.get(beneficiary).toU64();
+        if ((flags & REVOCABLE_FLAG) == 0) throw new Revert('Schedule is not revocable');
+        if ((flags & REVOKED_FLAG) != 0) throw new Revert('Schedule already revoked');
+
+        const schedule = this._schedule(beneficiary);
+        const vested = VestingWallet.vestedAt(schedule, Blockchain.block.number);
+        const unvested = SafeMath.sub(schedule.amount, vested);
+
+        this.amountMap.set(beneficiary, vested);
+        this.flagsMap.set(beneficiary, u256.fromU64(flags | REVOKED_FLAG));
+
+        if (!unvested.isZero()) {
+            TransferHelper.transfer(this._token.value, this.ownable.owner, unvested);
+        }
+
+        this.emitEvent(new VestingScheduleRevokedEvent(beneficiary, unvested));
+    }
+
+    protected _releasable(beneficiary: Address): u256 {
+        return SafeMath.sub(
+            this._vestedAmount(beneficiary, Blockchain.block.number),
+            this.releasedMap.get(beneficiary),
+        );
+    }
+
+    protected _vestedAmount(beneficiary: Address, blockNumber: u64): u256 {
+        if (!this._hasSchedule(beneficiary)) return u256.Zero;
+        if (this._isRevoked(beneficiary)) return this.amountMap.get(beneficiary);
+
+        return VestingWallet.vestedAt(this._schedule(beneficiary), blockNumber);
+    }
+
+    protected _schedule(beneficiary: Address): VestingSchedule {
+        return new VestingSchedule(
+            this.amountMap.get(beneficiary),
+            this.startMap.get(beneficiary).toU64(),
+            this.cliffMap.get(beneficiary).toU64(),
+            this.durationMap.get(beneficiary).toU64(),
+            this.stepPeriodMap.get(beneficiary).toU64(),
+            (this.flagsMap.get(beneficiary).toU64() & REVOCABLE_FLAG) != 0,
+        );
+    }
+
+    protected _hasSchedule(beneficiary: Address): bool {
+        return !this.durationMap.get(beneficiary).isZero();
+    }
+
+    protected _isRevoked(beneficiary: Address): bool {
+        return (this.flagsMap.get(beneficiary).toU64() & REVOKED_FLAG) != 0;
+    }
+}
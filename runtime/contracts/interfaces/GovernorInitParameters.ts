@@ -0,0 +1,27 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Address } from '../../types/Address';
+
+export class GovernorInitParameters {
+    readonly token: Address;
+    readonly votingDelay: u64;
+    readonly votingPeriod: u64;
+    readonly proposalThreshold: u256;
+    readonly quorumNumerator: u64;
+    readonly timelockDelay: u64;
+
+    constructor(
+        token: Address,
+        votingDelay: u64,
+        votingPeriod: u64,
+        proposalThreshold: u256,
+        quorumNumerator: u64,
+        timelockDelay: u64,
+    ) {
+        this.token = token;
+        this.votingDelay = votingDelay;
+        this.votingPeriod = votingPeriod;
+        this.proposalThreshold = proposalThreshold;
+        this.quorumNumerator = quorumNumerator;
+        this.timelockDelay = timelockDelay;
+    }
+}
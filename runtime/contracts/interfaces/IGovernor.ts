@@ -0,0 +1,13 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IGovernor {
+    propose(calldata: Calldata): BytesWriter;
+    castVote(calldata: Calldata): BytesWriter;
+    queue(calldata: Calldata): BytesWriter;
+    executeProposal(calldata: Calldata): BytesWriter;
+    cancel(calldata: Calldata): BytesWriter;
+    state(calldata: Calldata): BytesWriter;
+    proposalVotes(calldata: Calldata): BytesWriter;
+    hasVoted(calldata: Calldata): BytesWriter;
+}
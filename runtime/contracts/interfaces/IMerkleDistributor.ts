@@ -0,0 +1,9 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IMerkleDistributor {
+    claim(calldata: Calldata): BytesWriter;
+    isClaimed(calldata: Calldata): BytesWriter;
+    token(calldata: Calldata): BytesWriter;
+    merkleRoot(calldata: Calldata): BytesWriter;
+}
@@ -0,0 +1,29 @@
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Calldata } from '../../types';
+
+export interface IOP1155 {
+    // Collection properties
+    fn_name(calldata: Calldata): BytesWriter;
+    fn_symbol(calldata: Calldata): BytesWriter;
+    uri(calldata: Calldata): BytesWriter;
+    totalSupply(calldata: Calldata): BytesWriter;
+    exists(calldata: Calldata): BytesWriter;
+
+    // Balances
+    balanceOf(calldata: Calldata): BytesWriter;
+    balanceOfBatch(calldata: Calldata): BytesWriter;
+
+    // Transfer functions
+    safeTransferFrom(calldata: Calldata): BytesWriter;
+    safeBatchTransferFrom(calldata: Calldata): BytesWriter;
+
+    // Approval functions
+    setApprovalForAll(calldata: Calldata): BytesWriter;
+    isApprovedForAll(calldata: Calldata): BytesWriter;
+    setApprovalForAllBySignature(calldata: Calldata): BytesWriter;
+
+    // Advanced functions
+    burn(calldata: Calldata): BytesWriter;
+    burnBatch(calldata: Calldata): BytesWriter;
+    domainSeparator(calldata: Calldata): BytesWriter;
+}
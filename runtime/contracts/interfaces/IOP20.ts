@@ -21,4 +21,8 @@ export interface IOP20 {
     decreaseAllowance(callData: Calldata): BytesWriter;
     increaseAllowanceBySignature(callData: Calldata): BytesWriter;
     decreaseAllowanceBySignature(callData: Calldata): BytesWriter;
+    transferBySignature(callData: Calldata): BytesWriter;
+    transferFromBySignature(callData: Calldata): BytesWriter;
+    batchTransfer(callData: Calldata): BytesWriter;
+    airdrop(callData: Calldata): BytesWriter;
 }
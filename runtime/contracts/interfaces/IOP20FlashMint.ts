@@ -0,0 +1,8 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP20FlashMint {
+    maxFlashLoan(calldata: Calldata): BytesWriter;
+    flashFee(calldata: Calldata): BytesWriter;
+    flashLoan(calldata: Calldata): BytesWriter;
+}
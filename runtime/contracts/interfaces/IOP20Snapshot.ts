@@ -0,0 +1,8 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP20Snapshot {
+    currentSnapshotId(calldata: Calldata): BytesWriter;
+    balanceOfAt(calldata: Calldata): BytesWriter;
+    totalSupplyAt(calldata: Calldata): BytesWriter;
+}
@@ -0,0 +1,11 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP20Votes {
+    delegates(calldata: Calldata): BytesWriter;
+    getVotes(calldata: Calldata): BytesWriter;
+    getPastVotes(calldata: Calldata): BytesWriter;
+    getPastTotalSupply(calldata: Calldata): BytesWriter;
+    delegate(calldata: Calldata): BytesWriter;
+    delegateBySignature(calldata: Calldata): BytesWriter;
+}
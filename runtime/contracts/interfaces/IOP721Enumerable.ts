@@ -0,0 +1,8 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP721Enumerable {
+    tokenByIndex(calldata: Calldata): BytesWriter;
+    tokens(calldata: Calldata): BytesWriter;
+    tokensOfOwner(calldata: Calldata): BytesWriter;
+}
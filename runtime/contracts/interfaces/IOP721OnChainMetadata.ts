@@ -0,0 +1,9 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP721OnChainMetadata {
+    tokenMetadata(calldata: Calldata): BytesWriter;
+    setTrait(calldata: Calldata): BytesWriter;
+    removeTrait(calldata: Calldata): BytesWriter;
+    setTokenImage(calldata: Calldata): BytesWriter;
+}
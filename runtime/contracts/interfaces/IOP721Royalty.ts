@@ -0,0 +1,8 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP721Royalty {
+    royaltyInfo(calldata: Calldata): BytesWriter;
+    setDefaultRoyalty(calldata: Calldata): BytesWriter;
+    setTokenRoyalty(calldata: Calldata): BytesWriter;
+}
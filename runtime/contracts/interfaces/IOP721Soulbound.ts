@@ -0,0 +1,7 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IOP721Soulbound {
+    locked(calldata: Calldata): BytesWriter;
+    revoke(calldata: Calldata): BytesWriter;
+}
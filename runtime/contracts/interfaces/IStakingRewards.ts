@@ -0,0 +1,18 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IStakingRewards {
+    stake(calldata: Calldata): BytesWriter;
+    withdraw(calldata: Calldata): BytesWriter;
+    getReward(calldata: Calldata): BytesWriter;
+    exit(calldata: Calldata): BytesWriter;
+    notifyRewardAmount(calldata: Calldata): BytesWriter;
+    setRewardsDuration(calldata: Calldata): BytesWriter;
+    balanceOf(calldata: Calldata): BytesWriter;
+    totalStaked(calldata: Calldata): BytesWriter;
+    earned(calldata: Calldata): BytesWriter;
+    rewardPerToken(calldata: Calldata): BytesWriter;
+    rewardPeriod(calldata: Calldata): BytesWriter;
+    stakingToken(calldata: Calldata): BytesWriter;
+    rewardsToken(calldata: Calldata): BytesWriter;
+}
@@ -0,0 +1,14 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface ITimelockController {
+    schedule(calldata: Calldata): BytesWriter;
+    scheduleBatch(calldata: Calldata): BytesWriter;
+    cancel(calldata: Calldata): BytesWriter;
+    executeOperation(calldata: Calldata): BytesWriter;
+    executeBatch(calldata: Calldata): BytesWriter;
+    updateDelay(calldata: Calldata): BytesWriter;
+    minDelay(calldata: Calldata): BytesWriter;
+    getReadyBlock(calldata: Calldata): BytesWriter;
+    getOperationState(calldata: Calldata): BytesWriter;
+}
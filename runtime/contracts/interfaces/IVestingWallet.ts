@@ -0,0 +1,12 @@
+import { Calldata } from '../../types';
+import { BytesWriter } from '../../buffer/BytesWriter';
+
+export interface IVestingWallet {
+    createSchedule(calldata: Calldata): BytesWriter;
+    release(calldata: Calldata): BytesWriter;
+    revoke(calldata: Calldata): BytesWriter;
+    releasable(calldata: Calldata): BytesWriter;
+    vestedAmount(calldata: Calldata): BytesWriter;
+    schedule(calldata: Calldata): BytesWriter;
+    token(calldata: Calldata): BytesWriter;
+}
@@ -0,0 +1,11 @@
+export class OP1155InitParameters {
+    public name: string;
+    public symbol: string;
+    public baseURI: string;
+
+    constructor(name: string, symbol: string, baseURI: string = '') {
+        this.name = name;
+        this.symbol = symbol;
+        this.baseURI = baseURI;
+    }
+}
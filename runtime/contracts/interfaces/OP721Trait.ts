@@ -0,0 +1,26 @@
+/**
+ * How a trait value is validated and rendered in the metadata JSON.
+ */
+export enum OP721TraitType {
+    /** Any text, rendered as a JSON string */
+    STRING = 0,
+    /** A decimal number such as `-12` or `3.5`, rendered as a JSON number */
+    NUMBER = 1,
+    /** `true` or `false`, rendered as a JSON boolean */
+    BOOLEAN = 2,
+    /** A unix timestamp in seconds, rendered as a number with `"display_type": "date"` */
+    DATE = 3,
+}
+
+export class OP721Trait {
+    readonly key: string;
+    /** An OP721TraitType value */
+    readonly traitType: u8;
+    readonly value: string;
+
+    constructor(key: string, traitType: u8, value: string) {
+        this.key = key;
+        this.traitType = traitType;
+        this.value = value;
+    }
+}
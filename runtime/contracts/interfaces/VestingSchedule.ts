@@ -0,0 +1,35 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+
+/**
+ * Release schedule of one beneficiary. Every duration is in blocks.
+ */
+export class VestingSchedule {
+    /** Tokens covered by the schedule */
+    public amount: u256;
+    /** Block vesting starts from */
+    public start: u64;
+    /** Blocks after start before anything vests */
+    public cliff: u64;
+    /** Blocks after start until everything is vested */
+    public duration: u64;
+    /** Blocks between releases; zero vests linearly every block */
+    public stepPeriod: u64;
+    /** Whether the owner can revoke the unvested part */
+    public revocable: bool;
+
+    constructor(
+        amount: u256,
+        start: u64,
+        cliff: u64,
+        duration: u64,
+        stepPeriod: u64 = 0,
+        revocable: bool = false,
+    ) {
+        this.amount = amount;
+        this.start = start;
+        this.cliff = cliff;
+        this.duration = duration;
+        this.stepPeriod = stepPeriod;
+        this.revocable = revocable;
+    }
+}
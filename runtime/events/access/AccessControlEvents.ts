@@ -0,0 +1,44 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when `account` is granted `role`.
+ */
+export class RoleGrantedEvent extends NetEvent {
+    constructor(role: u256, account: Address, sender: Address) {
+        const data = new BytesWriter(U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH * 2);
+        data.writeU256(role);
+        data.writeAddress(account);
+        data.writeAddress(sender);
+        super('RoleGranted', data);
+    }
+}
+
+/**
+ * Event emitted when `account` is revoked `role`, either by an admin or by renouncing it.
+ */
+export class RoleRevokedEvent extends NetEvent {
+    constructor(role: u256, account: Address, sender: Address) {
+        const data = new BytesWriter(U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH * 2);
+        data.writeU256(role);
+        data.writeAddress(account);
+        data.writeAddress(sender);
+        super('RoleRevoked', data);
+    }
+}
+
+/**
+ * Event emitted when the admin role of `role` is replaced.
+ */
+export class RoleAdminChangedEvent extends NetEvent {
+    constructor(role: u256, previousAdminRole: u256, newAdminRole: u256) {
+        const data = new BytesWriter(U256_BYTE_LENGTH * 3);
+        data.writeU256(role);
+        data.writeU256(previousAdminRole);
+        data.writeU256(newAdminRole);
+        super('RoleAdminChanged', data);
+    }
+}
@@ -0,0 +1,81 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import {
+    ADDRESS_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+    U8_BYTE_LENGTH,
+} from '../../utils';
+
+/**
+ * Event emitted when a proposal is created.
+ */
+export class ProposalCreatedEvent extends NetEvent {
+    constructor(
+        proposalId: u256,
+        proposer: Address,
+        voteStart: u64,
+        voteEnd: u64,
+        descriptionHash: Uint8Array,
+    ) {
+        const data = new BytesWriter(
+            U256_BYTE_LENGTH * 2 + ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH * 2,
+        );
+        data.writeU256(proposalId);
+        data.writeAddress(proposer);
+        data.writeU64(voteStart);
+        data.writeU64(voteEnd);
+        data.writeBytes(descriptionHash);
+        super('ProposalCreated', data);
+    }
+}
+
+/**
+ * Event emitted when a vote is cast on a proposal.
+ */
+export class VoteCastEvent extends NetEvent {
+    constructor(voter: Address, proposalId: u256, support: u8, weight: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH * 2 + U8_BYTE_LENGTH);
+        data.writeAddress(voter);
+        data.writeU256(proposalId);
+        data.writeU8(support);
+        data.writeU256(weight);
+        super('VoteCast', data);
+    }
+}
+
+/**
+ * Event emitted when a succeeded proposal is queued behind the timelock.
+ */
+export class ProposalQueuedEvent extends NetEvent {
+    constructor(proposalId: u256, eta: u64) {
+        const data = new BytesWriter(U256_BYTE_LENGTH + U64_BYTE_LENGTH);
+        data.writeU256(proposalId);
+        data.writeU64(eta);
+        super('ProposalQueued', data);
+    }
+}
+
+/**
+ * Event emitted when a queued proposal is executed.
+ */
+export class ProposalExecutedEvent extends NetEvent {
+    constructor(proposalId: u256) {
+        const data = new BytesWriter(U256_BYTE_LENGTH);
+        data.writeU256(proposalId);
+        super('ProposalExecuted', data);
+    }
+}
+
+/**
+ * Event emitted when a proposal is canceled.
+ */
+export class ProposalCanceledEvent extends NetEvent {
+    constructor(proposalId: u256) {
+        const data = new BytesWriter(U256_BYTE_LENGTH);
+        data.writeU256(proposalId);
+        super('ProposalCanceled', data);
+    }
+}
@@ -0,0 +1,18 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U32_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when an allocation of the distribution is claimed.
+ */
+export class ClaimedEvent extends NetEvent {
+    constructor(index: u32, account: Address, amount: u256) {
+        const data = new BytesWriter(U32_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        data.writeU32(index);
+        data.writeAddress(account);
+        data.writeU256(amount);
+        super('Claimed', data);
+    }
+}
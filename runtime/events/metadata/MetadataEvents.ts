@@ -0,0 +1,15 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { U256_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when the on-chain metadata of a token changes, so indexers can refresh it.
+ */
+export class MetadataUpdateEvent extends NetEvent {
+    constructor(tokenId: u256) {
+        const data = new BytesWriter(U256_BYTE_LENGTH);
+        data.writeU256(tokenId);
+        super('MetadataUpdate', data);
+    }
+}
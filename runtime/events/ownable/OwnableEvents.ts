@@ -0,0 +1,39 @@
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when the owner nominates a new owner that still has to accept.
+ */
+export class OwnershipTransferStartedEvent extends NetEvent {
+    constructor(previousOwner: Address, newOwner: Address) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH * 2);
+        data.writeAddress(previousOwner);
+        data.writeAddress(newOwner);
+        super('OwnershipTransferStarted', data);
+    }
+}
+
+/**
+ * Event emitted when ownership changes hands.
+ */
+export class OwnershipTransferredEvent extends NetEvent {
+    constructor(previousOwner: Address, newOwner: Address) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH * 2);
+        data.writeAddress(previousOwner);
+        data.writeAddress(newOwner);
+        super('OwnershipTransferred', data);
+    }
+}
+
+/**
+ * Event emitted when the owner gives up ownership, leaving the contract without an owner.
+ */
+export class OwnershipRenouncedEvent extends NetEvent {
+    constructor(previousOwner: Address) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        data.writeAddress(previousOwner);
+        super('OwnershipRenounced', data);
+    }
+}
@@ -0,0 +1,26 @@
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when the contract is paused.
+ */
+export class PausedEvent extends NetEvent {
+    constructor(account: Address) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        data.writeAddress(account);
+        super('Paused', data);
+    }
+}
+
+/**
+ * Event emitted when the contract is unpaused.
+ */
+export class UnpausedEvent extends NetEvent {
+    constructor(account: Address) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        data.writeAddress(account);
+        super('Unpaused', data);
+    }
+}
@@ -0,0 +1,31 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { Revert } from '../../types/Revert';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U8_BYTE_LENGTH } from '../../utils';
+import { NetEvent } from '../NetEvent';
+
+// 1 count byte overhead
+// Each recipient+amount pair = 64 bytes
+// Max pairs = (352 - 1) / 64 = 5.48, so max 5 items
+export const OP20_BATCH_MINTED_MAX_ENTRIES: i32 = 5;
+
+@final
+export class OP20BatchMintedEvent extends NetEvent {
+    constructor(recipients: Address[], amounts: u256[]) {
+        if (recipients.length > OP20_BATCH_MINTED_MAX_ENTRIES) {
+            throw new Revert('BatchMinted event exceeds max data size');
+        }
+
+        const data: BytesWriter = new BytesWriter(
+            U8_BYTE_LENGTH + recipients.length * (ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH),
+        );
+        data.writeU8(u8(recipients.length));
+        for (let i = 0; i < recipients.length; i++) {
+            data.writeAddress(recipients[i]);
+            data.writeU256(amounts[i]);
+        }
+
+        super('BatchMinted', data);
+    }
+}
@@ -0,0 +1,35 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { Revert } from '../../types/Revert';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U8_BYTE_LENGTH } from '../../utils';
+import { NetEvent } from '../NetEvent';
+
+// 2 addresses (32*2) + 1 count byte = 65 bytes overhead
+// Each recipient+amount pair = 64 bytes
+// Max pairs = (352 - 65) / 64 = 4.48, so max 4 items
+export const OP20_BATCH_TRANSFERRED_MAX_ENTRIES: i32 = 4;
+
+@final
+export class OP20BatchTransferredEvent extends NetEvent {
+    constructor(operator: Address, from: Address, recipients: Address[], amounts: u256[]) {
+        if (recipients.length > OP20_BATCH_TRANSFERRED_MAX_ENTRIES) {
+            throw new Revert('BatchTransferred event exceeds max data size');
+        }
+
+        const data: BytesWriter = new BytesWriter(
+            ADDRESS_BYTE_LENGTH * 2 +
+                U8_BYTE_LENGTH +
+                recipients.length * (ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH),
+        );
+        data.writeAddress(operator);
+        data.writeAddress(from);
+        data.writeU8(u8(recipients.length));
+        for (let i = 0; i < recipients.length; i++) {
+            data.writeAddress(recipients[i]);
+            data.writeU256(amounts[i]);
+        }
+
+        super('BatchTransferred', data);
+    }
+}
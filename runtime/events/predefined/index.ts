@@ -1,4 +1,6 @@
 export * from './OP20ApprovedEvent';
+export * from './OP20BatchMintedEvent';
+export * from './OP20BatchTransferredEvent';
 export * from './OP20BurnedEvent';
 export * from './OP20MintedEvent';
 export * from './OP20TransferredEvent';
@@ -0,0 +1,49 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when a buyer reserves inventory.
+ */
+export class ReservationCreatedEvent extends NetEvent {
+    constructor(id: u256, buyer: Address, quantity: u256, price: u64, expiryBlock: u64) {
+        const data = new BytesWriter(
+            U256_BYTE_LENGTH * 2 + ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH * 2,
+        );
+        data.writeU256(id);
+        data.writeAddress(buyer);
+        data.writeU256(quantity);
+        data.writeU64(price);
+        data.writeU64(expiryBlock);
+        super('ReservationCreated', data);
+    }
+}
+
+/**
+ * Event emitted when a paid reservation is claimed.
+ */
+export class ReservationFulfilledEvent extends NetEvent {
+    constructor(id: u256, buyer: Address, quantity: u256, price: u64) {
+        const data = new BytesWriter(U256_BYTE_LENGTH * 2 + ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH);
+        data.writeU256(id);
+        data.writeAddress(buyer);
+        data.writeU256(quantity);
+        data.writeU64(price);
+        super('ReservationFulfilled', data);
+    }
+}
+
+/**
+ * Event emitted when an unpaid reservation expires and its inventory is released.
+ */
+export class ReservationExpiredEvent extends NetEvent {
+    constructor(id: u256, buyer: Address, quantity: u256) {
+        const data = new BytesWriter(U256_BYTE_LENGTH * 2 + ADDRESS_BYTE_LENGTH);
+        data.writeU256(id);
+        data.writeAddress(buyer);
+        data.writeU256(quantity);
+        super('ReservationExpired', data);
+    }
+}
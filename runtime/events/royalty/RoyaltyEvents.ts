@@ -0,0 +1,31 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH, U16_BYTE_LENGTH, U256_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when the default royalty changes. A zero receiver means no default royalty.
+ */
+export class DefaultRoyaltyChangedEvent extends NetEvent {
+    constructor(receiver: Address, feeBasisPoints: u16) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U16_BYTE_LENGTH);
+        data.writeAddress(receiver);
+        data.writeU16(feeBasisPoints);
+        super('DefaultRoyaltyChanged', data);
+    }
+}
+
+/**
+ * Event emitted when the royalty of a token changes. A zero receiver means the token
+ * falls back to the default royalty.
+ */
+export class TokenRoyaltyChangedEvent extends NetEvent {
+    constructor(tokenId: u256, receiver: Address, feeBasisPoints: u16) {
+        const data = new BytesWriter(U256_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U16_BYTE_LENGTH);
+        data.writeU256(tokenId);
+        data.writeAddress(receiver);
+        data.writeU16(feeBasisPoints);
+        super('TokenRoyaltyChanged', data);
+    }
+}
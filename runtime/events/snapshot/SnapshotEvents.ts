@@ -0,0 +1,14 @@
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { U64_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when a snapshot is taken.
+ */
+export class SnapshotEvent extends NetEvent {
+    constructor(id: u64) {
+        const data = new BytesWriter(U64_BYTE_LENGTH);
+        data.writeU64(id);
+        super('Snapshot', data);
+    }
+}
@@ -0,0 +1,64 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH, U64_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when an account stakes tokens.
+ */
+export class StakedEvent extends NetEvent {
+    constructor(account: Address, amount: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        data.writeAddress(account);
+        data.writeU256(amount);
+        super('Staked', data);
+    }
+}
+
+/**
+ * Event emitted when an account withdraws staked tokens.
+ */
+export class WithdrawnEvent extends NetEvent {
+    constructor(account: Address, amount: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        data.writeAddress(account);
+        data.writeU256(amount);
+        super('Withdrawn', data);
+    }
+}
+
+/**
+ * Event emitted when an account is paid its rewards.
+ */
+export class RewardPaidEvent extends NetEvent {
+    constructor(account: Address, reward: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        data.writeAddress(account);
+        data.writeU256(reward);
+        super('RewardPaid', data);
+    }
+}
+
+/**
+ * Event emitted when rewards are added and a new reward period starts.
+ */
+export class RewardAddedEvent extends NetEvent {
+    constructor(reward: u256, periodFinish: u64) {
+        const data = new BytesWriter(U256_BYTE_LENGTH + U64_BYTE_LENGTH);
+        data.writeU256(reward);
+        data.writeU64(periodFinish);
+        super('RewardAdded', data);
+    }
+}
+
+/**
+ * Event emitted when the length of future reward periods changes.
+ */
+export class RewardsDurationUpdatedEvent extends NetEvent {
+    constructor(duration: u64) {
+        const data = new BytesWriter(U64_BYTE_LENGTH);
+        data.writeU64(duration);
+        super('RewardsDurationUpdated', data);
+    }
+}
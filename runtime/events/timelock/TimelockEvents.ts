@@ -0,0 +1,63 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import {
+    ADDRESS_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U32_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+} from '../../utils';
+
+/**
+ * Event emitted for each call of a scheduled operation.
+ */
+export class CallScheduledEvent extends NetEvent {
+    constructor(id: u256, index: u32, target: Address, predecessor: u256, readyBlock: u64) {
+        const data = new BytesWriter(
+            U256_BYTE_LENGTH * 2 + U32_BYTE_LENGTH + ADDRESS_BYTE_LENGTH + U64_BYTE_LENGTH,
+        );
+        data.writeU256(id);
+        data.writeU32(index);
+        data.writeAddress(target);
+        data.writeU256(predecessor);
+        data.writeU64(readyBlock);
+        super('CallScheduled', data);
+    }
+}
+
+/**
+ * Event emitted for each call of an executed operation.
+ */
+export class CallExecutedEvent extends NetEvent {
+    constructor(id: u256, index: u32, target: Address) {
+        const data = new BytesWriter(U256_BYTE_LENGTH + U32_BYTE_LENGTH + ADDRESS_BYTE_LENGTH);
+        data.writeU256(id);
+        data.writeU32(index);
+        data.writeAddress(target);
+        super('CallExecuted', data);
+    }
+}
+
+/**
+ * Event emitted when a pending operation is cancelled.
+ */
+export class CancelledEvent extends NetEvent {
+    constructor(id: u256) {
+        const data = new BytesWriter(U256_BYTE_LENGTH);
+        data.writeU256(id);
+        super('Cancelled', data);
+    }
+}
+
+/**
+ * Event emitted when the minimum delay changes.
+ */
+export class MinDelayChangeEvent extends NetEvent {
+    constructor(oldDelay: u64, newDelay: u64) {
+        const data = new BytesWriter(U64_BYTE_LENGTH * 2);
+        data.writeU64(oldDelay);
+        data.writeU64(newDelay);
+        super('MinDelayChange', data);
+    }
+}
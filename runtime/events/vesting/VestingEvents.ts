@@ -0,0 +1,61 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import {
+    ADDRESS_BYTE_LENGTH,
+    BOOLEAN_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+} from '../../utils';
+
+/**
+ * Event emitted when a beneficiary is given a vesting schedule.
+ */
+export class VestingScheduleCreatedEvent extends NetEvent {
+    constructor(
+        beneficiary: Address,
+        amount: u256,
+        start: u64,
+        cliff: u64,
+        duration: u64,
+        stepPeriod: u64,
+        revocable: bool,
+    ) {
+        const data = new BytesWriter(
+            ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH + U64_BYTE_LENGTH * 4 + BOOLEAN_BYTE_LENGTH,
+        );
+        data.writeAddress(beneficiary);
+        data.writeU256(amount);
+        data.writeU64(start);
+        data.writeU64(cliff);
+        data.writeU64(duration);
+        data.writeU64(stepPeriod);
+        data.writeBoolean(revocable);
+        super('VestingScheduleCreated', data);
+    }
+}
+
+/**
+ * Event emitted when vested tokens are paid to a beneficiary.
+ */
+export class TokensReleasedEvent extends NetEvent {
+    constructor(beneficiary: Address, amount: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        data.writeAddress(beneficiary);
+        data.writeU256(amount);
+        super('TokensReleased', data);
+    }
+}
+
+/**
+ * Event emitted when a schedule is revoked and its unvested tokens returned to the owner.
+ */
+export class VestingScheduleRevokedEvent extends NetEvent {
+    constructor(beneficiary: Address, unvestedAmount: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH);
+        data.writeAddress(beneficiary);
+        data.writeU256(unvestedAmount);
+        super('VestingScheduleRevoked', data);
+    }
+}
@@ -0,0 +1,31 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { NetEvent } from '../NetEvent';
+import { BytesWriter } from '../../buffer/BytesWriter';
+import { Address } from '../../types/Address';
+import { ADDRESS_BYTE_LENGTH, U256_BYTE_LENGTH } from '../../utils';
+
+/**
+ * Event emitted when an account changes its delegate.
+ */
+export class DelegateChangedEvent extends NetEvent {
+    constructor(delegator: Address, fromDelegate: Address, toDelegate: Address) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH * 3);
+        data.writeAddress(delegator);
+        data.writeAddress(fromDelegate);
+        data.writeAddress(toDelegate);
+        super('DelegateChanged', data);
+    }
+}
+
+/**
+ * Event emitted when the voting power of a delegate changes.
+ */
+export class DelegateVotesChangedEvent extends NetEvent {
+    constructor(delegate: Address, previousVotes: u256, newVotes: u256) {
+        const data = new BytesWriter(ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH * 2);
+        data.writeAddress(delegate);
+        data.writeU256(previousVotes);
+        data.writeU256(newVotes);
+        super('DelegateVotesChanged', data);
+    }
+}
@@ -0,0 +1,227 @@
+import { Blockchain } from '../env';
+import { Revert } from '../types/Revert';
+import { keccak256 } from './keccak256';
+
+/**
+ * Hash function used to combine the nodes of a merkle tree
+ */
+export enum MerkleHash {
+    SHA256 = 0,
+    KECCAK256 = 1,
+}
+
+/**
+ * MerkleProof verifies that leaves belong to a merkle tree, given only its 32-byte root.
+ *
+ * Trees use sorted-pair hashing: each parent is the hash of its two children concatenated
+ * smallest first, so proofs carry no left/right positions. This matches the trees built by
+ * OpenZeppelin's `StandardMerkleTree` and `merkletreejs` with `sortPairs: true`.
+ *
+ * Leaves are expected to be hashes already. Hash leaf data that could be 64 bytes long
+ * before building the tree, otherwise an inner node could be presented as a leaf.
+ *
+ * @example
+ * ```typescript
+ * const leaf = Blockchain.sha256(Blockchain.tx.sender);
+ * if (!MerkleProof.verify(proof, allowlistRoot, leaf)) {
+ *     throw new Revert('Not on the allowlist');
+ * }
+ * ```
+ */
+@final
+export class MerkleProof {
+    /**
+     * Check that `leaf` is part of the tree with root `root`
+     *
+     * @param proof - Sibling hashes from the leaf up to the root
+     * @param root - Root of the tree
+     * @param leaf - Leaf hash
+     * @param hash - Hash function the tree was built with
+     * @throws {Revert} If a node is not 32 bytes
+     */
+    public static verify(
+        proof: Uint8Array[],
+        root: Uint8Array,
+        leaf: Uint8Array,
+        hash: MerkleHash = MerkleHash.SHA256,
+    ): bool {
+        return MerkleProof.bytesEqual(MerkleProof.processProof(proof, leaf, hash), root);
+    }
+
+    /**
+     * Compute the root reached by hashing `leaf` up a proof
+     *
+     * @throws {Revert} If a node is not 32 bytes
+     */
+    public static processProof(
+        proof: Uint8Array[],
+        leaf: Uint8Array,
+        hash: MerkleHash = MerkleHash.SHA256,
+    ): Uint8Array {
+        MerkleProof.checkNode(leaf);
+
+        let computed = leaf;
+        for (let i = 0; i < proof.length; i++) {
+            computed = MerkleProof.hashPair(computed, proof[i], hash);
+        }
+
+        return computed;
+    }
+
+    /**
+     * Check that every leaf of `leaves` is part of the tree with root `root`
+     *
+     * The proof is the list of sibling nodes not computable from the leaves. Each flag tells
+     * whether the next parent combines two already known nodes (true) or one known node
+     * with the next proof node (false), as produced by OpenZeppelin's `getMultiProof`.
+     *
+     * @param proof - Sibling nodes consumed in order
+     * @param proofFlags - One flag per hash to compute
+     * @param root - Root of the tree
+     * @param leaves - Leaf hashes, in the order the proof was built for
+     * @param hash - Hash function the tree was built with
+     * @throws {Revert} If the flags do not match the proof and leaves, or a node is not 32 bytes
+     */
+    public static multiProofVerify(
+        proof: Uint8Array[],
+        proofFlags: bool[],
+        root: Uint8Array,
+        leaves: Uint8Array[],
+        hash: MerkleHash = MerkleHash.SHA256,
+    ): bool {
+        return MerkleProof.bytesEqual(
+            MerkleProof.processMultiProof(proof, proofFlags, leaves, hash),
+            root,
+        );
+    }
+
+    /**
+     * Compute the root reached by a multiproof
+     *
+     * @throws {Revert} If the flags do not match the proof and leaves, or a node is not 32 bytes
+     */
+    public static processMultiProof(
+        proof: Uint8Array[],
+        proofFlags: bool[],
+        leaves: Uint8Array[],
+        hash: MerkleHash = MerkleHash.SHA256,
+    ): Uint8Array {
+        const leavesLength = leaves.length;
+        const totalHashes = proofFlags.length;
+
+        if (leavesLength + proof.length != totalHashes + 1) {
+            throw new Revert('Invalid multiproof');
+        }
+
+        for (let i = 0; i < leavesLength; i++) {
+            MerkleProof.checkNode(leaves[i]);
+        }
+
+        if (totalHashes == 0) {
+            return leavesLength > 0 ? leaves[0] : MerkleProof.checkNode(proof[0]);
+        }
+
+        // Leaves are consumed first, then the hashes computed so far, in a single queue
+        const hashes = new Array<Uint8Array>(totalHashes);
+        let leafPos = 0;
+        let hashPos = 0;
+        let proofPos = 0;
+
+        for (let i = 0; i < totalHashes; i++) {
+            let a: Uint8Array;
+            if (leafPos < leavesLength) {
+                a = leaves[leafPos++];
+            } else if (hashPos < i) {
+                a = hashes[hashPos++];
+            } else {
+                throw new Revert('Invalid multiproof');
+            }
+
+            let b: Uint8Array;
+            if (!proofFlags[i]) {
+                if (proofPos >= proof.length) {
+                    throw new Revert('Invalid multiproof');
+                }
+                b = proof[proofPos++];
+            } else if (leafPos < leavesLength) {
+                b = leaves[leafPos++];
+            } else if (hashPos < i) {
+                b = hashes[hashPos++];
+            } else {
+                throw new Revert('Invalid multiproof');
+            }
+
+            hashes[i] = MerkleProof.hashPair(a, b, hash);
+        }
+
+        if (proofPos != proof.length) {
+            throw new Revert('Invalid multiproof');
+        }
+
+        return hashes[totalHashes - 1];
+    }
+
+    /**
+     * Hash two nodes, smallest first
+     *
+     * @throws {Revert} If a node is not 32 bytes
+     */
+    public static hashPair(
+        a: Uint8Array,
+        b: Uint8Array,
+        hash: MerkleHash = MerkleHash.SHA256,
+    ): Uint8Array {
+        MerkleProof.checkNode(a);
+        MerkleProof.checkNode(b);
+
+        const buf = new Uint8Array(64);
+        if (MerkleProof.compare(a, b) <= 0) {
+            buf.set(a, 0);
+            buf.set(b, 32);
+        } else {
+            buf.set(b, 0);
+            buf.set(a, 32);
+        }
+
+        return MerkleProof.hash(buf, hash);
+    }
+
+    /**
+     * Hash data with the given merkle hash function
+     */
+    public static hash(data: Uint8Array, hash: MerkleHash = MerkleHash.SHA256): Uint8Array {
+        switch (hash) {
+            case MerkleHash.SHA256:
+                return Blockchain.sha256(data);
+            case MerkleHash.KECCAK256:
+                return keccak256(data);
+            default:
+                throw new Revert('Unknown merkle hash');
+        }
+    }
+
+    private static checkNode(node: Uint8Array): Uint8Array {
+        if (node.length != 32) {
+            throw new Revert('Invalid merkle node');
+        }
+
+        return node;
+    }
+
+    private static compare(a: Uint8Array, b: Uint8Array): i32 {
+        for (let i = 0; i < 32; i++) {
+            if (a[i] != b[i]) return <i32>a[i] - <i32>b[i];
+        }
+
+        return 0;
+    }
+
+    private static bytesEqual(a: Uint8Array, b: Uint8Array): bool {
+        if (a.length != b.length) return false;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] != b[i]) return false;
+        }
+
+        return true;
+    }
+}
@@ -6,6 +6,14 @@ export * from './contracts/interfaces/IOP20';
 export * from './contracts/interfaces/IOP20S';
 export * from './contracts/OP20';
 export * from './contracts/OP20S';
+export * from './contracts/interfaces/IOP20Votes';
+export * from './contracts/OP20Votes';
+export * from './contracts/interfaces/IOP20Snapshot';
+export * from './contracts/OP20Snapshot';
+export * from './contracts/interfaces/IOP20FlashMint';
+export * from './contracts/OP20FlashMint';
+export * from './contracts/interfaces/IOP20Soulbound';
+export * from './contracts/OP20Soulbound';
 export * from './contracts/OP_NET';
 export * from './contracts/interfaces/OP20InitParameters';
 
@@ -21,6 +29,20 @@ export * from './events/NetEvent';
 export * from './events/predefined';
 export * from './events/op20s/OP20SEvents';
 export * from './events/updatable/UpdatableEvents';
+export * from './events/access/AccessControlEvents';
+export * from './events/ownable/OwnableEvents';
+export * from './events/pausable/PausableEvents';
+export * from './events/votes/VotesEvents';
+export * from './events/governance/GovernorEvents';
+export * from './events/timelock/TimelockEvents';
+export * from './events/snapshot/SnapshotEvents';
+export * from './events/reservation/ReservationEvents';
+export * from './events/merkle/MerkleDistributorEvents';
+export * from './events/royalty/RoyaltyEvents';
+export * from './events/metadata/MetadataEvents';
+export * from './events/soulbound/SoulboundEvents';
+export * from './events/vesting/VestingEvents';
+export * from './events/staking/StakingEvents';
 
 /** Env */
 export * from './env/classes/UTXO';
@@ -94,25 +116,62 @@ export * from './utils';
 
 /** Hashing */
 export * from './hashing/keccak256';
+export * from './hashing/MerkleProof';
 
 /** Bitcoin */
 export * from './script/reader/ScriptReader';
 export * from './script/ScriptUtils';
 export * from './script/Script';
 export * from './script/Bech32';
+export * from './script/Base58';
 export * from './script/BitcoinCodec';
 export * from './script/BitcoinAddresses';
 export * from './script/Networks';
 export * from './script/Opcodes';
 export * from './script/Segwit';
+export * from './script/LegacyAddresses';
+export * from './script/Taproot';
+export * from './script/RawTransaction';
+export * from './script/Sighash';
+export * from './script/BlockProof';
+export * from './script/PaymentVerifier';
 
 export * from './constants/Exports';
 export * from './contracts/OP721';
 export * from './contracts/interfaces/IOP721';
 export * from './contracts/interfaces/OP721InitParameters';
+export * from './contracts/OP721Royalty';
+export * from './contracts/interfaces/IOP721Royalty';
+export * from './contracts/OP721Enumerable';
+export * from './contracts/interfaces/IOP721Enumerable';
+export * from './contracts/OP721OnChainMetadata';
+export * from './contracts/interfaces/IOP721OnChainMetadata';
+export * from './contracts/interfaces/OP721Trait';
+export * from './contracts/OP721Soulbound';
+export * from './contracts/interfaces/IOP721Soulbound';
+export * from './contracts/OP1155';
+export * from './contracts/interfaces/IOP1155';
+export * from './contracts/interfaces/OP1155InitParameters';
 export * from './contracts/ReentrancyGuard';
 export * from './contracts/Updatable';
+export * from './contracts/Governor';
+export * from './contracts/interfaces/IGovernor';
+export * from './contracts/interfaces/GovernorInitParameters';
+export * from './contracts/TimelockController';
+export * from './contracts/interfaces/ITimelockController';
+export * from './contracts/MerkleDistributor';
+export * from './contracts/interfaces/IMerkleDistributor';
+export * from './contracts/VestingWallet';
+export * from './contracts/interfaces/IVestingWallet';
+export * from './contracts/interfaces/VestingSchedule';
+export * from './contracts/StakingRewards';
+export * from './contracts/interfaces/IStakingRewards';
 
 /** Plugins */
 export * from './plugins/Plugin';
 export * from './plugins/UpdatablePlugin';
+export * from './plugins/AccessControlPlugin';
+export * from './plugins/OwnablePlugin';
+export * from './plugins/PausablePlugin';
+export * from './plugins/GovernedUpdatablePlugin';
+export * from './plugins/ReservationPlugin';
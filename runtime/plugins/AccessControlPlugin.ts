@@ -0,0 +1,263 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Blockchain } from '../env';
+import { Plugin } from './Plugin';
+import { MapOfMap } from '../memory/MapOfMap';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { encodeSelector, Selector } from '../math/abi';
+import { BOOLEAN_BYTE_LENGTH, U256_BYTE_LENGTH } from '../utils';
+import { Calldata } from '../types';
+import {
+    RoleAdminChangedEvent,
+    RoleGrantedEvent,
+    RoleRevokedEvent,
+} from '../events/access/AccessControlEvents';
+
+/**
+ * AccessControlPlugin - Plugin for role-based access control.
+ *
+ * Roles are identified by a 32-byte value, usually the sha256 of a readable name.
+ * Every role has an admin role whose members can grant and revoke it. The admin of
+ * every role defaults to DEFAULT_ADMIN_ROLE, which is granted to the deployer when
+ * the contract is deployed.
+ *
+ * @example
+ * ```typescript
+ * const MINTER_ROLE: u256 = u256.fromUint8ArrayBE(sha256String('MINTER_ROLE'));
+ *
+ * @final
+ * export class MyToken extends OP20 {
+ *     private readonly roles: AccessControlPlugin = new AccessControlPlugin();
+ *
+ *     public constructor() {
+ *         super();
+ *         this.registerPlugin(this.roles);
+ *     }
+ *
+ *     @method({ name: 'to', type: ABIDataTypes.ADDRESS }, { name: 'amount', type: ABIDataTypes.UINT256 })
+ *     public mint(calldata: Calldata): BytesWriter {
+ *         this.roles.onlyRole(MINTER_ROLE);
+ *         this._mint(calldata.readAddress(), calldata.readU256());
+ *         return new BytesWriter(0);
+ *     }
+ * }
+ * ```
+ */
+export class AccessControlPlugin extends Plugin {
+    // account -> role -> 1 if member
+    private readonly _members: MapOfMap<u256>;
+
+    // role -> admin role
+    private readonly _roleAdmins: StoredMapU256;
+
+    /**
+     * Creates a new AccessControlPlugin.
+     *
+     * @param membersPointer - Storage pointer for role membership
+     * @param adminsPointer - Storage pointer for role admins
+     */
+    public constructor(
+        membersPointer: u16 = Blockchain.nextPointer,
+        adminsPointer: u16 = Blockchain.nextPointer,
+    ) {
+        super();
+        this._members = new MapOfMap<u256>(membersPointer);
+        this._roleAdmins = new StoredMapU256(adminsPointer);
+    }
+
+    /**
+     * The default admin role. Its members can manage every role that has no other admin.
+     */
+    public static get DEFAULT_ADMIN_ROLE(): u256 {
+        return u256.Zero;
+    }
+
+    // Method selectors
+    public static get HAS_ROLE_SELECTOR(): Selector {
+        return encodeSelector('hasRole(bytes32,address)');
+    }
+
+    public static get GET_ROLE_ADMIN_SELECTOR(): Selector {
+        return encodeSelector('getRoleAdmin(bytes32)');
+    }
+
+    public static get GRANT_ROLE_SELECTOR(): Selector {
+        return encodeSelector('grantRole(bytes32,address)');
+    }
+
+    public static get REVOKE_ROLE_SELECTOR(): Selector {
+        return encodeSelector('revokeRole(bytes32,address)');
+    }
+
+    public static get RENOUNCE_ROLE_SELECTOR(): Selector {
+        return encodeSelector('renounceRole(bytes32,address)');
+    }
+
+    /**
+     * Grants DEFAULT_ADMIN_ROLE to the deployer.
+     */
+    public override onDeployment(_calldata: Calldata): void {
+        this.grant(AccessControlPlugin.DEFAULT_ADMIN_ROLE, Blockchain.contractDeployer);
+    }
+
+    /**
+     * Attempts to execute a role-related method.
+     * Returns the response if the method was handled, or null if not.
+     *
+     * @param method - The method selector
+     * @param calldata - The calldata
+     * @returns BytesWriter response if handled, null otherwise
+     */
+    public override execute(method: Selector, calldata: Calldata): BytesWriter | null {
+        switch (method) {
+            case AccessControlPlugin.HAS_ROLE_SELECTOR:
+                return this.getHasRole(calldata);
+            case AccessControlPlugin.GET_ROLE_ADMIN_SELECTOR:
+                return this.getRoleAdminOf(calldata);
+            case AccessControlPlugin.GRANT_ROLE_SELECTOR:
+                return this.grantRole(calldata);
+            case AccessControlPlugin.REVOKE_ROLE_SELECTOR:
+                return this.revokeRole(calldata);
+            case AccessControlPlugin.RENOUNCE_ROLE_SELECTOR:
+                return this.renounceRole(calldata);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Returns true if `account` has been granted `role`.
+     */
+    public hasRole(role: u256, account: Address): bool {
+        return !this._members.get(account).get(role.toUint8Array(true)).isZero();
+    }
+
+    /**
+     * Returns the admin role that controls `role`.
+     */
+    public getRoleAdmin(role: u256): u256 {
+        return this._roleAdmins.get(role);
+    }
+
+    /**
+     * Reverts unless the caller has been granted `role`.
+     * Call this from contract methods that should be restricted to a role.
+     */
+    public onlyRole(role: u256): void {
+        if (!this.hasRole(role, Blockchain.tx.sender)) {
+            throw new Revert('Caller is missing role');
+        }
+    }
+
+    /**
+     * Grants `role` to `account` without checking the caller.
+     * Meant for contract setup, e.g. assigning initial roles in onDeployment.
+     *
+     * @returns true if the role was granted, false if the account already had it
+     */
+    public grant(role: u256, account: Address): bool {
+        if (this.hasRole(role, account)) return false;
+
+        this._members.get(account).set(role.toUint8Array(true), u256.One);
+        Blockchain.emit(new RoleGrantedEvent(role, account, Blockchain.tx.sender));
+
+        return true;
+    }
+
+    /**
+     * Revokes `role` from `account` without checking the caller.
+     *
+     * @returns true if the role was revoked, false if the account did not have it
+     */
+    public revoke(role: u256, account: Address): bool {
+        if (!this.hasRole(role, account)) return false;
+
+        this._members.get(account).set(role.toUint8Array(true), u256.Zero);
+        Blockchain.emit(new RoleRevokedEvent(role, account, Blockchain.tx.sender));
+
+        return true;
+    }
+
+    /**
+     * Sets `adminRole` as the admin role of `role` without checking the caller.
+     */
+    public setRoleAdmin(role: u256, adminRole: u256): void {
+        const previousAdminRole = this.getRoleAdmin(role);
+        this._roleAdmins.set(role, adminRole);
+
+        Blockchain.emit(new RoleAdminChangedEvent(role, previousAdminRole, adminRole));
+    }
+
+    /**
+     * Grants a role. The caller must have the role's admin role.
+     */
+    private grantRole(calldata: Calldata): BytesWriter {
+        const role = calldata.readU256();
+        const account = calldata.readAddress();
+
+        this.onlyRole(this.getRoleAdmin(role));
+
+        if (account === Address.zero()) {
+            throw new Revert('Cannot grant role to zero address');
+        }
+
+        this.grant(role, account);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Revokes a role. The caller must have the role's admin role.
+     */
+    private revokeRole(calldata: Calldata): BytesWriter {
+        const role = calldata.readU256();
+        const account = calldata.readAddress();
+
+        this.onlyRole(this.getRoleAdmin(role));
+        this.revoke(role, account);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Renounces a role held by the caller.
+     * The account is passed as a confirmation to avoid renouncing by mistake.
+     */
+    private renounceRole(calldata: Calldata): BytesWriter {
+        const role = calldata.readU256();
+        const callerConfirmation = calldata.readAddress();
+
+        if (callerConfirmation !== Blockchain.tx.sender) {
+            throw new Revert('Can only renounce roles for self');
+        }
+
+        this.revoke(role, callerConfirmation);
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns whether an account has a role.
+     */
+    private getHasRole(calldata: Calldata): BytesWriter {
+        const role = calldata.readU256();
+        const account = calldata.readAddress();
+
+        const response = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        response.writeBoolean(this.hasRole(role, account));
+        return response;
+    }
+
+    /**
+     * Returns the admin role of a role.
+     */
+    private getRoleAdminOf(calldata: Calldata): BytesWriter {
+        const role = calldata.readU256();
+
+        const response = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this.getRoleAdmin(role));
+        return response;
+    }
+}
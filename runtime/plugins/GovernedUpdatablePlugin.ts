@@ -0,0 +1,47 @@
+import { Blockchain } from '../env';
+import { UpdatablePlugin } from './UpdatablePlugin';
+import { Revert } from '../types/Revert';
+
+/**
+ * GovernedUpdatablePlugin - UpdatablePlugin whose updates only governance can manage.
+ *
+ * submitUpdate(), applyUpdate() and cancelUpdate() only accept calls made by the contract
+ * itself. Register it on a Governor so the governor can only be updated by a proposal whose
+ * actions call these methods on the governor's own address.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyGovernor extends Governor {
+ *     public constructor() {
+ *         super();
+ *         this.registerPlugin(new GovernedUpdatablePlugin(144));
+ *     }
+ * }
+ * ```
+ */
+export class GovernedUpdatablePlugin extends UpdatablePlugin {
+    /**
+     * Creates a new GovernedUpdatablePlugin.
+     *
+     * @param updateDelay - Number of blocks to wait before update can be applied
+     * @param addressPointer - Storage pointer for pending update address
+     * @param blockPointer - Storage pointer for pending update block
+     */
+    public constructor(
+        updateDelay: u64 = 144,
+        addressPointer: u16 = Blockchain.nextPointer,
+        blockPointer: u16 = Blockchain.nextPointer,
+    ) {
+        super(updateDelay, addressPointer, blockPointer);
+    }
+
+    /**
+     * Validates that the caller is the contract itself, i.e. an executing proposal.
+     */
+    protected override onlyUpdateAuthority(): void {
+        if (!Blockchain.tx.sender.equals(Blockchain.contractAddress)) {
+            throw new Revert('Only governance can call this method');
+        }
+    }
+}
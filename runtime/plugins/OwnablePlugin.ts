@@ -0,0 +1,249 @@
+import { Blockchain } from '../env';
+import { Plugin } from './Plugin';
+import { StoredAddress } from '../storage/StoredAddress';
+import { StoredBoolean } from '../storage/StoredBoolean';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { encodeSelector, Selector } from '../math/abi';
+import { ADDRESS_BYTE_LENGTH } from '../utils';
+import { Calldata } from '../types';
+import {
+    OwnershipRenouncedEvent,
+    OwnershipTransferredEvent,
+    OwnershipTransferStartedEvent,
+} from '../events/ownable/OwnableEvents';
+
+/**
+ * OwnablePlugin - Plugin for a transferable contract owner.
+ *
+ * The deployer becomes the owner when the contract is deployed, or when the plugin is
+ * added to an existing contract by an update. Ownership moves in two steps so it can
+ * never be handed to an address that cannot use it:
+ * 1. transferOwnership() - The owner nominates a pending owner
+ * 2. acceptOwnership() - The pending owner claims ownership
+ *
+ * renounceOwnership() leaves the contract without an owner, disabling every
+ * owner-only method for good.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyContract extends OP_NET {
+ *     private readonly ownable: OwnablePlugin = new OwnablePlugin();
+ *
+ *     public constructor() {
+ *         super();
+ *         this.registerPlugin(this.ownable);
+ *     }
+ *
+ *     @method()
+ *     public adminOnly(_: Calldata): BytesWriter {
+ *         this.ownable.onlyOwner();
+ *         // ...
+ *         return new BytesWriter(0);
+ *     }
+ * }
+ * ```
+ */
+export class OwnablePlugin extends Plugin {
+    private readonly _owner: StoredAddress;
+    private readonly _pendingOwner: StoredAddress;
+    private readonly _renounced: StoredBoolean;
+
+    /**
+     * Creates a new OwnablePlugin.
+     *
+     * @param ownerPointer - Storage pointer for the owner
+     * @param pendingOwnerPointer - Storage pointer for the pending owner
+     * @param renouncedPointer - Storage pointer for the renounced flag
+     */
+    public constructor(
+        ownerPointer: u16 = Blockchain.nextPointer,
+        pendingOwnerPointer: u16 = Blockchain.nextPointer,
+        renouncedPointer: u16 = Blockchain.nextPointer,
+    ) {
+        super();
+        this._owner = new StoredAddress(ownerPointer);
+        this._pendingOwner = new StoredAddress(pendingOwnerPointer);
+        this._renounced = new StoredBoolean(renouncedPointer, false);
+    }
+
+    // Method selectors
+    public static get OWNER_SELECTOR(): Selector {
+        return encodeSelector('owner()');
+    }
+
+    public static get PENDING_OWNER_SELECTOR(): Selector {
+        return encodeSelector('pendingOwner()');
+    }
+
+    public static get TRANSFER_OWNERSHIP_SELECTOR(): Selector {
+        return encodeSelector('transferOwnership(address)');
+    }
+
+    public static get ACCEPT_OWNERSHIP_SELECTOR(): Selector {
+        return encodeSelector('acceptOwnership()');
+    }
+
+    public static get RENOUNCE_OWNERSHIP_SELECTOR(): Selector {
+        return encodeSelector('renounceOwnership()');
+    }
+
+    /**
+     * Returns the current owner, or the zero address if ownership was renounced.
+     */
+    public get owner(): Address {
+        return this._owner.value;
+    }
+
+    /**
+     * Returns the nominated owner, or the zero address if no transfer is pending.
+     */
+    public get pendingOwner(): Address {
+        return this._pendingOwner.value;
+    }
+
+    /**
+     * Makes the deployer the initial owner.
+     */
+    public override onDeployment(_calldata: Calldata): void {
+        const deployer = Blockchain.contractDeployer;
+        this._owner.value = deployer;
+
+        Blockchain.emit(new OwnershipTransferredEvent(Address.zero(), deployer));
+    }
+
+    /**
+     * Makes the deployer the owner when the plugin arrives with an update, so a contract
+     * whose updates are managed by the owner can still be updated afterwards.
+     * An owner that was renounced stays renounced.
+     */
+    public override onUpdate(_calldata: Calldata): void {
+        if (!this.owner.isZero() || this._renounced.value) {
+            return;
+        }
+
+        const deployer = Blockchain.contractDeployer;
+        this._owner.value = deployer;
+
+        Blockchain.emit(new OwnershipTransferredEvent(Address.zero(), deployer));
+    }
+
+    /**
+     * Attempts to execute an ownership-related method.
+     * Returns the response if the method was handled, or null if not.
+     *
+     * @param method - The method selector
+     * @param calldata - The calldata
+     * @returns BytesWriter response if handled, null otherwise
+     */
+    public override execute(method: Selector, calldata: Calldata): BytesWriter | null {
+        switch (method) {
+            case OwnablePlugin.OWNER_SELECTOR:
+                return this.getOwner();
+            case OwnablePlugin.PENDING_OWNER_SELECTOR:
+                return this.getPendingOwner();
+            case OwnablePlugin.TRANSFER_OWNERSHIP_SELECTOR:
+                return this.transferOwnership(calldata);
+            case OwnablePlugin.ACCEPT_OWNERSHIP_SELECTOR:
+                return this.acceptOwnership();
+            case OwnablePlugin.RENOUNCE_OWNERSHIP_SELECTOR:
+                return this.renounceOwnership();
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Returns true if `account` is the current owner.
+     */
+    public isOwner(account: Address): bool {
+        const owner = this.owner;
+        return !owner.isZero() && owner.equals(account);
+    }
+
+    /**
+     * Reverts unless the caller is the current owner.
+     * Call this from contract methods that should be restricted to the owner.
+     */
+    public onlyOwner(): void {
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Caller is not the owner');
+        }
+    }
+
+    /**
+     * Nominates a new owner. Ownership only moves once they accept.
+     */
+    private transferOwnership(calldata: Calldata): BytesWriter {
+        this.onlyOwner();
+
+        const newOwner = calldata.readAddress();
+        if (newOwner.isZero()) {
+            throw new Revert('Invalid new owner');
+        }
+
+        this._pendingOwner.value = newOwner;
+
+        Blockchain.emit(new OwnershipTransferStartedEvent(this.owner, newOwner));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Completes a pending ownership transfer. Only the pending owner can call this.
+     */
+    private acceptOwnership(): BytesWriter {
+        const pending = this.pendingOwner;
+        if (pending.isZero()) {
+            throw new Revert('No pending owner');
+        }
+
+        if (!Blockchain.tx.sender.equals(pending)) {
+            throw new Revert('Caller is not the pending owner');
+        }
+
+        const previousOwner = this.owner;
+        this._owner.value = pending;
+        this._pendingOwner.value = Address.zero();
+
+        Blockchain.emit(new OwnershipTransferredEvent(previousOwner, pending));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Gives up ownership and clears any pending transfer.
+     */
+    private renounceOwnership(): BytesWriter {
+        this.onlyOwner();
+
+        const previousOwner = this.owner;
+        this._owner.value = Address.zero();
+        this._pendingOwner.value = Address.zero();
+        this._renounced.value = true;
+
+        Blockchain.emit(new OwnershipRenouncedEvent(previousOwner));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns the current owner.
+     */
+    private getOwner(): BytesWriter {
+        const response = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        response.writeAddress(this.owner);
+        return response;
+    }
+
+    /**
+     * Returns the pending owner.
+     */
+    private getPendingOwner(): BytesWriter {
+        const response = new BytesWriter(ADDRESS_BYTE_LENGTH);
+        response.writeAddress(this.pendingOwner);
+        return response;
+    }
+}
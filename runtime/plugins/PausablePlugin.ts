@@ -0,0 +1,227 @@
+import { Blockchain } from '../env';
+import { Plugin } from './Plugin';
+import { OwnablePlugin } from './OwnablePlugin';
+import { StoredBoolean } from '../storage/StoredBoolean';
+import { Revert } from '../types/Revert';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { encodeSelector, Selector } from '../math/abi';
+import { BOOLEAN_BYTE_LENGTH } from '../utils';
+import { Calldata } from '../types';
+import {
+    ON_FLASH_LOAN_SELECTOR,
+    ON_OP1155_BATCH_RECEIVED_SELECTOR,
+    ON_OP1155_RECEIVED_SELECTOR,
+    ON_OP20_RECEIVED_SELECTOR,
+    ON_OP721_RECEIVED_SELECTOR,
+} from '../constants/Exports';
+import { PausedEvent, UnpausedEvent } from '../events/pausable/PausableEvents';
+
+/**
+ * PausablePlugin - Plugin providing an emergency stop.
+ *
+ * While paused, calls to any of the configured selectors revert in onExecutionStarted,
+ * before the contract method runs. Selectors that are not configured keep working, so
+ * views, pause()/unpause() and the receiver callbacks are never blocked.
+ *
+ * @example
+ * ```typescript
+ * @final
+ * export class MyToken extends OP20 {
+ *     public constructor() {
+ *         super();
+ *         // Blocks transfers, burns and mint(address,uint256) while paused
+ *         this.registerPlugin(new PausablePlugin(PausablePlugin.OP20_SELECTORS));
+ *     }
+ * }
+ * ```
+ */
+export class PausablePlugin extends Plugin {
+    private readonly _paused: StoredBoolean;
+    private readonly _pausableSelectors: Set<Selector> = new Set<Selector>();
+    private readonly _ownable: OwnablePlugin | null;
+
+    /**
+     * Creates a new PausablePlugin.
+     *
+     * @param selectors - Selectors that revert while the contract is paused
+     * @param pausedPointer - Storage pointer for the paused flag
+     * @param ownable - Optional owner plugin; when set, its owner can pause instead of the deployer
+     */
+    public constructor(
+        selectors: Selector[] = [],
+        pausedPointer: u16 = Blockchain.nextPointer,
+        ownable: OwnablePlugin | null = null,
+    ) {
+        super();
+        this._paused = new StoredBoolean(pausedPointer, false);
+        this._ownable = ownable;
+
+        for (let i = 0; i < selectors.length; i++) {
+            this._pausableSelectors.add(selectors[i]);
+        }
+    }
+
+    // Method selectors
+    public static get PAUSE_SELECTOR(): Selector {
+        return encodeSelector('pause()');
+    }
+
+    public static get UNPAUSE_SELECTOR(): Selector {
+        return encodeSelector('unpause()');
+    }
+
+    public static get PAUSED_SELECTOR(): Selector {
+        return encodeSelector('paused()');
+    }
+
+    /**
+     * State-changing OP20 methods: transfers (including signed and batch), burn, airdrop
+     * and the conventional mint(address,uint256).
+     */
+    public static get OP20_SELECTORS(): Selector[] {
+        return [
+            encodeSelector('transfer(address,uint256)'),
+            encodeSelector('transferFrom(address,address,uint256)'),
+            encodeSelector('safeTransfer(address,uint256,bytes)'),
+            encodeSelector('safeTransferFrom(address,address,uint256,bytes)'),
+            encodeSelector('transferBySignature(bytes32,bytes32,address,uint256,uint64,bytes)'),
+            encodeSelector(
+                'transferFromBySignature(bytes32,bytes32,address,address,uint256,uint64,bytes)',
+            ),
+            encodeSelector('batchTransfer(tuple(address,uint256)[])'),
+            encodeSelector('burn(uint256)'),
+            encodeSelector('airdrop(tuple(address,uint256)[])'),
+            encodeSelector('mint(address,uint256)'),
+        ];
+    }
+
+    /**
+     * State-changing OP721 methods: transfers and burn.
+     */
+    public static get OP721_SELECTORS(): Selector[] {
+        return [
+            encodeSelector('transfer(address,uint256)'),
+            encodeSelector('transferFrom(address,address,uint256)'),
+            encodeSelector('safeTransfer(address,uint256,bytes)'),
+            encodeSelector('safeTransferFrom(address,address,uint256,bytes)'),
+            encodeSelector('burn(uint256)'),
+        ];
+    }
+
+    /**
+     * Returns true if the contract is paused.
+     */
+    public get paused(): bool {
+        return this._paused.value;
+    }
+
+    /**
+     * Returns true if `selector` reverts while the contract is paused.
+     */
+    public isPausable(selector: Selector): bool {
+        if (
+            selector === ON_OP20_RECEIVED_SELECTOR ||
+            selector === ON_OP721_RECEIVED_SELECTOR ||
+            selector === ON_OP1155_RECEIVED_SELECTOR ||
+            selector === ON_OP1155_BATCH_RECEIVED_SELECTOR ||
+            selector === ON_FLASH_LOAN_SELECTOR
+        ) {
+            return false;
+        }
+
+        return this._pausableSelectors.has(selector);
+    }
+
+    /**
+     * Reverts if the contract is paused.
+     * Call this from contract methods that are not covered by the configured selectors.
+     */
+    public whenNotPaused(): void {
+        if (this.paused) {
+            throw new Revert('Contract is paused');
+        }
+    }
+
+    public override onExecutionStarted(selector: Selector, _calldata: Calldata): void {
+        if (this.isPausable(selector)) {
+            this.whenNotPaused();
+        }
+    }
+
+    /**
+     * Attempts to execute a pause-related method.
+     * Returns the response if the method was handled, or null if not.
+     *
+     * @param method - The method selector
+     * @param calldata - The calldata
+     * @returns BytesWriter response if handled, null otherwise
+     */
+    public override execute(method: Selector, _calldata: Calldata): BytesWriter | null {
+        switch (method) {
+            case PausablePlugin.PAUSE_SELECTOR:
+                return this.pause();
+            case PausablePlugin.UNPAUSE_SELECTOR:
+                return this.unpause();
+            case PausablePlugin.PAUSED_SELECTOR:
+                return this.getPaused();
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Pauses the contract.
+     */
+    private pause(): BytesWriter {
+        this.onlyPauseAuthority();
+        this.whenNotPaused();
+
+        this._paused.value = true;
+
+        Blockchain.emit(new PausedEvent(Blockchain.tx.sender));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Unpauses the contract.
+     */
+    private unpause(): BytesWriter {
+        this.onlyPauseAuthority();
+
+        if (!this.paused) {
+            throw new Revert('Contract is not paused');
+        }
+
+        this._paused.value = false;
+
+        Blockchain.emit(new UnpausedEvent(Blockchain.tx.sender));
+
+        return new BytesWriter(0);
+    }
+
+    /**
+     * Returns whether the contract is paused.
+     */
+    private getPaused(): BytesWriter {
+        const response = new BytesWriter(BOOLEAN_BYTE_LENGTH);
+        response.writeBoolean(this.paused);
+        return response;
+    }
+
+    /**
+     * Validates that the caller is the owner when an OwnablePlugin is attached,
+     * or the contract deployer otherwise.
+     */
+    private onlyPauseAuthority(): void {
+        const ownable = this._ownable;
+        if (ownable !== null) {
+            ownable.onlyOwner();
+            return;
+        }
+
+        if (Blockchain.contractDeployer !== Blockchain.tx.sender) {
+            throw new Revert('Only deployer can call this method');
+        }
+    }
+}
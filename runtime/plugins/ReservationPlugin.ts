@@ -0,0 +1,457 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Blockchain } from '../env';
+import { Plugin } from './Plugin';
+import { StoredU256 } from '../storage/StoredU256';
+import { StoredMapU256 } from '../storage/maps/StoredMapU256';
+import { StoredU256Array } from '../storage/arrays/StoredU256Array';
+import { Address } from '../types/Address';
+import { Revert } from '../types/Revert';
+import { SafeMath } from '../types/SafeMath';
+import { BytesWriter } from '../buffer/BytesWriter';
+import { encodeSelector, Selector } from '../math/abi';
+import { EMPTY_POINTER } from '../math/bytes';
+import {
+    ADDRESS_BYTE_LENGTH,
+    U256_BYTE_LENGTH,
+    U32_BYTE_LENGTH,
+    U64_BYTE_LENGTH,
+    U8_BYTE_LENGTH,
+} from '../utils';
+import { Calldata } from '../types';
+import { PaymentVerifier } from '../script/PaymentVerifier';
+import {
+    ReservationCreatedEvent,
+    ReservationExpiredEvent,
+    ReservationFulfilledEvent,
+} from '../events/reservation/ReservationEvents';
+
+/**
+ * Number of queued reservations reserve() tries to expire before checking inventory.
+ */
+export const RESERVATION_AUTO_EXPIRE_LIMIT: u32 = 5;
+
+/**
+ * Lifecycle of a reservation.
+ */
+export enum ReservationStatus {
+    None = 0,
+    Pending = 1,
+    Fulfilled = 2,
+    Expired = 3,
+}
+
+/**
+ * ReservationPlugin - Base plugin for selling inventory against native BTC.
+ *
+ * Bitcoin outputs are built before the contract runs, so a buyer cannot safely pay in the
+ * same transaction that checks whether inventory is left. Sales therefore happen in two steps:
+ *
+ * 1. reserve(quantity) - Locks inventory and the price for `expiryBlocks` blocks
+ * 2. claimReservation(id) - In a later block, the buyer sends a transaction whose outputs pay
+ *    the price to the seller. The payment is verified and the reservation is fulfilled.
+ *
+ * Reservations that are not claimed before their expiry block are released by
+ * expireReservations(), which walks a queue of reservation ids in creation order. reserve()
+ * also expires a few queued reservations on its own, so inventory frees up without keepers.
+ *
+ * Subclasses connect the sale to a token through protected hooks: `_availableSupply` reports
+ * what is left to sell and `_onReservationFulfilled` mints or transfers the purchased units.
+ *
+ * @example
+ * ```typescript
+ * class CollectionSale extends ReservationPlugin {
+ *     public constructor(private readonly collection: MyCollection) {
+ *         // 10,000 sats per NFT, 6 blocks to pay
+ *         super('bc1p...', 10_000, 6);
+ *     }
+ *
+ *     protected override _availableSupply(): u256 {
+ *         return SafeMath.sub(this.collection.maxSupply, this.collection.totalSupply);
+ *     }
+ *
+ *     protected override _onReservationFulfilled(id: u256, buyer: Address, quantity: u256): void {
+ *         this.collection.mintReserved(buyer, quantity);
+ *     }
+ * }
+ *
+ * @final
+ * export class MyCollection extends OP721 {
+ *     public constructor() {
+ *         super();
+ *         this.registerPlugin(new CollectionSale(this));
+ *     }
+ * }
+ * ```
+ */
+export abstract class ReservationPlugin extends Plugin {
+    private readonly _paymentAddress: string;
+    private readonly _pricePerUnit: u64;
+    private readonly _expiryBlocks: u64;
+
+    private readonly _nextReservationId: StoredU256;
+    private readonly _reservedSupply: StoredU256;
+    private readonly _buyers: StoredMapU256;
+    private readonly _quantities: StoredMapU256;
+    private readonly _terms: StoredMapU256;
+    private readonly _consumedPayments: StoredMapU256;
+    private readonly _expiryQueuePointer: u16;
+
+    /**
+     * Creates a new ReservationPlugin.
+     *
+     * @param paymentAddress - P2TR, P2WPKH or P2WSH address that receives the BTC
+     * @param pricePerUnit - Price of one unit in satoshis
+     * @param expiryBlocks - Number of blocks a buyer has to pay for a reservation, at least 2
+     * @param nextIdPointer - Storage pointer for the next reservation id
+     * @param reservedSupplyPointer - Storage pointer for the reserved supply
+     * @param buyersPointer - Storage pointer for reservation buyers
+     * @param quantitiesPointer - Storage pointer for reservation quantities
+     * @param termsPointer - Storage pointer for reservation price, blocks and status
+     * @param expiryQueuePointer - Storage pointer for the expiry queue
+     * @param consumedPaymentsPointer - Storage pointer for satoshis already claimed per transaction
+     *
+     * @throws {Revert} If expiryBlocks is below 2, which would leave no block to claim in
+     */
+    protected constructor(
+        paymentAddress: string,
+        pricePerUnit: u64,
+        expiryBlocks: u64 = 6,
+        nextIdPointer: u16 = Blockchain.nextPointer,
+        reservedSupplyPointer: u16 = Blockchain.nextPointer,
+        buyersPointer: u16 = Blockchain.nextPointer,
+        quantitiesPointer: u16 = Blockchain.nextPointer,
+        termsPointer: u16 = Blockchain.nextPointer,
+        expiryQueuePointer: u16 = Blockchain.nextPointer,
+        consumedPaymentsPointer: u16 = Blockchain.nextPointer,
+    ) {
+        super();
+        if (expiryBlocks < 2) {
+            throw new Revert('Invalid expiry blocks');
+        }
+
+        this._paymentAddress = paymentAddress;
+        this._pricePerUnit = pricePerUnit;
+        this._expiryBlocks = expiryBlocks;
+
+        this._nextReservationId = new StoredU256(nextIdPointer, EMPTY_POINTER);
+        this._reservedSupply = new StoredU256(reservedSupplyPointer, EMPTY_POINTER);
+        this._buyers = new StoredMapU256(buyersPointer);
+        this._quantities = new StoredMapU256(quantitiesPointer);
+        this._terms = new StoredMapU256(termsPointer);
+        this._expiryQueuePointer = expiryQueuePointer;
+        this._consumedPayments = new StoredMapU256(consumedPaymentsPointer);
+    }
+
+    // Method selectors
+    public static get RESERVE_SELECTOR(): Selector {
+        return encodeSelector('reserve(uint256)');
+    }
+
+    public static get CLAIM_RESERVATION_SELECTOR(): Selector {
+        return encodeSelector('claimReservation(uint256)');
+    }
+
+    public static get EXPIRE_RESERVATIONS_SELECTOR(): Selector {
+        return encodeSelector('expireReservations(uint32)');
+    }
+
+    public static get RESERVATION_SELECTOR(): Selector {
+        return encodeSelector('reservation(uint256)');
+    }
+
+    public static get RESERVED_SUPPLY_SELECTOR(): Selector {
+        return encodeSelector('reservedSupply()');
+    }
+
+    /**
+     * Returns the price of one unit in satoshis.
+     */
+    public get pricePerUnit(): u64 {
+        return this._pricePerUnit;
+    }
+
+    /**
+     * Returns the number of blocks a buyer has to pay for a reservation.
+     */
+    public get expiryBlocks(): u64 {
+        return this._expiryBlocks;
+    }
+
+    /**
+     * Returns the quantity held by pending reservations.
+     */
+    public get reservedSupply(): u256 {
+        return this._reservedSupply.value;
+    }
+
+    /**
+     * Returns the status of a reservation. Pending reservations past their expiry block
+     * stay Pending until they are swept.
+     */
+    public statusOf(id: u256): ReservationStatus {
+        return this.decodeStatus(this._terms.get(id));
+    }
+
+    /**
+     * Returns the buyer of a reservation, or the zero address if it does not exist.
+     */
+    public buyerOf(id: u256): Address {
+        return Address.fromUint8Array(this._buyers.get(id).toUint8Array(true));
+    }
+
+    /**
+     * Attempts to execute a reservation-related method.
+     * Returns the response if the method was handled, or null if not.
+     *
+     * @param method - The method selector
+     * @param calldata - The calldata
+     * @returns BytesWriter response if handled, null otherwise
+     */
+    public override execute(method: Selector, calldata: Calldata): BytesWriter | null {
+        switch (method) {
+            case ReservationPlugin.RESERVE_SELECTOR:
+                return this.reserve(calldata.readU256());
+            case ReservationPlugin.CLAIM_RESERVATION_SELECTOR:
+                return this.claimReservation(calldata.readU256());
+            case ReservationPlugin.EXPIRE_RESERVATIONS_SELECTOR:
+                return this.expireReservations(calldata.readU32());
+            case ReservationPlugin.RESERVATION_SELECTOR:
+                return this.getReservation(calldata.readU256());
+            case ReservationPlugin.RESERVED_SUPPLY_SELECTOR:
+                return this.getReservedSupply();
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Returns the quantity that is still for sale, ignoring pending reservations.
+     * For example `maxSupply - totalSupply` for a token minted on purchase.
+     */
+    protected abstract _availableSupply(): u256;
+
+    /**
+     * Called once a reservation is paid and claimed.
+     * Deliver the purchased units here, for example by minting them to the buyer.
+     */
+    protected abstract _onReservationFulfilled(id: u256, buyer: Address, quantity: u256): void;
+
+    /**
+     * Called when an unpaid reservation expires. Its quantity is already released;
+     * override to undo any side effect of the reservation.
+     */
+    protected _onReservationExpired(_id: u256, _buyer: Address, _quantity: u256): void {}
+
+    /**
+     * Returns the satoshis the current transaction paid to the seller.
+     * Override to accept payment to another destination, such as an ExtendedAddress.
+     */
+    protected _paidAmount(): u64 {
+        return new PaymentVerifier().paidTo(this._paymentAddress);
+    }
+
+    /**
+     * Reserves `quantity` units for `buyer` at the current price.
+     *
+     * @returns The id of the new reservation
+     */
+    protected _reserve(buyer: Address, quantity: u256): u256 {
+        if (quantity.isZero()) {
+            throw new Revert('Invalid quantity');
+        }
+
+        this._expireReservations(RESERVATION_AUTO_EXPIRE_LIMIT);
+
+        const reserved = this._reservedSupply.value;
+        const available = this._availableSupply();
+        if (available < reserved || quantity > SafeMath.sub(available, reserved)) {
+            throw new Revert('Insufficient inventory');
+        }
+
+        const price = SafeMath.mul(quantity, u256.fromU64(this._pricePerUnit));
+        if (price > u256.fromU64(u64.MAX_VALUE)) {
+            throw new Revert('Reservation price too large');
+        }
+
+        const id = SafeMath.add(this._nextReservationId.value, u256.One);
+        this._nextReservationId.value = id;
+
+        const createdBlock = Blockchain.block.number;
+        const expiryBlock = createdBlock + this._expiryBlocks;
+
+        this._buyers.set(id, u256.fromUint8ArrayBE(buyer));
+        this._quantities.set(id, quantity);
+        this._terms.set(
+            id,
+            new u256(price.lo1, createdBlock, expiryBlock, <u64>ReservationStatus.Pending),
+        );
+        this._reservedSupply.value = SafeMath.add(reserved, quantity);
+
+        const queue = this.expiryQueue();
+        queue.push(id);
+        queue.save();
+
+        Blockchain.emit(new ReservationCreatedEvent(id, buyer, quantity, price.lo1, expiryBlock));
+
+        return id;
+    }
+
+    /**
+     * Verifies the payment for a pending reservation and fulfills it.
+     *
+     * The same transaction output can only pay for one reservation: satoshis used by a claim
+     * are recorded against the transaction id and subtracted from later claims in it.
+     */
+    protected _claimReservation(buyer: Address, id: u256): void {
+        const terms = this._terms.get(id);
+        if (this.decodeStatus(terms) !== ReservationStatus.Pending) {
+            throw new Revert('Reservation is not pending');
+        }
+
+        if (this.buyerOf(id) != buyer) {
+            throw new Revert('Only the buyer can claim');
+        }
+
+        const blockNumber = Blockchain.block.number;
+        if (blockNumber <= terms.lo2) {
+            throw new Revert('Reservation not confirmed yet');
+        }
+
+        if (blockNumber >= terms.hi1) {
+            throw new Revert('Reservation expired');
+        }
+
+        const price = terms.lo1;
+        const txKey = u256.fromUint8ArrayBE(Blockchain.tx.txId);
+        const consumed = this._consumedPayments.get(txKey).lo1;
+        const paid = this._paidAmount();
+        if (paid < consumed || paid - consumed < price) {
+            throw new Revert('Insufficient payment');
+        }
+
+        this._consumedPayments.set(txKey, u256.fromU64(consumed + price));
+
+        const quantity = this._quantities.get(id);
+        this._terms.set(
+            id,
+            new u256(terms.lo1, terms.lo2, terms.hi1, <u64>ReservationStatus.Fulfilled),
+        );
+        this._reservedSupply.value = SafeMath.sub(this._reservedSupply.value, quantity);
+
+        this._onReservationFulfilled(id, buyer, quantity);
+
+        Blockchain.emit(new ReservationFulfilledEvent(id, buyer, quantity, price));
+    }
+
+    /**
+     * Walks the expiry queue from the oldest reservation, expiring unpaid reservations past
+     * their expiry block and dropping settled ones. Stops at the first reservation that can
+     * still be paid, or after `maxCount` entries.
+     *
+     * @returns The number of reservations that expired
+     */
+    protected _expireReservations(maxCount: u32): u32 {
+        const queue = this.expiryQueue();
+        const blockNumber = Blockchain.block.number;
+
+        let expired: u32 = 0;
+        let processed: u32 = 0;
+        while (processed < maxCount && queue.getLength() > 0) {
+            const id = queue.get(0);
+            const terms = this._terms.get(id);
+            const status = this.decodeStatus(terms);
+
+            if (status === ReservationStatus.Pending) {
+                if (blockNumber < terms.hi1) {
+                    break;
+                }
+
+                const buyer = this.buyerOf(id);
+                const quantity = this._quantities.get(id);
+                this._terms.set(
+                    id,
+                    new u256(terms.lo1, terms.lo2, terms.hi1, <u64>ReservationStatus.Expired),
+                );
+                this._reservedSupply.value = SafeMath.sub(this._reservedSupply.value, quantity);
+
+                this._onReservationExpired(id, buyer, quantity);
+
+                Blockchain.emit(new ReservationExpiredEvent(id, buyer, quantity));
+                expired++;
+            }
+
+            queue.shift();
+            processed++;
+        }
+
+        queue.save();
+
+        return expired;
+    }
+
+    private reserve(quantity: u256): BytesWriter {
+        const id = this._reserve(Blockchain.tx.sender, quantity);
+
+        const response = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(id);
+        return response;
+    }
+
+    private claimReservation(id: u256): BytesWriter {
+        this._claimReservation(Blockchain.tx.sender, id);
+
+        return new BytesWriter(0);
+    }
+
+    private expireReservations(maxCount: u32): BytesWriter {
+        if (maxCount === 0) {
+            throw new Revert('Invalid count');
+        }
+
+        const expired = this._expireReservations(maxCount);
+
+        const response = new BytesWriter(U32_BYTE_LENGTH);
+        response.writeU32(expired);
+        return response;
+    }
+
+    private getReservation(id: u256): BytesWriter {
+        const terms = this._terms.get(id);
+
+        const response = new BytesWriter(
+            ADDRESS_BYTE_LENGTH + U256_BYTE_LENGTH + U64_BYTE_LENGTH * 2 + U8_BYTE_LENGTH,
+        );
+        response.writeAddress(this.buyerOf(id));
+        response.writeU256(this._quantities.get(id));
+        response.writeU64(terms.lo1);
+        response.writeU64(terms.hi1);
+        response.writeU8(<u8>terms.hi2);
+        return response;
+    }
+
+    private getReservedSupply(): BytesWriter {
+        const response = new BytesWriter(U256_BYTE_LENGTH);
+        response.writeU256(this._reservedSupply.value);
+        return response;
+    }
+
+    /**
+     * Reads the status packed into the high word of a reservation's terms.
+     */
+    private decodeStatus(terms: u256): ReservationStatus {
+        switch (<u8>terms.hi2) {
+            case <u8>ReservationStatus.Pending:
+                return ReservationStatus.Pending;
+            case <u8>ReservationStatus.Fulfilled:
+                return ReservationStatus.Fulfilled;
+            case <u8>ReservationStatus.Expired:
+                return ReservationStatus.Expired;
+            default:
+                return ReservationStatus.None;
+        }
+    }
+
+    private expiryQueue(): StoredU256Array {
+        return new StoredU256Array(this._expiryQueuePointer, EMPTY_POINTER);
+    }
+}
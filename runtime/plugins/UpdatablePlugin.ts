@@ -1,6 +1,7 @@
 import { u256 } from '@btc-vision/as-bignum/assembly';
 import { Blockchain } from '../env';
 import { Plugin } from './Plugin';
+import { OwnablePlugin } from './OwnablePlugin';
 import { StoredAddress } from '../storage/StoredAddress';
 import { StoredU256 } from '../storage/StoredU256';
 import { Address } from '../types/Address';
@@ -40,11 +41,22 @@ import {
  *     // No need to modify execute() - the plugin handles update methods automatically!
  * }
  * ```
+ *
+ * To let a transferable owner manage updates instead of the deployer, pass an OwnablePlugin:
+ *
+ * ```typescript
+ * const ownable = new OwnablePlugin();
+ * this.registerPlugin(ownable);
+ * this.registerPlugin(
+ *     new UpdatablePlugin(144, Blockchain.nextPointer, Blockchain.nextPointer, ownable),
+ * );
+ * ```
  */
 export class UpdatablePlugin extends Plugin {
     private readonly _pendingUpdateAddress: StoredAddress;
     private readonly _pendingUpdateBlock: StoredU256;
     private readonly _updateDelay: u64;
+    private readonly _ownable: OwnablePlugin | null;
 
     /**
      * Creates a new UpdatablePlugin.
@@ -57,14 +69,17 @@ export class UpdatablePlugin extends Plugin {
      *                       - 1008 blocks = ~1 week
      * @param addressPointer - Storage pointer for pending update address
      * @param blockPointer - Storage pointer for pending update block
+     * @param ownable - Optional owner plugin; when set, its owner manages updates instead of the deployer
      */
     public constructor(
         updateDelay: u64 = 144,
         addressPointer: u16 = Blockchain.nextPointer,
         blockPointer: u16 = Blockchain.nextPointer,
+        ownable: OwnablePlugin | null = null,
     ) {
         super();
         this._updateDelay = updateDelay;
+        this._ownable = ownable;
         this._pendingUpdateAddress = new StoredAddress(addressPointer);
         this._pendingUpdateBlock = new StoredU256(blockPointer, EMPTY_POINTER);
     }
@@ -164,7 +179,7 @@ export class UpdatablePlugin extends Plugin {
      * Submits an update for timelock.
      */
     private submitUpdate(calldata: Calldata): BytesWriter {
-        this.onlyDeployer();
+        this.onlyUpdateAuthority();
 
         if (this.hasPendingUpdate) {
             throw new Revert('Update already pending. Cancel first.');
@@ -191,7 +206,7 @@ export class UpdatablePlugin extends Plugin {
      * Any remaining calldata after the source address is passed to onUpdate.
      */
     private applyUpdate(calldata: Calldata): BytesWriter {
-        this.onlyDeployer();
+        this.onlyUpdateAuthority();
 
         if (!this.hasPendingUpdate) {
             throw new Revert('No pending update');
@@ -229,7 +244,7 @@ export class UpdatablePlugin extends Plugin {
      * Cancels a pending update.
      */
     private cancelUpdate(): BytesWriter {
-        this.onlyDeployer();
+        this.onlyUpdateAuthority();
 
         if (!this.hasPendingUpdate) {
             throw new Revert('No pending update');
@@ -266,9 +281,17 @@ export class UpdatablePlugin extends Plugin {
     }
 
     /**
-     * Validates that the caller is the contract deployer.
+     * Validates that the caller is the owner when an OwnablePlugin is attached,
+     * or the contract deployer otherwise.
+     * Override to change who manages updates.
      */
-    private onlyDeployer(): void {
+    protected onlyUpdateAuthority(): void {
+        const ownable = this._ownable;
+        if (ownable !== null) {
+            ownable.onlyOwner();
+            return;
+        }
+
         if (Blockchain.contractDeployer !== Blockchain.tx.sender) {
             throw new Revert('Only deployer can call this method');
         }
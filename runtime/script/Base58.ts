@@ -0,0 +1,171 @@
+import { BytesWriter } from '../buffer/BytesWriter';
+import { hash256 } from '../env/global';
+import { Revert } from '../types/Revert';
+
+/**
+ * Base58 and Base58Check encoding, as used by legacy Bitcoin addresses.
+ *
+ * Base58Check appends the first 4 bytes of HASH256(payload) to the payload
+ * before encoding, and verifies them when decoding.
+ */
+@final
+export class Base58 {
+    private static readonly ALPHABET: string =
+        '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+    private static readonly CHECKSUM_LENGTH: i32 = 4;
+    private static decodeTbl: Int8Array | null = null;
+
+    /**
+     * Encode bytes as Base58. Every leading zero byte becomes a leading '1'.
+     */
+    public static encode(data: Uint8Array): string {
+        let zeros = 0;
+        while (zeros < data.length && data[zeros] == 0) zeros++;
+
+        // log(256) / log(58), rounded up
+        const size = ((data.length - zeros) * 138) / 100 + 1;
+        const digits = new Uint8Array(size);
+        let length = 0;
+
+        for (let i = zeros; i < data.length; i++) {
+            let carry = <u32>data[i];
+            let j = 0;
+            for (let k = size - 1; (carry != 0 || j < length) && k >= 0; k--, j++) {
+                carry += 256 * <u32>digits[k];
+                digits[k] = <u8>(carry % 58);
+                carry /= 58;
+            }
+            length = j;
+        }
+
+        let start = size - length;
+        while (start < size && digits[start] == 0) start++;
+
+        const out = new BytesWriter(zeros + size - start);
+        for (let i = 0; i < zeros; i++) {
+            out.writeU8(49); // '1'
+        }
+
+        for (let i = start; i < size; i++) {
+            out.writeU8(<u8>Base58.ALPHABET.charCodeAt(digits[i]));
+        }
+
+        return String.UTF8.decode(out.getBuffer().buffer);
+    }
+
+    /**
+     * Consider using decodeOrNull instead, this method will throw on error
+     * @param str
+     */
+    public static decode(str: string): Uint8Array {
+        const result = Base58.decodeOrNull(str);
+        if (!result) {
+            throw new Revert('Base58 decode failed');
+        }
+
+        return result as Uint8Array;
+    }
+
+    /**
+     * Safe decode that returns null on error
+     */
+    public static decodeOrNull(str: string): Uint8Array | null {
+        const L = str.length;
+
+        let zeros = 0;
+        while (zeros < L && str.charCodeAt(zeros) == 49) zeros++;
+
+        // log(58) / log(256), rounded up
+        const size = ((L - zeros) * 733) / 1000 + 1;
+        const bytes = new Uint8Array(size);
+        let length = 0;
+
+        Base58.ensureTable();
+        const tbl = changetype<Int8Array>(Base58.decodeTbl);
+
+        for (let i = zeros; i < L; i++) {
+            const c = str.charCodeAt(i);
+            const v = c < 128 ? unchecked(tbl[c]) : -1;
+            if (v < 0) return null;
+
+            let carry = <u32>v;
+            let j = 0;
+            for (let k = size - 1; (carry != 0 || j < length) && k >= 0; k--, j++) {
+                carry += 58 * <u32>bytes[k];
+                bytes[k] = <u8>carry;
+                carry >>>= 8;
+            }
+            length = j;
+        }
+
+        let start = size - length;
+        while (start < size && bytes[start] == 0) start++;
+
+        const out = new Uint8Array(zeros + size - start);
+        out.set(bytes.subarray(start), zeros);
+        return out;
+    }
+
+    /**
+     * Encode a payload as Base58Check (payload followed by a 4-byte HASH256 checksum)
+     */
+    public static encodeCheck(payload: Uint8Array): string {
+        const checksum = hash256(payload);
+        const w = new BytesWriter(payload.length + Base58.CHECKSUM_LENGTH);
+        w.writeBytes(payload);
+        w.writeBytes(checksum.subarray(0, Base58.CHECKSUM_LENGTH));
+
+        return Base58.encode(w.getBuffer());
+    }
+
+    /**
+     * Consider using decodeCheckOrNull instead, this method will throw on error
+     * @param str
+     */
+    public static decodeCheck(str: string): Uint8Array {
+        const result = Base58.decodeCheckOrNull(str);
+        if (!result) {
+            throw new Revert('Base58Check decode failed');
+        }
+
+        return result as Uint8Array;
+    }
+
+    /**
+     * Safe Base58Check decode that returns the payload, or null if the string is
+     * not valid Base58 or its checksum does not match
+     */
+    public static decodeCheckOrNull(str: string): Uint8Array | null {
+        const data = Base58.decodeOrNull(str);
+        if (data === null || data.length < Base58.CHECKSUM_LENGTH) return null;
+
+        const payloadLength = data.length - Base58.CHECKSUM_LENGTH;
+        const payload = data.slice(0, payloadLength);
+        const checksum = hash256(payload);
+
+        for (let i = 0; i < Base58.CHECKSUM_LENGTH; i++) {
+            if (data[payloadLength + i] != checksum[i]) return null;
+        }
+
+        return payload;
+    }
+
+    /**
+     * Ensure the decode table is initialized
+     * This is safe to call multiple times
+     */
+    private static ensureTable(): void {
+        if (Base58.decodeTbl) return;
+
+        const t = new Int8Array(128);
+        for (let i = 0; i < 128; i++) {
+            unchecked((t[i] = -1));
+        }
+
+        for (let i = 0; i < 58; i++) {
+            unchecked((t[Base58.ALPHABET.charCodeAt(i)] = <i8>i));
+        }
+
+        Base58.decodeTbl = t;
+    }
+}
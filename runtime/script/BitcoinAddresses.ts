@@ -1,7 +1,14 @@
-import { CsvP2wshResult, MultisigP2wshResult } from './ScriptUtils';
+import {
+    CltvP2wshResult,
+    CsvP2wshResult,
+    HashlockP2wshResult,
+    HtlcP2wshResult,
+    MultisigP2wshResult,
+} from './ScriptUtils';
 import { Segwit } from './Segwit';
 import { BitcoinScript } from './Script';
 import { sha256 } from '../env/global';
+import { Taproot } from './Taproot';
 
 /**
  * Ct provides constant-time comparison functions
@@ -32,6 +39,21 @@ export class Ct {
         // d will be 0 only if all bytes matched
         return d == 0;
     }
+
+    /**
+     * Compare two 20-byte arrays (HASH160 digests) in constant time
+     */
+    @inline public static eq20(a: Uint8Array, b: Uint8Array): bool {
+        let d: i32 = (a.length ^ 20) | (b.length ^ 20);
+
+        for (let i = 0; i < 20; i++) {
+            const ai: u8 = i < a.length ? a[i] : 0;
+            const bi: u8 = i < b.length ? b[i] : 0;
+            d |= ai ^ bi;
+        }
+
+        return d == 0;
+    }
 }
 
 /**
@@ -164,6 +186,197 @@ export class BitcoinAddresses {
         return Ct.eq32(dec.program, prog);
     }
 
+    /**
+     * Create a witness script for a CLTV (CheckLockTimeVerify) absolute timelock
+     *
+     * @param pubkey - The public key that can spend once the locktime is reached
+     * @param locktime - Block height (below 500,000,000) or UNIX timestamp
+     * @returns The witness script bytes
+     */
+    public static cltvWitnessScript(pubkey: Uint8Array, locktime: i64): Uint8Array {
+        return BitcoinScript.cltvTimelock(pubkey, locktime);
+    }
+
+    /**
+     * Create a P2WSH address with a CLTV timelock
+     *
+     * @param pubkey - The public key that can spend once the locktime is reached
+     * @param locktime - Block height or UNIX timestamp
+     * @param hrp - Human-readable part for the address
+     * @returns Object containing both the address and witness script
+     */
+    public static cltvP2wshAddress(
+        pubkey: Uint8Array,
+        locktime: i64,
+        hrp: string,
+    ): CltvP2wshResult {
+        const ws = BitcoinAddresses.cltvWitnessScript(pubkey, locktime);
+        const addr = Segwit.p2wsh(hrp, ws);
+        return new CltvP2wshResult(addr, ws);
+    }
+
+    /**
+     * Verify that a given address corresponds to a specific CLTV timelock setup
+     *
+     * @param pubkey - The expected public key
+     * @param locktime - The expected locktime
+     * @param address - The address to verify
+     * @param hrp - Expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding rules
+     * @returns true if the address matches the expected parameters
+     */
+    public static verifyCltvP2wshAddress(
+        pubkey: Uint8Array,
+        locktime: i64,
+        address: string,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): bool {
+        const ws = BitcoinAddresses.cltvWitnessScript(pubkey, locktime);
+
+        // Parse the witness script to ensure it's well-formed
+        const rec = BitcoinScript.recognizeCltvTimelock(ws, strictMinimal);
+        if (!rec.ok || rec.locktime != locktime) return false;
+
+        return BitcoinAddresses.isP2wshOf(address, hrp, ws);
+    }
+
+    /**
+     * Create a witness script for a SHA256 (32-byte hash) or HASH160 (20-byte hash) hashlock
+     *
+     * @param hash - The hash of the secret preimage
+     * @param pubkey - The public key that can spend with the preimage
+     * @returns The witness script bytes
+     */
+    public static hashlockWitnessScript(hash: Uint8Array, pubkey: Uint8Array): Uint8Array {
+        return BitcoinScript.hashlock(hash, pubkey);
+    }
+
+    /**
+     * Create a P2WSH hashlock address
+     *
+     * @param hash - The hash of the secret preimage
+     * @param pubkey - The public key that can spend with the preimage
+     * @param hrp - Human-readable part for the address
+     * @returns Object containing both the address and witness script
+     */
+    public static hashlockP2wshAddress(
+        hash: Uint8Array,
+        pubkey: Uint8Array,
+        hrp: string,
+    ): HashlockP2wshResult {
+        const ws = BitcoinAddresses.hashlockWitnessScript(hash, pubkey);
+        const addr = Segwit.p2wsh(hrp, ws);
+        return new HashlockP2wshResult(addr, ws);
+    }
+
+    /**
+     * Verify that a given address corresponds to a specific hashlock setup
+     *
+     * @param hash - The expected preimage hash
+     * @param pubkey - The expected public key
+     * @param address - The address to verify
+     * @param hrp - Expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding rules
+     * @returns true if the address matches the expected parameters
+     */
+    public static verifyHashlockP2wshAddress(
+        hash: Uint8Array,
+        pubkey: Uint8Array,
+        address: string,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): bool {
+        const ws = BitcoinAddresses.hashlockWitnessScript(hash, pubkey);
+
+        // Parse the witness script to ensure it's well-formed
+        const rec = BitcoinScript.recognizeHashlock(ws, strictMinimal);
+        if (!rec.ok) return false;
+
+        return BitcoinAddresses.isP2wshOf(address, hrp, ws);
+    }
+
+    /**
+     * Create a witness script for a hashed timelock contract (HTLC)
+     *
+     * @param hash - The hash of the secret preimage (32 bytes for SHA256, 20 for HASH160)
+     * @param recipientPubkey - The public key that can spend with the preimage
+     * @param refundPubkey - The public key that can spend once the locktime is reached
+     * @param locktime - Block height or UNIX timestamp of the refund path
+     * @returns The witness script bytes
+     */
+    public static htlcWitnessScript(
+        hash: Uint8Array,
+        recipientPubkey: Uint8Array,
+        refundPubkey: Uint8Array,
+        locktime: i64,
+    ): Uint8Array {
+        return BitcoinScript.htlc(hash, recipientPubkey, refundPubkey, locktime);
+    }
+
+    /**
+     * Create a P2WSH HTLC address
+     *
+     * @param hash - The hash of the secret preimage
+     * @param recipientPubkey - The public key that can spend with the preimage
+     * @param refundPubkey - The public key that can spend once the locktime is reached
+     * @param locktime - Block height or UNIX timestamp of the refund path
+     * @param hrp - Human-readable part for the address
+     * @returns Object containing both the address and witness script
+     */
+    public static htlcP2wshAddress(
+        hash: Uint8Array,
+        recipientPubkey: Uint8Array,
+        refundPubkey: Uint8Array,
+        locktime: i64,
+        hrp: string,
+    ): HtlcP2wshResult {
+        const ws = BitcoinAddresses.htlcWitnessScript(
+            hash,
+            recipientPubkey,
+            refundPubkey,
+            locktime,
+        );
+        const addr = Segwit.p2wsh(hrp, ws);
+        return new HtlcP2wshResult(addr, ws);
+    }
+
+    /**
+     * Verify that a given address corresponds to a specific HTLC setup
+     * This lets a swap contract check the address a counterparty locked funds to
+     *
+     * @param hash - The expected preimage hash
+     * @param recipientPubkey - The expected recipient public key
+     * @param refundPubkey - The expected refund public key
+     * @param locktime - The expected refund locktime
+     * @param address - The address to verify
+     * @param hrp - Expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding rules
+     * @returns true if the address matches the expected parameters
+     */
+    public static verifyHtlcP2wshAddress(
+        hash: Uint8Array,
+        recipientPubkey: Uint8Array,
+        refundPubkey: Uint8Array,
+        locktime: i64,
+        address: string,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): bool {
+        const ws = BitcoinAddresses.htlcWitnessScript(
+            hash,
+            recipientPubkey,
+            refundPubkey,
+            locktime,
+        );
+
+        // Parse the witness script to ensure it's well-formed
+        const rec = BitcoinScript.recognizeHtlc(ws, strictMinimal);
+        if (!rec.ok || rec.locktime != locktime) return false;
+
+        return BitcoinAddresses.isP2wshOf(address, hrp, ws);
+    }
+
     /**
      * Create a Taproot (P2TR) key-path spend address
      * This is the simplest form of Taproot address, spendable with a single key
@@ -176,6 +389,22 @@ export class BitcoinAddresses {
         return Segwit.p2tr(hrp, outputKeyX32);
     }
 
+    /**
+     * Create a P2TR address from an untweaked x-only internal key
+     *
+     * @param internalKeyX32 - The 32-byte x-only internal key
+     * @param merkleRoot - Merkle root of the script tree, or null for a key-path-only output
+     * @param hrp - Human-readable part for the address
+     * @returns The Bech32m-encoded address
+     */
+    public static p2trAddress(
+        internalKeyX32: Uint8Array,
+        merkleRoot: Uint8Array | null,
+        hrp: string,
+    ): string {
+        return Segwit.p2tr(hrp, Taproot.tweakPublicKey(internalKeyX32, merkleRoot).outputKey);
+    }
+
     /**
      * Create a Pay-to-Witness-Public-Key-Hash (P2WPKH) address
      * @param pubkey - The public key (33 bytes compressed or 65 bytes uncompressed)
@@ -205,4 +434,17 @@ export class BitcoinAddresses {
         // Compare the output key
         return Ct.eq32(dec.program, outputKeyX32);
     }
+
+    /**
+     * Check that an address is the v0 P2WSH address of a witness script
+     */
+    private static isP2wshOf(address: string, hrp: string, witnessScript: Uint8Array): bool {
+        const dec = Segwit.decodeOrNull(address);
+        if (!dec) return false;
+
+        // Verify it's a v0 witness program with 32-byte hash
+        if (dec.version != 0 || dec.hrp != hrp || dec.program.length != 32) return false;
+
+        return Ct.eq32(dec.program, sha256(witnessScript));
+    }
 }
@@ -1,7 +1,7 @@
 import { BitcoinAddresses, Ct } from './BitcoinAddresses';
 import { BytesWriter } from '../buffer/BytesWriter';
 import { BytesReader } from '../buffer/BytesReader';
-import { CsvPairCrossCheck, MultisigPairCrossCheck } from './ScriptUtils';
+import { CsvPairCrossCheck, HtlcPairCrossCheck, MultisigPairCrossCheck } from './ScriptUtils';
 import { Segwit } from './Segwit';
 import { sha256 } from '../env/global';
 import { BitcoinScript } from './Script';
@@ -147,6 +147,179 @@ export class BitcoinCodec {
         );
     }
 
+    /**
+     * Write a CLTV P2WSH address and witness script to a byte stream
+     *
+     * @param out - The output writer to write to
+     * @param pubkey - The public key for the CLTV timelock
+     * @param locktime - Block height or UNIX timestamp of the timelock
+     * @param hrp - Human-readable part for the address
+     */
+    public static writeCltvP2wsh(
+        out: BytesWriter,
+        pubkey: Uint8Array,
+        locktime: i64,
+        hrp: string,
+    ): void {
+        const res = BitcoinAddresses.cltvP2wshAddress(pubkey, locktime, hrp);
+        out.writeStringWithLength(res.address);
+        out.writeBytesWithLength(res.witnessScript);
+    }
+
+    /**
+     * Read a CLTV P2WSH address and verify it matches expected parameters
+     *
+     * @param inp - The input reader to read from
+     * @param pubkey - The expected public key
+     * @param locktime - The expected locktime
+     * @param hrp - The expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding
+     * @returns A result containing the verified address or an error
+     */
+    public static readAndVerifyCltvP2wsh(
+        inp: BytesReader,
+        pubkey: Uint8Array,
+        locktime: i64,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): CodecResult<VerifiedAddress> {
+        const addr = inp.readStringWithLength();
+
+        if (BitcoinAddresses.verifyCltvP2wshAddress(pubkey, locktime, addr, hrp, strictMinimal)) {
+            const ws = BitcoinAddresses.cltvWitnessScript(pubkey, locktime);
+            return CodecResult.ok<VerifiedAddress>(new VerifiedAddress(addr, ws));
+        }
+
+        return CodecResult.err<VerifiedAddress>(
+            'CLTV P2WSH verification failed: address does not match expected parameters',
+        );
+    }
+
+    /**
+     * Write a hashlock P2WSH address and witness script to a byte stream
+     *
+     * @param out - The output writer
+     * @param hash - The hash of the secret preimage
+     * @param pubkey - The public key that can spend with the preimage
+     * @param hrp - Human-readable part for the address
+     */
+    public static writeHashlockP2wsh(
+        out: BytesWriter,
+        hash: Uint8Array,
+        pubkey: Uint8Array,
+        hrp: string,
+    ): void {
+        const res = BitcoinAddresses.hashlockP2wshAddress(hash, pubkey, hrp);
+        out.writeStringWithLength(res.address);
+        out.writeBytesWithLength(res.witnessScript);
+    }
+
+    /**
+     * Read and verify a hashlock P2WSH address
+     *
+     * @param inp - The input reader
+     * @param hash - The expected preimage hash
+     * @param pubkey - The expected public key
+     * @param hrp - Expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding
+     * @returns A result containing the verified address or an error
+     */
+    public static readAndVerifyHashlockP2wsh(
+        inp: BytesReader,
+        hash: Uint8Array,
+        pubkey: Uint8Array,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): CodecResult<VerifiedAddress> {
+        const addr = inp.readStringWithLength();
+
+        if (BitcoinAddresses.verifyHashlockP2wshAddress(hash, pubkey, addr, hrp, strictMinimal)) {
+            const ws = BitcoinAddresses.hashlockWitnessScript(hash, pubkey);
+            return CodecResult.ok<VerifiedAddress>(new VerifiedAddress(addr, ws));
+        }
+
+        return CodecResult.err<VerifiedAddress>(
+            'Hashlock P2WSH verification failed: address does not match expected parameters',
+        );
+    }
+
+    /**
+     * Write an HTLC P2WSH address and witness script to a byte stream
+     *
+     * @param out - The output writer
+     * @param hash - The hash of the secret preimage
+     * @param recipientPubkey - The public key that can spend with the preimage
+     * @param refundPubkey - The public key that can spend once the locktime is reached
+     * @param locktime - Block height or UNIX timestamp of the refund path
+     * @param hrp - Human-readable part for the address
+     */
+    public static writeHtlcP2wsh(
+        out: BytesWriter,
+        hash: Uint8Array,
+        recipientPubkey: Uint8Array,
+        refundPubkey: Uint8Array,
+        locktime: i64,
+        hrp: string,
+    ): void {
+        const res = BitcoinAddresses.htlcP2wshAddress(
+            hash,
+            recipientPubkey,
+            refundPubkey,
+            locktime,
+            hrp,
+        );
+        out.writeStringWithLength(res.address);
+        out.writeBytesWithLength(res.witnessScript);
+    }
+
+    /**
+     * Read and verify an HTLC P2WSH address
+     *
+     * @param inp - The input reader
+     * @param hash - The expected preimage hash
+     * @param recipientPubkey - The expected recipient public key
+     * @param refundPubkey - The expected refund public key
+     * @param locktime - The expected refund locktime
+     * @param hrp - Expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding
+     * @returns A result containing the verified address or an error
+     */
+    public static readAndVerifyHtlcP2wsh(
+        inp: BytesReader,
+        hash: Uint8Array,
+        recipientPubkey: Uint8Array,
+        refundPubkey: Uint8Array,
+        locktime: i64,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): CodecResult<VerifiedAddress> {
+        const addr = inp.readStringWithLength();
+
+        if (
+            BitcoinAddresses.verifyHtlcP2wshAddress(
+                hash,
+                recipientPubkey,
+                refundPubkey,
+                locktime,
+                addr,
+                hrp,
+                strictMinimal,
+            )
+        ) {
+            const ws = BitcoinAddresses.htlcWitnessScript(
+                hash,
+                recipientPubkey,
+                refundPubkey,
+                locktime,
+            );
+            return CodecResult.ok<VerifiedAddress>(new VerifiedAddress(addr, ws));
+        }
+
+        return CodecResult.err<VerifiedAddress>(
+            'HTLC P2WSH verification failed: address does not match expected parameters',
+        );
+    }
+
     /**
      * Write a Taproot address to a byte stream
      *
@@ -333,6 +506,57 @@ export class BitcoinCodec {
         return new MultisigPairCrossCheck(true, rec.m, rec.n, address);
     }
 
+    /**
+     * Read an HTLC P2WSH pair and cross-check all components
+     * Use this to learn the terms of an HTLC from the address and script a counterparty sent
+     *
+     * @param inp - The input reader
+     * @param hrp - Expected human-readable part
+     * @param strictMinimal - Whether to enforce strict minimal encoding
+     * @returns Detailed cross-check results including extracted parameters
+     */
+    public static readHtlcP2wshPairAndCrossCheck(
+        inp: BytesReader,
+        hrp: string,
+        strictMinimal: bool = true,
+    ): HtlcPairCrossCheck {
+        const address = inp.readStringWithLength();
+        const witnessScript = inp.readBytesWithLength();
+
+        // Decode the address
+        const dec = Segwit.decodeOrNull(address);
+        if (!dec) {
+            return new HtlcPairCrossCheck(false, address, witnessScript, null, null, null, -1);
+        }
+
+        // Verify it's a valid P2WSH address
+        if (dec.version != 0 || dec.hrp != hrp || dec.program.length != 32) {
+            return new HtlcPairCrossCheck(false, address, witnessScript, null, null, null, -1);
+        }
+
+        // Verify the witness script hashes to the witness program
+        const prog = sha256(witnessScript);
+        if (!Ct.eq32(dec.program, prog)) {
+            return new HtlcPairCrossCheck(false, address, witnessScript, null, null, null, -1);
+        }
+
+        // Parse the witness script to extract HTLC parameters
+        const rec = BitcoinScript.recognizeHtlc(witnessScript, strictMinimal);
+        if (!rec.ok) {
+            return new HtlcPairCrossCheck(false, address, witnessScript, null, null, null, -1);
+        }
+
+        return new HtlcPairCrossCheck(
+            true,
+            address,
+            witnessScript,
+            rec.hash,
+            rec.recipientPubkey,
+            rec.refundPubkey,
+            rec.locktime,
+        );
+    }
+
     /**
      * Write a generic witness script and its address
      *
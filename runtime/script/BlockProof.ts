@@ -0,0 +1,250 @@
+import { Blockchain } from '../env';
+import { hash256 } from '../env/global';
+import { Revert } from '../types/Revert';
+import { RawTransaction } from './RawTransaction';
+
+export const BLOCK_HEADER_LENGTH: i32 = 80;
+
+/** Deepest merkle branch accepted, enough for 2^32 transactions */
+export const MAX_MERKLE_BRANCH_LENGTH: i32 = 32;
+
+/**
+ * A parsed 80-byte Bitcoin block header
+ *
+ * Hashes (previous block hash, merkle root and `hash()`) are in internal byte order.
+ */
+@final
+export class BlockHeader {
+    public constructor(
+        public readonly version: i32,
+        public readonly prevBlockHash: Uint8Array,
+        public readonly merkleRoot: Uint8Array,
+        public readonly timestamp: u32,
+        public readonly bits: u32,
+        public readonly nonce: u32,
+        public readonly raw: Uint8Array,
+    ) {}
+
+    /**
+     * Consider using parseOrNull instead, this method will throw on error
+     * @param raw
+     */
+    public static parse(raw: Uint8Array): BlockHeader {
+        const header = BlockHeader.parseOrNull(raw);
+        if (!header) {
+            throw new Revert('Invalid block header');
+        }
+
+        return header as BlockHeader;
+    }
+
+    /**
+     * Safely parse a block header, returning null unless it is exactly 80 bytes
+     */
+    public static parseOrNull(raw: Uint8Array): BlockHeader | null {
+        if (raw.length != BLOCK_HEADER_LENGTH) return null;
+
+        return new BlockHeader(
+            <i32>readU32LE(raw, 0),
+            raw.slice(4, 36),
+            raw.slice(36, 68),
+            readU32LE(raw, 68),
+            readU32LE(raw, 72),
+            readU32LE(raw, 76),
+            raw.slice(0, BLOCK_HEADER_LENGTH),
+        );
+    }
+
+    /**
+     * HASH256 of the header, in internal byte order
+     */
+    public hash(): Uint8Array {
+        return hash256(this.raw);
+    }
+}
+
+/**
+ * BlockProof proves that a transaction was included in an earlier Bitcoin block.
+ *
+ * A proof is the block header, the txid and the merkle branch from the txid to the
+ * header's merkle root. The header is authenticated against `Blockchain.getBlockHash`,
+ * so only blocks the host still serves hashes for can be proven.
+ *
+ * Txids are in internal byte order, as returned by `RawTransaction.txid()`. Block hashes
+ * from `Blockchain.getBlockHash` are in display byte order, as reported by Bitcoin RPC.
+ *
+ * @example
+ * ```typescript
+ * const parent = RawTransaction.parse(rawTx);
+ * if (!BlockProof.verifyRawTransaction(rawHeader, blockNumber, parent, index, branch)) {
+ *     throw new Revert('Transaction not in block');
+ * }
+ * ```
+ */
+@final
+export class BlockProof {
+    /**
+     * Compute the merkle root reached by hashing `txid` up a merkle branch
+     *
+     * @param txid - Leaf hash, in internal byte order
+     * @param index - Position of the transaction in the block
+     * @param branch - Sibling hashes from the leaf up to the root
+     * @throws {Revert} If the branch is malformed or the index does not fit its depth
+     */
+    public static merkleRootFromBranch(
+        txid: Uint8Array,
+        index: u32,
+        branch: Uint8Array[],
+    ): Uint8Array {
+        if (txid.length != 32) {
+            throw new Revert('Invalid txid');
+        }
+
+        if (branch.length > MAX_MERKLE_BRANCH_LENGTH) {
+            throw new Revert('Merkle branch too long');
+        }
+
+        if (branch.length < MAX_MERKLE_BRANCH_LENGTH && (<u64>index) >> branch.length != 0) {
+            throw new Revert('Merkle index out of range');
+        }
+
+        let node = txid;
+        let position = index;
+        const buf = new Uint8Array(64);
+
+        for (let i = 0; i < branch.length; i++) {
+            const sibling = branch[i];
+            if (sibling.length != 32) {
+                throw new Revert('Invalid merkle branch node');
+            }
+
+            if ((position & 1) == 0) {
+                buf.set(node, 0);
+                buf.set(sibling, 32);
+            } else {
+                buf.set(sibling, 0);
+                buf.set(node, 32);
+            }
+
+            node = hash256(buf);
+            position >>= 1;
+        }
+
+        return node;
+    }
+
+    /**
+     * Check that a merkle branch links `txid` at `index` to `merkleRoot`
+     */
+    public static verifyMerkleBranch(
+        txid: Uint8Array,
+        index: u32,
+        branch: Uint8Array[],
+        merkleRoot: Uint8Array,
+    ): bool {
+        return BlockProof.bytesEqual(
+            BlockProof.merkleRootFromBranch(txid, index, branch),
+            merkleRoot,
+        );
+    }
+
+    /**
+     * Check that a header hashes to `blockHash`, given in display byte order
+     */
+    public static verifyHeaderHash(header: BlockHeader, blockHash: Uint8Array): bool {
+        return BlockProof.bytesEqual(RawTransaction.reverseHash(header.hash()), blockHash);
+    }
+
+    /**
+     * Check that a header is the header of block `blockNumber`
+     *
+     * @throws {Revert} If the host has no hash for that block
+     */
+    public static verifyHeader(header: BlockHeader, blockNumber: u64): bool {
+        const blockHash = Blockchain.getBlockHash(blockNumber);
+        if (BlockProof.isZero(blockHash)) {
+            throw new Revert('Block hash unavailable');
+        }
+
+        return BlockProof.verifyHeaderHash(header, blockHash);
+    }
+
+    /**
+     * Check that `txid` was included at `index` in block `blockNumber`
+     *
+     * The branch only proves that the 32-byte leaf is in the tree. Callers that go on to
+     * trust the contents of a transaction should use verifyRawTransaction, which rules out
+     * 64-byte transactions posing as inner merkle nodes.
+     *
+     * @param rawHeader - The 80-byte block header
+     * @param blockNumber - Height of the block
+     * @param txid - Transaction id, in internal byte order
+     * @param index - Position of the transaction in the block
+     * @param branch - Sibling hashes from the transaction up to the merkle root
+     * @throws {Revert} If the header or branch is malformed, or the block hash is unavailable
+     */
+    public static verifyTransaction(
+        rawHeader: Uint8Array,
+        blockNumber: u64,
+        txid: Uint8Array,
+        index: u32,
+        branch: Uint8Array[],
+    ): bool {
+        const header = BlockHeader.parse(rawHeader);
+        if (!BlockProof.verifyHeader(header, blockNumber)) return false;
+
+        return BlockProof.verifyMerkleBranch(txid, index, branch, header.merkleRoot);
+    }
+
+    /**
+     * Check that a transaction was included at `index` in block `blockNumber`
+     *
+     * @throws {Revert} If the header or branch is malformed, or the block hash is unavailable
+     */
+    public static verifyRawTransaction(
+        rawHeader: Uint8Array,
+        blockNumber: u64,
+        tx: RawTransaction,
+        index: u32,
+        branch: Uint8Array[],
+    ): bool {
+        const stripped = tx.serialize(false);
+
+        // A 64-byte transaction could be presented as an inner node of the tree
+        if (stripped.length == 64) return false;
+
+        return BlockProof.verifyTransaction(
+            rawHeader,
+            blockNumber,
+            hash256(stripped),
+            index,
+            branch,
+        );
+    }
+
+    private static isZero(hash: Uint8Array): bool {
+        for (let i = 0; i < hash.length; i++) {
+            if (hash[i] != 0) return false;
+        }
+
+        return true;
+    }
+
+    private static bytesEqual(a: Uint8Array, b: Uint8Array): bool {
+        if (a.length != b.length) return false;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] != b[i]) return false;
+        }
+
+        return true;
+    }
+}
+
+function readU32LE(data: Uint8Array, offset: i32): u32 {
+    return (
+        (<u32>data[offset]) |
+        ((<u32>data[offset + 1]) << 8) |
+        ((<u32>data[offset + 2]) << 16) |
+        ((<u32>data[offset + 3]) << 24)
+    );
+}
@@ -0,0 +1,189 @@
+import { BytesWriter } from '../buffer/BytesWriter';
+import { hash160 } from '../env/global';
+import { Revert } from '../types/Revert';
+import { Base58 } from './Base58';
+import { Ct } from './BitcoinAddresses';
+import { Network, Networks } from './Networks';
+import { BitcoinScript } from './Script';
+import { LegacyDecoded } from './ScriptUtils';
+
+/**
+ * LegacyAddresses creates, decodes and verifies pre-SegWit Base58Check
+ * addresses: P2PKH (`1...` on mainnet) and P2SH (`3...` on mainnet).
+ *
+ * A legacy address is Base58Check(version byte || 20-byte HASH160). The version
+ * byte selects both the address type and the network, see
+ * `Network.pubKeyHashVersion` and `Network.scriptHashVersion`. Testnet, regtest
+ * and the OP_NET testnet share the same version bytes.
+ */
+@final
+export class LegacyAddresses {
+    /**
+     * Create a P2PKH address from a public key
+     *
+     * @param pubkey - The public key (33 bytes compressed or 65 bytes uncompressed)
+     * @param network - Network whose version byte is used
+     * @returns The Base58Check-encoded address
+     */
+    public static p2pkh(pubkey: Uint8Array, network: Networks): string {
+        if (pubkey.length != 33 && pubkey.length != 65) {
+            throw new Revert('Public key must be 33 or 65 bytes');
+        }
+
+        return LegacyAddresses.p2pkhFromHash(hash160(pubkey), network);
+    }
+
+    /**
+     * Create a P2PKH address from a 20-byte public key hash
+     */
+    public static p2pkhFromHash(pubkeyHash: Uint8Array, network: Networks): string {
+        return LegacyAddresses.encode(Network.pubKeyHashVersion(network), pubkeyHash);
+    }
+
+    /**
+     * Create a P2SH address from a redeem script
+     *
+     * @param redeemScript - The script that will control spending (at most 520 bytes)
+     * @param network - Network whose version byte is used
+     * @returns The Base58Check-encoded address
+     */
+    public static p2sh(redeemScript: Uint8Array, network: Networks): string {
+        if (redeemScript.length > 520) {
+            throw new Revert('Redeem script size is invalid');
+        }
+
+        return LegacyAddresses.p2shFromHash(hash160(redeemScript), network);
+    }
+
+    /**
+     * Create a P2SH address from a 20-byte script hash
+     */
+    public static p2shFromHash(scriptHash: Uint8Array, network: Networks): string {
+        return LegacyAddresses.encode(Network.scriptHashVersion(network), scriptHash);
+    }
+
+    /**
+     * Consider using decodeOrNull for safe decoding
+     * This method will throw an error if the address is invalid
+     *
+     * @param address - The Base58Check encoded address
+     * @returns Decoded address information
+     */
+    public static decode(address: string): LegacyDecoded {
+        const result = LegacyAddresses.decodeOrNull(address);
+        if (!result) {
+            throw new Revert('Legacy address decode failed');
+        }
+
+        return result as LegacyDecoded;
+    }
+
+    /**
+     * Safely decode a legacy address without throwing/aborting
+     *
+     * @param address - The Base58Check encoded address
+     * @returns The version byte and 20-byte hash, or null if invalid
+     */
+    public static decodeOrNull(address: string): LegacyDecoded | null {
+        // 21-byte payload plus 4-byte checksum encodes to 25 to 34 characters
+        if (address.length < 25 || address.length > 34) return null;
+
+        const payload = Base58.decodeCheckOrNull(address);
+        if (payload === null || payload.length != 21) return null;
+
+        return new LegacyDecoded(payload[0], payload.slice(1));
+    }
+
+    /**
+     * Validate a legacy address of a known type
+     *
+     * @param address - The address to validate
+     * @param network - Optional: verify the version byte belongs to this network
+     * @returns true if the address is a valid P2PKH or P2SH address
+     */
+    public static isValidAddress(address: string, network: Networks = Networks.Unknown): bool {
+        const decoded = LegacyAddresses.decodeOrNull(address);
+        if (!decoded) return false;
+
+        if (network == Networks.Unknown) {
+            return LegacyAddresses.getScriptType(decoded) !== null;
+        }
+
+        return (
+            decoded.version == Network.pubKeyHashVersion(network) ||
+            decoded.version == Network.scriptHashVersion(network)
+        );
+    }
+
+    /**
+     * Extract the script type from a decoded legacy address
+     *
+     * @param decoded - The decoded address information
+     * @returns 'p2pkh' or 'p2sh', or null if the version byte is unknown
+     */
+    public static getScriptType(decoded: LegacyDecoded): string | null {
+        if (
+            decoded.version == Network.pubKeyHashVersion(Networks.Mainnet) ||
+            decoded.version == Network.pubKeyHashVersion(Networks.Testnet)
+        ) {
+            return 'p2pkh';
+        }
+
+        if (
+            decoded.version == Network.scriptHashVersion(Networks.Mainnet) ||
+            decoded.version == Network.scriptHashVersion(Networks.Testnet)
+        ) {
+            return 'p2sh';
+        }
+
+        return null;
+    }
+
+    /**
+     * Build the output script (scriptPubKey) a decoded legacy address pays to
+     *
+     * @throws {Revert} If the version byte is unknown
+     */
+    public static outputScript(decoded: LegacyDecoded): Uint8Array {
+        const type = LegacyAddresses.getScriptType(decoded);
+        if (type == 'p2pkh') return BitcoinScript.p2pkhOutput(decoded.hash);
+        if (type == 'p2sh') return BitcoinScript.p2shOutput(decoded.hash);
+
+        throw new Revert('Unknown legacy address version');
+    }
+
+    /**
+     * Verify that an address is the P2PKH address of a public key on a network
+     */
+    public static verifyP2pkh(address: string, pubkey: Uint8Array, network: Networks): bool {
+        const dec = LegacyAddresses.decodeOrNull(address);
+        if (!dec) return false;
+
+        if (dec.version != Network.pubKeyHashVersion(network)) return false;
+
+        return Ct.eq20(dec.hash, hash160(pubkey));
+    }
+
+    /**
+     * Verify that an address is the P2SH address of a redeem script on a network
+     */
+    public static verifyP2sh(address: string, redeemScript: Uint8Array, network: Networks): bool {
+        const dec = LegacyAddresses.decodeOrNull(address);
+        if (!dec) return false;
+
+        if (dec.version != Network.scriptHashVersion(network)) return false;
+
+        return Ct.eq20(dec.hash, hash160(redeemScript));
+    }
+
+    private static encode(version: u8, hash: Uint8Array): string {
+        if (hash.length != 20) {
+            throw new Revert('Hash must be 20 bytes');
+        }
+
+        const w = new BytesWriter(21);
+        w.writeU8(version);
+        w.writeBytes(hash);
+        return Base58.encodeCheck(w.getBuffer());
+    }
+}
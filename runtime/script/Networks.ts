@@ -64,6 +64,38 @@ export class NetworkManager {
         }
     }
 
+    /**
+     * Base58Check version byte of P2PKH addresses (`1...` on mainnet)
+     */
+    public pubKeyHashVersion(n: Networks): u8 {
+        switch (n) {
+            case Networks.Mainnet:
+                return 0x00;
+            case Networks.Testnet:
+            case Networks.Regtest:
+            case Networks.OpnetTestnet:
+                return 0x6f;
+            default:
+                throw new Revert('Unknown network');
+        }
+    }
+
+    /**
+     * Base58Check version byte of P2SH addresses (`3...` on mainnet)
+     */
+    public scriptHashVersion(n: Networks): u8 {
+        switch (n) {
+            case Networks.Mainnet:
+                return 0x05;
+            case Networks.Testnet:
+            case Networks.Regtest:
+            case Networks.OpnetTestnet:
+                return 0xc4;
+            default:
+                throw new Revert('Unknown network');
+        }
+    }
+
     public getChainId(network: Networks): Uint8Array {
         const out = new Uint8Array(32);
         switch (network) {
@@ -0,0 +1,143 @@
+import { Blockchain } from '../env';
+import { TransactionOutput } from '../env/classes/UTXO';
+import { ExtendedAddress } from '../types/ExtendedAddress';
+import { Revert } from '../types/Revert';
+import { encodeHex } from '../utils/hex';
+import { BitcoinScript } from './Script';
+import { Segwit } from './Segwit';
+import { LegacyAddresses } from './LegacyAddresses';
+
+/**
+ * PaymentVerifier answers how many satoshis a transaction paid to a destination.
+ *
+ * Destinations can be given as a P2TR, P2WPKH, P2WSH, P2PKH or P2SH address, as an
+ * ExtendedAddress (paid through its taproot key) or as a raw output script. Addresses and
+ * output `to` strings are decoded with Segwit or LegacyAddresses and compared by output
+ * script, so an address matches outputs that only carry a script and the other way around.
+ *
+ * Values of every output to the same destination are added together. OP_RETURN outputs
+ * are never counted. Totals are computed in one pass over the outputs the first time they
+ * are needed, then cached.
+ *
+ * @example
+ * ```typescript
+ * const payments = new PaymentVerifier();
+ * if (payments.paidTo(treasuryAddress) < price) {
+ *     throw new Revert('Insufficient payment');
+ * }
+ * ```
+ */
+@final
+export class PaymentVerifier {
+    private _totals: Map<string, u64> | null = null;
+
+    /**
+     * @param outputs - Outputs to inspect, the current transaction's outputs by default
+     */
+    public constructor(private readonly outputs: TransactionOutput[] = Blockchain.tx.outputs) {}
+
+    /**
+     * Decode a P2TR, P2WPKH, P2WSH, P2PKH or P2SH address into its output script
+     *
+     * @throws {Revert} If the address is not a valid address of one of these types
+     */
+    public static addressToScript(address: string): Uint8Array {
+        const script = PaymentVerifier.addressToScriptOrNull(address);
+        if (script === null) {
+            throw new Revert('Unsupported payment address');
+        }
+
+        return script;
+    }
+
+    /**
+     * Safe version of addressToScript that returns null for unsupported addresses
+     */
+    public static addressToScriptOrNull(address: string): Uint8Array | null {
+        const decoded = Segwit.decodeOrNull(address);
+        if (decoded !== null) {
+            if (Segwit.getScriptType(decoded) === null) return null;
+
+            return BitcoinScript.witnessProgram(decoded.version, decoded.program);
+        }
+
+        const legacy = LegacyAddresses.decodeOrNull(address);
+        if (legacy !== null && LegacyAddresses.getScriptType(legacy) !== null) {
+            return LegacyAddresses.outputScript(legacy);
+        }
+
+        return null;
+    }
+
+    /**
+     * Total satoshis paid to a P2TR, P2WPKH, P2WSH, P2PKH or P2SH address
+     *
+     * @throws {Revert} If the address is not a valid address of one of these types
+     */
+    public paidTo(address: string): u64 {
+        return this.paidToScript(PaymentVerifier.addressToScript(address));
+    }
+
+    /**
+     * Total satoshis paid to the taproot key-path output of an ExtendedAddress
+     */
+    public paidToExtendedAddress(address: ExtendedAddress): u64 {
+        return this.paidToScript(BitcoinScript.witnessProgram(1, address.tweakedPublicKey));
+    }
+
+    /**
+     * Total satoshis paid to an output script
+     */
+    public paidToScript(scriptPubKey: Uint8Array): u64 {
+        const totals = this.totals();
+        const key = PaymentVerifier.scriptKey(scriptPubKey);
+
+        return totals.has(key) ? totals.get(key) : 0;
+    }
+
+    private totals(): Map<string, u64> {
+        if (this._totals !== null) {
+            return this._totals as Map<string, u64>;
+        }
+
+        const totals = new Map<string, u64>();
+        for (let i: i32 = 0; i < this.outputs.length; i++) {
+            const output = this.outputs[i];
+            if (output.isOPReturn) continue;
+
+            const script = PaymentVerifier.outputScript(output);
+            if (script === null) continue;
+
+            const key = PaymentVerifier.scriptKey(script);
+            const previous: u64 = totals.has(key) ? totals.get(key) : 0;
+            if (previous > u64.MAX_VALUE - output.value) {
+                throw new Revert('Payment total overflow');
+            }
+
+            totals.set(key, previous + output.value);
+        }
+
+        this._totals = totals;
+        return totals;
+    }
+
+    /**
+     * The output script of an output, decoded from its `to` address when the
+     * script itself is not provided. Null when neither is usable.
+     */
+    private static outputScript(output: TransactionOutput): Uint8Array | null {
+        if (output.hasScriptPubKey && output.scriptPublicKey !== null) {
+            return output.scriptPublicKey;
+        }
+
+        if (output.hasTo && output.to !== null) {
+            return PaymentVerifier.addressToScriptOrNull(output.to as string);
+        }
+
+        return null;
+    }
+
+    private static scriptKey(script: Uint8Array): string {
+        return encodeHex(script.dataStart, script.length);
+    }
+}
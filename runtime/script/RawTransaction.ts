@@ -0,0 +1,423 @@
+import { BytesWriter } from '../buffer/BytesWriter';
+import { hash256 } from '../env/global';
+import { Revert } from '../types/Revert';
+
+/** Sequence of an input that opts out of relative timelocks and RBF */
+export const SEQUENCE_FINAL: u32 = 0xffffffff;
+
+const SEGWIT_MARKER: u8 = 0x00;
+const SEGWIT_FLAG: u8 = 0x01;
+
+/**
+ * An input of a raw transaction: the outpoint it spends, its scriptSig,
+ * sequence and witness stack
+ */
+@final
+export class RawTxInput {
+    public constructor(
+        public readonly txId: Uint8Array,
+        public readonly outputIndex: u32,
+        public readonly scriptSig: Uint8Array,
+        public readonly sequence: u32,
+        public readonly witness: Uint8Array[],
+    ) {}
+}
+
+/**
+ * An output of a raw transaction
+ */
+@final
+export class RawTxOutput {
+    public constructor(
+        public readonly value: u64,
+        public readonly scriptPubKey: Uint8Array,
+    ) {}
+}
+
+/**
+ * RawTransaction builds, serializes and parses Bitcoin transactions in consensus format,
+ * and computes their txid and wtxid.
+ *
+ * Hashes (txid, wtxid and the txId of each input) are in internal byte order, which is the
+ * order used inside transactions and outpoints. Block explorers display them reversed, see
+ * `RawTransaction.reverseHash`.
+ *
+ * @example
+ * ```typescript
+ * // Prove that a presented parent transaction created the output being referenced
+ * const parent = RawTransaction.parse(rawParent);
+ * if (!parent.commitsOutput(txId, outputIndex)) {
+ *     throw new Revert('Output not committed by parent');
+ * }
+ *
+ * const paid: u64 = parent.outputAt(outputIndex).value;
+ * ```
+ */
+@final
+export class RawTransaction {
+    public readonly inputs: RawTxInput[] = [];
+    public readonly outputs: RawTxOutput[] = [];
+
+    public constructor(
+        public version: i32 = 2,
+        public lockTime: u32 = 0,
+    ) {}
+
+    /**
+     * True if any input carries witness data, in which case the transaction
+     * serializes in the segwit format
+     */
+    public get hasWitness(): bool {
+        for (let i = 0; i < this.inputs.length; i++) {
+            if (this.inputs[i].witness.length > 0) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Consider using parseOrNull instead, this method will throw on error
+     * @param raw
+     */
+    public static parse(raw: Uint8Array): RawTransaction {
+        const tx = RawTransaction.parseOrNull(raw);
+        if (!tx) {
+            throw new Revert('Invalid raw transaction');
+        }
+
+        return tx as RawTransaction;
+    }
+
+    /**
+     * Safely parse a transaction in legacy or segwit consensus format
+     *
+     * @param raw - The serialized transaction
+     * @returns The transaction, or null if the bytes are malformed or have trailing data
+     */
+    public static parseOrNull(raw: Uint8Array): RawTransaction | null {
+        const r = new RawTxReader(raw);
+        const tx = new RawTransaction(<i32>r.readU32());
+
+        let segwit = false;
+        if (r.remaining() >= 2 && r.peek(0) == SEGWIT_MARKER && r.peek(1) != 0) {
+            r.readU8();
+            if (r.readU8() != SEGWIT_FLAG) return null;
+            segwit = true;
+        }
+
+        // Every input takes at least 41 bytes and every output at least 9
+        const inputCount = r.readCount(41);
+        for (let i: u64 = 0; i < inputCount && !r.failed; i++) {
+            const txId = r.readBytes(32);
+            const outputIndex = r.readU32();
+            const scriptSig = r.readBytes(r.readCount(1));
+            const sequence = r.readU32();
+
+            tx.inputs.push(new RawTxInput(txId, outputIndex, scriptSig, sequence, []));
+        }
+
+        const outputCount = r.readCount(9);
+        for (let i: u64 = 0; i < outputCount && !r.failed; i++) {
+            const value = r.readU64();
+            const scriptPubKey = r.readBytes(r.readCount(1));
+
+            tx.outputs.push(new RawTxOutput(value, scriptPubKey));
+        }
+
+        if (segwit) {
+            for (let i = 0; i < tx.inputs.length && !r.failed; i++) {
+                const itemCount = r.readCount(1);
+                for (let j: u64 = 0; j < itemCount && !r.failed; j++) {
+                    tx.inputs[i].witness.push(r.readBytes(r.readCount(1)));
+                }
+            }
+
+            // A segwit serialization without any witness data is not canonical
+            if (!tx.hasWitness) return null;
+        }
+
+        tx.lockTime = r.readU32();
+
+        if (r.failed || r.remaining() != 0) return null;
+        return tx;
+    }
+
+    /**
+     * Reverse a 32-byte hash between internal and display byte order
+     */
+    public static reverseHash(hash: Uint8Array): Uint8Array {
+        const out = new Uint8Array(hash.length);
+        for (let i = 0; i < hash.length; i++) {
+            out[i] = hash[hash.length - 1 - i];
+        }
+
+        return out;
+    }
+
+    /**
+     * Number of bytes of the compact size encoding of `n`
+     */
+    public static compactSizeLength(n: i32): i32 {
+        if (n < 0xfd) return 1;
+        if (n <= 0xffff) return 3;
+        return 5;
+    }
+
+    /**
+     * Write `n` as a compact size (1, 3 or 5 bytes)
+     */
+    public static writeCompactSize(w: BytesWriter, n: i32): void {
+        if (n < 0xfd) {
+            w.writeU8(<u8>n);
+        } else if (n <= 0xffff) {
+            w.writeU8(0xfd);
+            w.writeU16(<u16>n, false);
+        } else {
+            w.writeU8(0xfe);
+            w.writeU32(<u32>n, false);
+        }
+    }
+
+    /**
+     * Append an input spending `txId:outputIndex`
+     *
+     * @param txId - 32-byte id of the transaction being spent, in internal byte order
+     */
+    public addInput(
+        txId: Uint8Array,
+        outputIndex: u32,
+        scriptSig: Uint8Array = new Uint8Array(0),
+        sequence: u32 = SEQUENCE_FINAL,
+        witness: Uint8Array[] = [],
+    ): RawTxInput {
+        if (txId.length != 32) {
+            throw new Revert('Transaction id must be 32 bytes');
+        }
+
+        const input = new RawTxInput(txId, outputIndex, scriptSig, sequence, witness);
+        this.inputs.push(input);
+        return input;
+    }
+
+    /**
+     * Append an output paying `value` satoshis to `scriptPubKey`
+     */
+    public addOutput(value: u64, scriptPubKey: Uint8Array): RawTxOutput {
+        const output = new RawTxOutput(value, scriptPubKey);
+        this.outputs.push(output);
+        return output;
+    }
+
+    /**
+     * The output at `index`
+     *
+     * @throws {Revert} If the transaction has no such output
+     */
+    public outputAt(index: u32): RawTxOutput {
+        if (<u64>index >= <u64>this.outputs.length) {
+            throw new Revert('Output index out of range');
+        }
+
+        return this.outputs[<i32>index];
+    }
+
+    /**
+     * Serialize the transaction in consensus format
+     *
+     * @param withWitness - Use the segwit format when any input has witness data.
+     *                      The txid is always computed without witness data.
+     */
+    public serialize(withWitness: bool = true): Uint8Array {
+        const segwit = withWitness && this.hasWitness;
+        const w = new BytesWriter(this.serializedSize(segwit));
+
+        w.writeI32(this.version, false);
+        if (segwit) {
+            w.writeU8(SEGWIT_MARKER);
+            w.writeU8(SEGWIT_FLAG);
+        }
+
+        RawTransaction.writeCompactSize(w, this.inputs.length);
+        for (let i = 0; i < this.inputs.length; i++) {
+            const input = this.inputs[i];
+            w.writeBytes(input.txId);
+            w.writeU32(input.outputIndex, false);
+            RawTransaction.writeCompactSize(w, input.scriptSig.length);
+            w.writeBytes(input.scriptSig);
+            w.writeU32(input.sequence, false);
+        }
+
+        RawTransaction.writeCompactSize(w, this.outputs.length);
+        for (let i = 0; i < this.outputs.length; i++) {
+            const output = this.outputs[i];
+            w.writeU64(output.value, false);
+            RawTransaction.writeCompactSize(w, output.scriptPubKey.length);
+            w.writeBytes(output.scriptPubKey);
+        }
+
+        if (segwit) {
+            for (let i = 0; i < this.inputs.length; i++) {
+                const witness = this.inputs[i].witness;
+                RawTransaction.writeCompactSize(w, witness.length);
+                for (let j = 0; j < witness.length; j++) {
+                    RawTransaction.writeCompactSize(w, witness[j].length);
+                    w.writeBytes(witness[j]);
+                }
+            }
+        }
+
+        w.writeU32(this.lockTime, false);
+        return w.getBuffer();
+    }
+
+    /**
+     * HASH256 of the transaction without witness data, in internal byte order
+     */
+    public txid(): Uint8Array {
+        return hash256(this.serialize(false));
+    }
+
+    /**
+     * HASH256 of the transaction with witness data, in internal byte order.
+     * Equal to the txid when no input has witness data.
+     */
+    public wtxid(): Uint8Array {
+        return hash256(this.serialize(true));
+    }
+
+    /**
+     * Check that this transaction is `txId` and has an output at `outputIndex`,
+     * i.e. that it created the outpoint `txId:outputIndex`
+     *
+     * @param txId - 32-byte transaction id, in internal byte order
+     */
+    public commitsOutput(txId: Uint8Array, outputIndex: u32): bool {
+        if (txId.length != 32 || <u64>outputIndex >= <u64>this.outputs.length) return false;
+
+        const id = this.txid();
+        for (let i = 0; i < 32; i++) {
+            if (id[i] != txId[i]) return false;
+        }
+
+        return true;
+    }
+
+    private serializedSize(segwit: bool): i32 {
+        let size = 8 + RawTransaction.compactSizeLength(this.inputs.length);
+        for (let i = 0; i < this.inputs.length; i++) {
+            const scriptLength = this.inputs[i].scriptSig.length;
+            size += 40 + RawTransaction.compactSizeLength(scriptLength) + scriptLength;
+        }
+
+        size += RawTransaction.compactSizeLength(this.outputs.length);
+        for (let i = 0; i < this.outputs.length; i++) {
+            const scriptLength = this.outputs[i].scriptPubKey.length;
+            size += 8 + RawTransaction.compactSizeLength(scriptLength) + scriptLength;
+        }
+
+        if (segwit) {
+            size += 2;
+            for (let i = 0; i < this.inputs.length; i++) {
+                const witness = this.inputs[i].witness;
+                size += RawTransaction.compactSizeLength(witness.length);
+                for (let j = 0; j < witness.length; j++) {
+                    size += RawTransaction.compactSizeLength(witness[j].length) + witness[j].length;
+                }
+            }
+        }
+
+        return size;
+    }
+}
+
+/**
+ * Little-endian cursor that records overruns instead of reverting,
+ * so parseOrNull can fail softly
+ */
+@final
+class RawTxReader {
+    public failed: bool = false;
+    private offset: i32 = 0;
+
+    public constructor(private readonly data: Uint8Array) {}
+
+    public remaining(): i32 {
+        return this.data.length - this.offset;
+    }
+
+    public peek(ahead: i32): u8 {
+        return this.offset + ahead < this.data.length ? this.data[this.offset + ahead] : 0;
+    }
+
+    public readU8(): u8 {
+        if (!this.take(1)) return 0;
+        return this.data[this.offset - 1];
+    }
+
+    public readU32(): u32 {
+        if (!this.take(4)) return 0;
+
+        let v: u32 = 0;
+        for (let i = 1; i <= 4; i++) {
+            v = (v << 8) | this.data[this.offset - i];
+        }
+
+        return v;
+    }
+
+    public readU64(): u64 {
+        if (!this.take(8)) return 0;
+
+        let v: u64 = 0;
+        for (let i = 1; i <= 8; i++) {
+            v = (v << 8) | this.data[this.offset - i];
+        }
+
+        return v;
+    }
+
+    public readBytes(length: u64): Uint8Array {
+        if (length > <u64>this.remaining() || !this.take(<i32>length)) {
+            this.failed = true;
+            return new Uint8Array(0);
+        }
+
+        return this.data.slice(this.offset - <i32>length, this.offset);
+    }
+
+    /**
+     * Read a canonical compact size used as an element count, failing when the
+     * remaining bytes cannot hold that many elements of `minElementSize` bytes
+     */
+    public readCount(minElementSize: i32): u64 {
+        const first = this.readU8();
+
+        let n: u64 = first;
+        if (first == 0xfd) {
+            n = (<u64>this.readU8()) | ((<u64>this.readU8()) << 8);
+            if (n < 0xfd) this.failed = true;
+        } else if (first == 0xfe) {
+            n = this.readU32();
+            if (n <= 0xffff) this.failed = true;
+        } else if (first == 0xff) {
+            n = this.readU64();
+            if (n <= 0xffffffff) this.failed = true;
+        }
+
+        if (n > <u64>(this.remaining() / minElementSize)) {
+            this.failed = true;
+        }
+
+        return this.failed ? 0 : n;
+    }
+
+    private take(length: i32): bool {
+        if (this.failed || length > this.remaining()) {
+            this.failed = true;
+            return false;
+        }
+
+        this.offset += length;
+        return true;
+    }
+}
@@ -1,7 +1,13 @@
 import { BytesWriter } from '../buffer/BytesWriter';
 import { BitcoinOpcodes } from './Opcodes';
-import { ScriptReader } from './reader/ScriptReader';
-import { CsvRecognize, MultisigRecognize } from './ScriptUtils';
+import { Instr, ScriptReader } from './reader/ScriptReader';
+import {
+    CltvRecognize,
+    CsvRecognize,
+    HashlockRecognize,
+    HtlcRecognize,
+    MultisigRecognize,
+} from './ScriptUtils';
 import { Revert } from '../types/Revert';
 
 /**
@@ -64,12 +70,16 @@ export class ScriptNumber {
     /**
      * Decode result type for safe error handling
      */
-    public static decodeResult(data: Uint8Array, minimal: bool = true): DecodeNumberResult {
+    public static decodeResult(
+        data: Uint8Array,
+        minimal: bool = true,
+        maxLength: i32 = 4,
+    ): DecodeNumberResult {
         const L = data.length;
         if (L == 0) return DecodeNumberResult.ok(0);
 
-        // Script numbers are limited to 4 bytes
-        if (L > 4) return DecodeNumberResult.err('ScriptNumber too large');
+        // Script numbers are limited to 4 bytes, OP_CHECKLOCKTIMEVERIFY accepts 5
+        if (L > maxLength) return DecodeNumberResult.err('ScriptNumber too large');
 
         // Check minimal encoding if required
         if (minimal) {
@@ -208,6 +218,61 @@ export class ScriptIO {
 
 @final
 export class BitcoinScript {
+    /**
+     * Create the output script (scriptPubKey) of a witness program
+     * Layout: <OP_version> <push program>, e.g. OP_1 <32 bytes> for P2TR
+     */
+    public static witnessProgram(version: i32, program: Uint8Array): Uint8Array {
+        if (version < 0 || version > 16) {
+            throw new Revert('Witness version must be between 0 and 16');
+        }
+        if (program.length < 2 || program.length > 40) {
+            throw new Revert('Witness program must be 2 to 40 bytes');
+        }
+
+        const w = new BytesWriter(2 + program.length);
+        w.writeU8(version == 0 ? BitcoinOpcodes.OP_0 : <u8>(BitcoinOpcodes.OP_1 + version - 1));
+        w.writeU8(<u8>program.length);
+        w.writeBytes(program);
+        return w.getBuffer();
+    }
+
+    /**
+     * Create the output script of a legacy P2PKH address
+     * Layout: OP_DUP OP_HASH160 <20 bytes> OP_EQUALVERIFY OP_CHECKSIG
+     */
+    public static p2pkhOutput(pubkeyHash: Uint8Array): Uint8Array {
+        if (pubkeyHash.length != 20) {
+            throw new Revert('Public key hash must be 20 bytes');
+        }
+
+        const w = new BytesWriter(25);
+        w.writeU8(BitcoinOpcodes.OP_DUP);
+        w.writeU8(BitcoinOpcodes.OP_HASH160);
+        w.writeU8(20);
+        w.writeBytes(pubkeyHash);
+        w.writeU8(BitcoinOpcodes.OP_EQUALVERIFY);
+        w.writeU8(BitcoinOpcodes.OP_CHECKSIG);
+        return w.getBuffer();
+    }
+
+    /**
+     * Create the output script of a legacy P2SH address
+     * Layout: OP_HASH160 <20 bytes> OP_EQUAL
+     */
+    public static p2shOutput(scriptHash: Uint8Array): Uint8Array {
+        if (scriptHash.length != 20) {
+            throw new Revert('Script hash must be 20 bytes');
+        }
+
+        const w = new BytesWriter(23);
+        w.writeU8(BitcoinOpcodes.OP_HASH160);
+        w.writeU8(20);
+        w.writeBytes(scriptHash);
+        w.writeU8(BitcoinOpcodes.OP_EQUAL);
+        return w.getBuffer();
+    }
+
     /**
      * Create a CSV (CheckSequenceVerify) timelock script
      * This allows coins to be locked for a certain number of blocks
@@ -299,6 +364,120 @@ export class BitcoinScript {
         return w.getBuffer().subarray(0, <i32>w.getOffset());
     }
 
+    /**
+     * Create a CLTV (CheckLockTimeVerify) absolute timelock script
+     * Layout: <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <pubkey> OP_CHECKSIG
+     *
+     * Locktimes below 500,000,000 are block heights, higher values are UNIX timestamps
+     */
+    public static cltvTimelock(pubkey: Uint8Array, locktime: i64): Uint8Array {
+        if (locktime < 0) throw new Revert('locktime must be >= 0');
+        if (locktime > 0xffffffff) throw new Revert('locktime exceeds 32-bit nLockTime field');
+
+        const sz =
+            BitcoinScript.numberSize(locktime) +
+            1 + // OP_CHECKLOCKTIMEVERIFY
+            1 + // OP_DROP
+            ScriptIO.pushPrefixSize(pubkey.length) +
+            pubkey.length +
+            1; // OP_CHECKSIG
+
+        if (sz > 10000) throw new Revert('script too large');
+
+        const w = new BytesWriter(sz);
+        BitcoinScript.writeNumber(w, locktime);
+        w.writeU8(BitcoinOpcodes.OP_CHECKLOCKTIMEVERIFY);
+        w.writeU8(BitcoinOpcodes.OP_DROP);
+        ScriptIO.writePush(w, pubkey);
+        w.writeU8(BitcoinOpcodes.OP_CHECKSIG);
+
+        return w.getBuffer().subarray(0, <i32>w.getOffset());
+    }
+
+    /**
+     * Create a hashlock script, spendable by revealing the preimage of `hash` with a signature
+     * Layout: OP_SHA256 <32-byte hash> OP_EQUALVERIFY <pubkey> OP_CHECKSIG
+     *     or: OP_HASH160 <20-byte hash> OP_EQUALVERIFY <pubkey> OP_CHECKSIG
+     *
+     * The hash opcode is chosen from the hash length
+     */
+    public static hashlock(hash: Uint8Array, pubkey: Uint8Array): Uint8Array {
+        const hashOp = BitcoinScript.hashlockOpcode(hash);
+
+        const sz =
+            BitcoinScript.hashlockSize(hash) +
+            ScriptIO.pushPrefixSize(pubkey.length) +
+            pubkey.length +
+            1; // OP_CHECKSIG
+
+        if (sz > 10000) throw new Revert('script too large');
+
+        const w = new BytesWriter(sz);
+        w.writeU8(hashOp);
+        ScriptIO.writePush(w, hash);
+        w.writeU8(BitcoinOpcodes.OP_EQUALVERIFY);
+        ScriptIO.writePush(w, pubkey);
+        w.writeU8(BitcoinOpcodes.OP_CHECKSIG);
+
+        return w.getBuffer().subarray(0, <i32>w.getOffset());
+    }
+
+    /**
+     * Create a hashed timelock contract (HTLC) script
+     * The recipient spends by revealing the preimage of `hash`; after `locktime`
+     * the refund key can spend instead
+     *
+     * Layout:
+     *   OP_IF
+     *     OP_SHA256|OP_HASH160 <hash> OP_EQUALVERIFY <recipientPubkey>
+     *   OP_ELSE
+     *     <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <refundPubkey>
+     *   OP_ENDIF
+     *   OP_CHECKSIG
+     */
+    public static htlc(
+        hash: Uint8Array,
+        recipientPubkey: Uint8Array,
+        refundPubkey: Uint8Array,
+        locktime: i64,
+    ): Uint8Array {
+        const hashOp = BitcoinScript.hashlockOpcode(hash);
+        if (locktime < 0) throw new Revert('locktime must be >= 0');
+        if (locktime > 0xffffffff) throw new Revert('locktime exceeds 32-bit nLockTime field');
+
+        const sz =
+            1 + // OP_IF
+            BitcoinScript.hashlockSize(hash) +
+            ScriptIO.pushPrefixSize(recipientPubkey.length) +
+            recipientPubkey.length +
+            1 + // OP_ELSE
+            BitcoinScript.numberSize(locktime) +
+            1 + // OP_CHECKLOCKTIMEVERIFY
+            1 + // OP_DROP
+            ScriptIO.pushPrefixSize(refundPubkey.length) +
+            refundPubkey.length +
+            1 + // OP_ENDIF
+            1; // OP_CHECKSIG
+
+        if (sz > 10000) throw new Revert('script too large');
+
+        const w = new BytesWriter(sz);
+        w.writeU8(BitcoinOpcodes.OP_IF);
+        w.writeU8(hashOp);
+        ScriptIO.writePush(w, hash);
+        w.writeU8(BitcoinOpcodes.OP_EQUALVERIFY);
+        ScriptIO.writePush(w, recipientPubkey);
+        w.writeU8(BitcoinOpcodes.OP_ELSE);
+        BitcoinScript.writeNumber(w, locktime);
+        w.writeU8(BitcoinOpcodes.OP_CHECKLOCKTIMEVERIFY);
+        w.writeU8(BitcoinOpcodes.OP_DROP);
+        ScriptIO.writePush(w, refundPubkey);
+        w.writeU8(BitcoinOpcodes.OP_ENDIF);
+        w.writeU8(BitcoinOpcodes.OP_CHECKSIG);
+
+        return w.getBuffer().subarray(0, <i32>w.getOffset());
+    }
+
     /**
      * Recognize and parse a CSV timelock script
      * Returns the CSV blocks and pubkey if the script matches the pattern
@@ -460,4 +639,213 @@ export class BitcoinScript {
 
         return new MultisigRecognize(false, 0, 0, null);
     }
+
+    /**
+     * Recognize and parse a CLTV timelock script
+     * Returns the locktime and pubkey if the script matches the pattern
+     */
+    public static recognizeCltvTimelock(
+        script: Uint8Array,
+        strictMinimal: bool = true,
+    ): CltvRecognize {
+        const r = new ScriptReader(script);
+        const fail = new CltvRecognize(false, -1, null);
+
+        const locktime = BitcoinScript.readCltvLocktime(r, strictMinimal);
+        if (locktime < 0) return fail;
+
+        const pubkey = BitcoinScript.readPubkey(r, strictMinimal);
+        if (pubkey === null) return fail;
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_CHECKSIG, strictMinimal)) return fail;
+        if (!r.done()) return fail;
+
+        return new CltvRecognize(true, locktime, pubkey);
+    }
+
+    /**
+     * Recognize and parse a SHA256 or HASH160 hashlock script
+     * Returns the hash and pubkey if the script matches the pattern
+     */
+    public static recognizeHashlock(
+        script: Uint8Array,
+        strictMinimal: bool = true,
+    ): HashlockRecognize {
+        const r = new ScriptReader(script);
+        const fail = new HashlockRecognize(false, null, null);
+
+        const hash = BitcoinScript.readHashlock(r, strictMinimal);
+        if (hash === null) return fail;
+
+        const pubkey = BitcoinScript.readPubkey(r, strictMinimal);
+        if (pubkey === null) return fail;
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_CHECKSIG, strictMinimal)) return fail;
+        if (!r.done()) return fail;
+
+        return new HashlockRecognize(true, hash, pubkey);
+    }
+
+    /**
+     * Recognize and parse an HTLC script built by htlc()
+     * Returns the hash, both pubkeys and the refund locktime if the script matches
+     */
+    public static recognizeHtlc(script: Uint8Array, strictMinimal: bool = true): HtlcRecognize {
+        const r = new ScriptReader(script);
+        const fail = new HtlcRecognize(false, null, null, null, -1);
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_IF, strictMinimal)) return fail;
+
+        const hash = BitcoinScript.readHashlock(r, strictMinimal);
+        if (hash === null) return fail;
+
+        const recipient = BitcoinScript.readPubkey(r, strictMinimal);
+        if (recipient === null) return fail;
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_ELSE, strictMinimal)) return fail;
+
+        const locktime = BitcoinScript.readCltvLocktime(r, strictMinimal);
+        if (locktime < 0) return fail;
+
+        const refund = BitcoinScript.readPubkey(r, strictMinimal);
+        if (refund === null) return fail;
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_ENDIF, strictMinimal)) return fail;
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_CHECKSIG, strictMinimal)) return fail;
+        if (!r.done()) return fail;
+
+        return new HtlcRecognize(true, hash, recipient, refund, locktime);
+    }
+
+    /**
+     * Size of a non-negative number written by writeNumber()
+     */
+    private static numberSize(n: i64): i32 {
+        if (n <= 16) return 1; // OP_0 through OP_16
+
+        const nBytes = ScriptNumber.encodedLen(n);
+        return ScriptIO.pushPrefixSize(nBytes) + nBytes;
+    }
+
+    /**
+     * Write a non-negative number as OP_0..OP_16 or a minimal push
+     */
+    private static writeNumber(w: BytesWriter, n: i64): void {
+        if (n == 0) {
+            w.writeU8(BitcoinOpcodes.OP_0);
+        } else if (n <= 16) {
+            w.writeU8(BitcoinOpcodes.opN(<i32>n));
+        } else {
+            ScriptIO.writePush(w, ScriptNumber.encode(n));
+        }
+    }
+
+    /**
+     * Opcode hashing the preimage of a hashlock, from the hash length
+     */
+    private static hashlockOpcode(hash: Uint8Array): u8 {
+        if (hash.length == 32) return BitcoinOpcodes.OP_SHA256;
+        if (hash.length == 20) return BitcoinOpcodes.OP_HASH160;
+
+        throw new Revert('hashlock hash must be 20 or 32 bytes');
+    }
+
+    /**
+     * Size of the OP_SHA256|OP_HASH160 <hash> OP_EQUALVERIFY prefix
+     */
+    private static hashlockSize(hash: Uint8Array): i32 {
+        return 1 + ScriptIO.pushPrefixSize(hash.length) + hash.length + 1;
+    }
+
+    /**
+     * Read the next instruction, or null if the script ended or is malformed
+     */
+    private static nextInstr(r: ScriptReader, strictMinimal: bool): Instr | null {
+        if (r.done()) return null;
+
+        const result = r.nextSafe(strictMinimal);
+        if (!result.success) return null;
+
+        return result.value;
+    }
+
+    /**
+     * Read the next instruction and check that it is the opcode `op`
+     */
+    private static readOp(r: ScriptReader, op: u8, strictMinimal: bool): bool {
+        const t = BitcoinScript.nextInstr(r, strictMinimal);
+        return t !== null && t.data === null && t.op == <i32>op;
+    }
+
+    /**
+     * Read a 33- or 65-byte pubkey push
+     */
+    private static readPubkey(r: ScriptReader, strictMinimal: bool): Uint8Array | null {
+        const t = BitcoinScript.nextInstr(r, strictMinimal);
+        if (t === null || t.data === null) return null;
+
+        const pk = t.data as Uint8Array;
+        if (pk.length != 33 && pk.length != 65) return null;
+
+        return pk;
+    }
+
+    /**
+     * Read OP_SHA256 <32 bytes> OP_EQUALVERIFY or OP_HASH160 <20 bytes> OP_EQUALVERIFY
+     */
+    private static readHashlock(r: ScriptReader, strictMinimal: bool): Uint8Array | null {
+        const op = BitcoinScript.nextInstr(r, strictMinimal);
+        if (op === null || op.data !== null) return null;
+
+        let hashLength: i32;
+        if (op.op == <i32>BitcoinOpcodes.OP_SHA256) {
+            hashLength = 32;
+        } else if (op.op == <i32>BitcoinOpcodes.OP_HASH160) {
+            hashLength = 20;
+        } else {
+            return null;
+        }
+
+        const t = BitcoinScript.nextInstr(r, strictMinimal);
+        if (t === null || t.data === null) return null;
+
+        const hash = t.data as Uint8Array;
+        if (hash.length != hashLength) return null;
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_EQUALVERIFY, strictMinimal)) return null;
+
+        return hash;
+    }
+
+    /**
+     * Read <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP
+     * Returns the locktime, or -1 if the instructions do not match
+     */
+    private static readCltvLocktime(r: ScriptReader, strictMinimal: bool): i64 {
+        const t = BitcoinScript.nextInstr(r, strictMinimal);
+        if (t === null) return -1;
+
+        let locktime: i64;
+        if (t.data !== null) {
+            // CLTV accepts 5-byte numbers so that locktimes cover the full 32-bit range
+            const numResult = ScriptNumber.decodeResult(t.data as Uint8Array, strictMinimal, 5);
+            if (!numResult.success || numResult.value < 0 || numResult.value > 0xffffffff) {
+                return -1;
+            }
+            locktime = numResult.value;
+        } else if (t.op >= <i32>BitcoinOpcodes.OP_1 && t.op <= <i32>BitcoinOpcodes.OP_16) {
+            locktime = <i64>(t.op - 0x50);
+        } else if (t.op == <i32>BitcoinOpcodes.OP_0) {
+            locktime = 0;
+        } else {
+            return -1;
+        }
+
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_CHECKLOCKTIMEVERIFY, strictMinimal)) {
+            return -1;
+        }
+        if (!BitcoinScript.readOp(r, BitcoinOpcodes.OP_DROP, strictMinimal)) return -1;
+
+        return locktime;
+    }
 }
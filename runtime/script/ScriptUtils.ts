@@ -18,6 +18,16 @@ export class SegwitDecoded {
     }
 }
 
+@final
+export class LegacyDecoded {
+    public version: u8;
+    public hash: Uint8Array;
+    public constructor(version: u8, hash: Uint8Array) {
+        this.version = version;
+        this.hash = hash;
+    }
+}
+
 @final
 export class CsvRecognize {
     public ok: bool;
@@ -44,6 +54,52 @@ export class MultisigRecognize {
     }
 }
 
+@final
+export class CltvRecognize {
+    public ok: bool;
+    public locktime: i64;
+    public pubkey: Uint8Array | null;
+    public constructor(ok: bool, locktime: i64, pubkey: Uint8Array | null) {
+        this.ok = ok;
+        this.locktime = locktime;
+        this.pubkey = pubkey;
+    }
+}
+
+@final
+export class HashlockRecognize {
+    public ok: bool;
+    public hash: Uint8Array | null;
+    public pubkey: Uint8Array | null;
+    public constructor(ok: bool, hash: Uint8Array | null, pubkey: Uint8Array | null) {
+        this.ok = ok;
+        this.hash = hash;
+        this.pubkey = pubkey;
+    }
+}
+
+@final
+export class HtlcRecognize {
+    public ok: bool;
+    public hash: Uint8Array | null;
+    public recipientPubkey: Uint8Array | null;
+    public refundPubkey: Uint8Array | null;
+    public locktime: i64;
+    public constructor(
+        ok: bool,
+        hash: Uint8Array | null,
+        recipientPubkey: Uint8Array | null,
+        refundPubkey: Uint8Array | null,
+        locktime: i64,
+    ) {
+        this.ok = ok;
+        this.hash = hash;
+        this.recipientPubkey = recipientPubkey;
+        this.refundPubkey = refundPubkey;
+        this.locktime = locktime;
+    }
+}
+
 @final
 export class CsvP2wshResult {
     public address: string;
@@ -64,6 +120,36 @@ export class MultisigP2wshResult {
     }
 }
 
+@final
+export class CltvP2wshResult {
+    public address: string;
+    public witnessScript: Uint8Array;
+    public constructor(address: string, ws: Uint8Array) {
+        this.address = address;
+        this.witnessScript = ws;
+    }
+}
+
+@final
+export class HashlockP2wshResult {
+    public address: string;
+    public witnessScript: Uint8Array;
+    public constructor(address: string, ws: Uint8Array) {
+        this.address = address;
+        this.witnessScript = ws;
+    }
+}
+
+@final
+export class HtlcP2wshResult {
+    public address: string;
+    public witnessScript: Uint8Array;
+    public constructor(address: string, ws: Uint8Array) {
+        this.address = address;
+        this.witnessScript = ws;
+    }
+}
+
 @final
 export class CsvPairCrossCheck {
     public ok: bool;
@@ -99,3 +185,31 @@ export class MultisigPairCrossCheck {
         this.address = address;
     }
 }
+
+@final
+export class HtlcPairCrossCheck {
+    public ok: bool;
+    public address: string;
+    public witnessScript: Uint8Array;
+    public hash: Uint8Array | null;
+    public recipientPubkey: Uint8Array | null;
+    public refundPubkey: Uint8Array | null;
+    public locktime: i64;
+    public constructor(
+        ok: bool,
+        address: string,
+        witnessScript: Uint8Array,
+        hash: Uint8Array | null,
+        recipientPubkey: Uint8Array | null,
+        refundPubkey: Uint8Array | null,
+        locktime: i64,
+    ) {
+        this.ok = ok;
+        this.address = address;
+        this.witnessScript = witnessScript;
+        this.hash = hash;
+        this.recipientPubkey = recipientPubkey;
+        this.refundPubkey = refundPubkey;
+        this.locktime = locktime;
+    }
+}
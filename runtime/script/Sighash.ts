@@ -0,0 +1,396 @@
+import { BytesWriter } from '../buffer/BytesWriter';
+import { hash256, sha256 } from '../env/global';
+import { Revert } from '../types/Revert';
+import { BitcoinOpcodes } from './Opcodes';
+import { RawTransaction, RawTxInput, RawTxOutput } from './RawTransaction';
+import { ScriptReader } from './reader/ScriptReader';
+import { TAPROOT_ANNEX_TAG, Taproot } from './Taproot';
+
+/** Taproot only: behaves like SIGHASH_ALL, but the type byte is omitted from the signature */
+export const SIGHASH_DEFAULT: u8 = 0x00;
+export const SIGHASH_ALL: u8 = 0x01;
+export const SIGHASH_NONE: u8 = 0x02;
+export const SIGHASH_SINGLE: u8 = 0x03;
+export const SIGHASH_ANYONECANPAY: u8 = 0x80;
+
+/** Code separator position committed by taproot sighashes when none was executed */
+export const TAPROOT_NO_CODESEPARATOR: u32 = 0xffffffff;
+
+const SIGHASH_OUTPUT_MASK: u32 = 0x1f;
+
+/**
+ * Sighash computes the message a Bitcoin signature commits to for one input of a
+ * transaction, so contracts can check pre-signed transactions with
+ * `Blockchain.verifySchnorrSignature` or `Blockchain.verifyBitcoinECDSASignature`.
+ *
+ * - `legacy`: pre-segwit inputs (P2PKH, P2SH, bare scripts)
+ * - `segwitV0`: BIP143, for P2WPKH and P2WSH inputs
+ * - `taproot`: BIP341, for key-path spends and, with a leaf hash, BIP342 script-path spends
+ *
+ * All sighash types are supported, including SIGHASH_ANYONECANPAY combinations. Results
+ * are 32-byte hashes in the byte order signatures are made over.
+ */
+@final
+export class Sighash {
+    /**
+     * Legacy signature hash: HASH256 of the transaction with every scriptSig cleared,
+     * the signed input's scriptSig replaced by the script code, and the hash type appended
+     *
+     * @param tx - The spending transaction
+     * @param inputIndex - Index of the input being signed
+     * @param scriptCode - The script being executed: the previous output script, or the
+     *                     redeem script for P2SH. OP_CODESEPARATORs are removed.
+     * @param hashType - Sighash type, taken from the last byte of the signature
+     */
+    public static legacy(
+        tx: RawTransaction,
+        inputIndex: i32,
+        scriptCode: Uint8Array,
+        hashType: u32,
+    ): Uint8Array {
+        Sighash.checkInputIndex(tx, inputIndex);
+
+        const base = hashType & SIGHASH_OUTPUT_MASK;
+        const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) != 0;
+
+        // Historical quirk: signing an input without a matching output signs the number one
+        if (base == SIGHASH_SINGLE && inputIndex >= tx.outputs.length) {
+            const one = new Uint8Array(32);
+            one[0] = 1;
+            return one;
+        }
+
+        const copy = new RawTransaction(tx.version, tx.lockTime);
+        const code = Sighash.removeCodeSeparators(scriptCode);
+        const empty = new Uint8Array(0);
+
+        for (let i = 0; i < tx.inputs.length; i++) {
+            if (anyoneCanPay && i != inputIndex) continue;
+
+            const input = tx.inputs[i];
+            const sequence =
+                i != inputIndex && (base == SIGHASH_NONE || base == SIGHASH_SINGLE)
+                    ? 0
+                    : input.sequence;
+
+            copy.addInput(input.txId, input.outputIndex, i == inputIndex ? code : empty, sequence);
+        }
+
+        if (base == SIGHASH_SINGLE) {
+            for (let i = 0; i < inputIndex; i++) {
+                copy.addOutput(u64.MAX_VALUE, empty);
+            }
+            copy.addOutput(tx.outputs[inputIndex].value, tx.outputs[inputIndex].scriptPubKey);
+        } else if (base != SIGHASH_NONE) {
+            for (let i = 0; i < tx.outputs.length; i++) {
+                copy.addOutput(tx.outputs[i].value, tx.outputs[i].scriptPubKey);
+            }
+        }
+
+        const serialized = copy.serialize(false);
+        const w = new BytesWriter(serialized.length + 4);
+        w.writeBytes(serialized);
+        w.writeU32(hashType, false);
+
+        return hash256(w.getBuffer());
+    }
+
+    /**
+     * BIP143 signature hash of a segwit v0 input
+     *
+     * @param tx - The spending transaction
+     * @param inputIndex - Index of the input being signed
+     * @param scriptCode - The witness script for P2WSH, or `Sighash.p2wpkhScriptCode`
+     *                     of the key hash for P2WPKH
+     * @param value - Value in satoshis of the output being spent
+     * @param hashType - Sighash type, taken from the last byte of the signature
+     */
+    public static segwitV0(
+        tx: RawTransaction,
+        inputIndex: i32,
+        scriptCode: Uint8Array,
+        value: u64,
+        hashType: u32,
+    ): Uint8Array {
+        Sighash.checkInputIndex(tx, inputIndex);
+
+        const base = hashType & SIGHASH_OUTPUT_MASK;
+        const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) != 0;
+        const zero = new Uint8Array(32);
+
+        const hashPrevouts = anyoneCanPay ? zero : hash256(Sighash.prevouts(tx));
+        const hashSequence =
+            anyoneCanPay || base == SIGHASH_SINGLE || base == SIGHASH_NONE
+                ? zero
+                : hash256(Sighash.sequences(tx));
+
+        let hashOutputs = zero;
+        if (base != SIGHASH_SINGLE && base != SIGHASH_NONE) {
+            hashOutputs = hash256(Sighash.outputs(tx.outputs));
+        } else if (base == SIGHASH_SINGLE && inputIndex < tx.outputs.length) {
+            hashOutputs = hash256(Sighash.outputs([tx.outputs[inputIndex]]));
+        }
+
+        const input = tx.inputs[inputIndex];
+        const w = new BytesWriter(
+            156 + RawTransaction.compactSizeLength(scriptCode.length) + scriptCode.length,
+        );
+
+        w.writeI32(tx.version, false);
+        w.writeBytes(hashPrevouts);
+        w.writeBytes(hashSequence);
+        Sighash.writeOutpoint(w, input);
+        RawTransaction.writeCompactSize(w, scriptCode.length);
+        w.writeBytes(scriptCode);
+        w.writeU64(value, false);
+        w.writeU32(input.sequence, false);
+        w.writeBytes(hashOutputs);
+        w.writeU32(tx.lockTime, false);
+        w.writeU32(hashType, false);
+
+        return hash256(w.getBuffer());
+    }
+
+    /**
+     * BIP341 signature hash of a taproot input
+     *
+     * @param tx - The spending transaction
+     * @param inputIndex - Index of the input being signed
+     * @param prevouts - The outputs spent by every input of `tx`, in input order
+     * @param hashType - Sighash type: SIGHASH_DEFAULT, or ALL, NONE or SINGLE optionally
+     *                   combined with SIGHASH_ANYONECANPAY
+     * @param leafHash - TapLeaf hash of the executed script for script-path spends,
+     *                   null for key-path spends
+     * @param annex - The annex witness element (starting with 0x50), if present
+     * @param codeSeparatorPos - Opcode position of the last executed OP_CODESEPARATOR
+     *                           in a script-path spend
+     * @throws {Revert} If the hash type is invalid, prevouts do not match the inputs, or
+     *                  SIGHASH_SINGLE is used without a matching output
+     */
+    public static taproot(
+        tx: RawTransaction,
+        inputIndex: i32,
+        prevouts: RawTxOutput[],
+        hashType: u8 = SIGHASH_DEFAULT,
+        leafHash: Uint8Array | null = null,
+        annex: Uint8Array | null = null,
+        codeSeparatorPos: u32 = TAPROOT_NO_CODESEPARATOR,
+    ): Uint8Array {
+        Sighash.checkInputIndex(tx, inputIndex);
+
+        if (prevouts.length != tx.inputs.length) {
+            throw new Revert('Prevouts do not match inputs');
+        }
+
+        const base = hashType & 0x03;
+        const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) != 0;
+        if (hashType != SIGHASH_DEFAULT && ((hashType & 0x7c) != 0 || base == 0)) {
+            throw new Revert('Invalid sighash type');
+        }
+
+        if (base == SIGHASH_SINGLE && inputIndex >= tx.outputs.length) {
+            throw new Revert('No output for SIGHASH_SINGLE');
+        }
+
+        if (leafHash !== null && leafHash.length != 32) {
+            throw new Revert('Invalid leaf hash');
+        }
+
+        if (annex !== null && (annex.length == 0 || annex[0] != TAPROOT_ANNEX_TAG)) {
+            throw new Revert('Invalid annex');
+        }
+
+        const w = new BytesWriter(Sighash.taprootMessageSize(prevouts[inputIndex], anyoneCanPay));
+
+        // Sighash epoch
+        w.writeU8(0);
+        w.writeU8(hashType);
+        w.writeI32(tx.version, false);
+        w.writeU32(tx.lockTime, false);
+
+        if (!anyoneCanPay) {
+            w.writeBytes(sha256(Sighash.prevouts(tx)));
+            w.writeBytes(sha256(Sighash.amounts(prevouts)));
+            w.writeBytes(sha256(Sighash.scriptPubKeys(prevouts)));
+            w.writeBytes(sha256(Sighash.sequences(tx)));
+        }
+
+        if (base != SIGHASH_NONE && base != SIGHASH_SINGLE) {
+            w.writeBytes(sha256(Sighash.outputs(tx.outputs)));
+        }
+
+        // Spend type: ext_flag * 2 + annex_present
+        const extFlag: u8 = leafHash !== null ? 1 : 0;
+        w.writeU8(<u8>(extFlag * 2 + (annex !== null ? 1 : 0)));
+
+        if (anyoneCanPay) {
+            const input = tx.inputs[inputIndex];
+            const prevout = prevouts[inputIndex];
+
+            Sighash.writeOutpoint(w, input);
+            w.writeU64(prevout.value, false);
+            RawTransaction.writeCompactSize(w, prevout.scriptPubKey.length);
+            w.writeBytes(prevout.scriptPubKey);
+            w.writeU32(input.sequence, false);
+        } else {
+            w.writeU32(<u32>inputIndex, false);
+        }
+
+        if (annex !== null) {
+            const a = new BytesWriter(
+                RawTransaction.compactSizeLength(annex.length) + annex.length,
+            );
+            RawTransaction.writeCompactSize(a, annex.length);
+            a.writeBytes(annex);
+            w.writeBytes(sha256(a.getBuffer()));
+        }
+
+        if (base == SIGHASH_SINGLE) {
+            w.writeBytes(sha256(Sighash.outputs([tx.outputs[inputIndex]])));
+        }
+
+        if (leafHash !== null) {
+            w.writeBytes(leafHash);
+            // Key version
+            w.writeU8(0);
+            w.writeU32(codeSeparatorPos, false);
+        }
+
+        const message = w.getBuffer().subarray(0, <i32>w.getOffset());
+        return Taproot.taggedHash('TapSighash', message);
+    }
+
+    /**
+     * Script code of a P2WPKH input: OP_DUP OP_HASH160 <pubkeyHash> OP_EQUALVERIFY OP_CHECKSIG
+     */
+    public static p2wpkhScriptCode(pubkeyHash: Uint8Array): Uint8Array {
+        if (pubkeyHash.length != 20) {
+            throw new Revert('Public key hash must be 20 bytes');
+        }
+
+        const w = new BytesWriter(25);
+        w.writeU8(BitcoinOpcodes.OP_DUP);
+        w.writeU8(BitcoinOpcodes.OP_HASH160);
+        w.writeU8(20);
+        w.writeBytes(pubkeyHash);
+        w.writeU8(BitcoinOpcodes.OP_EQUALVERIFY);
+        w.writeU8(BitcoinOpcodes.OP_CHECKSIG);
+        return w.getBuffer();
+    }
+
+    private static checkInputIndex(tx: RawTransaction, inputIndex: i32): void {
+        if (inputIndex < 0 || inputIndex >= tx.inputs.length) {
+            throw new Revert('Input index out of range');
+        }
+    }
+
+    private static writeOutpoint(w: BytesWriter, input: RawTxInput): void {
+        w.writeBytes(input.txId);
+        w.writeU32(input.outputIndex, false);
+    }
+
+    private static prevouts(tx: RawTransaction): Uint8Array {
+        const w = new BytesWriter(36 * tx.inputs.length);
+        for (let i = 0; i < tx.inputs.length; i++) {
+            Sighash.writeOutpoint(w, tx.inputs[i]);
+        }
+
+        return w.getBuffer();
+    }
+
+    private static sequences(tx: RawTransaction): Uint8Array {
+        const w = new BytesWriter(4 * tx.inputs.length);
+        for (let i = 0; i < tx.inputs.length; i++) {
+            w.writeU32(tx.inputs[i].sequence, false);
+        }
+
+        return w.getBuffer();
+    }
+
+    private static amounts(prevouts: RawTxOutput[]): Uint8Array {
+        const w = new BytesWriter(8 * prevouts.length);
+        for (let i = 0; i < prevouts.length; i++) {
+            w.writeU64(prevouts[i].value, false);
+        }
+
+        return w.getBuffer();
+    }
+
+    private static scriptPubKeys(prevouts: RawTxOutput[]): Uint8Array {
+        let size = 0;
+        for (let i = 0; i < prevouts.length; i++) {
+            const length = prevouts[i].scriptPubKey.length;
+            size += RawTransaction.compactSizeLength(length) + length;
+        }
+
+        const w = new BytesWriter(size);
+        for (let i = 0; i < prevouts.length; i++) {
+            const script = prevouts[i].scriptPubKey;
+            RawTransaction.writeCompactSize(w, script.length);
+            w.writeBytes(script);
+        }
+
+        return w.getBuffer();
+    }
+
+    private static outputs(outputs: RawTxOutput[]): Uint8Array {
+        let size = 0;
+        for (let i = 0; i < outputs.length; i++) {
+            const length = outputs[i].scriptPubKey.length;
+            size += 8 + RawTransaction.compactSizeLength(length) + length;
+        }
+
+        const w = new BytesWriter(size);
+        for (let i = 0; i < outputs.length; i++) {
+            const script = outputs[i].scriptPubKey;
+            w.writeU64(outputs[i].value, false);
+            RawTransaction.writeCompactSize(w, script.length);
+            w.writeBytes(script);
+        }
+
+        return w.getBuffer();
+    }
+
+    /**
+     * Upper bound of the taproot sighash message: every optional field included
+     */
+    private static taprootMessageSize(prevout: RawTxOutput, anyoneCanPay: bool): i32 {
+        const scriptLength = prevout.scriptPubKey.length;
+
+        // Epoch, hash type, version, lock time, spend type, the outputs, annex and single
+        // output hashes, then leaf hash, key version and code separator position
+        let size = 1 + 1 + 4 + 4 + 1 + 3 * 32 + 32 + 1 + 4;
+        if (anyoneCanPay) {
+            size += 36 + 8 + RawTransaction.compactSizeLength(scriptLength) + scriptLength + 4;
+        } else {
+            size += 4 * 32 + 4;
+        }
+
+        return size;
+    }
+
+    /**
+     * Copy of a script without its OP_CODESEPARATORs. Bytes after an unparsable
+     * push are kept as they are.
+     */
+    private static removeCodeSeparators(script: Uint8Array): Uint8Array {
+        const reader = new ScriptReader(script);
+        const w = new BytesWriter(script.length);
+
+        while (!reader.done()) {
+            const start = reader.getPosition();
+            const result = reader.nextSafe(false);
+            if (!result.success) {
+                w.writeBytes(script.subarray(start));
+                break;
+            }
+
+            const instr = result.value!;
+            if (instr.op == <i32>BitcoinOpcodes.OP_CODESEPARATOR) continue;
+
+            w.writeBytes(script.subarray(start, reader.getPosition()));
+        }
+
+        return w.getBuffer().slice(0, <i32>w.getOffset());
+    }
+}
@@ -0,0 +1,388 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { sha256, sha256String } from '../env/global';
+import { TransactionInput } from '../env/classes/UTXO';
+import { ECPoint, N } from '../secp256k1/ECPoint';
+import { Revert } from '../types/Revert';
+
+/** Leaf version of BIP342 tapscript leaves */
+export const TAPSCRIPT_LEAF_VERSION: u8 = 0xc0;
+
+/** First byte of an annex, the optional last witness element of a taproot spend */
+export const TAPROOT_ANNEX_TAG: u8 = 0x50;
+
+export const TAPROOT_CONTROL_BASE_SIZE: i32 = 33;
+export const TAPROOT_CONTROL_NODE_SIZE: i32 = 32;
+export const TAPROOT_CONTROL_MAX_NODE_COUNT: i32 = 128;
+
+const TAPROOT_LEAF_MASK: u8 = 0xfe;
+
+/**
+ * A tweaked taproot output key: the x-only key committed in the P2TR output
+ * and the parity of its y coordinate, which script-path control blocks carry.
+ */
+@final
+export class TaprootOutputKey {
+    public constructor(
+        public readonly outputKey: Uint8Array,
+        public readonly parity: u8,
+    ) {}
+}
+
+/**
+ * A BIP341 control block, the last witness element (before any annex) of a script-path spend.
+ *
+ * Layout: one byte holding the leaf version and the output key parity, the 32-byte internal
+ * key, then up to 128 32-byte Merkle path nodes from the leaf up to the root.
+ */
+@final
+export class TaprootControlBlock {
+    public constructor(
+        public readonly leafVersion: u8,
+        public readonly outputKeyParity: u8,
+        public readonly internalKey: Uint8Array,
+        public readonly path: Uint8Array[],
+    ) {}
+
+    /**
+     * Parse a serialized control block, or return null if its length is invalid
+     */
+    public static parseOrNull(bytes: Uint8Array): TaprootControlBlock | null {
+        const len = bytes.length;
+        if (len < TAPROOT_CONTROL_BASE_SIZE) return null;
+        if ((len - TAPROOT_CONTROL_BASE_SIZE) % TAPROOT_CONTROL_NODE_SIZE != 0) return null;
+
+        const nodeCount = (len - TAPROOT_CONTROL_BASE_SIZE) / TAPROOT_CONTROL_NODE_SIZE;
+        if (nodeCount > TAPROOT_CONTROL_MAX_NODE_COUNT) return null;
+
+        const path = new Array<Uint8Array>(nodeCount);
+        for (let i = 0; i < nodeCount; i++) {
+            const offset = TAPROOT_CONTROL_BASE_SIZE + i * TAPROOT_CONTROL_NODE_SIZE;
+            path[i] = bytes.slice(offset, offset + TAPROOT_CONTROL_NODE_SIZE);
+        }
+
+        return new TaprootControlBlock(
+            bytes[0] & TAPROOT_LEAF_MASK,
+            bytes[0] & 1,
+            bytes.slice(1, TAPROOT_CONTROL_BASE_SIZE),
+            path,
+        );
+    }
+
+    /**
+     * Parse a serialized control block
+     *
+     * @throws {Revert} If the length is not 33 + 32m bytes with m <= 128
+     */
+    public static parse(bytes: Uint8Array): TaprootControlBlock {
+        const block = TaprootControlBlock.parseOrNull(bytes);
+        if (block === null) {
+            throw new Revert('Invalid control block');
+        }
+
+        return block;
+    }
+
+    /**
+     * Serialize the control block
+     */
+    public encode(): Uint8Array {
+        const out = new Uint8Array(
+            TAPROOT_CONTROL_BASE_SIZE + this.path.length * TAPROOT_CONTROL_NODE_SIZE,
+        );
+        out[0] = (this.leafVersion & TAPROOT_LEAF_MASK) | (this.outputKeyParity & 1);
+        out.set(this.internalKey, 1);
+
+        for (let i = 0; i < this.path.length; i++) {
+            out.set(this.path[i], TAPROOT_CONTROL_BASE_SIZE + i * TAPROOT_CONTROL_NODE_SIZE);
+        }
+
+        return out;
+    }
+}
+
+/**
+ * Taproot (BIP340/341) commitments.
+ *
+ * Script leaves are hashed with the TapLeaf tagged hash and combined pairwise with TapBranch
+ * into a Merkle root. The root tweaks the x-only internal key into the output key of the
+ * P2TR output. A script-path spend reveals the leaf script and a control block, which are
+ * enough to recompute the output key and check it against the one being spent.
+ *
+ * @example
+ * ```typescript
+ * const leaves = [Taproot.leafHash(ownerScript), Taproot.leafHash(recoveryScript)];
+ * const output = Taproot.tweakPublicKey(internalKey, Taproot.merkleRoot(leaves));
+ *
+ * // Later: require an input that spends the vault through its recovery leaf
+ * if (!Taproot.inputSpendsLeaf(input, output.outputKey, recoveryScript)) {
+ *     throw new Revert('Recovery path not used');
+ * }
+ * ```
+ */
+@final
+export class Taproot {
+    /**
+     * BIP340 tagged hash: sha256(sha256(tag) || sha256(tag) || data)
+     */
+    public static taggedHash(tag: string, data: Uint8Array): Uint8Array {
+        const tagHash = sha256String(tag);
+        const buf = new Uint8Array(64 + data.length);
+        buf.set(tagHash, 0);
+        buf.set(tagHash, 32);
+        buf.set(data, 64);
+
+        return sha256(buf);
+    }
+
+    /**
+     * TapLeaf hash of a script: leaf version, compact-size script length, then the script
+     */
+    public static leafHash(
+        script: Uint8Array,
+        leafVersion: u8 = TAPSCRIPT_LEAF_VERSION,
+    ): Uint8Array {
+        const len = script.length;
+        const prefix = len < 0xfd ? 1 : len <= 0xffff ? 3 : 5;
+        const buf = new Uint8Array(1 + prefix + len);
+        buf[0] = leafVersion & TAPROOT_LEAF_MASK;
+
+        if (prefix == 1) {
+            buf[1] = <u8>len;
+        } else if (prefix == 3) {
+            buf[1] = 0xfd;
+            buf[2] = <u8>(len & 0xff);
+            buf[3] = <u8>((len >> 8) & 0xff);
+        } else {
+            buf[1] = 0xfe;
+            buf[2] = <u8>(len & 0xff);
+            buf[3] = <u8>((len >> 8) & 0xff);
+            buf[4] = <u8>((len >> 16) & 0xff);
+            buf[5] = <u8>((len >> 24) & 0xff);
+        }
+
+        buf.set(script, 1 + prefix);
+        return Taproot.taggedHash('TapLeaf', buf);
+    }
+
+    /**
+     * TapBranch hash of two child nodes, taken in lexicographic order
+     */
+    public static branchHash(a: Uint8Array, b: Uint8Array): Uint8Array {
+        if (a.length != 32 || b.length != 32) {
+            throw new Revert('Invalid taproot node');
+        }
+
+        const buf = new Uint8Array(64);
+        if (Taproot.compare(a, b) <= 0) {
+            buf.set(a, 0);
+            buf.set(b, 32);
+        } else {
+            buf.set(b, 0);
+            buf.set(a, 32);
+        }
+
+        return Taproot.taggedHash('TapBranch', buf);
+    }
+
+    /**
+     * Merkle root of a list of leaf hashes.
+     *
+     * Adjacent nodes are paired level by level; an odd last node moves up unchanged.
+     * Build control blocks for the same tree with merklePath().
+     *
+     * @throws {Revert} If the list is empty
+     */
+    public static merkleRoot(leafHashes: Uint8Array[]): Uint8Array {
+        if (leafHashes.length == 0) {
+            throw new Revert('No taproot leaves');
+        }
+
+        let level = leafHashes;
+        while (level.length > 1) {
+            level = Taproot.nextLevel(level);
+        }
+
+        return level[0];
+    }
+
+    /**
+     * Merkle path of the leaf at `index` in the tree built by merkleRoot()
+     *
+     * @throws {Revert} If the index is out of range
+     */
+    public static merklePath(leafHashes: Uint8Array[], index: i32): Uint8Array[] {
+        if (index < 0 || index >= leafHashes.length) {
+            throw new Revert('Taproot leaf index out of range');
+        }
+
+        const path = new Array<Uint8Array>();
+        let level = leafHashes;
+        let position = index;
+        while (level.length > 1) {
+            const sibling = position ^ 1;
+            if (sibling < level.length) {
+                path.push(level[sibling]);
+            }
+
+            level = Taproot.nextLevel(level);
+            position >>= 1;
+        }
+
+        return path;
+    }
+
+    /**
+     * Merkle root reached from a leaf hash by hashing it with each path node in turn
+     */
+    public static rootFromPath(leafHash: Uint8Array, path: Uint8Array[]): Uint8Array {
+        let node = leafHash;
+        for (let i = 0; i < path.length; i++) {
+            node = Taproot.branchHash(node, path[i]);
+        }
+
+        return node;
+    }
+
+    /**
+     * Tweak an x-only internal key with a Merkle root, or with nothing for key-path-only outputs.
+     *
+     * Q = lift_x(P) + int(TapTweak(P || root)) * G
+     *
+     * @throws {Revert} If the internal key is not on the curve or the tweak is out of range
+     */
+    public static tweakPublicKey(
+        internalKey: Uint8Array,
+        merkleRoot: Uint8Array | null = null,
+    ): TaprootOutputKey {
+        if (internalKey.length != 32) {
+            throw new Revert('Invalid internal key');
+        }
+
+        const root = merkleRoot;
+        const rootLength = root === null ? 0 : root.length;
+        if (rootLength != 0 && rootLength != 32) {
+            throw new Revert('Invalid taproot merkle root');
+        }
+
+        const data = new Uint8Array(32 + rootLength);
+        data.set(internalKey, 0);
+        if (root !== null) {
+            data.set(<Uint8Array>root, 32);
+        }
+
+        const tweak = u256.fromUint8ArrayBE(Taproot.taggedHash('TapTweak', data));
+        if (u256.ge(tweak, N)) {
+            throw new Revert('Invalid taproot tweak');
+        }
+
+        const point = ECPoint.liftX(u256.fromUint8ArrayBE(internalKey));
+        const output = ECPoint.add(point, ECPoint.scalarMultiply(ECPoint.G, tweak));
+        if (output.isInfinity) {
+            throw new Revert('Invalid taproot tweak');
+        }
+
+        return new TaprootOutputKey(output.x.toUint8Array(true), <u8>(output.y.lo1 & 1));
+    }
+
+    /**
+     * Build the control block that proves the leaf at `index` is committed in the output key
+     */
+    public static controlBlock(
+        internalKey: Uint8Array,
+        leafHashes: Uint8Array[],
+        index: i32,
+        leafVersion: u8 = TAPSCRIPT_LEAF_VERSION,
+    ): TaprootControlBlock {
+        const path = Taproot.merklePath(leafHashes, index);
+        const output = Taproot.tweakPublicKey(internalKey, Taproot.merkleRoot(leafHashes));
+
+        return new TaprootControlBlock(leafVersion, output.parity, internalKey, path);
+    }
+
+    /**
+     * Check whether a witness stack spends `script` through the script path of `outputKey`.
+     *
+     * The annex is ignored. The revealed script must equal `script`, the control block leaf
+     * version must equal `leafVersion`, and the internal key tweaked with the root rebuilt
+     * from the control block must give `outputKey` with the parity the control block claims.
+     */
+    public static verifyScriptPathSpend(
+        witnesses: Uint8Array[],
+        outputKey: Uint8Array,
+        script: Uint8Array,
+        leafVersion: u8 = TAPSCRIPT_LEAF_VERSION,
+    ): bool {
+        if (outputKey.length != 32) return false;
+
+        let count = witnesses.length;
+        if (count >= 2) {
+            const last = witnesses[count - 1];
+            if (last.length > 0 && last[0] == TAPROOT_ANNEX_TAG) {
+                count--;
+            }
+        }
+
+        // A single element is a key-path signature
+        if (count < 2) return false;
+
+        const revealed = witnesses[count - 2];
+        if (!Taproot.bytesEqual(revealed, script)) return false;
+
+        const block = TaprootControlBlock.parseOrNull(witnesses[count - 1]);
+        if (block === null) return false;
+        if (block.leafVersion != (leafVersion & TAPROOT_LEAF_MASK)) return false;
+
+        const root = Taproot.rootFromPath(Taproot.leafHash(script, leafVersion), block.path);
+        const expected = Taproot.tweakPublicKey(block.internalKey, root);
+
+        return (
+            expected.parity == block.outputKeyParity &&
+            Taproot.bytesEqual(expected.outputKey, outputKey)
+        );
+    }
+
+    /**
+     * Check whether a transaction input spends `script` through the script path of `outputKey`
+     */
+    public static inputSpendsLeaf(
+        input: TransactionInput,
+        outputKey: Uint8Array,
+        script: Uint8Array,
+        leafVersion: u8 = TAPSCRIPT_LEAF_VERSION,
+    ): bool {
+        const witnesses = input.witnesses;
+        if (witnesses === null) return false;
+
+        return Taproot.verifyScriptPathSpend(witnesses, outputKey, script, leafVersion);
+    }
+
+    private static nextLevel(level: Uint8Array[]): Uint8Array[] {
+        const next = new Array<Uint8Array>((level.length + 1) >> 1);
+        for (let i = 0; i < next.length; i++) {
+            const left = i << 1;
+            next[i] =
+                left + 1 < level.length
+                    ? Taproot.branchHash(level[left], level[left + 1])
+                    : level[left];
+        }
+
+        return next;
+    }
+
+    private static compare(a: Uint8Array, b: Uint8Array): i32 {
+        for (let i = 0; i < 32; i++) {
+            if (a[i] != b[i]) return a[i] < b[i] ? -1 : 1;
+        }
+
+        return 0;
+    }
+
+    private static bytesEqual(a: Uint8Array, b: Uint8Array): bool {
+        if (a.length != b.length) return false;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] != b[i]) return false;
+        }
+
+        return true;
+    }
+}
@@ -1,5 +1,6 @@
 import { u256 } from '@btc-vision/as-bignum/assembly';
 import { SafeMath } from '../types/SafeMath';
+import { Revert } from '../types/Revert';
 
 // secp256k1 prime (little-endian): 0xFFFFFFFF_FFFFFFFF_FFFFFFFF_FFFFFFFF_FFFFFFFF_FFFFFFFF_FFFFFFFE_FFFFFC2F
 const P_BYTES: u8[] = [
@@ -9,8 +10,8 @@ const P_BYTES: u8[] = [
 
 // Gx (little-endian) = 79BE667E...F81798 reversed
 const GX_BYTES: u8[] = [
-    0x98, 0x17, 0xf8, 0x16, 0xb1, 0x5b, 0x28, 0xd9, 0x59, 0x28, 0xce, 0x2d, 0xdb, 0xfc, 0x9b, 0x02,
-    0x70, 0xb0, 0x87, 0xce, 0x95, 0xa0, 0x62, 0x55, 0xac, 0xbb, 0xdc, 0xf9, 0xef, 0x66, 0xbe, 0x79,
+    0x98, 0x17, 0xf8, 0x16, 0x5b, 0x81, 0xf2, 0x59, 0xd9, 0x28, 0xce, 0x2d, 0xdb, 0xfc, 0x9b, 0x02,
+    0x07, 0x0b, 0x87, 0xce, 0x95, 0x62, 0xa0, 0x55, 0xac, 0xbb, 0xdc, 0xf9, 0x7e, 0x66, 0xbe, 0x79,
 ];
 
 // Big-endian:  48 3A DA 77 26 A3 C4 65 5D A4 FB FC 0E 11 08 A8 FD 17 B4 48 A6 85 54 19 9C 47 D0 8F FB 10 D4 B8
@@ -24,6 +25,53 @@ export const P = u256.fromBytesLE(P_BYTES);
 export const GX = u256.fromBytesLE(GX_BYTES);
 export const GY = u256.fromBytesLE(GY_BYTES);
 
+// secp256k1 group order (little-endian): 0xFFFFFFFF_FFFFFFFF_FFFFFFFF_FFFFFFFE_BAAEDCE6_AF48A03B_BFD25E8C_D0364141
+const N_BYTES: u8[] = [
+    0x41, 0x41, 0x36, 0xd0, 0x8c, 0x5e, 0xd2, 0xbf, 0x3b, 0xa0, 0x48, 0xaf, 0xe6, 0xdc, 0xae, 0xba,
+    0xfe, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+];
+
+export const N = u256.fromBytesLE(N_BYTES);
+
+// (P + 1) / 4, the exponent of the square root in the field since P ≡ 3 (mod 4)
+const SQRT_EXPONENT = u256.shr(u256.add(P, u256.One), 2);
+const SEVEN = u256.fromU64(7);
+
+// ----------------------------
+// Field arithmetic modulo P.
+// Operands are always reduced, so sums and products never overflow u256.
+// ----------------------------
+function fieldAdd(a: u256, b: u256): u256 {
+    const pMinusB = u256.sub(P, b);
+    return u256.ge(a, pMinusB) ? u256.sub(a, pMinusB) : u256.add(a, b);
+}
+
+function fieldSub(a: u256, b: u256): u256 {
+    return u256.ge(a, b) ? u256.sub(a, b) : u256.sub(P, u256.sub(b, a));
+}
+
+function fieldMul(a: u256, b: u256): u256 {
+    return SafeMath.mulmod(a, b, P);
+}
+
+function fieldPow(base: u256, exponent: u256): u256 {
+    let result = u256.One;
+    let b = base;
+    let e = exponent;
+
+    while (!e.isZero()) {
+        if ((e.lo1 & 1) != 0) {
+            result = fieldMul(result, b);
+        }
+        e = u256.shr(e, 1);
+        if (!e.isZero()) {
+            b = fieldMul(b, b);
+        }
+    }
+
+    return result;
+}
+
 // Representing a point (x, y) on secp256k1
 export class ECPoint {
     x: u256;
@@ -34,6 +82,41 @@ export class ECPoint {
         this.y = y;
     }
 
+    /**
+     * The generator point G.
+     */
+    public static get G(): ECPoint {
+        return new ECPoint(GX, GY);
+    }
+
+    /**
+     * Whether this is the point at infinity, encoded as (0, 0).
+     */
+    public get isInfinity(): bool {
+        return this.x.isZero() && this.y.isZero();
+    }
+
+    /**
+     * Returns the point with the given x coordinate and an even y coordinate,
+     * as BIP340 does for x-only public keys.
+     *
+     * @throws {Revert} If x is not the x coordinate of a point on the curve
+     */
+    public static liftX(x: u256): ECPoint {
+        if (u256.ge(x, P)) {
+            throw new Revert('Invalid x coordinate');
+        }
+
+        // y^2 = x^3 + 7 mod P
+        const c = fieldAdd(fieldMul(fieldMul(x, x), x), SEVEN);
+        const y = fieldPow(c, SQRT_EXPONENT);
+        if (fieldMul(y, y) != c) {
+            throw new Revert('Invalid x coordinate');
+        }
+
+        return new ECPoint(x, SafeMath.isEven(y) ? y : u256.sub(P, y));
+    }
+
     // ----------------------------
     // Point Doubling: 2P = P + P
     // (for y^2 = x^3 + 7 with a=0)
@@ -47,29 +130,28 @@ export class ECPoint {
             return new ECPoint(u256.Zero, u256.Zero); // "Point at infinity" convention
         }
 
-        const two = u256.fromU64(2);
         const three = u256.fromU64(3);
 
         // numerator = 3*x^2 mod P
-        const xSquared = SafeMath.pow(p.x, two);
-        const numerator = SafeMath.mod(SafeMath.mul(three, xSquared), P);
+        const xSquared = fieldMul(p.x, p.x);
+        const numerator = fieldMul(three, xSquared);
 
         // denominator = (2*y)^-1 mod P
-        const twoY = SafeMath.mul(two, p.y);
+        const twoY = fieldAdd(p.y, p.y);
         const denominatorInv = SafeMath.modInverse(twoY, P);
 
         // λ = numerator * denominator^-1 mod P
-        const lambda = SafeMath.mod(SafeMath.mul(numerator, denominatorInv), P);
+        const lambda = fieldMul(numerator, denominatorInv);
 
         // xr = λ^2 - 2x mod P
-        const lambdaSquared = SafeMath.pow(lambda, two);
-        const twoX = SafeMath.mul(two, p.x);
-        const xr = SafeMath.mod(SafeMath.sub(lambdaSquared, twoX), P);
+        const lambdaSquared = fieldMul(lambda, lambda);
+        const twoX = fieldAdd(p.x, p.x);
+        const xr = fieldSub(lambdaSquared, twoX);
 
         // yr = λ*(x - xr) - y mod P
-        const xMinusXr = SafeMath.sub(p.x, xr);
-        const lambdaTimesXDiff = SafeMath.mul(lambda, xMinusXr);
-        const yr = SafeMath.mod(SafeMath.sub(lambdaTimesXDiff, p.y), P);
+        const xMinusXr = fieldSub(p.x, xr);
+        const lambdaTimesXDiff = fieldMul(lambda, xMinusXr);
+        const yr = fieldSub(lambdaTimesXDiff, p.y);
 
         return new ECPoint(xr, yr);
     }
@@ -82,11 +164,8 @@ export class ECPoint {
     // ----------------------------
     public static add(p: ECPoint, q: ECPoint): ECPoint {
         // 1) Check for infinity cases
-        const isPInfinity = p.x.isZero() && p.y.isZero();
-        const isQInfinity = q.x.isZero() && q.y.isZero();
-
-        if (isPInfinity) return q; // ∞ + Q = Q
-        if (isQInfinity) return p; // P + ∞ = P
+        if (p.isInfinity) return q; // ∞ + Q = Q
+        if (q.isInfinity) return p; // P + ∞ = P
 
         // 2) Check if P == Q => doubling
         if (p.x == q.x && p.y == q.y) {
@@ -99,21 +178,18 @@ export class ECPoint {
             return new ECPoint(u256.Zero, u256.Zero);
         }
 
-        const numerator = SafeMath.sub(q.y, p.y);
-        const denominator = SafeMath.sub(q.x, p.x);
+        const numerator = fieldSub(q.y, p.y);
+        const denominator = fieldSub(q.x, p.x);
         const denominatorInv = SafeMath.modInverse(denominator, P);
-        const lambda = SafeMath.mod(SafeMath.mul(numerator, denominatorInv), P);
+        const lambda = fieldMul(numerator, denominatorInv);
 
         // x3 = λ^2 - (x1 + x2) mod P
-        const lambdaSq = SafeMath.pow(lambda, u256.fromU64(2));
-        let xr = SafeMath.sub(lambdaSq, SafeMath.add(p.x, q.x));
-        xr = SafeMath.mod(xr, P);
+        const lambdaSq = fieldMul(lambda, lambda);
+        const xr = fieldSub(lambdaSq, fieldAdd(p.x, q.x));
 
         // y3 = λ*(x1 - x3) - y1 mod P
-        const xDiff = SafeMath.sub(p.x, xr);
-        let yr = SafeMath.mul(lambda, xDiff);
-        yr = SafeMath.sub(yr, p.y);
-        yr = SafeMath.mod(yr, P);
+        const xDiff = fieldSub(p.x, xr);
+        const yr = fieldSub(fieldMul(lambda, xDiff), p.y);
 
         return new ECPoint(xr, yr);
     }
@@ -125,7 +201,6 @@ export class ECPoint {
     public static scalarMultiply(p: ECPoint, k: u256): ECPoint {
         let result = new ECPoint(u256.Zero, u256.Zero); // ∞
         let addend = p;
-        const two = u256.fromU64(2);
 
         // While k != 0
         while (!k.isZero()) {
@@ -133,10 +208,12 @@ export class ECPoint {
             if (!SafeMath.isEven(k)) {
                 result = ECPoint.add(result, addend);
             }
-            // Double the point
-            addend = ECPoint.double(addend);
             // "Divide" k by 2 => shift right by 1
-            k = SafeMath.div(k, two);
+            k = u256.shr(k, 1);
+            // Double the point, unless this was the last bit
+            if (!k.isZero()) {
+                addend = ECPoint.double(addend);
+            }
         }
         return result;
     }
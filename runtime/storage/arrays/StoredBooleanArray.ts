@@ -202,6 +202,25 @@ export class StoredBooleanArray {
         return wrappedIndex;
     }
 
+    /**
+     * Grow the array to `newLength` without writing the new elements.
+     * The new indexes read whatever is in storage, so only grow into slots
+     * that were never written, e.g. to size a fresh array used as a bitmap.
+     */
+    @inline
+    public extendLength(newLength: u32): void {
+        if (newLength < this._length) {
+            throw new Revert('extendLength: cannot shrink (boolean array)');
+        }
+
+        if (newLength > this.MAX_LENGTH) {
+            throw new Revert('extendLength: exceeds max allowed length (boolean array)');
+        }
+
+        this._length = newLength;
+        this._isChangedLength = true;
+    }
+
     /**
      * Delete the boolean at `index` by setting it to false.
      */
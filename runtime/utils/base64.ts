@@ -0,0 +1,33 @@
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encodes bytes as standard base64 (RFC 4648) with padding.
+ */
+export function encodeBase64(data: Uint8Array): string {
+    const out = new Uint8Array(((data.length + 2) / 3) * 4);
+    const alphabet = String.UTF8.encode(BASE64_ALPHABET);
+    const table = changetype<usize>(alphabet);
+
+    let o = 0;
+    let i = 0;
+    for (; i + 2 < data.length; i += 3) {
+        const n = ((<u32>data[i]) << 16) | ((<u32>data[i + 1]) << 8) | (<u32>data[i + 2]);
+        out[o++] = load<u8>(table + ((n >> 18) & 0x3f));
+        out[o++] = load<u8>(table + ((n >> 12) & 0x3f));
+        out[o++] = load<u8>(table + ((n >> 6) & 0x3f));
+        out[o++] = load<u8>(table + (n & 0x3f));
+    }
+
+    const remaining = data.length - i;
+    if (remaining > 0) {
+        let n = (<u32>data[i]) << 16;
+        if (remaining == 2) n |= (<u32>data[i + 1]) << 8;
+
+        out[o++] = load<u8>(table + ((n >> 18) & 0x3f));
+        out[o++] = load<u8>(table + ((n >> 12) & 0x3f));
+        out[o++] = remaining == 2 ? load<u8>(table + ((n >> 6) & 0x3f)) : 0x3d;
+        out[o] = 0x3d;
+    }
+
+    return String.UTF8.decode(out.buffer);
+}
@@ -1,2 +1,4 @@
 export * from './hex';
 export * from './lengths';
+export * from './base64';
+export * from './json';
@@ -0,0 +1,51 @@
+const HEX_DIGITS = '0123456789abcdef';
+
+/**
+ * Escapes a string for use inside a JSON string literal, without the surrounding quotes.
+ *
+ * Quotes, backslashes and control characters are escaped; other characters, including
+ * non-ASCII ones, are kept as is.
+ */
+export function escapeJsonString(value: string): string {
+    let needsEscape = false;
+    for (let i = 0; i < value.length; i++) {
+        const c = value.charCodeAt(i);
+        if (c < 0x20 || c == 0x22 || c == 0x5c) {
+            needsEscape = true;
+            break;
+        }
+    }
+
+    if (!needsEscape) return value;
+
+    const parts: string[] = [];
+    let start = 0;
+    for (let i = 0; i < value.length; i++) {
+        const c = value.charCodeAt(i);
+        if (c >= 0x20 && c != 0x22 && c != 0x5c) continue;
+
+        parts.push(value.substring(start, i));
+        start = i + 1;
+
+        if (c == 0x22) {
+            parts.push('\\"');
+        } else if (c == 0x5c) {
+            parts.push('\\\\');
+        } else if (c == 0x0a) {
+            parts.push('\\n');
+        } else if (c == 0x0d) {
+            parts.push('\\r');
+        } else if (c == 0x09) {
+            parts.push('\\t');
+        } else if (c == 0x08) {
+            parts.push('\\b');
+        } else if (c == 0x0c) {
+            parts.push('\\f');
+        } else {
+            parts.push('\\u00' + HEX_DIGITS.charAt(c >> 4) + HEX_DIGITS.charAt(c & 0x0f));
+        }
+    }
+
+    parts.push(value.substring(start));
+    return parts.join('');
+}
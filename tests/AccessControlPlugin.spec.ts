@@ -0,0 +1,113 @@
+/**
+ * Test Suite: AccessControlPlugin
+ *
+ * This test suite validates the AccessControlPlugin functionality for role-based
+ * access control.
+ *
+ * Expected Behaviors:
+ * - Plugin handles role-related method selectors
+ * - Accounts have no roles until granted
+ * - Every role is administered by DEFAULT_ADMIN_ROLE unless changed
+ * - Role events encode role, account and sender
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { AccessControlPlugin } from '../runtime/plugins/AccessControlPlugin';
+import {
+    RoleAdminChangedEvent,
+    RoleGrantedEvent,
+    RoleRevokedEvent,
+} from '../runtime/events/access/AccessControlEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { Address } from '../runtime/types/Address';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+describe('AccessControlPlugin', () => {
+    describe('Method selectors', () => {
+        it('should have correct hasRole selector', () => {
+            const expected = encodeSelector('hasRole(bytes32,address)');
+            expect(AccessControlPlugin.HAS_ROLE_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct getRoleAdmin selector', () => {
+            const expected = encodeSelector('getRoleAdmin(bytes32)');
+            expect(AccessControlPlugin.GET_ROLE_ADMIN_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct grantRole selector', () => {
+            const expected = encodeSelector('grantRole(bytes32,address)');
+            expect(AccessControlPlugin.GRANT_ROLE_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct revokeRole selector', () => {
+            const expected = encodeSelector('revokeRole(bytes32,address)');
+            expect(AccessControlPlugin.REVOKE_ROLE_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct renounceRole selector', () => {
+            const expected = encodeSelector('renounceRole(bytes32,address)');
+            expect(AccessControlPlugin.RENOUNCE_ROLE_SELECTOR).toBe(expected);
+        });
+
+        it('should produce different selectors for different methods', () => {
+            expect(AccessControlPlugin.GRANT_ROLE_SELECTOR).not.toBe(
+                AccessControlPlugin.REVOKE_ROLE_SELECTOR,
+            );
+            expect(AccessControlPlugin.REVOKE_ROLE_SELECTOR).not.toBe(
+                AccessControlPlugin.RENOUNCE_ROLE_SELECTOR,
+            );
+        });
+    });
+
+    describe('Initial state', () => {
+        it('should use zero as the default admin role', () => {
+            expect(AccessControlPlugin.DEFAULT_ADMIN_ROLE.isZero()).toBe(true);
+        });
+
+        it('should not grant any role initially', () => {
+            const plugin = new AccessControlPlugin();
+            const account = makeAddress(0x11);
+
+            expect(plugin.hasRole(AccessControlPlugin.DEFAULT_ADMIN_ROLE, account)).toBe(false);
+            expect(plugin.hasRole(u256.fromU32(7), account)).toBe(false);
+        });
+
+        it('should default every role admin to the default admin role', () => {
+            const plugin = new AccessControlPlugin();
+            expect(plugin.getRoleAdmin(u256.fromU32(7)).isZero()).toBe(true);
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode RoleGranted as role, account, sender', () => {
+            const event = new RoleGrantedEvent(u256.fromU32(5), makeAddress(1), makeAddress(2));
+            expect(event.eventType).toBe('RoleGranted');
+            expect(event.length).toBe(96);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(5));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+        });
+
+        it('should encode RoleRevoked as role, account, sender', () => {
+            const event = new RoleRevokedEvent(u256.fromU32(5), makeAddress(3), makeAddress(4));
+            expect(event.eventType).toBe('RoleRevoked');
+            expect(event.length).toBe(96);
+        });
+
+        it('should encode RoleAdminChanged as three roles', () => {
+            const event = new RoleAdminChangedEvent(u256.fromU32(5), u256.Zero, u256.One);
+            expect(event.eventType).toBe('RoleAdminChanged');
+            expect(event.length).toBe(96);
+        });
+    });
+});
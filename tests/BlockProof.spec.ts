@@ -0,0 +1,145 @@
+/**
+ * Test Suite: BlockProof
+ *
+ * This test suite validates block header parsing and merkle branch verification.
+ *
+ * Expected Behaviors:
+ * - Headers must be exactly 80 bytes and hash to their block hash
+ * - Merkle branches link a txid to the header's merkle root, including odd trees
+ * - Wrong indexes, siblings and malformed branches are rejected
+ */
+
+import { BlockHeader, BlockProof } from '../runtime/script/BlockProof';
+import { RawTransaction } from '../runtime/script/RawTransaction';
+
+const GENESIS_HEADER =
+    '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c';
+const GENESIS_HASH = '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f';
+const GENESIS_TX =
+    '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+
+// Merkle tree of five leaves, sha256 of the bytes 0 to 4. The fifth leaf is duplicated.
+const ROOT = 'f570734e3e3e401dad09b8f51499dfb2f631c803b88487ef65b88baa069430d0';
+const LEAF_0 = '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d';
+const LEAF_3 = '084fed08b978af4d7d196a7446a86b58009e636b611db16211b65a9aadff29c5';
+const LEAF_4 = 'e52d9c508c502347344d8c07ad91cbd6068afc75ff6292f062a09ca381c89e71';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+function branchOf(nodes: string[]): Uint8Array[] {
+    const out: Uint8Array[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+        out.push(fromHex(nodes[i]));
+    }
+    return out;
+}
+
+function branch0(): Uint8Array[] {
+    return branchOf([
+        '4bf5122f344554c53bde2ebb8cd2b7e3d1600ad631c385a5d7cce23c7785459a',
+        '67b338aa44310342231133aaa3c452851f811d58f76ffd227f77bf48baf01f6c',
+        'b975149be724a7918d0dfa49950903062aee30c06d2beca0dc339abae35d0945',
+    ]);
+}
+
+describe('BlockProof', () => {
+    describe('BlockHeader', () => {
+        it('should parse the genesis header', () => {
+            const header = BlockHeader.parse(fromHex(GENESIS_HEADER));
+
+            expect(header.version).toBe(1);
+            expect(header.timestamp).toBe(1231006505);
+            expect(header.bits).toBe(0x1d00ffff);
+            expect(header.nonce).toBe(2083236893);
+            expect(toHex(header.prevBlockHash)).toBe(toHex(new Uint8Array(32)));
+        });
+
+        it('should hash to the genesis block hash', () => {
+            const header = BlockHeader.parse(fromHex(GENESIS_HEADER));
+
+            expect(toHex(RawTransaction.reverseHash(header.hash()))).toBe(GENESIS_HASH);
+            expect(BlockProof.verifyHeaderHash(header, fromHex(GENESIS_HASH))).toBe(true);
+            expect(BlockProof.verifyHeaderHash(header, header.hash())).toBe(false);
+        });
+
+        it('should reject headers that are not 80 bytes', () => {
+            expect(BlockHeader.parseOrNull(new Uint8Array(79))).toBeNull();
+            expect(BlockHeader.parseOrNull(new Uint8Array(81))).toBeNull();
+            expect(() => {
+                BlockHeader.parse(new Uint8Array(0));
+            }).toThrow();
+        });
+    });
+
+    describe('Merkle branches', () => {
+        it('should prove the only transaction of the genesis block', () => {
+            const header = BlockHeader.parse(fromHex(GENESIS_HEADER));
+            const txid = RawTransaction.parse(fromHex(GENESIS_TX)).txid();
+
+            expect(BlockProof.verifyMerkleBranch(txid, 0, [], header.merkleRoot)).toBe(true);
+        });
+
+        it('should prove leaves of a larger tree', () => {
+            expect(
+                BlockProof.verifyMerkleBranch(fromHex(LEAF_0), 0, branch0(), fromHex(ROOT)),
+            ).toBe(true);
+
+            const branch3 = branchOf([
+                'dbc1b4c900ffe48d575b5da5c638040125f65db0fe3e24494b76ea986457d986',
+                'f0a886c2f0065f43c82d12b561b45f1a963917248c538474aaad05440a48df3c',
+                'b975149be724a7918d0dfa49950903062aee30c06d2beca0dc339abae35d0945',
+            ]);
+            expect(BlockProof.verifyMerkleBranch(fromHex(LEAF_3), 3, branch3, fromHex(ROOT))).toBe(
+                true,
+            );
+        });
+
+        it('should prove the duplicated last leaf of an odd tree', () => {
+            const branch4 = branchOf([
+                LEAF_4,
+                'fb112995d5a6f40e50035cf57d0f36f3c284958d971ae4b7ac1451f608df237a',
+                'ff16b8c29d7ae7f1cef42ea09a4a6066f2c053ddc46beecf9846a7096414fd08',
+            ]);
+
+            expect(toHex(BlockProof.merkleRootFromBranch(fromHex(LEAF_4), 4, branch4))).toBe(ROOT);
+        });
+
+        it('should reject a wrong index or leaf', () => {
+            expect(
+                BlockProof.verifyMerkleBranch(fromHex(LEAF_0), 1, branch0(), fromHex(ROOT)),
+            ).toBe(false);
+            expect(
+                BlockProof.verifyMerkleBranch(fromHex(LEAF_3), 0, branch0(), fromHex(ROOT)),
+            ).toBe(false);
+        });
+
+        it('should reject malformed branches', () => {
+            expect(() => {
+                BlockProof.merkleRootFromBranch(fromHex(LEAF_0), 8, branch0());
+            }).toThrow();
+            expect(() => {
+                BlockProof.merkleRootFromBranch(fromHex(LEAF_0), 0, [new Uint8Array(31)]);
+            }).toThrow();
+            expect(() => {
+                BlockProof.merkleRootFromBranch(new Uint8Array(20), 0, []);
+            }).toThrow();
+        });
+    });
+});
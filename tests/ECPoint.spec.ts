@@ -0,0 +1,52 @@
+/**
+ * Test Suite: ECPoint
+ *
+ * This test suite validates the secp256k1 constants and point arithmetic.
+ *
+ * Expected Behaviors:
+ * - The generator matches the SEC 2 parameters and lies on the curve
+ * - Doubling and scalar multiplication of the generator give the known multiples
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { ECPoint, GX, GY, P } from '../runtime/secp256k1/ECPoint';
+import { SafeMath } from '../runtime/types/SafeMath';
+
+describe('ECPoint', () => {
+    describe('Generator', () => {
+        it('should use the SEC 2 generator', () => {
+            expect(GX.toString(16)).toBe(
+                '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+            );
+            expect(GY.toString(16)).toBe(
+                '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8',
+            );
+        });
+
+        it('should lie on y^2 = x^3 + 7', () => {
+            const ySquared = SafeMath.mulmod(GY, GY, P);
+            const xCubed = SafeMath.mulmod(SafeMath.mulmod(GX, GX, P), GX, P);
+            expect(ySquared).toStrictEqual(SafeMath.mod(SafeMath.add(xCubed, u256.fromU32(7)), P));
+        });
+    });
+
+    describe('Point arithmetic', () => {
+        it('should double and multiply the generator', () => {
+            const g = new ECPoint(GX, GY);
+            expect(ECPoint.double(g).x.toString(16)).toBe(
+                'c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5',
+            );
+            expect(ECPoint.scalarMultiply(g, u256.fromU32(3)).x.toString(16)).toBe(
+                'f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+            );
+        });
+
+        it('should agree between addition and scalar multiplication', () => {
+            const g = new ECPoint(GX, GY);
+            const sum = ECPoint.add(ECPoint.double(g), g);
+            const product = ECPoint.scalarMultiply(g, u256.fromU32(3));
+            expect(sum.x).toStrictEqual(product.x);
+            expect(sum.y).toStrictEqual(product.y);
+        });
+    });
+});
@@ -0,0 +1,442 @@
+/**
+ * Test Suite: Governor
+ *
+ * This test suite validates the Governor proposal lifecycle, vote counting and the
+ * pieces that do not need a running transaction.
+ *
+ * Expected Behaviors:
+ * - Proposal states and vote types keep their ABI values
+ * - Governance events encode proposal ids, voters and block heights
+ * - GovernedUpdatablePlugin behaves like an UpdatablePlugin without a pending update
+ * - Proposals move Pending -> Active -> Succeeded -> Queued -> Executed
+ * - Proposals without quorum or with as many votes against as for are Defeated
+ * - Abstain votes count toward quorum but not toward the outcome
+ * - Voters cannot vote twice, outside the voting window or with an unknown vote type
+ * - Only the proposer can cancel, and only before voting starts
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { Governor, ProposalState, VoteType } from '../runtime/contracts/Governor';
+import { GovernorInitParameters } from '../runtime/contracts/interfaces/GovernorInitParameters';
+import {
+    GET_PAST_TOTAL_SUPPLY_SELECTOR,
+    GET_PAST_VOTES_SELECTOR,
+} from '../runtime/contracts/OP20Votes';
+import {
+    ProposalCanceledEvent,
+    ProposalCreatedEvent,
+    ProposalExecutedEvent,
+    ProposalQueuedEvent,
+    VoteCastEvent,
+} from '../runtime/events/governance/GovernorEvents';
+import { GovernedUpdatablePlugin } from '../runtime/plugins/GovernedUpdatablePlugin';
+import { UpdatablePlugin } from '../runtime/plugins/UpdatablePlugin';
+import { Address } from '../runtime/types/Address';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { sha256, sha256String } from '../runtime/env/global';
+import { callCount, DEPLOYER, mockCall, setEnvironment, toCalldata } from './utils/TestEnvironment';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+@final
+class TestGovernor extends Governor {}
+
+const TOKEN = makeAddress(0x70);
+const TARGET = makeAddress(0x71);
+const PROPOSER = makeAddress(0x72);
+const VOTER_A = makeAddress(0x73);
+const VOTER_B = makeAddress(0x74);
+const VOTER_C = makeAddress(0x75);
+
+const TARGET_SELECTOR: u32 = 0x0badf00d;
+
+// Voting opens 2 blocks after proposing and lasts 5 blocks, 10% of a 1000 supply is
+// needed, proposing takes 100 votes and queued proposals wait 3 blocks.
+const governor = new TestGovernor();
+setEnvironment(DEPLOYER);
+governor.instantiate(new GovernorInitParameters(TOKEN, 2, 5, u256.fromU32(100), 10, 3));
+mockTotalSupply(1000);
+
+function mockVotes(votes: u32): void {
+    const response = new BytesWriter(32);
+    response.writeU256(u256.fromU32(votes));
+    mockCall(TOKEN, GET_PAST_VOTES_SELECTOR, response);
+}
+
+function mockTotalSupply(supply: u32): void {
+    const response = new BytesWriter(32);
+    response.writeU256(u256.fromU32(supply));
+    mockCall(TOKEN, GET_PAST_TOTAL_SUPPLY_SELECTOR, response);
+}
+
+// One action: a single call of TARGET_SELECTOR on TARGET.
+const ACTIONS_LENGTH: i32 = 2 + 32 + 2 + 4 + 4;
+
+function writeActions(w: BytesWriter): void {
+    const action = new BytesWriter(4);
+    action.writeSelector(TARGET_SELECTOR);
+
+    w.writeAddressArray([TARGET]);
+    w.writeArrayOfBuffer([action.getBuffer()]);
+}
+
+/** Calldata of queue(), executeProposal() and cancel(). */
+function actionsCalldata(description: string): BytesWriter {
+    const w = new BytesWriter(ACTIONS_LENGTH + 32);
+    writeActions(w);
+    w.writeBytes(sha256String(description));
+    return w;
+}
+
+function proposalId(description: string): u256 {
+    return u256.fromUint8ArrayBE(sha256(actionsCalldata(description).getBuffer()));
+}
+
+function propose(description: string, proposer: Address, blockNumber: u64): u256 {
+    setEnvironment(proposer, blockNumber);
+    mockVotes(100);
+
+    const w = new BytesWriter(ACTIONS_LENGTH + 4 + description.length);
+    writeActions(w);
+    w.writeStringWithLength(description);
+    return toCalldata(governor.propose(toCalldata(w))).readU256();
+}
+
+function vote(
+    description: string,
+    voter: Address,
+    weight: u32,
+    support: u8,
+    blockNumber: u64,
+): void {
+    setEnvironment(voter, blockNumber);
+    mockVotes(weight);
+
+    const w = new BytesWriter(33);
+    w.writeU256(proposalId(description));
+    w.writeU8(support);
+    governor.castVote(toCalldata(w));
+}
+
+function queue(description: string, blockNumber: u64): void {
+    setEnvironment(VOTER_A, blockNumber);
+    governor.queue(toCalldata(actionsCalldata(description)));
+}
+
+function execute(description: string, blockNumber: u64): void {
+    setEnvironment(VOTER_A, blockNumber);
+    governor.executeProposal(toCalldata(actionsCalldata(description)));
+}
+
+function cancel(description: string, sender: Address, blockNumber: u64): void {
+    setEnvironment(sender, blockNumber);
+    governor.cancel(toCalldata(actionsCalldata(description)));
+}
+
+function stateAt(description: string, blockNumber: u64): u8 {
+    setEnvironment(VOTER_A, blockNumber);
+
+    const w = new BytesWriter(32);
+    w.writeU256(proposalId(description));
+    return toCalldata(governor.state(toCalldata(w))).readU8();
+}
+
+function hasVoted(description: string, voter: Address): bool {
+    const w = new BytesWriter(64);
+    w.writeU256(proposalId(description));
+    w.writeAddress(voter);
+    return toCalldata(governor.hasVoted(toCalldata(w))).readBoolean();
+}
+
+describe('Governor', () => {
+    describe('Enums', () => {
+        it('should number proposal states in lifecycle order', () => {
+            expect(<i32>ProposalState.Pending).toBe(0);
+            expect(<i32>ProposalState.Active).toBe(1);
+            expect(<i32>ProposalState.Canceled).toBe(2);
+            expect(<i32>ProposalState.Defeated).toBe(3);
+            expect(<i32>ProposalState.Succeeded).toBe(4);
+            expect(<i32>ProposalState.Queued).toBe(5);
+            expect(<i32>ProposalState.Executed).toBe(6);
+        });
+
+        it('should number vote types as against, for, abstain', () => {
+            expect(<i32>VoteType.Against).toBe(0);
+            expect(<i32>VoteType.For).toBe(1);
+            expect(<i32>VoteType.Abstain).toBe(2);
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode ProposalCreated', () => {
+            const descriptionHash = new Uint8Array(32);
+            descriptionHash[0] = 0xab;
+
+            const event = new ProposalCreatedEvent(
+                u256.fromU32(9),
+                makeAddress(1),
+                100,
+                244,
+                descriptionHash,
+            );
+            expect(event.eventType).toBe('ProposalCreated');
+            expect(event.length).toBe(112);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(9));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU64()).toBe(100);
+            expect(reader.readU64()).toBe(244);
+            expect(reader.readBytes(32)[0]).toBe(0xab);
+        });
+
+        it('should encode VoteCast', () => {
+            const event = new VoteCastEvent(
+                makeAddress(2),
+                u256.fromU32(9),
+                <u8>VoteType.For,
+                u256.fromU32(500),
+            );
+            expect(event.eventType).toBe('VoteCast');
+            expect(event.length).toBe(97);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(9));
+            expect(reader.readU8()).toBe(<u8>VoteType.For);
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(500));
+        });
+
+        it('should encode ProposalQueued with the eta', () => {
+            const event = new ProposalQueuedEvent(u256.fromU32(9), 532);
+            expect(event.eventType).toBe('ProposalQueued');
+            expect(event.length).toBe(40);
+        });
+
+        it('should encode ProposalExecuted and ProposalCanceled with the id', () => {
+            expect(new ProposalExecutedEvent(u256.One).length).toBe(32);
+            expect(new ProposalCanceledEvent(u256.One).length).toBe(32);
+        });
+    });
+
+    describe('GovernedUpdatablePlugin', () => {
+        it('should use the configured delay', () => {
+            const plugin = new GovernedUpdatablePlugin(288);
+            expect(plugin.updateDelay).toBe(288);
+            expect(plugin.hasPendingUpdate).toBe(false);
+        });
+
+        it('should default to a 144 block delay', () => {
+            const plugin: UpdatablePlugin = new GovernedUpdatablePlugin();
+            expect(plugin.updateDelay).toBe(144);
+            expect(plugin.canApplyUpdate).toBe(false);
+        });
+    });
+
+    describe('Proposal lifecycle', () => {
+        it('should move from Pending to Executed and run the actions', () => {
+            const id = propose('lifecycle', PROPOSER, 100);
+            expect(id).toStrictEqual(proposalId('lifecycle'));
+
+            expect(stateAt('lifecycle', 100)).toBe(<u8>ProposalState.Pending);
+            expect(stateAt('lifecycle', 102)).toBe(<u8>ProposalState.Pending);
+            expect(stateAt('lifecycle', 103)).toBe(<u8>ProposalState.Active);
+
+            vote('lifecycle', VOTER_A, 200, <u8>VoteType.For, 103);
+            vote('lifecycle', VOTER_B, 50, <u8>VoteType.Against, 107);
+            expect(stateAt('lifecycle', 107)).toBe(<u8>ProposalState.Active);
+            expect(stateAt('lifecycle', 108)).toBe(<u8>ProposalState.Succeeded);
+
+            queue('lifecycle', 108);
+            expect(stateAt('lifecycle', 108)).toBe(<u8>ProposalState.Queued);
+
+            const calls = callCount(TARGET, TARGET_SELECTOR);
+            execute('lifecycle', 111);
+            expect(stateAt('lifecycle', 111)).toBe(<u8>ProposalState.Executed);
+            expect(callCount(TARGET, TARGET_SELECTOR)).toBe(calls + 1);
+        });
+
+        it('should not execute before the timelock passed', () => {
+            propose('timelock', PROPOSER, 200);
+            vote('timelock', VOTER_A, 200, <u8>VoteType.For, 203);
+            queue('timelock', 208);
+
+            expect(() => {
+                execute('timelock', 210);
+            }).toThrow();
+        });
+
+        it('should not queue a proposal that is still active', () => {
+            propose('early queue', PROPOSER, 300);
+            vote('early queue', VOTER_A, 200, <u8>VoteType.For, 303);
+
+            expect(() => {
+                queue('early queue', 307);
+            }).toThrow();
+        });
+
+        it('should not execute a proposal that was not queued', () => {
+            propose('unqueued', PROPOSER, 400);
+            vote('unqueued', VOTER_A, 200, <u8>VoteType.For, 403);
+
+            expect(() => {
+                execute('unqueued', 420);
+            }).toThrow();
+        });
+
+        it('should revert for an unknown proposal', () => {
+            expect(() => {
+                stateAt('never proposed', 500);
+            }).toThrow();
+        });
+
+        it('should reject a proposer below the threshold', () => {
+            setEnvironment(PROPOSER, 600);
+            mockVotes(99);
+
+            expect(() => {
+                const w = new BytesWriter(ACTIONS_LENGTH + 4 + 15);
+                writeActions(w);
+                w.writeStringWithLength('below threshold');
+                governor.propose(toCalldata(w));
+            }).toThrow();
+        });
+
+        it('should reject the same proposal twice', () => {
+            propose('duplicate', PROPOSER, 700);
+
+            expect(() => {
+                propose('duplicate', PROPOSER, 701);
+            }).toThrow();
+        });
+    });
+
+    describe('Vote counting', () => {
+        it('should be Defeated without quorum', () => {
+            propose('no quorum', PROPOSER, 1000);
+            vote('no quorum', VOTER_A, 99, <u8>VoteType.For, 1003);
+
+            expect(stateAt('no quorum', 1008)).toBe(<u8>ProposalState.Defeated);
+            expect(() => {
+                queue('no quorum', 1008);
+            }).toThrow();
+        });
+
+        it('should succeed with exactly the quorum', () => {
+            propose('exact quorum', PROPOSER, 1100);
+            vote('exact quorum', VOTER_A, 100, <u8>VoteType.For, 1103);
+
+            expect(stateAt('exact quorum', 1108)).toBe(<u8>ProposalState.Succeeded);
+        });
+
+        it('should be Defeated on a tie', () => {
+            propose('tie', PROPOSER, 1200);
+            vote('tie', VOTER_A, 150, <u8>VoteType.For, 1203);
+            vote('tie', VOTER_B, 150, <u8>VoteType.Against, 1203);
+
+            expect(stateAt('tie', 1208)).toBe(<u8>ProposalState.Defeated);
+        });
+
+        it('should count Abstain toward quorum only', () => {
+            propose('abstain', PROPOSER, 1300);
+            vote('abstain', VOTER_A, 10, <u8>VoteType.For, 1303);
+            vote('abstain', VOTER_B, 90, <u8>VoteType.Abstain, 1303);
+
+            expect(stateAt('abstain', 1308)).toBe(<u8>ProposalState.Succeeded);
+        });
+
+        it('should be Defeated when Abstain reaches quorum without For votes', () => {
+            propose('only abstain', PROPOSER, 1400);
+            vote('only abstain', VOTER_B, 500, <u8>VoteType.Abstain, 1403);
+
+            expect(stateAt('only abstain', 1408)).toBe(<u8>ProposalState.Defeated);
+        });
+
+        it('should tally each vote type', () => {
+            propose('tally', PROPOSER, 1500);
+            vote('tally', VOTER_A, 30, <u8>VoteType.Against, 1503);
+            vote('tally', VOTER_B, 20, <u8>VoteType.For, 1503);
+            vote('tally', VOTER_C, 10, <u8>VoteType.Abstain, 1503);
+
+            const w = new BytesWriter(32);
+            w.writeU256(proposalId('tally'));
+            const votes = toCalldata(governor.proposalVotes(toCalldata(w)));
+            expect(votes.readU256()).toStrictEqual(u256.fromU32(30));
+            expect(votes.readU256()).toStrictEqual(u256.fromU32(20));
+            expect(votes.readU256()).toStrictEqual(u256.fromU32(10));
+        });
+    });
+
+    describe('Voting', () => {
+        it('should reject a second vote from the same voter', () => {
+            propose('double vote', PROPOSER, 2000);
+            vote('double vote', VOTER_A, 200, <u8>VoteType.For, 2003);
+            expect(hasVoted('double vote', VOTER_A)).toBe(true);
+            expect(hasVoted('double vote', VOTER_B)).toBe(false);
+
+            expect(() => {
+                vote('double vote', VOTER_A, 200, <u8>VoteType.Against, 2004);
+            }).toThrow();
+        });
+
+        it('should reject votes before voting starts', () => {
+            propose('vote pending', PROPOSER, 2100);
+
+            expect(() => {
+                vote('vote pending', VOTER_A, 200, <u8>VoteType.For, 2102);
+            }).toThrow();
+        });
+
+        it('should reject votes after voting ended', () => {
+            propose('vote ended', PROPOSER, 2200);
+
+            expect(() => {
+                vote('vote ended', VOTER_A, 200, <u8>VoteType.For, 2208);
+            }).toThrow();
+        });
+
+        it('should reject an unknown vote type', () => {
+            propose('bad support', PROPOSER, 2300);
+
+            expect(() => {
+                vote('bad support', VOTER_A, 200, 3, 2303);
+            }).toThrow();
+        });
+    });
+
+    describe('Cancel', () => {
+        it('should let the proposer cancel a pending proposal', () => {
+            propose('cancel', PROPOSER, 3000);
+            cancel('cancel', PROPOSER, 3001);
+
+            expect(stateAt('cancel', 3001)).toBe(<u8>ProposalState.Canceled);
+            expect(stateAt('cancel', 3008)).toBe(<u8>ProposalState.Canceled);
+            expect(() => {
+                vote('cancel', VOTER_A, 200, <u8>VoteType.For, 3003);
+            }).toThrow();
+        });
+
+        it('should not let anyone else cancel', () => {
+            propose('cancel other', PROPOSER, 3100);
+
+            expect(() => {
+                cancel('cancel other', VOTER_A, 3101);
+            }).toThrow();
+        });
+
+        it('should not cancel once voting started', () => {
+            propose('cancel active', PROPOSER, 3200);
+
+            expect(() => {
+                cancel('cancel active', PROPOSER, 3203);
+            }).toThrow();
+        });
+    });
+});
@@ -0,0 +1,306 @@
+/**
+ * Test Suite: Hash and timelock scripts
+ *
+ * This test suite validates the CLTV, hashlock and HTLC script templates.
+ *
+ * Expected Behaviors:
+ * - Builders produce the documented script layouts
+ * - Recognizers extract the parameters of scripts produced by the builders
+ * - Recognizers reject other templates
+ * - P2WSH address helpers and codec pairs round-trip and detect mismatches
+ */
+
+import { BitcoinScript } from '../runtime/script/Script';
+import { BitcoinAddresses } from '../runtime/script/BitcoinAddresses';
+import { BitcoinCodec } from '../runtime/script/BitcoinCodec';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+
+const RECIPIENT = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const REFUND = '02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5';
+const SHA256_HASH = '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08';
+const HASH160_HASH = '751e76e8199196d454941c45d1b3a323f1433bd6';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        result += hexChars.charAt(b[i] >> 4) + hexChars.charAt(b[i] & 0x0f);
+    }
+    return result;
+}
+
+describe('Hash and timelock scripts', () => {
+    describe('CLTV timelock', () => {
+        it('should build the CLTV layout', () => {
+            const script = BitcoinScript.cltvTimelock(fromHex(RECIPIENT), 500000);
+            expect(toHex(script)).toBe('0320a107b17521' + RECIPIENT + 'ac');
+        });
+
+        it('should use OP_N for small locktimes', () => {
+            const script = BitcoinScript.cltvTimelock(fromHex(RECIPIENT), 10);
+            expect(script[0]).toBe(0x5a);
+        });
+
+        it('should recognize locktimes that need 5 bytes', () => {
+            const script = BitcoinScript.cltvTimelock(fromHex(RECIPIENT), 0xffffffff);
+            const rec = BitcoinScript.recognizeCltvTimelock(script);
+
+            expect(rec.ok).toBe(true);
+            expect(rec.locktime).toBe(0xffffffff);
+            expect(toHex(rec.pubkey!)).toBe(RECIPIENT);
+        });
+
+        it('should not recognize a CSV script', () => {
+            const csv = BitcoinScript.csvTimelock(fromHex(RECIPIENT), 144);
+            expect(BitcoinScript.recognizeCltvTimelock(csv).ok).toBe(false);
+        });
+    });
+
+    describe('Hashlock', () => {
+        it('should build and recognize a SHA256 hashlock', () => {
+            const script = BitcoinScript.hashlock(fromHex(SHA256_HASH), fromHex(RECIPIENT));
+            expect(toHex(script)).toBe('a820' + SHA256_HASH + '8821' + RECIPIENT + 'ac');
+
+            const rec = BitcoinScript.recognizeHashlock(script);
+            expect(rec.ok).toBe(true);
+            expect(toHex(rec.hash!)).toBe(SHA256_HASH);
+        });
+
+        it('should build and recognize a HASH160 hashlock', () => {
+            const script = BitcoinScript.hashlock(fromHex(HASH160_HASH), fromHex(RECIPIENT));
+            expect(script[0]).toBe(0xa9);
+
+            const rec = BitcoinScript.recognizeHashlock(script);
+            expect(rec.ok).toBe(true);
+            expect(toHex(rec.hash!)).toBe(HASH160_HASH);
+        });
+    });
+
+    describe('HTLC', () => {
+        it('should build the HTLC layout', () => {
+            const script = BitcoinScript.htlc(
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500000,
+            );
+
+            expect(toHex(script)).toBe(
+                '63a820' + SHA256_HASH + '8821' + RECIPIENT + '670320a107b17521' + REFUND + '68ac',
+            );
+        });
+
+        it('should recognize every HTLC parameter', () => {
+            const script = BitcoinScript.htlc(
+                fromHex(HASH160_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                1700000000,
+            );
+            const rec = BitcoinScript.recognizeHtlc(script);
+
+            expect(rec.ok).toBe(true);
+            expect(toHex(rec.hash!)).toBe(HASH160_HASH);
+            expect(toHex(rec.recipientPubkey!)).toBe(RECIPIENT);
+            expect(toHex(rec.refundPubkey!)).toBe(REFUND);
+            expect(rec.locktime).toBe(1700000000);
+        });
+
+        it('should not recognize a hashlock as an HTLC', () => {
+            const script = BitcoinScript.hashlock(fromHex(SHA256_HASH), fromHex(RECIPIENT));
+            expect(BitcoinScript.recognizeHtlc(script).ok).toBe(false);
+        });
+    });
+
+    describe('P2WSH addresses', () => {
+        it('should verify HTLC addresses against their terms', () => {
+            const res = BitcoinAddresses.htlcP2wshAddress(
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500000,
+                'bc',
+            );
+
+            expect(
+                BitcoinAddresses.verifyHtlcP2wshAddress(
+                    fromHex(SHA256_HASH),
+                    fromHex(RECIPIENT),
+                    fromHex(REFUND),
+                    500000,
+                    res.address,
+                    'bc',
+                ),
+            ).toBe(true);
+            expect(
+                BitcoinAddresses.verifyHtlcP2wshAddress(
+                    fromHex(SHA256_HASH),
+                    fromHex(RECIPIENT),
+                    fromHex(REFUND),
+                    500001,
+                    res.address,
+                    'bc',
+                ),
+            ).toBe(false);
+        });
+
+        it('should verify CLTV and hashlock addresses', () => {
+            const cltv = BitcoinAddresses.cltvP2wshAddress(fromHex(RECIPIENT), 500000, 'tb');
+            expect(
+                BitcoinAddresses.verifyCltvP2wshAddress(
+                    fromHex(RECIPIENT),
+                    500000,
+                    cltv.address,
+                    'tb',
+                ),
+            ).toBe(true);
+            expect(
+                BitcoinAddresses.verifyCltvP2wshAddress(
+                    fromHex(RECIPIENT),
+                    500000,
+                    cltv.address,
+                    'bc',
+                ),
+            ).toBe(false);
+
+            const lock = BitcoinAddresses.hashlockP2wshAddress(
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                'bc',
+            );
+            expect(
+                BitcoinAddresses.verifyHashlockP2wshAddress(
+                    fromHex(SHA256_HASH),
+                    fromHex(REFUND),
+                    lock.address,
+                    'bc',
+                ),
+            ).toBe(false);
+        });
+    });
+
+    describe('Codec', () => {
+        it('should read back and cross-check an HTLC pair', () => {
+            const out = new BytesWriter(256);
+            BitcoinCodec.writeHtlcP2wsh(
+                out,
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500000,
+                'bc',
+            );
+
+            const check = BitcoinCodec.readHtlcP2wshPairAndCrossCheck(
+                new BytesReader(out.getBuffer()),
+                'bc',
+            );
+            expect(check.ok).toBe(true);
+            expect(toHex(check.refundPubkey!)).toBe(REFUND);
+            expect(check.locktime).toBe(500000);
+        });
+
+        it('should verify a CLTV address read from a stream', () => {
+            const out = new BytesWriter(256);
+            BitcoinCodec.writeCltvP2wsh(out, fromHex(RECIPIENT), 500000, 'bc');
+
+            const ok = BitcoinCodec.readAndVerifyCltvP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(RECIPIENT),
+                500000,
+                'bc',
+            );
+            const mismatch = BitcoinCodec.readAndVerifyCltvP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(RECIPIENT),
+                600000,
+                'bc',
+            );
+
+            expect(ok.success).toBe(true);
+            expect(mismatch.success).toBe(false);
+        });
+
+        it('should verify a hashlock address read from a stream in either encoding mode', () => {
+            const out = new BytesWriter(256);
+            BitcoinCodec.writeHashlockP2wsh(out, fromHex(SHA256_HASH), fromHex(RECIPIENT), 'bc');
+
+            const strict = BitcoinCodec.readAndVerifyHashlockP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                'bc',
+            );
+            const lenient = BitcoinCodec.readAndVerifyHashlockP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                'bc',
+                false,
+            );
+            const mismatch = BitcoinCodec.readAndVerifyHashlockP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(SHA256_HASH),
+                fromHex(REFUND),
+                'bc',
+                false,
+            );
+
+            expect(strict.success).toBe(true);
+            expect(lenient.success).toBe(true);
+            expect(mismatch.success).toBe(false);
+        });
+
+        it('should verify an HTLC address read from a stream in either encoding mode', () => {
+            const out = new BytesWriter(256);
+            BitcoinCodec.writeHtlcP2wsh(
+                out,
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500000,
+                'bc',
+            );
+
+            const strict = BitcoinCodec.readAndVerifyHtlcP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500000,
+                'bc',
+            );
+            const lenient = BitcoinCodec.readAndVerifyHtlcP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500000,
+                'bc',
+                false,
+            );
+            const mismatch = BitcoinCodec.readAndVerifyHtlcP2wsh(
+                new BytesReader(out.getBuffer()),
+                fromHex(SHA256_HASH),
+                fromHex(RECIPIENT),
+                fromHex(REFUND),
+                500001,
+                'bc',
+                false,
+            );
+
+            expect(strict.success).toBe(true);
+            expect(lenient.success).toBe(true);
+            expect(mismatch.success).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Test Suite: Base58 and LegacyAddresses
+ *
+ * This test suite validates Base58Check encoding and legacy P2PKH/P2SH addresses.
+ *
+ * Expected Behaviors:
+ * - Base58 keeps leading zero bytes as leading '1' characters
+ * - Base58Check rejects strings whose checksum does not match
+ * - P2PKH and P2SH addresses use the version byte of their network
+ * - Decoded addresses classify as p2pkh or p2sh and map to their output scripts
+ * - PaymentVerifier accepts legacy addresses
+ */
+
+import { Base58 } from '../runtime/script/Base58';
+import { LegacyAddresses } from '../runtime/script/LegacyAddresses';
+import { Networks } from '../runtime/script/Networks';
+import { PaymentVerifier } from '../runtime/script/PaymentVerifier';
+import { TransactionOutput } from '../runtime/env/classes/UTXO';
+import { TransactionOutputFlags } from '../runtime/env/enums/TransactionFlags';
+
+const PUBKEY = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const PUBKEY_HASH = '751e76e8199196d454941c45d1b3a323f1433bd6';
+
+const P2PKH_MAINNET = '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH';
+const P2PKH_TESTNET = 'mrCDrCybB6J1vRfbwM5hemdJz73FwDBC8r';
+const P2PKH_SCRIPT = '76a914751e76e8199196d454941c45d1b3a323f1433bd688ac';
+
+// OP_1 <PUBKEY> OP_1 OP_CHECKMULTISIG
+const REDEEM_SCRIPT = '5121' + PUBKEY + '51ae';
+const SCRIPT_HASH = '83eebb7d79aa1d388e3b0ac65b98ac580c4da01a';
+const P2SH_MAINNET = '3DicS6C8JZm59RsrgXr56iVHzYdQngiehV';
+const P2SH_SCRIPT = 'a91483eebb7d79aa1d388e3b0ac65b98ac580c4da01a87';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+describe('Base58', () => {
+    it('should encode and decode bytes', () => {
+        expect(Base58.encode(Uint8Array.wrap(String.UTF8.encode('hello world')))).toBe(
+            'StV1DL6CwTryKyV',
+        );
+        expect(String.UTF8.decode(Base58.decode('StV1DL6CwTryKyV').buffer)).toBe('hello world');
+    });
+
+    it('should keep leading zero bytes', () => {
+        expect(Base58.encode(fromHex('0000287fb4cd'))).toBe('11233QC4');
+        expect(toHex(Base58.decode('11233QC4'))).toBe('0000287fb4cd');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+        expect(Base58.decodeOrNull('0OIl')).toBeNull();
+        expect(() => {
+            Base58.decode('abc0');
+        }).toThrow();
+    });
+
+    it('should round-trip Base58Check payloads', () => {
+        const payload = fromHex('00' + PUBKEY_HASH);
+        expect(Base58.encodeCheck(payload)).toBe(P2PKH_MAINNET);
+        expect(toHex(Base58.decodeCheck(P2PKH_MAINNET))).toBe('00' + PUBKEY_HASH);
+    });
+
+    it('should reject a bad checksum', () => {
+        expect(Base58.decodeCheckOrNull('1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMJ')).toBeNull();
+    });
+});
+
+describe('LegacyAddresses', () => {
+    it('should create P2PKH addresses per network', () => {
+        expect(LegacyAddresses.p2pkh(fromHex(PUBKEY), Networks.Mainnet)).toBe(P2PKH_MAINNET);
+        expect(LegacyAddresses.p2pkh(fromHex(PUBKEY), Networks.Testnet)).toBe(P2PKH_TESTNET);
+        expect(LegacyAddresses.p2pkhFromHash(fromHex(PUBKEY_HASH), Networks.Regtest)).toBe(
+            P2PKH_TESTNET,
+        );
+    });
+
+    it('should create P2SH addresses', () => {
+        expect(LegacyAddresses.p2sh(fromHex(REDEEM_SCRIPT), Networks.Mainnet)).toBe(P2SH_MAINNET);
+        expect(LegacyAddresses.p2shFromHash(fromHex(SCRIPT_HASH), Networks.Testnet)).toBe(
+            '2N5GpVq89v2GRMDWQMfTwifUZCtqaczC6Y7',
+        );
+    });
+
+    it('should decode and classify addresses', () => {
+        const p2pkh = LegacyAddresses.decode(P2PKH_MAINNET);
+        expect(p2pkh.version).toBe(0x00);
+        expect(toHex(p2pkh.hash)).toBe(PUBKEY_HASH);
+        expect(LegacyAddresses.getScriptType(p2pkh)).toBe('p2pkh');
+
+        const p2sh = LegacyAddresses.decode(P2SH_MAINNET);
+        expect(p2sh.version).toBe(0x05);
+        expect(LegacyAddresses.getScriptType(p2sh)).toBe('p2sh');
+
+        expect(LegacyAddresses.getScriptType(LegacyAddresses.decode(P2PKH_TESTNET))).toBe('p2pkh');
+    });
+
+    it('should build output scripts', () => {
+        expect(toHex(LegacyAddresses.outputScript(LegacyAddresses.decode(P2PKH_MAINNET)))).toBe(
+            P2PKH_SCRIPT,
+        );
+        expect(toHex(LegacyAddresses.outputScript(LegacyAddresses.decode(P2SH_MAINNET)))).toBe(
+            P2SH_SCRIPT,
+        );
+    });
+
+    it('should reject invalid addresses', () => {
+        expect(
+            LegacyAddresses.decodeOrNull('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'),
+        ).toBeNull();
+        expect(LegacyAddresses.decodeOrNull('StV1DL6CwTryKyV')).toBeNull();
+        expect(LegacyAddresses.isValidAddress(P2PKH_MAINNET)).toBe(true);
+        expect(LegacyAddresses.isValidAddress(P2PKH_MAINNET, Networks.Testnet)).toBe(false);
+        expect(() => {
+            LegacyAddresses.decode('1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMJ');
+        }).toThrow();
+    });
+
+    it('should verify addresses against their key or script', () => {
+        expect(LegacyAddresses.verifyP2pkh(P2PKH_MAINNET, fromHex(PUBKEY), Networks.Mainnet)).toBe(
+            true,
+        );
+        expect(LegacyAddresses.verifyP2pkh(P2PKH_TESTNET, fromHex(PUBKEY), Networks.Mainnet)).toBe(
+            false,
+        );
+        expect(
+            LegacyAddresses.verifyP2sh(P2SH_MAINNET, fromHex(REDEEM_SCRIPT), Networks.Mainnet),
+        ).toBe(true);
+        expect(LegacyAddresses.verifyP2sh(P2SH_MAINNET, fromHex(PUBKEY), Networks.Mainnet)).toBe(
+            false,
+        );
+    });
+
+    it('should let PaymentVerifier sum payments to legacy addresses', () => {
+        expect(toHex(PaymentVerifier.addressToScript(P2SH_MAINNET))).toBe(P2SH_SCRIPT);
+
+        const outputs: TransactionOutput[] = [
+            new TransactionOutput(0, <u8>TransactionOutputFlags.hasTo, null, P2PKH_MAINNET, 1000),
+            new TransactionOutput(
+                1,
+                <u8>TransactionOutputFlags.hasScriptPubKey,
+                fromHex(P2PKH_SCRIPT),
+                null,
+                500,
+            ),
+        ];
+
+        expect(new PaymentVerifier(outputs).paidTo(P2PKH_MAINNET)).toBe(1500);
+    });
+});
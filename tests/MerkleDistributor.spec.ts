@@ -0,0 +1,182 @@
+/**
+ * Test Suite: MerkleDistributor
+ *
+ * This test suite validates claims against a four-leaf allocation tree. Leaves are built
+ * here from the 68-byte layout the contract commits to: a big-endian u32 index, the
+ * 32-byte account and a big-endian u256 amount.
+ *
+ * Expected Behaviors:
+ * - A valid claim transfers the amount to the account and marks the index claimed
+ * - Anyone can submit a claim, the tokens always go to the allocated account
+ * - An index can only be claimed once
+ * - Claims with a wrong proof, amount, account or index revert and stay unclaimed
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { MerkleDistributor } from '../runtime/contracts/MerkleDistributor';
+import { MerkleHash, MerkleProof } from '../runtime/hashing/MerkleProof';
+import { TransferHelper } from '../runtime/shared-libraries/TransferHelper';
+import { Address } from '../runtime/types/Address';
+import { callCount, DEPLOYER, lastCall, setEnvironment, toCalldata } from './utils/TestEnvironment';
+
+@final
+class TestDistributor extends MerkleDistributor {
+    public constructor() {
+        super(MerkleHash.SHA256);
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const TOKEN = makeAddress(0x60);
+const ALICE = makeAddress(0x61);
+const BOB = makeAddress(0x62);
+const CAROL = makeAddress(0x63);
+const DAVE = makeAddress(0x64);
+
+function leaf(index: u32, account: Address, amount: u32): Uint8Array {
+    const data = new Uint8Array(68);
+    data[0] = <u8>(index >> 24);
+    data[1] = <u8>(index >> 16);
+    data[2] = <u8>(index >> 8);
+    data[3] = <u8>index;
+    data.set(account, 4);
+
+    // The amount fits in the last four bytes of the u256
+    data[64] = <u8>(amount >> 24);
+    data[65] = <u8>(amount >> 16);
+    data[66] = <u8>(amount >> 8);
+    data[67] = <u8>amount;
+
+    return MerkleProof.hash(data);
+}
+
+const LEAF_0 = leaf(0, ALICE, 100);
+const LEAF_1 = leaf(1, BOB, 200);
+const LEAF_2 = leaf(2, CAROL, 300);
+const LEAF_3 = leaf(3, DAVE, 400);
+const NODE_01 = MerkleProof.hashPair(LEAF_0, LEAF_1);
+const NODE_23 = MerkleProof.hashPair(LEAF_2, LEAF_3);
+const ROOT = MerkleProof.hashPair(NODE_01, NODE_23);
+
+const distributor = new TestDistributor();
+setEnvironment(DEPLOYER);
+distributor.instantiate(TOKEN, ROOT, 4);
+
+function claim(index: u32, account: Address, amount: u32, proof: Uint8Array[]): void {
+    const w = new BytesWriter(4 + 32 + 32 + BytesWriter.estimateArrayOfBufferLength(proof));
+    w.writeU32(index);
+    w.writeAddress(account);
+    w.writeU256(u256.fromU32(amount));
+    w.writeArrayOfBuffer(proof);
+    distributor.claim(toCalldata(w));
+}
+
+function isClaimed(index: u32): bool {
+    const w = new BytesWriter(4);
+    w.writeU32(index);
+    return toCalldata(distributor.isClaimed(toCalldata(w))).readBoolean();
+}
+
+function transfers(): u32 {
+    return callCount(TOKEN, TransferHelper.TRANSFER_SELECTOR);
+}
+
+describe('MerkleDistributor', () => {
+    describe('Claims', () => {
+        it('should transfer the allocation and mark the index claimed', () => {
+            setEnvironment(ALICE);
+            const before = transfers();
+
+            claim(0, ALICE, 100, [LEAF_1, NODE_23]);
+
+            expect(isClaimed(0)).toBe(true);
+            expect(transfers()).toBe(before + 1);
+
+            const transfer = lastCall(TOKEN, TransferHelper.TRANSFER_SELECTOR);
+            expect(transfer.readAddress()).toStrictEqual(ALICE);
+            expect(transfer.readU256()).toStrictEqual(u256.fromU32(100));
+        });
+
+        it('should pay the allocated account whoever submits the claim', () => {
+            setEnvironment(BOB);
+
+            claim(3, DAVE, 400, [LEAF_2, NODE_01]);
+
+            expect(isClaimed(3)).toBe(true);
+
+            const transfer = lastCall(TOKEN, TransferHelper.TRANSFER_SELECTOR);
+            expect(transfer.readAddress()).toStrictEqual(DAVE);
+            expect(transfer.readU256()).toStrictEqual(u256.fromU32(400));
+        });
+
+        it('should reject claiming an index twice', () => {
+            setEnvironment(ALICE);
+
+            expect(() => {
+                claim(0, ALICE, 100, [LEAF_1, NODE_23]);
+            }).toThrow();
+        });
+    });
+
+    describe('Invalid claims', () => {
+        it('should reject a proof of another leaf', () => {
+            setEnvironment(BOB);
+
+            expect(() => {
+                claim(1, BOB, 200, [LEAF_3, NODE_01]);
+            }).toThrow();
+            expect(isClaimed(1)).toBe(false);
+        });
+
+        it('should reject a wrong amount', () => {
+            setEnvironment(BOB);
+
+            expect(() => {
+                claim(1, BOB, 201, [LEAF_0, NODE_23]);
+            }).toThrow();
+            expect(isClaimed(1)).toBe(false);
+        });
+
+        it('should reject a wrong account', () => {
+            setEnvironment(CAROL);
+
+            expect(() => {
+                claim(1, CAROL, 200, [LEAF_0, NODE_23]);
+            }).toThrow();
+            expect(isClaimed(1)).toBe(false);
+        });
+
+        it('should reject a proof submitted under another index', () => {
+            setEnvironment(BOB);
+
+            expect(() => {
+                claim(2, BOB, 200, [LEAF_0, NODE_23]);
+            }).toThrow();
+            expect(isClaimed(2)).toBe(false);
+        });
+
+        it('should reject an index outside the tree', () => {
+            setEnvironment(BOB);
+
+            expect(() => {
+                claim(4, BOB, 200, [LEAF_0, NODE_23]);
+            }).toThrow();
+        });
+
+        it('should still accept the valid claim afterwards', () => {
+            setEnvironment(BOB);
+
+            claim(1, BOB, 200, [LEAF_0, NODE_23]);
+
+            expect(isClaimed(1)).toBe(true);
+        });
+    });
+});
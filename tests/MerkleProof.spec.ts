@@ -0,0 +1,206 @@
+/**
+ * Test Suite: MerkleProof
+ *
+ * This test suite validates sorted-pair merkle proofs and multiproofs against trees built
+ * with the OpenZeppelin merkle tree algorithm.
+ *
+ * Expected Behaviors:
+ * - Single proofs verify every leaf of an unbalanced tree, with sha256 and keccak256
+ * - Multiproofs verify several leaves at once
+ * - Wrong leaves, roots and hash functions are rejected
+ * - Malformed nodes and inconsistent multiproof flags revert
+ * - Claimed events encode the index, account and amount
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { ClaimedEvent } from '../runtime/events/merkle/MerkleDistributorEvents';
+import { MerkleHash, MerkleProof } from '../runtime/hashing/MerkleProof';
+import { Address } from '../runtime/types/Address';
+
+// Trees of five leaves, the hash of the bytes 0 to 4
+const SHA_ROOT = '6c25b266f55ccbeb4b76b48ff988f0bb0d1b1e0e9b7b13211fd2c7eea04b9817';
+const SHA_LEAF_0 = '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d';
+const SHA_LEAF_1 = '4bf5122f344554c53bde2ebb8cd2b7e3d1600ad631c385a5d7cce23c7785459a';
+const SHA_LEAF_2 = 'dbc1b4c900ffe48d575b5da5c638040125f65db0fe3e24494b76ea986457d986';
+const SHA_LEAF_3 = '084fed08b978af4d7d196a7446a86b58009e636b611db16211b65a9aadff29c5';
+const SHA_LEAF_4 = 'e52d9c508c502347344d8c07ad91cbd6068afc75ff6292f062a09ca381c89e71';
+
+const KECCAK_ROOT = '4012e3527351abde51ed075bbd7c41097ede613e3e77bc14c1b2900fee859002';
+const KECCAK_LEAF_0 = 'bc36789e7a1e281436464229828f817d6612f7b477d66591ff96a9e064bcc98a';
+const KECCAK_LEAF_1 = '5fe7f977e71dba2ea1a68e21057beebb9be2ac30c6410aa38d4f3fbe41dcffd2';
+const KECCAK_LEAF_3 = '69c322e3248a5dfc29d73c5b0553b0185a35cd5bb6386747517ef7e53b15e287';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function nodesOf(nodes: string[]): Uint8Array[] {
+    const out: Uint8Array[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+        out.push(fromHex(nodes[i]));
+    }
+    return out;
+}
+
+function shaProof0(): Uint8Array[] {
+    return nodesOf([
+        SHA_LEAF_1,
+        SHA_LEAF_4,
+        '93dbb3d0262759bb8996963d1cb5f5ee195f6d13271de3db1cd5b92959103b5a',
+    ]);
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+describe('MerkleProof', () => {
+    describe('Single proofs', () => {
+        it('should verify leaves of a sha256 tree', () => {
+            expect(MerkleProof.verify(shaProof0(), fromHex(SHA_ROOT), fromHex(SHA_LEAF_0))).toBe(
+                true,
+            );
+
+            const proof3 = nodesOf([
+                SHA_LEAF_2,
+                'efd7e0da66d8121b14bfd89988645dbe217cf0e9c283ed1a00cd5368a1d01f5c',
+            ]);
+            expect(MerkleProof.verify(proof3, fromHex(SHA_ROOT), fromHex(SHA_LEAF_3))).toBe(true);
+        });
+
+        it('should verify leaves of a keccak256 tree', () => {
+            const proof = nodesOf([
+                KECCAK_LEAF_1,
+                'f343681465b9efe82c933c3e8748c70cb8aa06539c361de20f72eac04e766393',
+                'c144ad52449a5832e51e7d4daca4c86a9aafc33d89ef15ff7908956d0edb977d',
+            ]);
+
+            expect(
+                MerkleProof.verify(
+                    proof,
+                    fromHex(KECCAK_ROOT),
+                    fromHex(KECCAK_LEAF_0),
+                    MerkleHash.KECCAK256,
+                ),
+            ).toBe(true);
+            expect(MerkleProof.verify(proof, fromHex(KECCAK_ROOT), fromHex(KECCAK_LEAF_0))).toBe(
+                false,
+            );
+        });
+
+        it('should treat a single leaf as its own root', () => {
+            expect(MerkleProof.verify([], fromHex(SHA_LEAF_0), fromHex(SHA_LEAF_0))).toBe(true);
+        });
+
+        it('should reject a wrong leaf or root', () => {
+            expect(MerkleProof.verify(shaProof0(), fromHex(SHA_ROOT), fromHex(SHA_LEAF_2))).toBe(
+                false,
+            );
+            expect(MerkleProof.verify(shaProof0(), fromHex(SHA_LEAF_0), fromHex(SHA_LEAF_0))).toBe(
+                false,
+            );
+        });
+
+        it('should reject nodes that are not 32 bytes', () => {
+            expect(() => {
+                MerkleProof.processProof([new Uint8Array(31)], fromHex(SHA_LEAF_0));
+            }).toThrow();
+            expect(() => {
+                MerkleProof.processProof([], new Uint8Array(20));
+            }).toThrow();
+        });
+    });
+
+    describe('Multiproofs', () => {
+        it('should verify several leaves of a sha256 tree', () => {
+            const proof = nodesOf([SHA_LEAF_2, SHA_LEAF_4]);
+            const leaves = nodesOf([SHA_LEAF_0, SHA_LEAF_1, SHA_LEAF_3]);
+
+            expect(
+                MerkleProof.multiProofVerify(
+                    proof,
+                    [true, false, false, true],
+                    fromHex(SHA_ROOT),
+                    leaves,
+                ),
+            ).toBe(true);
+        });
+
+        it('should verify several leaves of a keccak256 tree', () => {
+            const proof = nodesOf([
+                'f2ee15ea639b73fa3db9b34a245bdfa015c260c598b211bf05a1ecc4b3e3b4f2',
+                'f343681465b9efe82c933c3e8748c70cb8aa06539c361de20f72eac04e766393',
+            ]);
+            const leaves = nodesOf([KECCAK_LEAF_0, KECCAK_LEAF_1, KECCAK_LEAF_3]);
+
+            expect(
+                MerkleProof.multiProofVerify(
+                    proof,
+                    [true, false, false, true],
+                    fromHex(KECCAK_ROOT),
+                    leaves,
+                    MerkleHash.KECCAK256,
+                ),
+            ).toBe(true);
+        });
+
+        it('should accept the root alone as an empty multiproof', () => {
+            expect(
+                MerkleProof.multiProofVerify(nodesOf([SHA_ROOT]), [], fromHex(SHA_ROOT), []),
+            ).toBe(true);
+        });
+
+        it('should reject a wrong leaf', () => {
+            const proof = nodesOf([SHA_LEAF_2, SHA_LEAF_4]);
+            const leaves = nodesOf([SHA_LEAF_0, SHA_LEAF_1, SHA_LEAF_2]);
+
+            expect(
+                MerkleProof.multiProofVerify(
+                    proof,
+                    [true, false, false, true],
+                    fromHex(SHA_ROOT),
+                    leaves,
+                ),
+            ).toBe(false);
+        });
+
+        it('should reject inconsistent flags', () => {
+            expect(() => {
+                MerkleProof.processMultiProof(
+                    nodesOf([SHA_LEAF_2, SHA_LEAF_4]),
+                    [true, false, false],
+                    nodesOf([SHA_LEAF_0, SHA_LEAF_1, SHA_LEAF_3]),
+                );
+            }).toThrow();
+            expect(() => {
+                MerkleProof.processMultiProof(
+                    nodesOf([SHA_LEAF_1, SHA_LEAF_4]),
+                    [true, false],
+                    nodesOf([SHA_LEAF_0]),
+                );
+            }).toThrow();
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode Claimed', () => {
+            const event = new ClaimedEvent(7, makeAddress(1), u256.fromU32(100));
+            expect(event.eventType).toBe('Claimed');
+            expect(event.length).toBe(68);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU32()).toBe(7);
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(100));
+        });
+    });
+});
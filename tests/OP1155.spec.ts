@@ -0,0 +1,418 @@
+/**
+ * Test Suite: OP1155
+ *
+ * This test suite validates the OP1155 multi-token standard: its constants, balances,
+ * transfers, operator approvals, receiver callbacks and burns.
+ *
+ * Expected Behaviors:
+ * - Receiver callback selectors match their canonical signatures
+ * - View selectors excluded from the reentrancy guard match their method signatures
+ * - The signature approval type hash matches its type string
+ * - Minting credits balances and per-id supply
+ * - Transfers move balances and revert on insufficient balance or mismatched arrays
+ * - Operators can transfer once approved for all, and only then
+ * - Contract receivers must answer with the receiver selector
+ * - Burning debits balances and per-id supply
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import {
+    OP1155,
+    OP1155_BALANCE_OF_BATCH_SELECTOR,
+    OP1155_BALANCE_OF_SELECTOR,
+    OP1155_EXISTS_SELECTOR,
+    OP1155_IS_APPROVED_FOR_ALL_SELECTOR,
+    OP1155_TOTAL_SUPPLY_SELECTOR,
+    OP1155_URI_SELECTOR,
+} from '../runtime/contracts/OP1155';
+import {
+    ON_OP1155_BATCH_RECEIVED_SELECTOR,
+    ON_OP1155_RECEIVED_SELECTOR,
+    OP1155_APPROVAL_FOR_ALL_TYPE_HASH,
+} from '../runtime/constants/Exports';
+import { encodeSelector } from '../runtime/math/abi';
+import { sha256String } from '../runtime/env/global';
+import { Address } from '../runtime/types/Address';
+import {
+    callCount,
+    mockCall,
+    setContract,
+    setEnvironment,
+    toCalldata,
+} from './utils/TestEnvironment';
+
+@final
+class TestMultiToken extends OP1155 {
+    public mintTo(to: Address, id: u256, value: u256): void {
+        this._mint(to, id, value, new Uint8Array(0));
+    }
+
+    public mintBatchTo(to: Address, ids: u256[], values: u256[]): void {
+        this._mintBatch(to, ids, values, new Uint8Array(0));
+    }
+
+    public balance(owner: Address, id: u256): u256 {
+        return this._balanceOf(owner, id);
+    }
+
+    public supply(id: u256): u256 {
+        return this.totalSupplyMap.get(id);
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const token = new TestMultiToken();
+const ALICE = makeAddress(0x11);
+const BOB = makeAddress(0x12);
+const OPERATOR = makeAddress(0x13);
+const RECEIVER = makeAddress(0x14);
+const REJECTER = makeAddress(0x15);
+
+function transfer(from: Address, to: Address, id: u32, value: u32): void {
+    const w = new BytesWriter(200);
+    w.writeAddress(from);
+    w.writeAddress(to);
+    w.writeU256(u256.fromU32(id));
+    w.writeU256(u256.fromU32(value));
+    w.writeBytesWithLength(new Uint8Array(0));
+    token.safeTransferFrom(toCalldata(w));
+}
+
+function batchTransfer(from: Address, to: Address, ids: u32[], values: u32[]): void {
+    const w = new BytesWriter(200 + (ids.length + values.length) * 32);
+    w.writeAddress(from);
+    w.writeAddress(to);
+    w.writeU256Array(ids.map<u256>((id: u32) => u256.fromU32(id)));
+    w.writeU256Array(values.map<u256>((value: u32) => u256.fromU32(value)));
+    w.writeBytesWithLength(new Uint8Array(0));
+    token.safeBatchTransferFrom(toCalldata(w));
+}
+
+function setApprovalForAll(operator: Address, approved: bool): void {
+    const w = new BytesWriter(33);
+    w.writeAddress(operator);
+    w.writeBoolean(approved);
+    token.setApprovalForAll(toCalldata(w));
+}
+
+function burn(from: Address, id: u32, value: u32): void {
+    const w = new BytesWriter(96);
+    w.writeAddress(from);
+    w.writeU256(u256.fromU32(id));
+    w.writeU256(u256.fromU32(value));
+    token.burn(toCalldata(w));
+}
+
+function balance(owner: Address, id: u32): u64 {
+    return token.balance(owner, u256.fromU32(id)).toU64();
+}
+
+function selectorResponse(selector: u32): BytesWriter {
+    const w = new BytesWriter(4);
+    w.writeSelector(selector);
+    return w;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+function u8ArrayToHex(values: u8[]): string {
+    const bytes = new Uint8Array(values.length);
+    for (let i: i32 = 0; i < values.length; i++) {
+        bytes[i] = values[i];
+    }
+    return toHex(bytes);
+}
+
+describe('OP1155', () => {
+    describe('Receiver selectors', () => {
+        it('should have correct onOP1155Received selector', () => {
+            const expected = encodeSelector(
+                'onOP1155Received(address,address,uint256,uint256,bytes)',
+            );
+            expect(ON_OP1155_RECEIVED_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct onOP1155BatchReceived selector', () => {
+            const expected = encodeSelector(
+                'onOP1155BatchReceived(address,address,uint256[],uint256[],bytes)',
+            );
+            expect(ON_OP1155_BATCH_RECEIVED_SELECTOR).toBe(expected);
+        });
+
+        it('should not collide with the OP721 receiver selector', () => {
+            expect(ON_OP1155_RECEIVED_SELECTOR).not.toBe(
+                encodeSelector('onOP721Received(address,address,uint256,bytes)'),
+            );
+        });
+    });
+
+    describe('View selectors', () => {
+        it('should have correct balanceOf selector', () => {
+            expect(OP1155_BALANCE_OF_SELECTOR).toBe(encodeSelector('balanceOf(address,uint256)'));
+        });
+
+        it('should have correct balanceOfBatch selector', () => {
+            expect(OP1155_BALANCE_OF_BATCH_SELECTOR).toBe(
+                encodeSelector('balanceOfBatch(address[],uint256[])'),
+            );
+        });
+
+        it('should have correct isApprovedForAll selector', () => {
+            expect(OP1155_IS_APPROVED_FOR_ALL_SELECTOR).toBe(
+                encodeSelector('isApprovedForAll(address,address)'),
+            );
+        });
+
+        it('should have correct uri selector', () => {
+            expect(OP1155_URI_SELECTOR).toBe(encodeSelector('uri(uint256)'));
+        });
+
+        it('should have correct totalSupply selector', () => {
+            expect(OP1155_TOTAL_SUPPLY_SELECTOR).toBe(encodeSelector('totalSupply(uint256)'));
+        });
+
+        it('should have correct exists selector', () => {
+            expect(OP1155_EXISTS_SELECTOR).toBe(encodeSelector('exists(uint256)'));
+        });
+    });
+
+    describe('Type hashes', () => {
+        it('should hash the approval for all type string', () => {
+            const expected = toHex(
+                sha256String(
+                    'OP1155ApprovalForAll(address owner,address spender,bool approved,uint256 nonce,uint64 deadline)',
+                ),
+            );
+            expect(u8ArrayToHex(OP1155_APPROVAL_FOR_ALL_TYPE_HASH)).toBe(expected);
+        });
+    });
+
+    describe('Minting', () => {
+        it('should credit the balance and supply of an id', () => {
+            setEnvironment(ALICE);
+            token.mintTo(ALICE, u256.fromU32(1), u256.fromU32(100));
+
+            expect(balance(ALICE, 1)).toBe(100);
+            expect(token.supply(u256.fromU32(1))).toStrictEqual(u256.fromU32(100));
+        });
+
+        it('should credit every id of a batch', () => {
+            setEnvironment(ALICE);
+            token.mintBatchTo(
+                ALICE,
+                [u256.fromU32(2), u256.fromU32(3)],
+                [u256.fromU32(20), u256.fromU32(30)],
+            );
+
+            expect(balance(ALICE, 2)).toBe(20);
+            expect(balance(ALICE, 3)).toBe(30);
+            expect(token.supply(u256.fromU32(3))).toStrictEqual(u256.fromU32(30));
+        });
+
+        it('should revert a batch with mismatched arrays', () => {
+            setEnvironment(ALICE);
+
+            expect(() => {
+                token.mintBatchTo(ALICE, [u256.fromU32(4)], [u256.One, u256.One]);
+            }).toThrow();
+        });
+    });
+
+    describe('Transfers', () => {
+        it('should move a balance', () => {
+            token.mintTo(ALICE, u256.fromU32(10), u256.fromU32(100));
+            setEnvironment(ALICE);
+
+            transfer(ALICE, BOB, 10, 40);
+
+            expect(balance(ALICE, 10)).toBe(60);
+            expect(balance(BOB, 10)).toBe(40);
+            expect(token.supply(u256.fromU32(10))).toStrictEqual(u256.fromU32(100));
+        });
+
+        it('should revert on insufficient balance', () => {
+            token.mintTo(ALICE, u256.fromU32(11), u256.fromU32(5));
+            setEnvironment(ALICE);
+
+            expect(() => {
+                transfer(ALICE, BOB, 11, 6);
+            }).toThrow();
+        });
+
+        it('should move every id of a batch', () => {
+            token.mintBatchTo(
+                ALICE,
+                [u256.fromU32(12), u256.fromU32(13)],
+                [u256.fromU32(10), u256.fromU32(10)],
+            );
+            setEnvironment(ALICE);
+
+            batchTransfer(ALICE, BOB, [12, 13], [3, 7]);
+
+            expect(balance(ALICE, 12)).toBe(7);
+            expect(balance(ALICE, 13)).toBe(3);
+            expect(balance(BOB, 12)).toBe(3);
+            expect(balance(BOB, 13)).toBe(7);
+        });
+
+        it('should revert a batch with mismatched arrays', () => {
+            token.mintTo(ALICE, u256.fromU32(14), u256.fromU32(10));
+            setEnvironment(ALICE);
+
+            expect(() => {
+                batchTransfer(ALICE, BOB, [14], [1, 1]);
+            }).toThrow();
+        });
+
+        it('should revert a batch with an insufficient balance', () => {
+            token.mintBatchTo(
+                ALICE,
+                [u256.fromU32(15), u256.fromU32(16)],
+                [u256.fromU32(10), u256.fromU32(1)],
+            );
+            setEnvironment(ALICE);
+
+            expect(() => {
+                batchTransfer(ALICE, BOB, [15, 16], [1, 2]);
+            }).toThrow();
+        });
+
+        it('should revert when the sender is neither the owner nor an operator', () => {
+            token.mintTo(ALICE, u256.fromU32(17), u256.fromU32(10));
+            setEnvironment(BOB);
+
+            expect(() => {
+                transfer(ALICE, BOB, 17, 1);
+            }).toThrow();
+        });
+    });
+
+    describe('Operators', () => {
+        it('should let an approved operator transfer', () => {
+            token.mintTo(ALICE, u256.fromU32(20), u256.fromU32(10));
+            setEnvironment(ALICE);
+            setApprovalForAll(OPERATOR, true);
+
+            setEnvironment(OPERATOR);
+            transfer(ALICE, BOB, 20, 4);
+
+            expect(balance(ALICE, 20)).toBe(6);
+            expect(balance(BOB, 20)).toBe(4);
+        });
+
+        it('should stop an operator once approval is revoked', () => {
+            token.mintTo(ALICE, u256.fromU32(21), u256.fromU32(10));
+            setEnvironment(ALICE);
+            setApprovalForAll(OPERATOR, true);
+            setApprovalForAll(OPERATOR, false);
+
+            setEnvironment(OPERATOR);
+            expect(() => {
+                transfer(ALICE, BOB, 21, 1);
+            }).toThrow();
+        });
+
+        it('should reject approving yourself', () => {
+            setEnvironment(ALICE);
+
+            expect(() => {
+                setApprovalForAll(ALICE, true);
+            }).toThrow();
+        });
+    });
+
+    describe('Receiver callbacks', () => {
+        it('should call a contract receiver and accept its selector', () => {
+            setContract(RECEIVER);
+            mockCall(
+                RECEIVER,
+                ON_OP1155_RECEIVED_SELECTOR,
+                selectorResponse(ON_OP1155_RECEIVED_SELECTOR),
+            );
+            token.mintTo(ALICE, u256.fromU32(30), u256.fromU32(10));
+            setEnvironment(ALICE);
+
+            transfer(ALICE, RECEIVER, 30, 10);
+
+            expect(balance(RECEIVER, 30)).toBe(10);
+            expect(callCount(RECEIVER, ON_OP1155_RECEIVED_SELECTOR)).toBe(1);
+        });
+
+        it('should revert when the receiver answers with another selector', () => {
+            setContract(REJECTER);
+            mockCall(REJECTER, ON_OP1155_RECEIVED_SELECTOR, selectorResponse(0xdeadbeef));
+            token.mintTo(ALICE, u256.fromU32(31), u256.fromU32(10));
+            setEnvironment(ALICE);
+
+            expect(() => {
+                transfer(ALICE, REJECTER, 31, 1);
+            }).toThrow();
+        });
+
+        it('should revert when the receiver answers nothing', () => {
+            setContract(REJECTER);
+            token.mintTo(ALICE, u256.fromU32(32), u256.fromU32(10));
+            setEnvironment(ALICE);
+
+            expect(() => {
+                batchTransfer(ALICE, REJECTER, [32], [1]);
+            }).toThrow();
+        });
+
+        it('should revert minting to a rejecting receiver', () => {
+            setEnvironment(ALICE);
+            setContract(REJECTER);
+
+            expect(() => {
+                token.mintTo(REJECTER, u256.fromU32(33), u256.One);
+            }).toThrow();
+        });
+    });
+
+    describe('Burning', () => {
+        it('should debit the balance and supply', () => {
+            token.mintTo(ALICE, u256.fromU32(40), u256.fromU32(10));
+            setEnvironment(ALICE);
+
+            burn(ALICE, 40, 4);
+
+            expect(balance(ALICE, 40)).toBe(6);
+            expect(token.supply(u256.fromU32(40))).toStrictEqual(u256.fromU32(6));
+        });
+
+        it('should revert when burning more than the balance', () => {
+            token.mintTo(ALICE, u256.fromU32(41), u256.fromU32(10));
+            setEnvironment(ALICE);
+
+            expect(() => {
+                burn(ALICE, 41, 11);
+            }).toThrow();
+        });
+
+        it('should revert when the sender is not authorized', () => {
+            token.mintTo(ALICE, u256.fromU32(42), u256.fromU32(10));
+            setEnvironment(BOB);
+
+            expect(() => {
+                burn(ALICE, 42, 1);
+            }).toThrow();
+        });
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Test Suite: OP20 Batch Events
+ *
+ * This test suite validates the aggregated events emitted by OP20 batchTransfer and airdrop.
+ *
+ * Expected Behaviors:
+ * - Batch events fit in MAX_EVENT_DATA_SIZE at their maximum entry count
+ * - Batch events encode a count followed by recipient and amount pairs
+ * - Batch events reject more entries than fit in one event
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    OP20_BATCH_MINTED_MAX_ENTRIES,
+    OP20_BATCH_TRANSFERRED_MAX_ENTRIES,
+    OP20BatchMintedEvent,
+    OP20BatchTransferredEvent,
+} from '../runtime/events/predefined';
+import { MAX_EVENT_DATA_SIZE } from '../runtime/events/NetEvent';
+import { Address } from '../runtime/types/Address';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+function makeRecipients(count: i32): Address[] {
+    const recipients: Address[] = [];
+    for (let i: i32 = 0; i < count; i++) {
+        recipients.push(makeAddress(u8(i + 1)));
+    }
+    return recipients;
+}
+
+function makeAmounts(count: i32): u256[] {
+    const amounts: u256[] = [];
+    for (let i: i32 = 0; i < count; i++) {
+        amounts.push(u256.fromI32(100 * (i + 1)));
+    }
+    return amounts;
+}
+
+describe('OP20 Batch Events', () => {
+    describe('BatchTransferred', () => {
+        it('should fit the maximum entries in one event', () => {
+            const count = OP20_BATCH_TRANSFERRED_MAX_ENTRIES;
+            const event = new OP20BatchTransferredEvent(
+                makeAddress(0xaa),
+                makeAddress(0xbb),
+                makeRecipients(count),
+                makeAmounts(count),
+            );
+            expect(event.eventType).toBe('BatchTransferred');
+            expect(<u32>event.length <= MAX_EVENT_DATA_SIZE).toBe(true);
+        });
+
+        it('should encode operator, sender, count and pairs', () => {
+            const event = new OP20BatchTransferredEvent(
+                makeAddress(0xaa),
+                makeAddress(0xbb),
+                makeRecipients(2),
+                makeAmounts(2),
+            );
+            expect(event.length).toBe(32 * 2 + 1 + 64 * 2);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(0xaa));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(0xbb));
+            expect(reader.readU8()).toBe(2);
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU256()).toStrictEqual(u256.fromI32(100));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+            expect(reader.readU256()).toStrictEqual(u256.fromI32(200));
+        });
+
+        it('should reject more entries than fit', () => {
+            expect(() => {
+                const count = OP20_BATCH_TRANSFERRED_MAX_ENTRIES + 1;
+                new OP20BatchTransferredEvent(
+                    Address.zero(),
+                    Address.zero(),
+                    makeRecipients(count),
+                    makeAmounts(count),
+                );
+            }).toThrow();
+        });
+    });
+
+    describe('BatchMinted', () => {
+        it('should fit the maximum entries in one event', () => {
+            const count = OP20_BATCH_MINTED_MAX_ENTRIES;
+            const event = new OP20BatchMintedEvent(makeRecipients(count), makeAmounts(count));
+            expect(event.eventType).toBe('BatchMinted');
+            expect(<u32>event.length <= MAX_EVENT_DATA_SIZE).toBe(true);
+        });
+
+        it('should encode count and pairs', () => {
+            const event = new OP20BatchMintedEvent(makeRecipients(1), makeAmounts(1));
+            expect(event.length).toBe(1 + 64);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU8()).toBe(1);
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU256()).toStrictEqual(u256.fromI32(100));
+        });
+
+        it('should reject more entries than fit', () => {
+            expect(() => {
+                const count = OP20_BATCH_MINTED_MAX_ENTRIES + 1;
+                new OP20BatchMintedEvent(makeRecipients(count), makeAmounts(count));
+            }).toThrow();
+        });
+    });
+});
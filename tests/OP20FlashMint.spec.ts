@@ -0,0 +1,220 @@
+/**
+ * Test Suite: OP20FlashMint
+ *
+ * This test suite validates the OP20FlashMint extension: its selectors and the flash loan
+ * flow from minting to the receiver callback and repayment.
+ *
+ * Expected Behaviors:
+ * - Flash loan selectors match their method signatures
+ * - The receiver callback selector matches its signature
+ * - maxFlashLoan is the room left below the maximum supply
+ * - A loan calls the receiver, then burns the amount plus the fee from it
+ * - Loans above maxFlashLoan, to accounts that are not contracts, rejected by the
+ *   receiver or not paid back revert
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    FLASH_FEE_SELECTOR,
+    FLASH_LOAN_SELECTOR,
+    MAX_FLASH_LOAN_SELECTOR,
+    OP20FlashMint,
+} from '../runtime/contracts/OP20FlashMint';
+import { OP20InitParameters } from '../runtime/contracts/interfaces/OP20InitParameters';
+import { ON_FLASH_LOAN_SELECTOR } from '../runtime/constants/Exports';
+import { encodeSelector } from '../runtime/math/abi';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { SafeMath } from '../runtime/types/SafeMath';
+import { Address } from '../runtime/types/Address';
+import {
+    callCount,
+    DEPLOYER,
+    lastCall,
+    mockCall,
+    setContract,
+    setEnvironment,
+    toCalldata,
+} from './utils/TestEnvironment';
+
+/** Charges a 1% fee. */
+@final
+class TestFlashToken extends OP20FlashMint {
+    public mintTo(to: Address, amount: u64): void {
+        this._mint(to, u256.fromU64(amount));
+    }
+
+    /** The host rolls back a reverted loan; tests running the contract directly cannot. */
+    public rollbackLoan(): void {
+        this._flashLoanActive.value = false;
+    }
+
+    protected override _flashFee(amount: u256): u256 {
+        return SafeMath.div(amount, u256.fromU32(100));
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const token = new TestFlashToken();
+setEnvironment(DEPLOYER);
+token.instantiate(new OP20InitParameters(u256.fromU64(1_000_000), 8, 'Flash', 'FLASH'));
+
+const HOLDER = makeAddress(0x31);
+const BORROWER = makeAddress(0x32);
+const REJECTER = makeAddress(0x33);
+const SILENT = makeAddress(0x34);
+const WALLET = makeAddress(0x35);
+
+setContract(BORROWER);
+setContract(REJECTER);
+setContract(SILENT);
+
+function acceptResponse(): BytesWriter {
+    const w = new BytesWriter(4);
+    w.writeSelector(ON_FLASH_LOAN_SELECTOR);
+    return w;
+}
+
+function flashLoan(receiver: Address, amount: u64): void {
+    setEnvironment(HOLDER);
+
+    const w = new BytesWriter(72);
+    w.writeAddress(receiver);
+    w.writeU256(u256.fromU64(amount));
+    w.writeBytesWithLength(new Uint8Array(0));
+    token.flashLoan(toCalldata(w));
+}
+
+function balanceOf(account: Address): u64 {
+    const w = new BytesWriter(32);
+    w.writeAddress(account);
+    return toCalldata(token.balanceOf(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function totalSupply(): u64 {
+    return toCalldata(token.totalSupply(toCalldata(new BytesWriter(0))))
+        .readU256()
+        .toU64();
+}
+
+function maxFlashLoan(): u64 {
+    return toCalldata(token.maxFlashLoan(toCalldata(new BytesWriter(0))))
+        .readU256()
+        .toU64();
+}
+
+function flashFee(amount: u64): u64 {
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU64(amount));
+    return toCalldata(token.flashFee(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+describe('OP20FlashMint', () => {
+    describe('Method selectors', () => {
+        it('should have correct maxFlashLoan selector', () => {
+            expect(MAX_FLASH_LOAN_SELECTOR).toBe(encodeSelector('maxFlashLoan()'));
+        });
+
+        it('should have correct flashFee selector', () => {
+            expect(FLASH_FEE_SELECTOR).toBe(encodeSelector('flashFee(uint256)'));
+        });
+
+        it('should have correct flashLoan selector', () => {
+            expect(FLASH_LOAN_SELECTOR).toBe(encodeSelector('flashLoan(address,uint256,bytes)'));
+        });
+    });
+
+    describe('Receiver callback', () => {
+        it('should have correct onFlashLoan selector', () => {
+            expect(ON_FLASH_LOAN_SELECTOR).toBe(
+                encodeSelector('onFlashLoan(address,uint256,uint256,bytes)'),
+            );
+        });
+    });
+
+    describe('Limits', () => {
+        it('should lend up to the room left below the maximum supply', () => {
+            token.mintTo(HOLDER, 400_000);
+
+            expect(maxFlashLoan()).toBe(1_000_000 - totalSupply());
+            expect(flashFee(1000)).toBe(10);
+        });
+
+        it('should revert above maxFlashLoan', () => {
+            expect(() => {
+                flashLoan(BORROWER, maxFlashLoan() + 1);
+            }).toThrow();
+        });
+
+        it('should revert when the receiver is not a contract', () => {
+            expect(() => {
+                flashLoan(WALLET, 1000);
+            }).toThrow();
+        });
+    });
+
+    describe('Loans', () => {
+        it('should call the receiver and burn the amount plus the fee', () => {
+            mockCall(BORROWER, ON_FLASH_LOAN_SELECTOR, acceptResponse());
+            token.mintTo(BORROWER, 10);
+            const supply = totalSupply();
+
+            flashLoan(BORROWER, 1000);
+
+            expect(balanceOf(BORROWER)).toBe(0);
+            expect(totalSupply()).toBe(supply - 10);
+            expect(callCount(BORROWER, ON_FLASH_LOAN_SELECTOR)).toBe(1);
+
+            const callback = lastCall(BORROWER, ON_FLASH_LOAN_SELECTOR);
+            expect(callback.readAddress()).toStrictEqual(HOLDER);
+            expect(callback.readU256()).toStrictEqual(u256.fromU32(1000));
+            expect(callback.readU256()).toStrictEqual(u256.fromU32(10));
+        });
+
+        it('should allow another loan once the previous one is repaid', () => {
+            token.mintTo(BORROWER, 5);
+
+            flashLoan(BORROWER, 500);
+
+            expect(balanceOf(BORROWER)).toBe(0);
+            expect(callCount(BORROWER, ON_FLASH_LOAN_SELECTOR)).toBe(2);
+        });
+
+        it('should revert when the receiver cannot pay the fee', () => {
+            expect(() => {
+                flashLoan(BORROWER, 1000);
+            }).toThrow();
+        });
+
+        it('should revert when the receiver answers with another selector', () => {
+            token.rollbackLoan();
+            const response = new BytesWriter(4);
+            response.writeSelector(0xdeadbeef);
+            mockCall(REJECTER, ON_FLASH_LOAN_SELECTOR, response);
+            token.mintTo(REJECTER, 10);
+
+            expect(() => {
+                flashLoan(REJECTER, 1000);
+            }).toThrow();
+        });
+
+        it('should revert when the receiver answers nothing', () => {
+            token.rollbackLoan();
+            token.mintTo(SILENT, 10);
+
+            expect(() => {
+                flashLoan(SILENT, 1000);
+            }).toThrow();
+        });
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Test Suite: OP20 Signatures
+ *
+ * This test suite validates the OP712 type hashes OP20 signs over.
+ *
+ * Expected Behaviors:
+ * - Allowance type hashes match their type strings
+ * - Transfer type hashes match their type strings
+ */
+
+import {
+    ALLOWANCE_DECREASE_TYPE_HASH,
+    ALLOWANCE_INCREASE_TYPE_HASH,
+    OP20_TRANSFER_FROM_TYPE_HASH,
+    OP20_TRANSFER_TYPE_HASH,
+} from '../runtime/constants/Exports';
+import { sha256String } from '../runtime/env/global';
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+function u8ArrayToHex(values: u8[]): string {
+    const bytes = new Uint8Array(values.length);
+    for (let i: i32 = 0; i < values.length; i++) {
+        bytes[i] = values[i];
+    }
+    return toHex(bytes);
+}
+
+describe('OP20 Signatures', () => {
+    describe('Allowance type hashes', () => {
+        it('should hash the allowance increase type string', () => {
+            const expected = toHex(
+                sha256String(
+                    'OP20AllowanceIncrease(address owner,address spender,uint256 amount,uint256 nonce,uint64 deadline)',
+                ),
+            );
+            expect(u8ArrayToHex(ALLOWANCE_INCREASE_TYPE_HASH)).toBe(expected);
+        });
+
+        it('should hash the allowance decrease type string', () => {
+            const expected = toHex(
+                sha256String(
+                    'OP20AllowanceDecrease(address owner,address spender,uint256 amount,uint256 nonce,uint64 deadline)',
+                ),
+            );
+            expect(u8ArrayToHex(ALLOWANCE_DECREASE_TYPE_HASH)).toBe(expected);
+        });
+    });
+
+    describe('Transfer type hashes', () => {
+        it('should hash the transfer type string', () => {
+            const expected = toHex(
+                sha256String(
+                    'OP20Transfer(address owner,address to,uint256 amount,uint256 nonce,uint64 deadline)',
+                ),
+            );
+            expect(u8ArrayToHex(OP20_TRANSFER_TYPE_HASH)).toBe(expected);
+        });
+
+        it('should hash the transferFrom type string', () => {
+            const expected = toHex(
+                sha256String(
+                    'OP20TransferFrom(address spender,address from,address to,uint256 amount,uint256 nonce,uint64 deadline)',
+                ),
+            );
+            expect(u8ArrayToHex(OP20_TRANSFER_FROM_TYPE_HASH)).toBe(expected);
+        });
+    });
+});
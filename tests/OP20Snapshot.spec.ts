@@ -0,0 +1,221 @@
+/**
+ * Test Suite: OP20Snapshot
+ *
+ * This test suite validates the OP20Snapshot extension: its constants, events and the
+ * balances and total supply it reports at past snapshots.
+ *
+ * Expected Behaviors:
+ * - View selectors excluded from the reentrancy guard match their method signatures
+ * - The Snapshot event encodes the snapshot id
+ * - Snapshot ids start at 1 and increase by one
+ * - balanceOfAt and totalSupplyAt return the values held before later transfers, mints and burns
+ * - Accounts that never changed report their current balance
+ * - Queries for snapshot zero or a snapshot that does not exist yet revert
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    BALANCE_OF_AT_SELECTOR,
+    CURRENT_SNAPSHOT_ID_SELECTOR,
+    OP20Snapshot,
+    TOTAL_SUPPLY_AT_SELECTOR,
+} from '../runtime/contracts/OP20Snapshot';
+import { OP20InitParameters } from '../runtime/contracts/interfaces/OP20InitParameters';
+import { SnapshotEvent } from '../runtime/events/snapshot/SnapshotEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { Address } from '../runtime/types/Address';
+import { DEPLOYER, setEnvironment, toCalldata } from './utils/TestEnvironment';
+
+@final
+class TestSnapshotToken extends OP20Snapshot {
+    public snapshot(): u64 {
+        return this._snapshot();
+    }
+
+    public mintTo(to: Address, amount: u64): void {
+        this._mint(to, u256.fromU64(amount));
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const token = new TestSnapshotToken();
+setEnvironment(DEPLOYER);
+token.instantiate(new OP20InitParameters(u256.fromU64(1_000_000), 8, 'Snapshot', 'SNAP'));
+
+const ALICE = makeAddress(0x21);
+const BOB = makeAddress(0x22);
+const CAROL = makeAddress(0x23);
+const DAVE = makeAddress(0x24);
+const ERIN = makeAddress(0x25);
+
+function transfer(from: Address, to: Address, amount: u64): void {
+    setEnvironment(from);
+
+    const w = new BytesWriter(64);
+    w.writeAddress(to);
+    w.writeU256(u256.fromU64(amount));
+    token.transfer(toCalldata(w));
+}
+
+function burn(from: Address, amount: u64): void {
+    setEnvironment(from);
+
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU64(amount));
+    token.burn(toCalldata(w));
+}
+
+function balanceOf(account: Address): u64 {
+    const w = new BytesWriter(32);
+    w.writeAddress(account);
+    return toCalldata(token.balanceOf(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function balanceOfAt(account: Address, snapshotId: u64): u64 {
+    const w = new BytesWriter(40);
+    w.writeAddress(account);
+    w.writeU64(snapshotId);
+    return toCalldata(token.balanceOfAt(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function totalSupply(): u64 {
+    return toCalldata(token.totalSupply(toCalldata(new BytesWriter(0))))
+        .readU256()
+        .toU64();
+}
+
+function totalSupplyAt(snapshotId: u64): u64 {
+    const w = new BytesWriter(8);
+    w.writeU64(snapshotId);
+    return toCalldata(token.totalSupplyAt(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function currentSnapshotId(): u64 {
+    return toCalldata(token.currentSnapshotId(toCalldata(new BytesWriter(0)))).readU64();
+}
+
+describe('OP20Snapshot', () => {
+    describe('View selectors', () => {
+        it('should have correct currentSnapshotId selector', () => {
+            expect(CURRENT_SNAPSHOT_ID_SELECTOR).toBe(encodeSelector('currentSnapshotId()'));
+        });
+
+        it('should have correct balanceOfAt selector', () => {
+            expect(BALANCE_OF_AT_SELECTOR).toBe(encodeSelector('balanceOfAt(address,uint64)'));
+        });
+
+        it('should have correct totalSupplyAt selector', () => {
+            expect(TOTAL_SUPPLY_AT_SELECTOR).toBe(encodeSelector('totalSupplyAt(uint64)'));
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode Snapshot as the snapshot id', () => {
+            const event = new SnapshotEvent(7);
+            expect(event.eventType).toBe('Snapshot');
+            expect(event.length).toBe(8);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU64()).toBe(7);
+        });
+    });
+
+    describe('Snapshots', () => {
+        it('should number snapshots from one', () => {
+            expect(currentSnapshotId()).toBe(0);
+
+            expect(token.snapshot()).toBe(1);
+            expect(token.snapshot()).toBe(2);
+            expect(currentSnapshotId()).toBe(2);
+        });
+
+        it('should keep balances from before a transfer', () => {
+            token.mintTo(ALICE, 100);
+            const id = token.snapshot();
+
+            transfer(ALICE, BOB, 30);
+
+            expect(balanceOf(ALICE)).toBe(70);
+            expect(balanceOfAt(ALICE, id)).toBe(100);
+            expect(balanceOfAt(BOB, id)).toBe(0);
+        });
+
+        it('should keep the total supply from before a mint', () => {
+            const supply = totalSupply();
+            const id = token.snapshot();
+
+            token.mintTo(CAROL, 50);
+
+            expect(totalSupplyAt(id)).toBe(supply);
+            expect(balanceOfAt(CAROL, id)).toBe(0);
+            expect(totalSupply()).toBe(supply + 50);
+        });
+
+        it('should keep balance and total supply from before a burn', () => {
+            token.mintTo(DAVE, 40);
+            const supply = totalSupply();
+            const id = token.snapshot();
+
+            burn(DAVE, 15);
+
+            expect(balanceOfAt(DAVE, id)).toBe(40);
+            expect(totalSupplyAt(id)).toBe(supply);
+            expect(totalSupply()).toBe(supply - 15);
+        });
+
+        it('should tell apart several snapshots', () => {
+            token.mintTo(ERIN, 10);
+            const first = token.snapshot();
+            transfer(ERIN, BOB, 4);
+            const second = token.snapshot();
+            transfer(ERIN, BOB, 5);
+            const third = token.snapshot();
+
+            expect(balanceOfAt(ERIN, first)).toBe(10);
+            expect(balanceOfAt(ERIN, second)).toBe(6);
+            expect(balanceOfAt(ERIN, third)).toBe(1);
+        });
+
+        it('should report the current balance of an account that never changed', () => {
+            const id = token.snapshot();
+            token.snapshot();
+
+            expect(balanceOfAt(ALICE, id)).toBe(balanceOf(ALICE));
+        });
+
+        it('should revert for a snapshot that does not exist yet', () => {
+            expect(() => {
+                balanceOfAt(ALICE, currentSnapshotId() + 1);
+            }).toThrow();
+
+            expect(() => {
+                totalSupplyAt(currentSnapshotId() + 1);
+            }).toThrow();
+        });
+
+        it('should revert for snapshot zero', () => {
+            expect(() => {
+                balanceOfAt(ALICE, 0);
+            }).toThrow();
+
+            expect(() => {
+                totalSupplyAt(0);
+            }).toThrow();
+        });
+    });
+});
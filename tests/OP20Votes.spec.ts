@@ -0,0 +1,115 @@
+/**
+ * Test Suite: OP20Votes
+ *
+ * This test suite validates the constants and events the OP20Votes extension relies on.
+ *
+ * Expected Behaviors:
+ * - View selectors excluded from the reentrancy guard match their method signatures
+ * - The delegation type hash matches its type string
+ * - Delegation events encode delegator, delegates and vote changes
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    DELEGATES_SELECTOR,
+    GET_PAST_TOTAL_SUPPLY_SELECTOR,
+    GET_PAST_VOTES_SELECTOR,
+    GET_VOTES_SELECTOR,
+} from '../runtime/contracts/OP20Votes';
+import { OP20_DELEGATION_TYPE_HASH } from '../runtime/constants/Exports';
+import {
+    DelegateChangedEvent,
+    DelegateVotesChangedEvent,
+} from '../runtime/events/votes/VotesEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { sha256String } from '../runtime/env/global';
+import { Address } from '../runtime/types/Address';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+function u8ArrayToHex(values: u8[]): string {
+    const bytes = new Uint8Array(values.length);
+    for (let i: i32 = 0; i < values.length; i++) {
+        bytes[i] = values[i];
+    }
+    return toHex(bytes);
+}
+
+describe('OP20Votes', () => {
+    describe('View selectors', () => {
+        it('should have correct delegates selector', () => {
+            expect(DELEGATES_SELECTOR).toBe(encodeSelector('delegates(address)'));
+        });
+
+        it('should have correct getVotes selector', () => {
+            expect(GET_VOTES_SELECTOR).toBe(encodeSelector('getVotes(address)'));
+        });
+
+        it('should have correct getPastVotes selector', () => {
+            expect(GET_PAST_VOTES_SELECTOR).toBe(encodeSelector('getPastVotes(address,uint64)'));
+        });
+
+        it('should have correct getPastTotalSupply selector', () => {
+            expect(GET_PAST_TOTAL_SUPPLY_SELECTOR).toBe(
+                encodeSelector('getPastTotalSupply(uint64)'),
+            );
+        });
+    });
+
+    describe('Type hashes', () => {
+        it('should hash the delegation type string', () => {
+            const expected = toHex(
+                sha256String(
+                    'OP20Delegation(address delegator,address delegatee,uint256 nonce,uint64 deadline)',
+                ),
+            );
+            expect(u8ArrayToHex(OP20_DELEGATION_TYPE_HASH)).toBe(expected);
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode DelegateChanged as delegator, previous and new delegate', () => {
+            const event = new DelegateChangedEvent(makeAddress(1), Address.zero(), makeAddress(2));
+            expect(event.eventType).toBe('DelegateChanged');
+            expect(event.length).toBe(96);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readAddress()).toStrictEqual(Address.zero());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+        });
+
+        it('should encode DelegateVotesChanged as delegate, previous and new votes', () => {
+            const event = new DelegateVotesChangedEvent(
+                makeAddress(3),
+                u256.fromU32(10),
+                u256.fromU32(25),
+            );
+            expect(event.eventType).toBe('DelegateVotesChanged');
+            expect(event.length).toBe(96);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(3));
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(10));
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(25));
+        });
+    });
+});
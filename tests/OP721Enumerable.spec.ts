@@ -0,0 +1,225 @@
+/**
+ * Test Suite: OP721Enumerable
+ *
+ * This test suite validates the enumeration selectors, token pagination and how the
+ * global and per-owner token lists change on burns and transfers.
+ *
+ * Expected Behaviors:
+ * - tokenByIndex, tokens and tokensOfOwner selectors match their method signatures
+ * - Pages larger than MAX_ENUMERATION_PAGE_SIZE revert
+ * - Pages starting at or past the end of the list are empty
+ * - The last page is clamped to the remaining tokens
+ * - Removing a token moves the last token of the list into its place
+ * - Transfers move a token between owner lists and leave the global list alone
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    MAX_ENUMERATION_PAGE_SIZE,
+    OP721Enumerable,
+    TOKEN_BY_INDEX_SELECTOR,
+    TOKENS_OF_OWNER_SELECTOR,
+    TOKENS_SELECTOR,
+} from '../runtime/contracts/OP721Enumerable';
+import { Blockchain } from '../runtime/env';
+import { encodeSelector } from '../runtime/math/abi';
+import { EMPTY_POINTER } from '../runtime/math/bytes';
+import { StoredU256Array } from '../runtime/storage/arrays/StoredU256Array';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { Address } from '../runtime/types/Address';
+import { setEnvironment, toCalldata } from './utils/TestEnvironment';
+
+@final
+class TestCollection extends OP721Enumerable {
+    public page(list: StoredU256Array, offset: u32, limit: u32): u256[] {
+        return this._tokenPage(list, offset, limit);
+    }
+
+    public mintTo(to: Address, tokenId: u32): void {
+        this._mint(to, u256.fromU32(tokenId));
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const collection = new TestCollection();
+const ALICE = makeAddress(0x51);
+const BOB = makeAddress(0x52);
+const CAROL = makeAddress(0x53);
+
+function burn(owner: Address, tokenId: u32): void {
+    setEnvironment(owner);
+
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(tokenId));
+    collection.burn(toCalldata(w));
+}
+
+function transfer(from: Address, to: Address, tokenId: u32): void {
+    setEnvironment(from);
+
+    const w = new BytesWriter(64);
+    w.writeAddress(to);
+    w.writeU256(u256.fromU32(tokenId));
+    collection.transfer(toCalldata(w));
+}
+
+function tokenByIndex(index: u32): u32 {
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(index));
+    return toCalldata(collection.tokenByIndex(toCalldata(w)))
+        .readU256()
+        .toU32();
+}
+
+function tokenOfOwnerByIndex(owner: Address, index: u32): u32 {
+    const w = new BytesWriter(64);
+    w.writeAddress(owner);
+    w.writeU256(u256.fromU32(index));
+    return toCalldata(collection.tokenOfOwnerByIndex(toCalldata(w)))
+        .readU256()
+        .toU32();
+}
+
+function totalSupply(): u32 {
+    return collection.totalSupply.toU32();
+}
+
+function makeList(length: u32): StoredU256Array {
+    const list = new StoredU256Array(Blockchain.nextPointer, EMPTY_POINTER);
+    for (let i: u32 = 0; i < length; i++) {
+        list.push(u256.fromU32(100 + i));
+    }
+    list.save();
+    return list;
+}
+
+describe('OP721Enumerable', () => {
+    describe('Method selectors', () => {
+        it('should have correct tokenByIndex selector', () => {
+            expect(TOKEN_BY_INDEX_SELECTOR).toBe(encodeSelector('tokenByIndex(uint256)'));
+        });
+
+        it('should have correct tokens selector', () => {
+            expect(TOKENS_SELECTOR).toBe(encodeSelector('tokens(uint32,uint32)'));
+        });
+
+        it('should have correct tokensOfOwner selector', () => {
+            expect(TOKENS_OF_OWNER_SELECTOR).toBe(
+                encodeSelector('tokensOfOwner(address,uint32,uint32)'),
+            );
+        });
+    });
+
+    describe('Pagination', () => {
+        it('should return a full page from the offset', () => {
+            const page = new TestCollection().page(makeList(10), 2, 3);
+            expect(page.length).toBe(3);
+            expect(page[0]).toStrictEqual(u256.fromU32(102));
+            expect(page[2]).toStrictEqual(u256.fromU32(104));
+        });
+
+        it('should clamp the last page to the remaining tokens', () => {
+            const page = new TestCollection().page(makeList(10), 8, 5);
+            expect(page.length).toBe(2);
+            expect(page[0]).toStrictEqual(u256.fromU32(108));
+            expect(page[1]).toStrictEqual(u256.fromU32(109));
+        });
+
+        it('should return an empty page at the end of the list', () => {
+            expect(new TestCollection().page(makeList(10), 10, 5).length).toBe(0);
+        });
+
+        it('should return an empty page past the end of the list', () => {
+            expect(new TestCollection().page(makeList(10), 50, 5).length).toBe(0);
+            expect(new TestCollection().page(makeList(0), 0, 5).length).toBe(0);
+        });
+
+        it('should accept the maximum page size', () => {
+            const page = new TestCollection().page(makeList(3), 0, MAX_ENUMERATION_PAGE_SIZE);
+            expect(page.length).toBe(3);
+        });
+
+        it('should revert when the page size is too large', () => {
+            expect(() => {
+                new TestCollection().page(makeList(3), 0, MAX_ENUMERATION_PAGE_SIZE + 1);
+            }).toThrow();
+        });
+    });
+
+    describe('Removing tokens', () => {
+        it('should move the last token into the place of a burned middle token', () => {
+            setEnvironment(ALICE);
+            collection.mintTo(ALICE, 1);
+            collection.mintTo(ALICE, 2);
+            collection.mintTo(ALICE, 3);
+            expect(totalSupply()).toBe(3);
+
+            burn(ALICE, 2);
+
+            expect(totalSupply()).toBe(2);
+            expect(tokenByIndex(0)).toBe(1);
+            expect(tokenByIndex(1)).toBe(3);
+            expect(tokenOfOwnerByIndex(ALICE, 0)).toBe(1);
+            expect(tokenOfOwnerByIndex(ALICE, 1)).toBe(3);
+        });
+
+        it('should shrink the lists past a burned token', () => {
+            expect(() => {
+                tokenByIndex(2);
+            }).toThrow();
+
+            expect(() => {
+                tokenOfOwnerByIndex(ALICE, 2);
+            }).toThrow();
+        });
+
+        it('should move a transferred token between owner lists only', () => {
+            setEnvironment(BOB);
+            collection.mintTo(BOB, 10);
+            collection.mintTo(BOB, 11);
+            collection.mintTo(BOB, 12);
+
+            transfer(BOB, CAROL, 10);
+
+            expect(totalSupply()).toBe(5);
+            expect(tokenOfOwnerByIndex(BOB, 0)).toBe(12);
+            expect(tokenOfOwnerByIndex(BOB, 1)).toBe(11);
+            expect(tokenOfOwnerByIndex(CAROL, 0)).toBe(10);
+
+            expect(tokenByIndex(2)).toBe(10);
+            expect(tokenByIndex(3)).toBe(11);
+            expect(tokenByIndex(4)).toBe(12);
+        });
+
+        it('should pop a burned last token without moving others', () => {
+            burn(BOB, 12);
+
+            expect(totalSupply()).toBe(4);
+            expect(tokenByIndex(3)).toBe(11);
+            expect(tokenOfOwnerByIndex(BOB, 0)).toBe(11);
+            expect(() => {
+                tokenByIndex(4);
+            }).toThrow();
+        });
+
+        it('should page the global list after removals', () => {
+            const w = new BytesWriter(8);
+            w.writeU32(0);
+            w.writeU32(10);
+            const page = toCalldata(collection.tokens(toCalldata(w))).readU256Array();
+
+            expect(page.length).toBe(4);
+            expect(page[0]).toStrictEqual(u256.fromU32(1));
+            expect(page[1]).toStrictEqual(u256.fromU32(3));
+            expect(page[2]).toStrictEqual(u256.fromU32(10));
+            expect(page[3]).toStrictEqual(u256.fromU32(11));
+        });
+    });
+});
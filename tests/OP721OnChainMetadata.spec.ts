@@ -0,0 +1,168 @@
+/**
+ * Test Suite: OP721OnChainMetadata
+ *
+ * This test suite validates metadata rendering, trait validation and the encoding helpers.
+ *
+ * Expected Behaviors:
+ * - Base64 encoding follows RFC 4648, with padding
+ * - JSON strings escape quotes, backslashes and control characters
+ * - Metadata documents render typed traits and leave out empty fields
+ * - Oversized documents revert
+ * - MetadataUpdate events encode the token id
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { OP721OnChainMetadata } from '../runtime/contracts/OP721OnChainMetadata';
+import { OP721Trait, OP721TraitType } from '../runtime/contracts/interfaces/OP721Trait';
+import { MetadataUpdateEvent } from '../runtime/events/metadata/MetadataEvents';
+import { encodeBase64 } from '../runtime/utils/base64';
+import { escapeJsonString } from '../runtime/utils/json';
+
+function base64(text: string): string {
+    return encodeBase64(Uint8Array.wrap(String.UTF8.encode(text)));
+}
+
+function renderOversized(): void {
+    OP721OnChainMetadata.renderMetadata('Big', 'x'.repeat(30000), '', []);
+}
+
+describe('OP721OnChainMetadata', () => {
+    describe('Base64', () => {
+        it('should match the RFC 4648 test vectors', () => {
+            expect(base64('')).toBe('');
+            expect(base64('f')).toBe('Zg==');
+            expect(base64('fo')).toBe('Zm8=');
+            expect(base64('foo')).toBe('Zm9v');
+            expect(base64('foob')).toBe('Zm9vYg==');
+            expect(base64('fooba')).toBe('Zm9vYmE=');
+            expect(base64('foobar')).toBe('Zm9vYmFy');
+        });
+
+        it('should use the + and / characters', () => {
+            const bytes = new Uint8Array(3);
+            bytes[0] = 0xfb;
+            bytes[1] = 0xff;
+            bytes[2] = 0xbf;
+            expect(encodeBase64(bytes)).toBe('+/+/');
+        });
+
+        it('should build a data URI', () => {
+            expect(OP721OnChainMetadata.toDataURI('{"a":1}')).toBe(
+                'data:application/json;base64,eyJhIjoxfQ==',
+            );
+        });
+    });
+
+    describe('JSON escaping', () => {
+        it('should keep plain strings as they are', () => {
+            expect(escapeJsonString('Laser Eyes')).toBe('Laser Eyes');
+            expect(escapeJsonString('é ₿')).toBe('é ₿');
+        });
+
+        it('should escape quotes and backslashes', () => {
+            expect(escapeJsonString('say "hi"')).toBe('say \\"hi\\"');
+            expect(escapeJsonString('a\\b')).toBe('a\\\\b');
+        });
+
+        it('should escape control characters', () => {
+            expect(escapeJsonString('a\nb\rc\td')).toBe('a\\nb\\rc\\td');
+            expect(escapeJsonString('\b\f')).toBe('\\b\\f');
+            expect(escapeJsonString('\x00\x1f')).toBe('\\u0000\\u001f');
+        });
+    });
+
+    describe('Trait validation', () => {
+        it('should accept any string', () => {
+            expect(OP721OnChainMetadata.isValidTraitValue(<u8>OP721TraitType.STRING, '')).toBe(
+                true,
+            );
+        });
+
+        it('should only accept JSON numbers', () => {
+            const t = <u8>OP721TraitType.NUMBER;
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '0')).toBe(true);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '-12')).toBe(true);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '3.25')).toBe(true);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '')).toBe(false);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '-')).toBe(false);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '01')).toBe(false);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '1.')).toBe(false);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '1e5')).toBe(false);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '1,"x":2')).toBe(false);
+        });
+
+        it('should only accept true and false as booleans', () => {
+            const t = <u8>OP721TraitType.BOOLEAN;
+            expect(OP721OnChainMetadata.isValidTraitValue(t, 'true')).toBe(true);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, 'false')).toBe(true);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, 'True')).toBe(false);
+        });
+
+        it('should only accept unsigned integers as dates', () => {
+            const t = <u8>OP721TraitType.DATE;
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '1700000000')).toBe(true);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '-1')).toBe(false);
+            expect(OP721OnChainMetadata.isValidTraitValue(t, '1.5')).toBe(false);
+        });
+
+        it('should reject unknown trait types', () => {
+            expect(OP721OnChainMetadata.isValidTraitValue(4, 'x')).toBe(false);
+        });
+    });
+
+    describe('Rendering', () => {
+        it('should render a document without traits', () => {
+            expect(OP721OnChainMetadata.renderMetadata('Punk #1', '', '', [])).toBe(
+                '{"name":"Punk #1","attributes":[]}',
+            );
+        });
+
+        it('should render every trait type', () => {
+            const traits: OP721Trait[] = [
+                new OP721Trait('Eyes', <u8>OP721TraitType.STRING, 'Laser'),
+                new OP721Trait('Level', <u8>OP721TraitType.NUMBER, '5'),
+                new OP721Trait('Rare', <u8>OP721TraitType.BOOLEAN, 'true'),
+                new OP721Trait('Born', <u8>OP721TraitType.DATE, '1700000000'),
+            ];
+
+            expect(
+                OP721OnChainMetadata.renderMetadata(
+                    'Punk #1',
+                    'A punk',
+                    'data:image/svg+xml;base64,PHN2Zy8+',
+                    traits,
+                ),
+            ).toBe(
+                '{"name":"Punk #1","description":"A punk","image":"data:image/svg+xml;base64,PHN2Zy8+",' +
+                    '"attributes":[{"trait_type":"Eyes","value":"Laser"},' +
+                    '{"trait_type":"Level","value":5},' +
+                    '{"trait_type":"Rare","value":true},' +
+                    '{"display_type":"date","trait_type":"Born","value":1700000000}]}',
+            );
+        });
+
+        it('should escape names, keys and values', () => {
+            const traits: OP721Trait[] = [new OP721Trait('"k"', <u8>OP721TraitType.STRING, 'a\nb')];
+
+            expect(OP721OnChainMetadata.renderMetadata('"Q"', '', '', traits)).toBe(
+                '{"name":"\\"Q\\"","attributes":[{"trait_type":"\\"k\\"","value":"a\\nb"}]}',
+            );
+        });
+
+        it('should revert when the document is too large', () => {
+            expect(renderOversized).toThrow();
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode MetadataUpdate', () => {
+            const event = new MetadataUpdateEvent(u256.fromU32(42));
+            expect(event.eventType).toBe('MetadataUpdate');
+            expect(event.length).toBe(32);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(42));
+        });
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Test Suite: OP721Royalty
+ *
+ * This test suite validates the royalty selector, royalty computation and royalty events.
+ *
+ * Expected Behaviors:
+ * - royaltyInfo's selector matches its method signature
+ * - Royalties are the sale price times the fee in basis points, rounded down
+ * - Royalty events encode the token, receiver and fee
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import {
+    OP721Royalty,
+    ROYALTY_FEE_DENOMINATOR,
+    ROYALTY_INFO_SELECTOR,
+} from '../runtime/contracts/OP721Royalty';
+import {
+    DefaultRoyaltyChangedEvent,
+    TokenRoyaltyChangedEvent,
+} from '../runtime/events/royalty/RoyaltyEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { Address } from '../runtime/types/Address';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+describe('OP721Royalty', () => {
+    describe('Method selectors', () => {
+        it('should have correct royaltyInfo selector', () => {
+            expect(ROYALTY_INFO_SELECTOR).toBe(encodeSelector('royaltyInfo(uint256,uint256)'));
+        });
+    });
+
+    describe('Royalty amount', () => {
+        it('should take the fee in basis points of the sale price', () => {
+            expect(OP721Royalty.royaltyAmount(u256.fromU64(1000000), 500)).toStrictEqual(
+                u256.fromU64(50000),
+            );
+            expect(
+                OP721Royalty.royaltyAmount(u256.fromU64(1000000), ROYALTY_FEE_DENOMINATOR),
+            ).toStrictEqual(u256.fromU64(1000000));
+            expect(OP721Royalty.royaltyAmount(u256.fromU64(1000000), 0)).toStrictEqual(u256.Zero);
+        });
+
+        it('should round down', () => {
+            expect(OP721Royalty.royaltyAmount(u256.fromU64(199), 50)).toStrictEqual(u256.Zero);
+            expect(OP721Royalty.royaltyAmount(u256.fromU64(399), 250)).toStrictEqual(
+                u256.fromU64(9),
+            );
+        });
+
+        it('should revert when the price overflows', () => {
+            expect(() => {
+                OP721Royalty.royaltyAmount(u256.Max, 2);
+            }).toThrow();
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode DefaultRoyaltyChanged', () => {
+            const event = new DefaultRoyaltyChangedEvent(makeAddress(1), 500);
+            expect(event.eventType).toBe('DefaultRoyaltyChanged');
+            expect(event.length).toBe(34);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU16()).toBe(500);
+        });
+
+        it('should encode TokenRoyaltyChanged', () => {
+            const event = new TokenRoyaltyChangedEvent(u256.fromU32(7), makeAddress(2), 250);
+            expect(event.eventType).toBe('TokenRoyaltyChanged');
+            expect(event.length).toBe(66);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(7));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+            expect(reader.readU16()).toBe(250);
+        });
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * Test Suite: OwnablePlugin
+ *
+ * This test suite validates the OwnablePlugin functionality for two-step
+ * ownership transfers.
+ *
+ * Expected Behaviors:
+ * - Plugin handles ownership-related method selectors
+ * - No owner or pending owner exists before deployment
+ * - The zero address is never treated as the owner
+ * - Ownership events encode the previous and new owner
+ * - UpdatablePlugin accepts an OwnablePlugin as its update authority
+ * - The deployer becomes the owner when the plugin is added by an update
+ * - A renounced owner is not restored by an update
+ */
+
+import { OwnablePlugin } from '../runtime/plugins/OwnablePlugin';
+import { UpdatablePlugin } from '../runtime/plugins/UpdatablePlugin';
+import {
+    OwnershipRenouncedEvent,
+    OwnershipTransferredEvent,
+    OwnershipTransferStartedEvent,
+} from '../runtime/events/ownable/OwnableEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { Address } from '../runtime/types/Address';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { Blockchain } from '../runtime/env';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { OP_NET } from '../runtime/contracts/OP_NET';
+import { DEPLOYER, setContract, setEnvironment, toCalldata } from './utils/TestEnvironment';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+@final
+class UpdatableContract extends OP_NET {
+    public readonly ownable: OwnablePlugin;
+    public readonly updatable: UpdatablePlugin;
+
+    public constructor() {
+        super();
+        const ownable = new OwnablePlugin();
+        this.ownable = ownable;
+        this.updatable = new UpdatablePlugin(
+            1,
+            Blockchain.nextPointer,
+            Blockchain.nextPointer,
+            ownable,
+        );
+        this.registerPlugin(this.ownable);
+        this.registerPlugin(this.updatable);
+    }
+}
+
+const upgradedContract = new UpdatableContract();
+const renouncedContract = new UpdatableContract();
+const SOURCE = makeAddress(0x51);
+
+function submitUpdate(contract: UpdatableContract, source: Address): void {
+    const w = new BytesWriter(32);
+    w.writeAddress(source);
+    contract.execute(UpdatablePlugin.SUBMIT_UPDATE_SELECTOR, toCalldata(w));
+}
+
+function applyUpdate(contract: UpdatableContract, source: Address): void {
+    const w = new BytesWriter(36);
+    w.writeAddress(source);
+    w.writeBytesWithLength(new Uint8Array(0));
+    contract.execute(UpdatablePlugin.APPLY_UPDATE_SELECTOR, toCalldata(w));
+}
+
+describe('OwnablePlugin', () => {
+    describe('Method selectors', () => {
+        it('should have correct owner selector', () => {
+            expect(OwnablePlugin.OWNER_SELECTOR).toBe(encodeSelector('owner()'));
+        });
+
+        it('should have correct pendingOwner selector', () => {
+            expect(OwnablePlugin.PENDING_OWNER_SELECTOR).toBe(encodeSelector('pendingOwner()'));
+        });
+
+        it('should have correct transferOwnership selector', () => {
+            const expected = encodeSelector('transferOwnership(address)');
+            expect(OwnablePlugin.TRANSFER_OWNERSHIP_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct acceptOwnership selector', () => {
+            const expected = encodeSelector('acceptOwnership()');
+            expect(OwnablePlugin.ACCEPT_OWNERSHIP_SELECTOR).toBe(expected);
+        });
+
+        it('should have correct renounceOwnership selector', () => {
+            const expected = encodeSelector('renounceOwnership()');
+            expect(OwnablePlugin.RENOUNCE_OWNERSHIP_SELECTOR).toBe(expected);
+        });
+    });
+
+    describe('Initial state', () => {
+        it('should have no owner before deployment', () => {
+            const plugin = new OwnablePlugin();
+            expect(plugin.owner.isZero()).toBe(true);
+        });
+
+        it('should have no pending owner before deployment', () => {
+            const plugin = new OwnablePlugin();
+            expect(plugin.pendingOwner.isZero()).toBe(true);
+        });
+
+        it('should never treat the zero address as owner', () => {
+            const plugin = new OwnablePlugin();
+            expect(plugin.isOwner(Address.zero())).toBe(false);
+        });
+
+        it('should not treat an arbitrary address as owner', () => {
+            const plugin = new OwnablePlugin();
+            expect(plugin.isOwner(makeAddress(0x42))).toBe(false);
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode OwnershipTransferStarted as previous and new owner', () => {
+            const event = new OwnershipTransferStartedEvent(makeAddress(1), makeAddress(2));
+            expect(event.eventType).toBe('OwnershipTransferStarted');
+            expect(event.length).toBe(64);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+        });
+
+        it('should encode OwnershipTransferred as previous and new owner', () => {
+            const event = new OwnershipTransferredEvent(Address.zero(), makeAddress(3));
+            expect(event.eventType).toBe('OwnershipTransferred');
+            expect(event.length).toBe(64);
+        });
+
+        it('should encode OwnershipRenounced as previous owner', () => {
+            const event = new OwnershipRenouncedEvent(makeAddress(4));
+            expect(event.eventType).toBe('OwnershipRenounced');
+            expect(event.length).toBe(32);
+        });
+    });
+
+    describe('UpdatablePlugin integration', () => {
+        it('should accept an OwnablePlugin as update authority', () => {
+            const ownable = new OwnablePlugin();
+            const plugin = new UpdatablePlugin(
+                144,
+                Blockchain.nextPointer,
+                Blockchain.nextPointer,
+                ownable,
+            );
+
+            expect(plugin.updateDelay).toBe(144);
+            expect(plugin.hasPendingUpdate).toBe(false);
+        });
+    });
+
+    describe('Added by an update', () => {
+        it('should make the deployer the owner so later updates can be applied', () => {
+            setContract(SOURCE);
+            setEnvironment(DEPLOYER, 10);
+            upgradedContract.onUpdate(toCalldata(new BytesWriter(0)));
+
+            expect(upgradedContract.ownable.owner).toStrictEqual(DEPLOYER);
+
+            submitUpdate(upgradedContract, SOURCE);
+            expect(upgradedContract.updatable.hasPendingUpdate).toBe(true);
+
+            setEnvironment(DEPLOYER, 11);
+            applyUpdate(upgradedContract, SOURCE);
+            expect(upgradedContract.updatable.hasPendingUpdate).toBe(false);
+        });
+
+        it('should keep a renounced owner renounced', () => {
+            setEnvironment(DEPLOYER, 20);
+            renouncedContract.onDeployment(toCalldata(new BytesWriter(0)));
+            renouncedContract.execute(
+                OwnablePlugin.RENOUNCE_OWNERSHIP_SELECTOR,
+                toCalldata(new BytesWriter(0)),
+            );
+
+            renouncedContract.onUpdate(toCalldata(new BytesWriter(0)));
+
+            expect(renouncedContract.ownable.owner.isZero()).toBe(true);
+            expect(() => {
+                submitUpdate(renouncedContract, SOURCE);
+            }).toThrow();
+        });
+    });
+});
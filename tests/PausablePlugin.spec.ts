@@ -0,0 +1,131 @@
+/**
+ * Test Suite: PausablePlugin
+ *
+ * This test suite validates the PausablePlugin functionality for blocking
+ * selected methods while a contract is paused.
+ *
+ * Expected Behaviors:
+ * - Plugin handles pause-related method selectors
+ * - Contracts start unpaused
+ * - Only configured selectors are pausable
+ * - Receiver callbacks are never pausable
+ * - OP20 and OP721 presets cover transfers but not views
+ */
+
+import { PausablePlugin } from '../runtime/plugins/PausablePlugin';
+import { PausedEvent, UnpausedEvent } from '../runtime/events/pausable/PausableEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { Address } from '../runtime/types/Address';
+import {
+    BALANCE_OF_SELECTOR,
+    ON_FLASH_LOAN_SELECTOR,
+    ON_OP20_RECEIVED_SELECTOR,
+    ON_OP721_RECEIVED_SELECTOR,
+} from '../runtime/constants/Exports';
+
+describe('PausablePlugin', () => {
+    describe('Method selectors', () => {
+        it('should have correct pause selector', () => {
+            expect(PausablePlugin.PAUSE_SELECTOR).toBe(encodeSelector('pause()'));
+        });
+
+        it('should have correct unpause selector', () => {
+            expect(PausablePlugin.UNPAUSE_SELECTOR).toBe(encodeSelector('unpause()'));
+        });
+
+        it('should have correct paused selector', () => {
+            expect(PausablePlugin.PAUSED_SELECTOR).toBe(encodeSelector('paused()'));
+        });
+    });
+
+    describe('Initial state', () => {
+        it('should start unpaused', () => {
+            const plugin = new PausablePlugin();
+            expect(plugin.paused).toBe(false);
+        });
+
+        it('should not pause anything without configured selectors', () => {
+            const plugin = new PausablePlugin();
+            expect(plugin.isPausable(encodeSelector('transfer(address,uint256)'))).toBe(false);
+        });
+    });
+
+    describe('Configured selectors', () => {
+        it('should pause configured selectors', () => {
+            const selector = encodeSelector('mintReward(address)');
+            const plugin = new PausablePlugin([selector]);
+            expect(plugin.isPausable(selector)).toBe(true);
+        });
+
+        it('should not pause unrelated selectors', () => {
+            const plugin = new PausablePlugin([encodeSelector('mintReward(address)')]);
+            expect(plugin.isPausable(encodeSelector('claim()'))).toBe(false);
+        });
+
+        it('should never pause receiver callbacks', () => {
+            const plugin = new PausablePlugin([
+                ON_OP20_RECEIVED_SELECTOR,
+                ON_OP721_RECEIVED_SELECTOR,
+                ON_FLASH_LOAN_SELECTOR,
+            ]);
+            expect(plugin.isPausable(ON_OP20_RECEIVED_SELECTOR)).toBe(false);
+            expect(plugin.isPausable(ON_OP721_RECEIVED_SELECTOR)).toBe(false);
+            expect(plugin.isPausable(ON_FLASH_LOAN_SELECTOR)).toBe(false);
+        });
+    });
+
+    describe('Presets', () => {
+        it('should pause OP20 transfers and mints', () => {
+            const plugin = new PausablePlugin(PausablePlugin.OP20_SELECTORS);
+            expect(plugin.isPausable(encodeSelector('transfer(address,uint256)'))).toBe(true);
+            expect(plugin.isPausable(encodeSelector('transferFrom(address,address,uint256)'))).toBe(
+                true,
+            );
+            expect(plugin.isPausable(encodeSelector('mint(address,uint256)'))).toBe(true);
+        });
+
+        it('should pause OP20 batch transfers and airdrops', () => {
+            const plugin = new PausablePlugin(PausablePlugin.OP20_SELECTORS);
+            expect(
+                plugin.isPausable(encodeSelector('batchTransfer(tuple(address,uint256)[])')),
+            ).toBe(true);
+            expect(plugin.isPausable(encodeSelector('airdrop(tuple(address,uint256)[])'))).toBe(
+                true,
+            );
+        });
+
+        it('should keep OP20 views working', () => {
+            const plugin = new PausablePlugin(PausablePlugin.OP20_SELECTORS);
+            expect(plugin.isPausable(BALANCE_OF_SELECTOR)).toBe(false);
+        });
+
+        it('should pause OP721 safe transfers', () => {
+            const plugin = new PausablePlugin(PausablePlugin.OP721_SELECTORS);
+            expect(
+                plugin.isPausable(
+                    encodeSelector('safeTransferFrom(address,address,uint256,bytes)'),
+                ),
+            ).toBe(true);
+        });
+
+        it('should never pause its own selectors', () => {
+            const plugin = new PausablePlugin(PausablePlugin.OP20_SELECTORS);
+            expect(plugin.isPausable(PausablePlugin.UNPAUSE_SELECTOR)).toBe(false);
+            expect(plugin.isPausable(PausablePlugin.PAUSED_SELECTOR)).toBe(false);
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode Paused with the account', () => {
+            const event = new PausedEvent(Address.zero());
+            expect(event.eventType).toBe('Paused');
+            expect(event.length).toBe(32);
+        });
+
+        it('should encode Unpaused with the account', () => {
+            const event = new UnpausedEvent(Address.zero());
+            expect(event.eventType).toBe('Unpaused');
+            expect(event.length).toBe(32);
+        });
+    });
+});
@@ -0,0 +1,133 @@
+/**
+ * Test Suite: PaymentVerifier
+ *
+ * This test suite validates how PaymentVerifier sums the satoshis a transaction paid.
+ *
+ * Expected Behaviors:
+ * - Segwit addresses decode to their witness program output scripts
+ * - Outputs match a destination by script or by `to` address
+ * - Multiple outputs to one destination are summed
+ * - OP_RETURN outputs are never counted
+ * - Unsupported addresses are rejected
+ */
+
+import { PaymentVerifier } from '../runtime/script/PaymentVerifier';
+import { BitcoinScript } from '../runtime/script/Script';
+import { TransactionOutput } from '../runtime/env/classes/UTXO';
+import { TransactionOutputFlags } from '../runtime/env/enums/TransactionFlags';
+import { ExtendedAddress } from '../runtime/types/ExtendedAddress';
+
+const P2WPKH_ADDRESS = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+const P2WPKH_SCRIPT = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+
+const P2WSH_ADDRESS = 'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7';
+const P2WSH_SCRIPT = '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262';
+
+const P2TR_ADDRESS = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+const P2TR_SCRIPT = '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+function toScriptOutput(index: u16, script: string, value: u64): TransactionOutput {
+    return new TransactionOutput(
+        index,
+        <u8>TransactionOutputFlags.hasScriptPubKey,
+        fromHex(script),
+        null,
+        value,
+    );
+}
+
+function toAddressOutput(index: u16, address: string, value: u64): TransactionOutput {
+    return new TransactionOutput(index, <u8>TransactionOutputFlags.hasTo, null, address, value);
+}
+
+describe('PaymentVerifier', () => {
+    describe('Address decoding', () => {
+        it('should decode a P2WPKH address', () => {
+            expect(toHex(PaymentVerifier.addressToScript(P2WPKH_ADDRESS))).toBe(P2WPKH_SCRIPT);
+        });
+
+        it('should decode a P2WSH address', () => {
+            expect(toHex(PaymentVerifier.addressToScript(P2WSH_ADDRESS))).toBe(P2WSH_SCRIPT);
+        });
+
+        it('should decode a P2TR address', () => {
+            expect(toHex(PaymentVerifier.addressToScript(P2TR_ADDRESS))).toBe(P2TR_SCRIPT);
+        });
+
+        it('should reject an invalid address', () => {
+            expect(() => {
+                PaymentVerifier.addressToScript('not-an-address');
+            }).toThrow();
+        });
+
+        it('should build witness program scripts', () => {
+            const program = fromHex(P2TR_SCRIPT.substr(4));
+            expect(toHex(BitcoinScript.witnessProgram(1, program))).toBe(P2TR_SCRIPT);
+        });
+    });
+
+    describe('Totals', () => {
+        it('should sum outputs given by script and by address', () => {
+            const verifier = new PaymentVerifier([
+                toScriptOutput(0, P2WPKH_SCRIPT, 1000),
+                toAddressOutput(1, P2WPKH_ADDRESS, 2500),
+                toScriptOutput(2, P2TR_SCRIPT, 700),
+            ]);
+
+            expect(verifier.paidTo(P2WPKH_ADDRESS)).toBe(3500);
+            expect(verifier.paidToScript(fromHex(P2WPKH_SCRIPT))).toBe(3500);
+            expect(verifier.paidTo(P2TR_ADDRESS)).toBe(700);
+        });
+
+        it('should return zero for destinations that were not paid', () => {
+            const verifier = new PaymentVerifier([toScriptOutput(0, P2WPKH_SCRIPT, 1000)]);
+            expect(verifier.paidTo(P2WSH_ADDRESS)).toBe(0);
+        });
+
+        it('should ignore OP_RETURN outputs', () => {
+            const verifier = new PaymentVerifier([
+                toScriptOutput(0, P2TR_SCRIPT, 1000),
+                new TransactionOutput(
+                    1,
+                    <u8>(TransactionOutputFlags.hasScriptPubKey | TransactionOutputFlags.OP_RETURN),
+                    fromHex(P2TR_SCRIPT),
+                    null,
+                    5000,
+                ),
+            ]);
+            expect(verifier.paidTo(P2TR_ADDRESS)).toBe(1000);
+        });
+
+        it('should match the taproot output of an extended address', () => {
+            const key: u8[] = [];
+            const program = fromHex(P2TR_SCRIPT.substr(4));
+            for (let i: i32 = 0; i < 32; i++) {
+                key.push(program[i]);
+            }
+            const mldsaHash: u8[] = new Array<u8>(32).fill(7);
+            const address = new ExtendedAddress(key, mldsaHash);
+
+            const verifier = new PaymentVerifier([toScriptOutput(0, P2TR_SCRIPT, 42)]);
+            expect(verifier.paidToExtendedAddress(address)).toBe(42);
+        });
+    });
+});
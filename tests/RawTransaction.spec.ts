@@ -0,0 +1,162 @@
+/**
+ * Test Suite: RawTransaction
+ *
+ * This test suite validates consensus serialization of Bitcoin transactions.
+ *
+ * Expected Behaviors:
+ * - Legacy and segwit transactions parse and re-serialize byte for byte
+ * - txid excludes witness data, wtxid includes it
+ * - Transactions built in-contract serialize like parsed ones
+ * - Outpoints are only committed by the transaction that created them
+ * - Truncated, padded and non-canonical transactions are rejected
+ */
+
+import { RawTransaction, SEQUENCE_FINAL } from '../runtime/script/RawTransaction';
+
+// Bitcoin genesis coinbase transaction
+const GENESIS_TX =
+    '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000';
+const GENESIS_TXID = '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b';
+
+// BIP143 native P2WPKH example, signed
+const SEGWIT_TX =
+    '01000000000102fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f00000000494830450221008b9d1dc26ba6a9cb62127b02742fa9d754cd3bebf337f7a55d114c8e5cdd30be022040529b194ba3f9281a99f2b1c0a19c0489bc22ede944ccf4ecbab4cc618ef3ed01eeffffffef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a0100000000ffffffff02202cb206000000001976a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac9093510d000000001976a9143bde42dbee7e4dbe6a21b2d50ce2f0167faa815988ac000247304402203609e17b84f6a7d30c80bfa610b5b4542f32a8a0d5447a12fb1366d7f01cc44a0220573a954c4518331561406f90300e8f3358f51928d43c212a8caed02de67eebee0121025476c2e83188368da1ff3e292e7acafcdb3566bb0ad253f62fc70f07aeee635711000000';
+const SEGWIT_TXID = '09462d604a3102fae083ada369c795855a28db4bdd3d05358a361cf32a1a15e8';
+const SEGWIT_WTXID = '62b709c9126ae7782ea86576b338f39211199d149dced92423df070937386cc3';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+describe('RawTransaction', () => {
+    describe('Parsing', () => {
+        it('should parse a legacy transaction', () => {
+            const tx = RawTransaction.parse(fromHex(GENESIS_TX));
+
+            expect(tx.version).toBe(1);
+            expect(tx.inputs.length).toBe(1);
+            expect(tx.inputs[0].outputIndex).toBe(0xffffffff);
+            expect(tx.inputs[0].sequence).toBe(SEQUENCE_FINAL);
+            expect(tx.outputs.length).toBe(1);
+            expect(tx.outputs[0].value).toBe(5000000000);
+            expect(tx.hasWitness).toBe(false);
+            expect(toHex(tx.serialize())).toBe(GENESIS_TX);
+        });
+
+        it('should parse a segwit transaction', () => {
+            const tx = RawTransaction.parse(fromHex(SEGWIT_TX));
+
+            expect(tx.inputs.length).toBe(2);
+            expect(tx.inputs[0].witness.length).toBe(0);
+            expect(tx.inputs[1].witness.length).toBe(2);
+            expect(tx.inputs[1].witness[1].length).toBe(33);
+            expect(tx.outputs[1].value).toBe(223450000);
+            expect(tx.lockTime).toBe(17);
+            expect(toHex(tx.serialize())).toBe(SEGWIT_TX);
+        });
+
+        it('should reject malformed transactions', () => {
+            const raw = fromHex(SEGWIT_TX);
+
+            expect(RawTransaction.parseOrNull(raw.subarray(0, raw.length - 1))).toBeNull();
+            expect(RawTransaction.parseOrNull(fromHex(SEGWIT_TX + '00'))).toBeNull();
+            expect(RawTransaction.parseOrNull(new Uint8Array(0))).toBeNull();
+            expect(() => {
+                RawTransaction.parse(fromHex('0100000001'));
+            }).toThrow();
+        });
+
+        it('should reject a segwit serialization without witness data', () => {
+            const body = GENESIS_TX.substr(8, GENESIS_TX.length - 16);
+            const lockTime = GENESIS_TX.substr(GENESIS_TX.length - 8);
+            const raw = GENESIS_TX.substr(0, 8) + '0001' + body + '00' + lockTime;
+
+            expect(RawTransaction.parseOrNull(fromHex(raw))).toBeNull();
+        });
+
+        it('should reject non-canonical compact sizes', () => {
+            // The single input count encoded as 0xfd 0x01 0x00
+            const raw = GENESIS_TX.substr(0, 8) + 'fd0100' + GENESIS_TX.substr(10);
+
+            expect(RawTransaction.parseOrNull(fromHex(raw))).toBeNull();
+        });
+    });
+
+    describe('Hashes', () => {
+        it('should compute the txid of a legacy transaction', () => {
+            const tx = RawTransaction.parse(fromHex(GENESIS_TX));
+
+            expect(toHex(RawTransaction.reverseHash(tx.txid()))).toBe(GENESIS_TXID);
+            expect(toHex(tx.wtxid())).toBe(toHex(tx.txid()));
+        });
+
+        it('should compute the txid and wtxid of a segwit transaction', () => {
+            const tx = RawTransaction.parse(fromHex(SEGWIT_TX));
+
+            expect(toHex(tx.txid())).toBe(SEGWIT_TXID);
+            expect(toHex(tx.wtxid())).toBe(SEGWIT_WTXID);
+        });
+    });
+
+    describe('Building', () => {
+        it('should serialize a built transaction like the parsed one', () => {
+            const parsed = RawTransaction.parse(fromHex(SEGWIT_TX));
+            const built = new RawTransaction(1, 17);
+
+            for (let i = 0; i < parsed.inputs.length; i++) {
+                const input = parsed.inputs[i];
+                built.addInput(
+                    input.txId,
+                    input.outputIndex,
+                    input.scriptSig,
+                    input.sequence,
+                    input.witness,
+                );
+            }
+
+            for (let i = 0; i < parsed.outputs.length; i++) {
+                built.addOutput(parsed.outputs[i].value, parsed.outputs[i].scriptPubKey);
+            }
+
+            expect(toHex(built.serialize())).toBe(SEGWIT_TX);
+            expect(toHex(built.txid())).toBe(SEGWIT_TXID);
+        });
+
+        it('should reject an input with a malformed txid', () => {
+            expect(() => {
+                new RawTransaction().addInput(new Uint8Array(31), 0);
+            }).toThrow();
+        });
+    });
+
+    describe('Outpoint commitments', () => {
+        it('should commit to its own outputs only', () => {
+            const tx = RawTransaction.parse(fromHex(SEGWIT_TX));
+            const txid = fromHex(SEGWIT_TXID);
+
+            expect(tx.commitsOutput(txid, 0)).toBe(true);
+            expect(tx.commitsOutput(txid, 1)).toBe(true);
+            expect(tx.commitsOutput(txid, 2)).toBe(false);
+            expect(tx.commitsOutput(fromHex(SEGWIT_WTXID), 0)).toBe(false);
+            expect(tx.outputAt(1).value).toBe(223450000);
+            expect(() => {
+                RawTransaction.parse(fromHex(SEGWIT_TX)).outputAt(2);
+            }).toThrow();
+        });
+    });
+});
@@ -0,0 +1,303 @@
+/**
+ * Test Suite: ReservationPlugin
+ *
+ * This test suite validates the ReservationPlugin selectors, events, initial state and the
+ * reserve, claim and expiry flow.
+ *
+ * Expected Behaviors:
+ * - Plugin handles reservation method selectors
+ * - Nothing is reserved before the first reservation
+ * - Unknown reservations have no status and no buyer
+ * - Reservation events have fixed sizes
+ * - Expiry windows shorter than 2 blocks are rejected
+ * - Reservations hold their quantity out of inventory until claimed or expired
+ * - Claims need a later block, the buyer, and an output paying the price to the seller
+ * - One transaction's outputs pay for a single claim
+ * - Expired reservations release their quantity and can no longer be claimed
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { ReservationPlugin, ReservationStatus } from '../runtime/plugins/ReservationPlugin';
+import {
+    ReservationCreatedEvent,
+    ReservationExpiredEvent,
+    ReservationFulfilledEvent,
+} from '../runtime/events/reservation/ReservationEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { Address } from '../runtime/types/Address';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { TransactionOutputFlags } from '../runtime/env/enums/TransactionFlags';
+import { SafeMath } from '../runtime/types/SafeMath';
+import { setEnvironment, setOutputs, toCalldata } from './utils/TestEnvironment';
+
+const PAYMENT_ADDRESS = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+
+class TestSale extends ReservationPlugin {
+    /** Units handed to buyers by fulfilled reservations. */
+    public delivered: u256 = u256.Zero;
+
+    public constructor(
+        private readonly available: u32 = 10,
+        expiryBlocks: u64 = 3,
+    ) {
+        super(PAYMENT_ADDRESS, 1000, expiryBlocks);
+    }
+
+    protected override _availableSupply(): u256 {
+        return u256.fromU32(this.available);
+    }
+
+    protected override _onReservationFulfilled(_id: u256, _buyer: Address, quantity: u256): void {
+        this.delivered = SafeMath.add(this.delivered, quantity);
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const ALICE = makeAddress(0x41);
+const BOB = makeAddress(0x42);
+
+const inventorySale = new TestSale(10);
+const sale = new TestSale(1000);
+const expirySale = new TestSale(5);
+
+// Closures passed to expect() cannot capture locals, so ids are kept here.
+let lastId: u256 = u256.Zero;
+let expiringId: u256 = u256.Zero;
+
+/** Makes the following transactions pay `satoshis` to the seller. */
+function pay(satoshis: u64): void {
+    const outputs = new BytesWriter(2 + 1 + 2 + 4 + PAYMENT_ADDRESS.length + 8);
+    outputs.writeU16(1);
+    outputs.writeU8(<u8>TransactionOutputFlags.hasTo);
+    outputs.writeU16(0);
+    outputs.writeStringWithLength(PAYMENT_ADDRESS);
+    outputs.writeU64(satoshis);
+    setOutputs(outputs);
+}
+
+function reserve(target: TestSale, buyer: Address, quantity: u32, blockNumber: u64): u256 {
+    setEnvironment(buyer, blockNumber);
+
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(quantity));
+    const response = target.execute(ReservationPlugin.RESERVE_SELECTOR, toCalldata(w));
+    lastId = toCalldata(response!).readU256();
+    return lastId;
+}
+
+/** Claims in the current transaction. */
+function claimInTransaction(target: TestSale, id: u256): void {
+    const w = new BytesWriter(32);
+    w.writeU256(id);
+    target.execute(ReservationPlugin.CLAIM_RESERVATION_SELECTOR, toCalldata(w));
+}
+
+function claim(target: TestSale, buyer: Address, id: u256, blockNumber: u64): void {
+    setEnvironment(buyer, blockNumber);
+    claimInTransaction(target, id);
+}
+
+function expire(target: TestSale, maxCount: u32, blockNumber: u64): u32 {
+    setEnvironment(BOB, blockNumber);
+
+    const w = new BytesWriter(4);
+    w.writeU32(maxCount);
+    const response = target.execute(ReservationPlugin.EXPIRE_RESERVATIONS_SELECTOR, toCalldata(w));
+    return toCalldata(response!).readU32();
+}
+
+describe('ReservationPlugin', () => {
+    describe('Method selectors', () => {
+        it('should have correct reserve selector', () => {
+            expect(ReservationPlugin.RESERVE_SELECTOR).toBe(encodeSelector('reserve(uint256)'));
+        });
+
+        it('should have correct claimReservation selector', () => {
+            expect(ReservationPlugin.CLAIM_RESERVATION_SELECTOR).toBe(
+                encodeSelector('claimReservation(uint256)'),
+            );
+        });
+
+        it('should have correct expireReservations selector', () => {
+            expect(ReservationPlugin.EXPIRE_RESERVATIONS_SELECTOR).toBe(
+                encodeSelector('expireReservations(uint32)'),
+            );
+        });
+
+        it('should have correct view selectors', () => {
+            expect(ReservationPlugin.RESERVATION_SELECTOR).toBe(
+                encodeSelector('reservation(uint256)'),
+            );
+            expect(ReservationPlugin.RESERVED_SUPPLY_SELECTOR).toBe(
+                encodeSelector('reservedSupply()'),
+            );
+        });
+    });
+
+    describe('Initial state', () => {
+        it('should expose the sale terms', () => {
+            const sale = new TestSale();
+            expect(sale.pricePerUnit).toBe(1000);
+            expect(sale.expiryBlocks).toBe(3);
+        });
+
+        it('should start with nothing reserved', () => {
+            const sale = new TestSale();
+            expect(sale.reservedSupply).toStrictEqual(u256.Zero);
+        });
+
+        it('should reject an expiry window without a block to claim in', () => {
+            expect(() => {
+                new TestSale(10, 1);
+            }).toThrow();
+
+            expect(new TestSale(10, 2).expiryBlocks).toBe(2);
+        });
+
+        it('should report unknown reservations as None', () => {
+            const sale = new TestSale();
+            expect(sale.statusOf(u256.One)).toBe(ReservationStatus.None);
+            expect(sale.buyerOf(u256.One)).toStrictEqual(Address.zero());
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode ReservationCreated with id, buyer, quantity, price and expiry', () => {
+            const event = new ReservationCreatedEvent(u256.One, Address.zero(), u256.One, 1000, 10);
+            expect(event.eventType).toBe('ReservationCreated');
+            expect(event.length).toBe(112);
+        });
+
+        it('should encode ReservationFulfilled with id, buyer, quantity and price', () => {
+            const event = new ReservationFulfilledEvent(u256.One, Address.zero(), u256.One, 1000);
+            expect(event.eventType).toBe('ReservationFulfilled');
+            expect(event.length).toBe(104);
+        });
+
+        it('should encode ReservationExpired with id, buyer and quantity', () => {
+            const event = new ReservationExpiredEvent(u256.One, Address.zero(), u256.One);
+            expect(event.eventType).toBe('ReservationExpired');
+            expect(event.length).toBe(96);
+        });
+    });
+
+    describe('Reserving', () => {
+        it('should hold reserved units out of inventory', () => {
+            const first = reserve(inventorySale, ALICE, 4, 10);
+            expect(inventorySale.reservedSupply).toStrictEqual(u256.fromU32(4));
+            expect(inventorySale.statusOf(first)).toBe(ReservationStatus.Pending);
+            expect(inventorySale.buyerOf(first)).toStrictEqual(ALICE);
+
+            reserve(inventorySale, BOB, 6, 10);
+            expect(inventorySale.reservedSupply).toStrictEqual(u256.fromU32(10));
+
+            expect(() => {
+                reserve(inventorySale, BOB, 1, 11);
+            }).toThrow();
+        });
+
+        it('should reject a zero quantity', () => {
+            expect(() => {
+                reserve(sale, ALICE, 0, 10);
+            }).toThrow();
+        });
+    });
+
+    describe('Claiming', () => {
+        it('should fulfill a claim that pays the seller', () => {
+            const id = reserve(sale, ALICE, 2, 100);
+            const reserved = sale.reservedSupply;
+            const delivered = sale.delivered;
+
+            pay(2000);
+            claim(sale, ALICE, id, 101);
+
+            expect(sale.statusOf(id)).toBe(ReservationStatus.Fulfilled);
+            expect(sale.delivered).toStrictEqual(SafeMath.add(delivered, u256.fromU32(2)));
+            expect(sale.reservedSupply).toStrictEqual(SafeMath.sub(reserved, u256.fromU32(2)));
+        });
+
+        it('should reject an underpaid claim', () => {
+            reserve(sale, ALICE, 2, 110);
+            pay(1999);
+
+            expect(() => {
+                claim(sale, ALICE, lastId, 111);
+            }).toThrow();
+        });
+
+        it('should let one transaction pay for a single claim', () => {
+            const first = reserve(sale, ALICE, 1, 120);
+            reserve(sale, ALICE, 1, 120);
+            pay(1000);
+
+            setEnvironment(ALICE, 121);
+            claimInTransaction(sale, first);
+            expect(sale.statusOf(first)).toBe(ReservationStatus.Fulfilled);
+
+            expect(() => {
+                claimInTransaction(sale, lastId);
+            }).toThrow();
+
+            claim(sale, ALICE, lastId, 121);
+            expect(sale.statusOf(lastId)).toBe(ReservationStatus.Fulfilled);
+        });
+
+        it('should reject a claim in the creation block', () => {
+            reserve(sale, ALICE, 1, 130);
+            pay(1000);
+
+            expect(() => {
+                claim(sale, ALICE, lastId, 130);
+            }).toThrow();
+        });
+
+        it('should reject a claim by anyone but the buyer', () => {
+            reserve(sale, ALICE, 1, 140);
+            pay(1000);
+
+            expect(() => {
+                claim(sale, BOB, lastId, 141);
+            }).toThrow();
+        });
+    });
+
+    describe('Expiry', () => {
+        it('should reject a claim from the expiry block on', () => {
+            expiringId = reserve(expirySale, ALICE, 5, 200);
+            pay(5000);
+
+            expect(() => {
+                claim(expirySale, ALICE, expiringId, 203);
+            }).toThrow();
+        });
+
+        it('should release the inventory of an expired reservation', () => {
+            expect(() => {
+                reserve(expirySale, BOB, 1, 202);
+            }).toThrow();
+
+            expect(expire(expirySale, 10, 203)).toBe(1);
+            expect(expirySale.statusOf(expiringId)).toBe(ReservationStatus.Expired);
+            expect(expirySale.reservedSupply).toStrictEqual(u256.Zero);
+
+            reserve(expirySale, BOB, 5, 203);
+            expect(expirySale.reservedSupply).toStrictEqual(u256.fromU32(5));
+        });
+
+        it('should reject a claim of an expired reservation', () => {
+            pay(5000);
+
+            expect(() => {
+                claim(expirySale, ALICE, expiringId, 204);
+            }).toThrow();
+        });
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Test Suite: Sighash
+ *
+ * This test suite validates signature hashes of the BIP143 native P2WPKH example
+ * transaction against reference implementations.
+ *
+ * Expected Behaviors:
+ * - Legacy hashes cover every sighash type and strip OP_CODESEPARATOR
+ * - SIGHASH_SINGLE without a matching output signs the number one (legacy)
+ * - BIP143 hashes match the published vector
+ * - BIP341 hashes cover key-path and script-path spends, with and without an annex
+ * - Invalid taproot hash types and inputs are rejected
+ */
+
+import { RawTransaction, RawTxOutput } from '../runtime/script/RawTransaction';
+import {
+    SIGHASH_ALL,
+    SIGHASH_ANYONECANPAY,
+    SIGHASH_DEFAULT,
+    SIGHASH_NONE,
+    SIGHASH_SINGLE,
+    Sighash,
+} from '../runtime/script/Sighash';
+
+// BIP143 native P2WPKH example, unsigned
+const TX =
+    '0100000002fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f0000000000eeffffffef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a0100000000ffffffff02202cb206000000001976a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac9093510d000000001976a9143bde42dbee7e4dbe6a21b2d50ce2f0167faa815988ac11000000';
+
+// Input 0 spends a P2PK output
+const P2PK_SCRIPT = '2103c9f4836b9a4f77fc0d81f7bcb01b7f1b35916864b9476c241ce9fc198bd25432ac';
+
+// Input 1 spends a 6 BTC P2WPKH output
+const PUBKEY_HASH = '1d0f172a0ecb48aee1be1f2687d2963ae33f71a1';
+const P2WPKH_VALUE: u64 = 600000000;
+
+// Taproot prevouts used for the BIP341 hashes
+const P2TR_SCRIPT = '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const P2WPKH_SCRIPT = '0014751e76e8199196d454941c45d1b3a323f1433bd6';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        const byte = b[i];
+        result += hexChars.charAt((byte >>> 4) & 0x0f);
+        result += hexChars.charAt(byte & 0x0f);
+    }
+    return result;
+}
+
+function taprootPrevouts(): RawTxOutput[] {
+    return [
+        new RawTxOutput(625000000, fromHex(P2TR_SCRIPT)),
+        new RawTxOutput(600000000, fromHex(P2WPKH_SCRIPT)),
+    ];
+}
+
+function legacyHash(hashType: u32): string {
+    return toHex(
+        Sighash.legacy(RawTransaction.parse(fromHex(TX)), 0, fromHex(P2PK_SCRIPT), hashType),
+    );
+}
+
+function segwitHash(hashType: u32): string {
+    const scriptCode = Sighash.p2wpkhScriptCode(fromHex(PUBKEY_HASH));
+    return toHex(
+        Sighash.segwitV0(RawTransaction.parse(fromHex(TX)), 1, scriptCode, P2WPKH_VALUE, hashType),
+    );
+}
+
+function taprootHash(hashType: u8): string {
+    return toHex(
+        Sighash.taproot(RawTransaction.parse(fromHex(TX)), 0, taprootPrevouts(), hashType),
+    );
+}
+
+describe('Sighash', () => {
+    describe('Legacy', () => {
+        it('should hash every sighash type', () => {
+            expect(legacyHash(SIGHASH_ALL)).toBe(
+                '63cec688ee06a91e913875356dd4dea2f8e0f2a2659885372da2a37e32c7532e',
+            );
+            expect(legacyHash(SIGHASH_NONE)).toBe(
+                'b5b85036f284c90e641fc6b6fd25fbe29f632a75051e05b0b006a6fbfedd0af2',
+            );
+            expect(legacyHash(SIGHASH_SINGLE)).toBe(
+                '0be090c73eb6bac7b789bb553a2a9775e8d5bcbe292f359f57fd0a13363de709',
+            );
+            expect(legacyHash(SIGHASH_ALL | SIGHASH_ANYONECANPAY)).toBe(
+                '1f948bed57a053e52f7bcaf5767ded39306b9168b0e204a76f087f2059d63088',
+            );
+            expect(legacyHash(SIGHASH_SINGLE | SIGHASH_ANYONECANPAY)).toBe(
+                '8cac7d2ba39a9b5787185c70e7b1a3dc597f1a180cab558b1c40b69757826296',
+            );
+        });
+
+        it('should strip OP_CODESEPARATOR from the script code', () => {
+            const tx = RawTransaction.parse(fromHex(TX));
+            const hash = Sighash.legacy(tx, 0, fromHex('ab' + P2PK_SCRIPT), SIGHASH_ALL);
+
+            expect(toHex(hash)).toBe(legacyHash(SIGHASH_ALL));
+        });
+
+        it('should sign one for SIGHASH_SINGLE without a matching output', () => {
+            const parsed = RawTransaction.parse(fromHex(TX));
+            const tx = new RawTransaction(parsed.version, parsed.lockTime);
+            tx.addInput(parsed.inputs[0].txId, parsed.inputs[0].outputIndex);
+            tx.addInput(parsed.inputs[1].txId, parsed.inputs[1].outputIndex);
+            tx.addOutput(parsed.outputs[0].value, parsed.outputs[0].scriptPubKey);
+
+            expect(toHex(Sighash.legacy(tx, 1, fromHex(P2PK_SCRIPT), SIGHASH_SINGLE))).toBe(
+                '0100000000000000000000000000000000000000000000000000000000000000',
+            );
+        });
+    });
+
+    describe('Segwit v0', () => {
+        it('should match the BIP143 native P2WPKH vector', () => {
+            expect(segwitHash(SIGHASH_ALL)).toBe(
+                'c37af31116d1b27caf68aae9e3ac82f1477929014d5b917657d0eb49478cb670',
+            );
+        });
+
+        it('should hash the other sighash types', () => {
+            expect(segwitHash(SIGHASH_NONE)).toBe(
+                '6ff11a9b87fb510a3a31af006bd3811b632f8a39d88a2bfda49cee203dcc356e',
+            );
+            expect(segwitHash(SIGHASH_SINGLE)).toBe(
+                'f4fe57286dd2ca8ac0e3dfccd54c352fcdcacbed80f194e264b75d7a7c74e4ce',
+            );
+            expect(segwitHash(SIGHASH_NONE | SIGHASH_ANYONECANPAY)).toBe(
+                '4abb5ef58a968f8e1ab88a9fb72f2ce74b3022e65d334ac7b8aeda747515dc15',
+            );
+            expect(segwitHash(SIGHASH_SINGLE | SIGHASH_ANYONECANPAY)).toBe(
+                '79ff9ff708f79ce8f7a4f90d62028533a99d7340b7fb3d819dfd9a599a78e39c',
+            );
+        });
+    });
+
+    describe('Taproot', () => {
+        it('should hash key-path spends for every sighash type', () => {
+            expect(taprootHash(SIGHASH_DEFAULT)).toBe(
+                '452fe7ca0ce577da933fd10127a47c7295f71fddaf660550939baaefc0a28214',
+            );
+            expect(taprootHash(SIGHASH_ALL)).toBe(
+                'a869b622b67dde71277f35b6e9ecfea19cf61ef78b3080854718a61c788789ff',
+            );
+            expect(taprootHash(SIGHASH_NONE)).toBe(
+                '10343e5f2785ea6bf9d0cc061ae46619189faf78b6fafde5b764fe80687ff256',
+            );
+            expect(taprootHash(SIGHASH_SINGLE)).toBe(
+                '2d0649ae682db7ac5700890144ff491bec62c9d110cc3a398f1e92007aa3c7af',
+            );
+            expect(taprootHash(SIGHASH_ALL | SIGHASH_ANYONECANPAY)).toBe(
+                '034c46f64441839a7611c990b63bf3158836126659aaef729bf2bc192ff86614',
+            );
+            expect(taprootHash(SIGHASH_NONE | SIGHASH_ANYONECANPAY)).toBe(
+                'a7feb5162cd3d52e06df895739692743d5d6e8a8b90ba107dae8b9cb029af33c',
+            );
+        });
+
+        it('should commit to the leaf hash of script-path spends', () => {
+            const tx = RawTransaction.parse(fromHex(TX));
+            const leafHash = new Uint8Array(32).fill(0xaa);
+
+            expect(
+                toHex(Sighash.taproot(tx, 0, taprootPrevouts(), SIGHASH_DEFAULT, leafHash)),
+            ).toBe('fd789d542a89d191023425e49d86fbb8c8a35311e4a518feee155ea3a9d9068d');
+        });
+
+        it('should commit to the annex', () => {
+            const tx = RawTransaction.parse(fromHex(TX));
+            const hash = Sighash.taproot(
+                tx,
+                0,
+                taprootPrevouts(),
+                SIGHASH_SINGLE | SIGHASH_ANYONECANPAY,
+                null,
+                fromHex('50ff00'),
+            );
+
+            expect(toHex(hash)).toBe(
+                '64b6ff5de7e0d2656b972f6262f506ce4b8d7e417effd6c56d1d7eb5b7322885',
+            );
+        });
+
+        it('should reject invalid hash types', () => {
+            expect(() => {
+                taprootHash(0x04);
+            }).toThrow();
+            expect(() => {
+                taprootHash(SIGHASH_ANYONECANPAY);
+            }).toThrow();
+        });
+
+        it('should reject mismatched prevouts and input indexes', () => {
+            expect(() => {
+                Sighash.taproot(RawTransaction.parse(fromHex(TX)), 0, [], SIGHASH_DEFAULT);
+            }).toThrow();
+            expect(() => {
+                Sighash.taproot(RawTransaction.parse(fromHex(TX)), 2, taprootPrevouts());
+            }).toThrow();
+        });
+    });
+});
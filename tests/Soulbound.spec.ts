@@ -0,0 +1,538 @@
+/**
+ * Test Suite: Soulbound
+ *
+ * This test suite validates the events of soulbound tokens, and that OP721Soulbound and
+ * OP20Soulbound tokens stay with the address they were minted to while only the issuer can
+ * take them back.
+ *
+ * Expected Behaviors:
+ * - Locked events encode the token id
+ * - Transfers, transferFrom and safe transfers revert and leave ownership unchanged
+ * - approve, setApprovalForAll and allowance changes revert
+ * - Signature variants revert even when the signature is valid
+ * - Batch transfers revert, while airdrops are issuer mints
+ * - Holders cannot burn their tokens
+ * - The issuer can revoke and burn tokens, other accounts cannot
+ * - locked reports every token as bound
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { OP20Soulbound } from '../runtime/contracts/OP20Soulbound';
+import { OP721Soulbound } from '../runtime/contracts/OP721Soulbound';
+import { OP20InitParameters } from '../runtime/contracts/interfaces/OP20InitParameters';
+import { ConsensusRules } from '../runtime/env/consensus/ConsensusRules';
+import { LockedEvent } from '../runtime/events/soulbound/SoulboundEvents';
+import { AddressMap } from '../runtime/generic/AddressMap';
+import { Address } from '../runtime/types/Address';
+import { DEPLOYER, setEnvironment, setSignaturesValid, toCalldata } from './utils/TestEnvironment';
+
+@final
+class TestBadge extends OP721Soulbound {
+    public mintTo(to: Address, tokenId: u32): void {
+        this._mint(to, u256.fromU32(tokenId));
+    }
+}
+
+@final
+class TestPoints extends OP20Soulbound {
+    public mintTo(to: Address, amount: u64): void {
+        this._mint(to, u256.fromU64(amount));
+    }
+}
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+const HOLDER = makeAddress(0x71);
+const OTHER = makeAddress(0x72);
+
+const badge = new TestBadge();
+const points = new TestPoints();
+setEnvironment(DEPLOYER);
+points.instantiate(new OP20InitParameters(u256.fromU64(1_000_000), 8, 'Points', 'PTS'));
+
+setEnvironment(DEPLOYER);
+badge.mintTo(HOLDER, 1);
+badge.mintTo(HOLDER, 2);
+badge.mintTo(HOLDER, 3);
+points.mintTo(HOLDER, 1000);
+points.mintTo(DEPLOYER, 500);
+
+/**
+ * Starts a transaction from `sender` in which every 64-byte signature verifies.
+ */
+function setSignedEnvironment(sender: Address): void {
+    setEnvironment(sender, 1, ConsensusRules.UNSAFE_QUANTUM_SIGNATURES_ALLOWED);
+    setSignaturesValid(true);
+}
+
+function writeSigner(w: BytesWriter, signer: Address): void {
+    w.writeAddress(signer);
+    w.writeAddress(signer);
+}
+
+function writeSignature(w: BytesWriter): void {
+    w.writeU64(100);
+    w.writeBytesWithLength(new Uint8Array(64));
+}
+
+function ownerOf(tokenId: u32): Address {
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(tokenId));
+    return toCalldata(badge.ownerOf(toCalldata(w))).readAddress();
+}
+
+function isLocked(tokenId: u32): bool {
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(tokenId));
+    return toCalldata(badge.locked(toCalldata(w))).readBoolean();
+}
+
+function badgeBalance(owner: Address): u64 {
+    const w = new BytesWriter(32);
+    w.writeAddress(owner);
+    return toCalldata(badge.balanceOf(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function burnBadge(sender: Address, tokenId: u32): void {
+    setEnvironment(sender);
+
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(tokenId));
+    badge.burn(toCalldata(w));
+}
+
+function revokeBadge(sender: Address, tokenId: u32): void {
+    setEnvironment(sender);
+
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU32(tokenId));
+    badge.revoke(toCalldata(w));
+}
+
+function pointsOf(owner: Address): u64 {
+    const w = new BytesWriter(32);
+    w.writeAddress(owner);
+    return toCalldata(points.balanceOf(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function allowance(owner: Address, spender: Address): u64 {
+    const w = new BytesWriter(64);
+    w.writeAddress(owner);
+    w.writeAddress(spender);
+    return toCalldata(points.allowance(toCalldata(w)))
+        .readU256()
+        .toU64();
+}
+
+function burnPoints(sender: Address, amount: u64): void {
+    setEnvironment(sender);
+
+    const w = new BytesWriter(32);
+    w.writeU256(u256.fromU64(amount));
+    points.burn(toCalldata(w));
+}
+
+function revokePoints(sender: Address, account: Address, amount: u64): void {
+    setEnvironment(sender);
+
+    const w = new BytesWriter(64);
+    w.writeAddress(account);
+    w.writeU256(u256.fromU64(amount));
+    points.revoke(toCalldata(w));
+}
+
+function recipients(account: Address, amount: u64): BytesWriter {
+    const map = new AddressMap<u256>();
+    map.set(account, u256.fromU64(amount));
+
+    const w = new BytesWriter(2 + 64);
+    w.writeAddressMapU256(map);
+    return w;
+}
+
+describe('Soulbound', () => {
+    describe('Events', () => {
+        it('should encode Locked', () => {
+            const event = new LockedEvent(u256.fromU32(9));
+            expect(event.eventType).toBe('Locked');
+            expect(event.length).toBe(32);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(9));
+        });
+    });
+});
+
+describe('OP721Soulbound', () => {
+    describe('Transfers', () => {
+        it('should revert transfer', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU32(1));
+                badge.transfer(toCalldata(w));
+            }).toThrow();
+
+            expect(ownerOf(1)).toStrictEqual(HOLDER);
+        });
+
+        it('should revert transferFrom', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(96);
+                w.writeAddress(HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU32(1));
+                badge.transferFrom(toCalldata(w));
+            }).toThrow();
+
+            expect(ownerOf(1)).toStrictEqual(HOLDER);
+        });
+
+        it('should revert safeTransfer and safeTransferFrom', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64 + 4);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU32(1));
+                w.writeBytesWithLength(new Uint8Array(0));
+                badge.safeTransfer(toCalldata(w));
+            }).toThrow();
+
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(96 + 4);
+                w.writeAddress(HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU32(1));
+                w.writeBytesWithLength(new Uint8Array(0));
+                badge.safeTransferFrom(toCalldata(w));
+            }).toThrow();
+
+            expect(ownerOf(1)).toStrictEqual(HOLDER);
+            expect(badgeBalance(OTHER)).toBe(0);
+        });
+    });
+
+    describe('Approvals', () => {
+        it('should revert approve', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU32(1));
+                badge.approve(toCalldata(w));
+            }).toThrow();
+        });
+
+        it('should revert setApprovalForAll', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(33);
+                w.writeAddress(OTHER);
+                w.writeBoolean(true);
+                badge.setApprovalForAll(toCalldata(w));
+            }).toThrow();
+        });
+
+        it('should revert approveBySignature with a valid signature', () => {
+            expect(() => {
+                setSignedEnvironment(OTHER);
+
+                const w = new BytesWriter(64 + 64 + 8 + 4 + 64);
+                writeSigner(w, HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU32(1));
+                writeSignature(w);
+                badge.approveBySignature(toCalldata(w));
+            }).toThrow();
+
+            setSignaturesValid(false);
+        });
+
+        it('should revert setApprovalForAllBySignature with a valid signature', () => {
+            expect(() => {
+                setSignedEnvironment(OTHER);
+
+                const w = new BytesWriter(64 + 33 + 8 + 4 + 64);
+                writeSigner(w, HOLDER);
+                w.writeAddress(OTHER);
+                w.writeBoolean(true);
+                writeSignature(w);
+                badge.setApprovalForAllBySignature(toCalldata(w));
+            }).toThrow();
+
+            setSignaturesValid(false);
+        });
+    });
+
+    describe('Burning', () => {
+        it('should report existing tokens as locked', () => {
+            expect(isLocked(1)).toBe(true);
+        });
+
+        it('should not let the holder burn', () => {
+            expect(() => {
+                burnBadge(HOLDER, 1);
+            }).toThrow();
+
+            expect(ownerOf(1)).toStrictEqual(HOLDER);
+        });
+
+        it('should not let another account revoke', () => {
+            expect(() => {
+                revokeBadge(OTHER, 1);
+            }).toThrow();
+
+            expect(() => {
+                revokeBadge(HOLDER, 1);
+            }).toThrow();
+
+            expect(ownerOf(1)).toStrictEqual(HOLDER);
+        });
+
+        it('should let the issuer revoke', () => {
+            revokeBadge(DEPLOYER, 2);
+
+            expect(badgeBalance(HOLDER)).toBe(2);
+            expect(() => {
+                ownerOf(2);
+            }).toThrow();
+        });
+
+        it('should let the issuer burn', () => {
+            burnBadge(DEPLOYER, 3);
+
+            expect(badgeBalance(HOLDER)).toBe(1);
+            expect(() => {
+                isLocked(3);
+            }).toThrow();
+        });
+    });
+});
+
+describe('OP20Soulbound', () => {
+    describe('Transfers', () => {
+        it('should revert transfer', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                points.transfer(toCalldata(w));
+            }).toThrow();
+
+            expect(pointsOf(HOLDER)).toBe(1000);
+        });
+
+        it('should revert transferFrom', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(96);
+                w.writeAddress(HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                points.transferFrom(toCalldata(w));
+            }).toThrow();
+
+            expect(pointsOf(HOLDER)).toBe(1000);
+        });
+
+        it('should revert safeTransfer and safeTransferFrom', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64 + 4);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                w.writeBytesWithLength(new Uint8Array(0));
+                points.safeTransfer(toCalldata(w));
+            }).toThrow();
+
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(96 + 4);
+                w.writeAddress(HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                w.writeBytesWithLength(new Uint8Array(0));
+                points.safeTransferFrom(toCalldata(w));
+            }).toThrow();
+
+            expect(pointsOf(HOLDER)).toBe(1000);
+            expect(pointsOf(OTHER)).toBe(0);
+        });
+
+        it('should revert batchTransfer', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+                points.batchTransfer(toCalldata(recipients(OTHER, 10)));
+            }).toThrow();
+
+            expect(pointsOf(HOLDER)).toBe(1000);
+            expect(pointsOf(OTHER)).toBe(0);
+        });
+
+        it('should revert transferBySignature with a valid signature', () => {
+            expect(() => {
+                setSignedEnvironment(OTHER);
+
+                const w = new BytesWriter(64 + 64 + 8 + 4 + 64);
+                writeSigner(w, HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                writeSignature(w);
+                points.transferBySignature(toCalldata(w));
+            }).toThrow();
+
+            setSignaturesValid(false);
+            expect(pointsOf(HOLDER)).toBe(1000);
+        });
+
+        it('should revert transferFromBySignature with a valid signature', () => {
+            expect(() => {
+                setSignedEnvironment(OTHER);
+
+                const w = new BytesWriter(64 + 96 + 8 + 4 + 64);
+                writeSigner(w, OTHER);
+                w.writeAddress(HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                writeSignature(w);
+                points.transferFromBySignature(toCalldata(w));
+            }).toThrow();
+
+            setSignaturesValid(false);
+            expect(pointsOf(HOLDER)).toBe(1000);
+        });
+    });
+
+    describe('Allowances', () => {
+        it('should revert increaseAllowance and decreaseAllowance', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                points.increaseAllowance(toCalldata(w));
+            }).toThrow();
+
+            expect(() => {
+                setEnvironment(HOLDER);
+
+                const w = new BytesWriter(64);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                points.decreaseAllowance(toCalldata(w));
+            }).toThrow();
+
+            expect(allowance(HOLDER, OTHER)).toBe(0);
+        });
+
+        it('should revert increaseAllowanceBySignature with a valid signature', () => {
+            expect(() => {
+                setSignedEnvironment(OTHER);
+
+                const w = new BytesWriter(64 + 64 + 8 + 4 + 64);
+                writeSigner(w, HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                writeSignature(w);
+                points.increaseAllowanceBySignature(toCalldata(w));
+            }).toThrow();
+
+            setSignaturesValid(false);
+            expect(allowance(HOLDER, OTHER)).toBe(0);
+        });
+
+        it('should revert decreaseAllowanceBySignature with a valid signature', () => {
+            expect(() => {
+                setSignedEnvironment(OTHER);
+
+                const w = new BytesWriter(64 + 64 + 8 + 4 + 64);
+                writeSigner(w, HOLDER);
+                w.writeAddress(OTHER);
+                w.writeU256(u256.fromU64(10));
+                writeSignature(w);
+                points.decreaseAllowanceBySignature(toCalldata(w));
+            }).toThrow();
+
+            setSignaturesValid(false);
+        });
+    });
+
+    describe('Issuance', () => {
+        it('should report balances as locked', () => {
+            expect(toCalldata(points.locked(toCalldata(new BytesWriter(0)))).readBoolean()).toBe(
+                true,
+            );
+        });
+
+        it('should not let holders airdrop', () => {
+            expect(() => {
+                setEnvironment(HOLDER);
+                points.airdrop(toCalldata(recipients(OTHER, 10)));
+            }).toThrow();
+
+            expect(pointsOf(OTHER)).toBe(0);
+        });
+
+        it('should let the issuer airdrop', () => {
+            setEnvironment(DEPLOYER);
+            points.airdrop(toCalldata(recipients(OTHER, 10)));
+
+            expect(pointsOf(OTHER)).toBe(10);
+        });
+
+        it('should not let the holder burn', () => {
+            expect(() => {
+                burnPoints(HOLDER, 10);
+            }).toThrow();
+
+            expect(pointsOf(HOLDER)).toBe(1000);
+        });
+
+        it('should not let another account revoke', () => {
+            expect(() => {
+                revokePoints(OTHER, HOLDER, 10);
+            }).toThrow();
+
+            expect(pointsOf(HOLDER)).toBe(1000);
+        });
+
+        it('should let the issuer revoke', () => {
+            revokePoints(DEPLOYER, HOLDER, 400);
+
+            expect(pointsOf(HOLDER)).toBe(600);
+        });
+
+        it('should let the issuer burn its own balance', () => {
+            burnPoints(DEPLOYER, 200);
+
+            expect(pointsOf(DEPLOYER)).toBe(300);
+        });
+    });
+});
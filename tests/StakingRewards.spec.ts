@@ -0,0 +1,188 @@
+/**
+ * Test Suite: StakingRewards
+ *
+ * This test suite validates reward-per-token accounting and staking events.
+ *
+ * Expected Behaviors:
+ * - View selectors match their method signatures
+ * - Reward per token grows by rate * blocks * 1e18 / totalStaked
+ * - Reward per token does not grow while nothing is staked
+ * - Earned rewards are the stake times the accumulator growth, plus stored rewards
+ * - Staking events encode their fields
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import {
+    EARNED_SELECTOR,
+    REWARD_PER_TOKEN_SELECTOR,
+    REWARD_PERIOD_SELECTOR,
+    REWARD_PRECISION,
+    REWARDS_TOKEN_SELECTOR,
+    StakingRewards,
+    STAKING_TOKEN_SELECTOR,
+    TOTAL_STAKED_SELECTOR,
+} from '../runtime/contracts/StakingRewards';
+import {
+    RewardAddedEvent,
+    RewardPaidEvent,
+    RewardsDurationUpdatedEvent,
+    StakedEvent,
+    WithdrawnEvent,
+} from '../runtime/events/staking/StakingEvents';
+import { encodeSelector } from '../runtime/math/abi';
+import { Address } from '../runtime/types/Address';
+import { SafeMath } from '../runtime/types/SafeMath';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+function tokens(amount: u64): u256 {
+    return SafeMath.mul(u256.fromU64(amount), REWARD_PRECISION);
+}
+
+describe('StakingRewards', () => {
+    describe('Method selectors', () => {
+        it('should have correct view selectors', () => {
+            expect(TOTAL_STAKED_SELECTOR).toBe(encodeSelector('totalStaked()'));
+            expect(EARNED_SELECTOR).toBe(encodeSelector('earned(address)'));
+            expect(REWARD_PER_TOKEN_SELECTOR).toBe(encodeSelector('rewardPerToken()'));
+            expect(REWARD_PERIOD_SELECTOR).toBe(encodeSelector('rewardPeriod()'));
+            expect(STAKING_TOKEN_SELECTOR).toBe(encodeSelector('stakingToken()'));
+            expect(REWARDS_TOKEN_SELECTOR).toBe(encodeSelector('rewardsToken()'));
+        });
+    });
+
+    describe('Reward per token', () => {
+        it('should use 1e18 precision', () => {
+            expect(REWARD_PRECISION).toStrictEqual(u256.fromU64(1000000000000000000));
+        });
+
+        it('should accumulate rate * blocks / totalStaked', () => {
+            // 100 per block for 10 blocks over 500 staked = 2 per token
+            const rewardPerToken = StakingRewards.accumulateRewardPerToken(
+                u256.Zero,
+                10,
+                20,
+                tokens(100),
+                tokens(500),
+            );
+            expect(rewardPerToken).toStrictEqual(tokens(2));
+        });
+
+        it('should add to the stored value', () => {
+            const rewardPerToken = StakingRewards.accumulateRewardPerToken(
+                tokens(3),
+                0,
+                5,
+                tokens(10),
+                tokens(50),
+            );
+            expect(rewardPerToken).toStrictEqual(tokens(4));
+        });
+
+        it('should keep fractions of a token', () => {
+            // 1 unit per block over 3 staked units = 1/3 per unit
+            const rewardPerToken = StakingRewards.accumulateRewardPerToken(
+                u256.Zero,
+                0,
+                1,
+                u256.One,
+                u256.fromU64(3),
+            );
+            expect(rewardPerToken).toStrictEqual(u256.fromU64(333333333333333333));
+        });
+
+        it('should not grow while nothing is staked', () => {
+            expect(
+                StakingRewards.accumulateRewardPerToken(tokens(7), 0, 100, tokens(10), u256.Zero),
+            ).toStrictEqual(tokens(7));
+        });
+
+        it('should not grow over an empty range', () => {
+            expect(
+                StakingRewards.accumulateRewardPerToken(tokens(7), 50, 50, tokens(10), tokens(1)),
+            ).toStrictEqual(tokens(7));
+        });
+    });
+
+    describe('Earned', () => {
+        it('should pay the stake times the accumulator growth', () => {
+            const earned = StakingRewards.earnedAt(tokens(200), tokens(5), tokens(2), u256.Zero);
+            expect(earned).toStrictEqual(tokens(600));
+        });
+
+        it('should add stored rewards', () => {
+            const earned = StakingRewards.earnedAt(tokens(200), tokens(5), tokens(2), tokens(9));
+            expect(earned).toStrictEqual(tokens(609));
+        });
+
+        it('should round down', () => {
+            // 1 unit staked at 1/3 per unit
+            const earned = StakingRewards.earnedAt(
+                u256.One,
+                u256.fromU64(333333333333333333),
+                u256.Zero,
+                u256.Zero,
+            );
+            expect(earned).toStrictEqual(u256.Zero);
+        });
+
+        it('should split rewards in proportion to stake', () => {
+            // 300 per block for 10 blocks, stakes of 100 and 200
+            const rewardPerToken = StakingRewards.accumulateRewardPerToken(
+                u256.Zero,
+                0,
+                10,
+                tokens(300),
+                tokens(300),
+            );
+
+            const a = StakingRewards.earnedAt(tokens(100), rewardPerToken, u256.Zero, u256.Zero);
+            const b = StakingRewards.earnedAt(tokens(200), rewardPerToken, u256.Zero, u256.Zero);
+            expect(a).toStrictEqual(tokens(1000));
+            expect(b).toStrictEqual(tokens(2000));
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode Staked, Withdrawn and RewardPaid', () => {
+            const staked = new StakedEvent(makeAddress(1), u256.fromU64(10));
+            const withdrawn = new WithdrawnEvent(makeAddress(2), u256.fromU64(20));
+            const paid = new RewardPaidEvent(makeAddress(3), u256.fromU64(30));
+
+            expect(staked.eventType).toBe('Staked');
+            expect(withdrawn.eventType).toBe('Withdrawn');
+            expect(paid.eventType).toBe('RewardPaid');
+            expect(staked.length).toBe(64);
+
+            const reader = new BytesReader(paid.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(3));
+            expect(reader.readU256()).toStrictEqual(u256.fromU64(30));
+        });
+
+        it('should encode RewardAdded', () => {
+            const event = new RewardAddedEvent(u256.fromU64(1000), 4420);
+            expect(event.eventType).toBe('RewardAdded');
+            expect(event.length).toBe(40);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU64(1000));
+            expect(reader.readU64()).toBe(4420);
+        });
+
+        it('should encode RewardsDurationUpdated', () => {
+            const event = new RewardsDurationUpdatedEvent(4320);
+            expect(event.eventType).toBe('RewardsDurationUpdated');
+            expect(event.length).toBe(8);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU64()).toBe(4320);
+        });
+    });
+});
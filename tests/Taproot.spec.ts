@@ -0,0 +1,206 @@
+/**
+ * Test Suite: Taproot
+ *
+ * This test suite validates taproot commitments against BIP341 test vectors.
+ *
+ * Expected Behaviors:
+ * - x-only keys lift to the point with an even y
+ * - TapLeaf and TapBranch hashes match BIP341
+ * - Internal keys are tweaked into the BIP341 output keys
+ * - Control blocks round-trip and reject invalid lengths
+ * - Script-path witnesses are accepted only for the committed leaf
+ */
+
+import { Taproot, TaprootControlBlock, TAPSCRIPT_LEAF_VERSION } from '../runtime/script/Taproot';
+import { BitcoinAddresses } from '../runtime/script/BitcoinAddresses';
+import { Segwit } from '../runtime/script/Segwit';
+import { TransactionInput } from '../runtime/env/classes/UTXO';
+import { ECPoint, GX, GY } from '../runtime/secp256k1/ECPoint';
+
+function fromHex(hex: string): Uint8Array {
+    const out = new Uint8Array(hex.length / 2);
+    for (let i: i32 = 0; i < out.length; i++) {
+        out[i] = <u8>parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return out;
+}
+
+function toHex(b: Uint8Array): string {
+    const hexChars = '0123456789abcdef';
+    let result = '';
+    for (let i: i32 = 0; i < b.length; i++) {
+        result += hexChars.charAt(b[i] >> 4) + hexChars.charAt(b[i] & 0x0f);
+    }
+    return result;
+}
+
+// BIP341 wallet test vectors
+const KEY_PATH_INTERNAL_KEY = 'd6889cb081036e0faefa3a35157ad71086b123b2b144b649798b494c300a961d';
+const KEY_PATH_OUTPUT_KEY = '53a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343';
+const SCRIPT_INTERNAL_KEY = '187791b6f712a8ea41c8ecdd0ee77fab3e85263b37e1ec18a3651926b3a6cf27';
+const SCRIPT_LEAF = '20d85a959b0290bf19bb89ed43c916be835475d013da4b362117393e25a48229b8ac';
+const SCRIPT_LEAF_HASH = '5b75adecf53548f3ec6ad7d78383bf84cc57b55a3127c72b9a2481752dd88b21';
+const SCRIPT_OUTPUT_KEY = '147c9c57132f6e7ecddba9800bb0c4449251c92a1e60371ee77557b6620f3ea3';
+
+describe('Taproot', () => {
+    describe('Hashes', () => {
+        it('should hash a tapscript leaf', () => {
+            expect(toHex(Taproot.leafHash(fromHex(SCRIPT_LEAF)))).toBe(SCRIPT_LEAF_HASH);
+        });
+
+        it('should hash branches independently of child order', () => {
+            const a = Taproot.leafHash(fromHex('51'));
+            const b = Taproot.leafHash(fromHex('52'));
+            const expected = '6496f0779f38b871013be71ee7dcce8fcdcc02afc4c688acb159fc5de2fba55e';
+
+            expect(toHex(Taproot.branchHash(a, b))).toBe(expected);
+            expect(toHex(Taproot.branchHash(b, a))).toBe(expected);
+        });
+
+        it('should promote the odd leaf when computing a Merkle root', () => {
+            const leaves = [
+                Taproot.leafHash(fromHex('51')),
+                Taproot.leafHash(fromHex('52')),
+                Taproot.leafHash(fromHex('53')),
+            ];
+
+            expect(toHex(Taproot.merkleRoot(leaves))).toBe(
+                '609f09890e4348cc5bcc26e51c432c7830162715d64aab7c306f853c9da06a7b',
+            );
+            expect(Taproot.merklePath(leaves, 2).length).toBe(1);
+            expect(toHex(Taproot.rootFromPath(leaves[0], Taproot.merklePath(leaves, 0)))).toBe(
+                toHex(Taproot.merkleRoot(leaves)),
+            );
+        });
+    });
+
+    describe('Curve arithmetic', () => {
+        it('should lift an x coordinate to the point with an even y', () => {
+            expect(ECPoint.liftX(GX).y).toStrictEqual(GY);
+        });
+    });
+
+    describe('Key tweaking', () => {
+        it('should tweak a key-path-only internal key', () => {
+            const output = Taproot.tweakPublicKey(fromHex(KEY_PATH_INTERNAL_KEY));
+            expect(toHex(output.outputKey)).toBe(KEY_PATH_OUTPUT_KEY);
+            expect(output.parity).toBe(1);
+        });
+
+        it('should tweak an internal key with a script tree', () => {
+            const output = Taproot.tweakPublicKey(
+                fromHex(SCRIPT_INTERNAL_KEY),
+                fromHex(SCRIPT_LEAF_HASH),
+            );
+            expect(toHex(output.outputKey)).toBe(SCRIPT_OUTPUT_KEY);
+            expect(output.parity).toBe(1);
+        });
+
+        it('should build P2TR addresses from internal keys', () => {
+            const address = BitcoinAddresses.p2trAddress(
+                fromHex(KEY_PATH_INTERNAL_KEY),
+                null,
+                'bc',
+            );
+            expect(address).toBe(Segwit.p2tr('bc', fromHex(KEY_PATH_OUTPUT_KEY)));
+        });
+    });
+
+    describe('Control blocks', () => {
+        it('should build the BIP341 control block', () => {
+            const block = Taproot.controlBlock(
+                fromHex(SCRIPT_INTERNAL_KEY),
+                [fromHex(SCRIPT_LEAF_HASH)],
+                0,
+            );
+            expect(toHex(block.encode())).toBe('c1' + SCRIPT_INTERNAL_KEY);
+        });
+
+        it('should round-trip a control block with a path', () => {
+            const encoded = new Uint8Array(65);
+            encoded[0] = TAPSCRIPT_LEAF_VERSION;
+            encoded[40] = 7;
+
+            const block = TaprootControlBlock.parse(encoded);
+            expect(block.leafVersion).toBe(TAPSCRIPT_LEAF_VERSION);
+            expect(block.outputKeyParity).toBe(0);
+            expect(block.path.length).toBe(1);
+            expect(toHex(block.encode())).toBe(toHex(encoded));
+        });
+
+        it('should reject control blocks with invalid lengths', () => {
+            expect(TaprootControlBlock.parseOrNull(new Uint8Array(32))).toBeNull();
+            expect(TaprootControlBlock.parseOrNull(new Uint8Array(34))).toBeNull();
+        });
+    });
+
+    describe('Script-path spends', () => {
+        it('should accept a witness spending the committed leaf', () => {
+            const control = fromHex('c1' + SCRIPT_INTERNAL_KEY);
+            const witnesses: Uint8Array[] = [new Uint8Array(64), fromHex(SCRIPT_LEAF), control];
+
+            expect(
+                Taproot.verifyScriptPathSpend(
+                    witnesses,
+                    fromHex(SCRIPT_OUTPUT_KEY),
+                    fromHex(SCRIPT_LEAF),
+                ),
+            ).toBe(true);
+        });
+
+        it('should ignore the annex', () => {
+            const annex = fromHex('50aa');
+            const witnesses: Uint8Array[] = [
+                fromHex(SCRIPT_LEAF),
+                fromHex('c1' + SCRIPT_INTERNAL_KEY),
+                annex,
+            ];
+
+            expect(
+                Taproot.verifyScriptPathSpend(
+                    witnesses,
+                    fromHex(SCRIPT_OUTPUT_KEY),
+                    fromHex(SCRIPT_LEAF),
+                ),
+            ).toBe(true);
+        });
+
+        it('should reject another leaf, a wrong parity and key-path spends', () => {
+            const control = fromHex('c1' + SCRIPT_INTERNAL_KEY);
+            const wrongParity = fromHex('c0' + SCRIPT_INTERNAL_KEY);
+            const outputKey = fromHex(SCRIPT_OUTPUT_KEY);
+
+            expect(
+                Taproot.verifyScriptPathSpend([fromHex('51'), control], outputKey, fromHex('51')),
+            ).toBe(false);
+            expect(
+                Taproot.verifyScriptPathSpend(
+                    [fromHex(SCRIPT_LEAF), wrongParity],
+                    outputKey,
+                    fromHex(SCRIPT_LEAF),
+                ),
+            ).toBe(false);
+            expect(
+                Taproot.verifyScriptPathSpend(
+                    [new Uint8Array(64)],
+                    outputKey,
+                    fromHex(SCRIPT_LEAF),
+                ),
+            ).toBe(false);
+        });
+
+        it('should check transaction input witnesses', () => {
+            const input = new TransactionInput(
+                0,
+                new Uint8Array(32),
+                0,
+                new Uint8Array(0),
+                null,
+                null,
+            );
+            expect(
+                Taproot.inputSpendsLeaf(input, fromHex(SCRIPT_OUTPUT_KEY), fromHex(SCRIPT_LEAF)),
+            ).toBe(false);
+        });
+    });
+});
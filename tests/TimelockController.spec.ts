@@ -0,0 +1,151 @@
+/**
+ * Test Suite: TimelockController
+ *
+ * This test suite validates the roles and events of the TimelockController.
+ *
+ * Expected Behaviors:
+ * - Roles are the sha256 of their names and never collide with the admin role
+ * - After instantiate the timelock, not the deployer, holds the admin role
+ * - Timelock events encode operation ids, call indexes and delays
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { TimelockController } from '../runtime/contracts/TimelockController';
+import { AccessControlPlugin } from '../runtime/plugins/AccessControlPlugin';
+import {
+    CallExecutedEvent,
+    CallScheduledEvent,
+    CancelledEvent,
+    MinDelayChangeEvent,
+} from '../runtime/events/timelock/TimelockEvents';
+import { sha256String } from '../runtime/env/global';
+import { Address } from '../runtime/types/Address';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { BytesWriter } from '../runtime/buffer/BytesWriter';
+import { OP_NET } from '../runtime/contracts/OP_NET';
+import { Blockchain } from '../runtime/env';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+@final
+class TestTimelock extends TimelockController {
+    public isAdmin(account: Address): bool {
+        return this.roles.hasRole(AccessControlPlugin.DEFAULT_ADMIN_ROLE, account);
+    }
+}
+
+const REGTEST_CHAIN_ID: u8[] = [
+    0x0f, 0x91, 0x88, 0xf1, 0x3c, 0xb7, 0xb2, 0xc7, 0x1f, 0x2a, 0x33, 0x5e, 0x3a, 0x4f, 0xc3, 0x28,
+    0xbf, 0x5b, 0xeb, 0x43, 0x60, 0x12, 0xaf, 0xca, 0x59, 0x0b, 0x1a, 0x11, 0x46, 0x6e, 0x22, 0x06,
+];
+
+function deployTimelock(contractAddress: Address, deployer: Address): TestTimelock {
+    const env = new BytesWriter(344);
+    env.writeBytes(new Uint8Array(32)); // block hash
+    env.writeU64(100); // block number
+    env.writeU64(0); // median time
+    env.writeBytes(new Uint8Array(32)); // tx id
+    env.writeBytes(new Uint8Array(32)); // tx hash
+    env.writeAddress(contractAddress);
+    env.writeAddress(deployer);
+    env.writeAddress(deployer); // caller
+    env.writeAddress(deployer); // origin
+    env.writeBytes(Uint8Array.wrap(changetype<ArrayBuffer>(REGTEST_CHAIN_ID.dataStart)));
+    env.writeBytes(new Uint8Array(32)); // protocol id
+    env.writeAddress(deployer); // origin tweaked public key
+    env.writeU64(0); // consensus flags
+
+    Blockchain.contract = (): OP_NET => new TestTimelock();
+    Blockchain.setEnvironmentVariables(env.getBuffer());
+
+    const timelock = changetype<TestTimelock>(Blockchain.contract);
+    timelock.onDeployment(new BytesReader(new Uint8Array(0)));
+    return timelock;
+}
+
+describe('TimelockController', () => {
+    describe('Roles', () => {
+        it('should derive roles from their names', () => {
+            expect(TimelockController.PROPOSER_ROLE).toStrictEqual(
+                u256.fromUint8ArrayBE(sha256String('PROPOSER_ROLE')),
+            );
+            expect(TimelockController.EXECUTOR_ROLE).toStrictEqual(
+                u256.fromUint8ArrayBE(sha256String('EXECUTOR_ROLE')),
+            );
+            expect(TimelockController.CANCELLER_ROLE).toStrictEqual(
+                u256.fromUint8ArrayBE(sha256String('CANCELLER_ROLE')),
+            );
+        });
+
+        it('should keep roles distinct from each other and the admin role', () => {
+            expect(TimelockController.PROPOSER_ROLE == TimelockController.EXECUTOR_ROLE).toBe(
+                false,
+            );
+            expect(TimelockController.EXECUTOR_ROLE == TimelockController.CANCELLER_ROLE).toBe(
+                false,
+            );
+            expect(TimelockController.PROPOSER_ROLE == AccessControlPlugin.DEFAULT_ADMIN_ROLE).toBe(
+                false,
+            );
+        });
+    });
+
+    describe('Instantiate', () => {
+        it('should move the admin role from the deployer to the timelock', () => {
+            const timelock = deployTimelock(makeAddress(9), makeAddress(8));
+            expect(timelock.isAdmin(makeAddress(8))).toBe(true);
+
+            timelock.instantiate(144, [makeAddress(1)], [makeAddress(2)]);
+            expect(timelock.isAdmin(makeAddress(8))).toBe(false);
+            expect(timelock.isAdmin(makeAddress(9))).toBe(true);
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode CallScheduled', () => {
+            const event = new CallScheduledEvent(
+                u256.fromU32(7),
+                2,
+                makeAddress(1),
+                u256.fromU32(3),
+                1000,
+            );
+            expect(event.eventType).toBe('CallScheduled');
+            expect(event.length).toBe(108);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(7));
+            expect(reader.readU32()).toBe(2);
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU256()).toStrictEqual(u256.fromU32(3));
+            expect(reader.readU64()).toBe(1000);
+        });
+
+        it('should encode CallExecuted', () => {
+            const event = new CallExecutedEvent(u256.fromU32(7), 1, makeAddress(2));
+            expect(event.eventType).toBe('CallExecuted');
+            expect(event.length).toBe(68);
+        });
+
+        it('should encode Cancelled with the id', () => {
+            const event = new CancelledEvent(u256.fromU32(7));
+            expect(event.eventType).toBe('Cancelled');
+            expect(event.length).toBe(32);
+        });
+
+        it('should encode MinDelayChange as old and new delay', () => {
+            const event = new MinDelayChangeEvent(144, 288);
+            expect(event.eventType).toBe('MinDelayChange');
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readU64()).toBe(144);
+            expect(reader.readU64()).toBe(288);
+        });
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Test Suite: VestingWallet
+ *
+ * This test suite validates vesting curves and vesting events.
+ *
+ * Expected Behaviors:
+ * - Nothing vests before the start block or the cliff
+ * - Linear schedules vest every block, rounded down
+ * - Step schedules vest once per completed step period
+ * - Everything is vested from start + duration
+ * - Vesting events encode their fields
+ */
+
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import { BytesReader } from '../runtime/buffer/BytesReader';
+import { VestingSchedule } from '../runtime/contracts/interfaces/VestingSchedule';
+import { VestingWallet } from '../runtime/contracts/VestingWallet';
+import {
+    TokensReleasedEvent,
+    VestingScheduleCreatedEvent,
+    VestingScheduleRevokedEvent,
+} from '../runtime/events/vesting/VestingEvents';
+import { Address } from '../runtime/types/Address';
+
+function makeAddress(fill: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(fill);
+    }
+    return new Address(bytes);
+}
+
+function vested(schedule: VestingSchedule, blockNumber: u64): u64 {
+    return VestingWallet.vestedAt(schedule, blockNumber).toU64();
+}
+
+describe('VestingWallet', () => {
+    describe('Linear schedules', () => {
+        it('should vest nothing before the start block', () => {
+            const schedule = new VestingSchedule(u256.fromU64(1000), 100, 0, 100);
+            expect(vested(schedule, 0)).toBe(0);
+            expect(vested(schedule, 99)).toBe(0);
+            expect(vested(schedule, 100)).toBe(0);
+        });
+
+        it('should vest every block', () => {
+            const schedule = new VestingSchedule(u256.fromU64(1000), 100, 0, 100);
+            expect(vested(schedule, 101)).toBe(10);
+            expect(vested(schedule, 150)).toBe(500);
+            expect(vested(schedule, 199)).toBe(990);
+        });
+
+        it('should round down', () => {
+            const schedule = new VestingSchedule(u256.fromU64(10), 0, 0, 3);
+            expect(vested(schedule, 1)).toBe(3);
+            expect(vested(schedule, 2)).toBe(6);
+        });
+
+        it('should be fully vested from the end block', () => {
+            const schedule = new VestingSchedule(u256.fromU64(1000), 100, 0, 100);
+            expect(vested(schedule, 200)).toBe(1000);
+            expect(vested(schedule, 1000000)).toBe(1000);
+        });
+    });
+
+    describe('Cliff', () => {
+        it('should vest nothing before the cliff', () => {
+            const schedule = new VestingSchedule(u256.fromU64(1200), 0, 30, 120);
+            expect(vested(schedule, 29)).toBe(0);
+        });
+
+        it('should vest everything accrued since start at the cliff', () => {
+            const schedule = new VestingSchedule(u256.fromU64(1200), 0, 30, 120);
+            expect(vested(schedule, 30)).toBe(300);
+            expect(vested(schedule, 31)).toBe(310);
+        });
+
+        it('should allow a cliff as long as the duration', () => {
+            const schedule = new VestingSchedule(u256.fromU64(1200), 0, 120, 120);
+            expect(vested(schedule, 119)).toBe(0);
+            expect(vested(schedule, 120)).toBe(1200);
+        });
+    });
+
+    describe('Step schedules', () => {
+        it('should vest once per completed step', () => {
+            const schedule = new VestingSchedule(u256.fromU64(400), 10, 0, 40, 10);
+            expect(vested(schedule, 19)).toBe(0);
+            expect(vested(schedule, 20)).toBe(100);
+            expect(vested(schedule, 29)).toBe(100);
+            expect(vested(schedule, 30)).toBe(200);
+            expect(vested(schedule, 49)).toBe(300);
+            expect(vested(schedule, 50)).toBe(400);
+        });
+
+        it('should release the last partial step at the end', () => {
+            const schedule = new VestingSchedule(u256.fromU64(100), 0, 0, 25, 10);
+            expect(vested(schedule, 24)).toBe(80);
+            expect(vested(schedule, 25)).toBe(100);
+        });
+    });
+
+    describe('Large amounts', () => {
+        it('should revert when the amount overflows', () => {
+            expect(() => {
+                VestingWallet.vestedAt(new VestingSchedule(u256.Max, 0, 0, 10), 5);
+            }).toThrow();
+        });
+    });
+
+    describe('Events', () => {
+        it('should encode VestingScheduleCreated', () => {
+            const event = new VestingScheduleCreatedEvent(
+                makeAddress(1),
+                u256.fromU64(1000),
+                100,
+                10,
+                200,
+                5,
+                true,
+            );
+            expect(event.eventType).toBe('VestingScheduleCreated');
+            expect(event.length).toBe(97);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(1));
+            expect(reader.readU256()).toStrictEqual(u256.fromU64(1000));
+            expect(reader.readU64()).toBe(100);
+            expect(reader.readU64()).toBe(10);
+            expect(reader.readU64()).toBe(200);
+            expect(reader.readU64()).toBe(5);
+            expect(reader.readBoolean()).toBe(true);
+        });
+
+        it('should encode TokensReleased', () => {
+            const event = new TokensReleasedEvent(makeAddress(2), u256.fromU64(77));
+            expect(event.eventType).toBe('TokensReleased');
+            expect(event.length).toBe(64);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(2));
+            expect(reader.readU256()).toStrictEqual(u256.fromU64(77));
+        });
+
+        it('should encode VestingScheduleRevoked', () => {
+            const event = new VestingScheduleRevokedEvent(makeAddress(3), u256.fromU64(55));
+            expect(event.eventType).toBe('VestingScheduleRevoked');
+            expect(event.length).toBe(64);
+
+            const reader = new BytesReader(event.getEventData());
+            expect(reader.readAddress()).toStrictEqual(makeAddress(3));
+            expect(reader.readU256()).toStrictEqual(u256.fromU64(55));
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import { BytesReader } from '../../runtime/buffer/BytesReader';
+import { BytesWriter } from '../../runtime/buffer/BytesWriter';
+import { OP_NET } from '../../runtime/contracts/OP_NET';
+import { Blockchain } from '../../runtime/env';
+import { Calldata } from '../../runtime/types';
+import { Address } from '../../runtime/types/Address';
+
+/**
+ * Helpers for tests that run contract methods.
+ *
+ * The environment is the one a deployed contract sees: every call to `setEnvironment`
+ * starts a new transaction from `sender` at `blockNumber`. Cross-contract calls, account
+ * types and transaction outputs are served by the host in as-pect.config.js, which tests
+ * program through the functions below.
+ *
+ * Storage is not reset between tests, so each test should use its own accounts and ids.
+ */
+
+@external('testing', 'setAccountType')
+declare function _setAccountType(address: usize, type: u32): void;
+
+@external('testing', 'mockCall')
+declare function _mockCall(
+    address: usize,
+    selector: u32,
+    status: u32,
+    data: usize,
+    dataLength: u32,
+): void;
+
+@external('testing', 'clearMocks')
+declare function _clearMocks(): void;
+
+@external('testing', 'callCount')
+declare function _callCount(address: usize, selector: u32): u32;
+
+@external('testing', 'lastCallLength')
+declare function _lastCallLength(address: usize, selector: u32): u32;
+
+@external('testing', 'lastCall')
+declare function _lastCall(address: usize, selector: u32, result: usize): void;
+
+@external('testing', 'setOutputs')
+declare function _setOutputs(data: usize, dataLength: u32): void;
+
+@external('testing', 'setSignaturesValid')
+declare function _setSignaturesValid(valid: bool): void;
+
+const REGTEST_CHAIN_ID: u8[] = [
+    0x0f, 0x91, 0x88, 0xf1, 0x3c, 0xb7, 0xb2, 0xc7, 0x1f, 0x2a, 0x33, 0x5e, 0x3a, 0x4f, 0xc3, 0x28,
+    0xbf, 0x5b, 0xeb, 0x43, 0x60, 0x12, 0xaf, 0xca, 0x59, 0x0b, 0x1a, 0x11, 0x46, 0x6e, 0x22, 0x06,
+];
+
+function fill(value: u8): Address {
+    const bytes: u8[] = [];
+    for (let i: i32 = 0; i < 32; i++) {
+        bytes.push(value);
+    }
+    return new Address(bytes);
+}
+
+/** Address of the contract under test. */
+export const CONTRACT_ADDRESS: Address = fill(0xc0);
+
+/** Deployer of the contract under test. */
+export const DEPLOYER: Address = fill(0xde);
+
+let transactionCount: u64 = 0;
+
+/**
+ * Starts a new transaction sent by `sender` at `blockNumber` under `consensusFlags`. Every
+ * transaction gets its own id and hash.
+ */
+export function setEnvironment(
+    sender: Address,
+    blockNumber: u64 = 1,
+    consensusFlags: u64 = 0,
+): void {
+    transactionCount++;
+
+    const txId = new BytesWriter(32);
+    txId.writeU64(transactionCount);
+
+    const env = new BytesWriter(344);
+    env.writeBytes(new Uint8Array(32)); // block hash
+    env.writeU64(blockNumber);
+    env.writeU64(0); // median time
+    env.writeBytes(txId.getBuffer()); // tx id
+    env.writeBytes(txId.getBuffer()); // tx hash
+    env.writeAddress(CONTRACT_ADDRESS);
+    env.writeAddress(DEPLOYER);
+    env.writeAddress(sender); // caller
+    env.writeAddress(sender); // origin
+    env.writeBytes(Uint8Array.wrap(changetype<ArrayBuffer>(REGTEST_CHAIN_ID.dataStart)));
+    env.writeBytes(new Uint8Array(32)); // protocol id
+    env.writeAddress(sender); // origin tweaked public key
+    env.writeU64(consensusFlags);
+
+    Blockchain.contract = (): OP_NET => new OP_NET();
+    Blockchain.setEnvironmentVariables(env.getBuffer());
+}
+
+/**
+ * Turns written arguments into the calldata a method receives.
+ */
+export function toCalldata(writer: BytesWriter): Calldata {
+    return new BytesReader(writer.getBuffer());
+}
+
+/**
+ * Reports `address` as a contract, so tokens run their receiver hooks on it.
+ */
+export function setContract(address: Address): void {
+    _setAccountType(address.dataStart, 1);
+}
+
+/**
+ * Answers calls of `selector` on `address` with `response`, or fails them when
+ * `success` is false. Calls that are not mocked succeed with an empty response.
+ */
+export function mockCall(
+    address: Address,
+    selector: u32,
+    response: BytesWriter,
+    success: bool = true,
+): void {
+    const data = response.getBuffer();
+    _mockCall(address.dataStart, selector, success ? 0 : 1, data.dataStart, data.length);
+}
+
+/**
+ * Forgets mocked calls, recorded calls, account types and transaction outputs.
+ */
+export function clearMocks(): void {
+    _clearMocks();
+}
+
+/**
+ * Returns how many times `selector` was called on `address`.
+ */
+export function callCount(address: Address, selector: u32): u32 {
+    return _callCount(address.dataStart, selector);
+}
+
+/**
+ * Returns the calldata of the last call of `selector` on `address`, after the selector.
+ */
+export function lastCall(address: Address, selector: u32): BytesReader {
+    const data = new Uint8Array(_lastCallLength(address.dataStart, selector));
+    _lastCall(address.dataStart, selector, data.dataStart);
+
+    const reader = new BytesReader(data);
+    reader.readSelector();
+    return reader;
+}
+
+/**
+ * Sets the outputs of the transactions that follow, encoded as the host sends them.
+ */
+export function setOutputs(outputs: BytesWriter): void {
+    const data = outputs.getBuffer();
+    _setOutputs(data.dataStart, data.length);
+}
+
+/**
+ * Makes every signature check pass or fail.
+ */
+export function setSignaturesValid(valid: bool): void {
+    _setSignaturesValid(valid);
+}